@@ -14,38 +14,289 @@ export class ExternalBlob {
     static fromBytes(blob: Uint8Array<ArrayBuffer>): ExternalBlob;
     withUploadProgress(onProgress: (percentage: number) => void): ExternalBlob;
 }
-export interface BarcodeExportRequest {
-    exportType: BarcodeExportFormat;
+export interface OrderLineInput {
     productId: bigint;
+    quantity: bigint;
+    unitPrice: bigint;
 }
-export interface Product {
-    inventoryStatus: InventoryStatus;
+export interface ProductAttributes {
+    categoryId?: bigint;
+    tags: Array<string>;
+    season: string;
+    brand: string;
+    fabric: string;
+}
+export interface DataEntry {
+    id: bigint;
+    created: Time;
+    modified: Time;
+    entryId: bigint;
+    quantity: bigint;
+    entityType: string;
+    amount: bigint;
+}
+export interface Stats {
+    totalOrders: bigint;
+    totalInventory: bigint;
+    totalRevenue: bigint;
+    totalCustomers: bigint;
+}
+export interface ReportDateRange {
+    endDate: Time;
+    startDate: Time;
+}
+export interface OrderLine {
+    lineTotal: bigint;
+    productId: bigint;
+    quantity: bigint;
+    unitPrice: bigint;
+}
+export interface CreditNoteLine {
+    tax: bigint;
+    lineIndex: bigint;
+    damaged: boolean;
+    cgst: bigint;
+    igst: bigint;
+    taxableValue: bigint;
+    sgst: bigint;
+    hsnCode: string;
+    productId: bigint;
+    quantity: bigint;
+    unitPrice: bigint;
+    taxRate: bigint;
+}
+export interface TaxSlabRule {
+    threshold: bigint;
+    highRate: bigint;
+    lowRate: bigint;
+}
+export interface ApprovalRequest {
+    status: UserApprovalStatus;
+    principal: Principal;
+    timestamp: Time;
+}
+export interface Quotation {
+    tax: bigint;
+    status: QuotationStatus;
+    quotationId: bigint;
+    created: Time;
+    total: bigint;
+    createdBy: Principal;
+    invoiceId?: bigint;
+    lines: Array<InvoiceLine>;
+    lastModified: Time;
+    interState: boolean;
+    notes: string;
+    customerId: bigint;
+    placeOfSupply: string;
+    orderIds: Array<bigint>;
+    validUntil: Time;
+}
+export interface BootstrapStatus {
+    canisterStatus?: SystemStatus;
+    backendAvailable: boolean;
+    jsonSupport: boolean;
+}
+export interface ProductImportRow {
+    mrp: bigint;
     name: string;
+    wholesalePrice: bigint;
     color: string;
     rack: string;
     size: string;
     description: string;
-    productId: bigint;
+    hsnCode: string;
     shelf: string;
+    attributes: ProductAttributes;
     barcode: string;
     stockLevel: bigint;
     price: bigint;
+    costPrice: bigint;
     warehouse: string;
-    supplierId?: bigint;
-    images: Array<ExternalBlob>;
+    taxSlab: TaxSlabRule;
 }
-export type Time = bigint;
-export interface Stats {
-    totalOrders: bigint;
-    totalInventory: bigint;
-    totalRevenue: bigint;
-    totalCustomers: bigint;
+export interface InventoryLocation {
+    rack: string;
+    shelf: string;
+    warehouse: string;
 }
-export interface ReportDateRange {
-    endDate: Time;
-    startDate: Time;
+export interface ExpenseCategoryTotal {
+    category: ExpenseCategory;
+    amount: bigint;
+}
+export interface TaxonomyTerm {
+    kind: TaxonomyTermKind;
+    name: string;
+    termId: bigint;
+}
+export interface StockMovement {
+    movementId: bigint;
+    balance: bigint;
+    reference: string;
+    productId: bigint;
+    recordedBy: Principal;
+    timestamp: Time;
+    delta: bigint;
+    reason: StockMovementReason;
+}
+export interface ProductCategory {
+    categoryId: bigint;
+    name: string;
+    parentId?: bigint;
+}
+export interface ExpenseInput {
+    expenseDate: Time;
+    receipt?: ExternalBlob;
+    mode: PaymentMode;
+    description: string;
+    category: ExpenseCategory;
+    amount: bigint;
+}
+export interface BarcodeBatchExportRequest {
+    productIds: Array<bigint>;
+    exportType: BarcodeExportFormat;
+}
+export interface OrderRecord {
+    id: bigint;
+    status: OrderStatus;
+    created: Time;
+    modified: Time;
+    invoiceId?: bigint;
+    statusHistory: Array<OrderStatusChange>;
+    lines: Array<OrderLine>;
+    stockReserved: boolean;
+    customerId: bigint;
+    totalPrice: bigint;
+}
+export interface GoodsReceipt {
+    grnNumber: string;
+    created: Time;
+    goodsReceiptId: bigint;
+    createdBy: Principal;
+    purchaseOrderId?: bigint;
+    lines: Array<GoodsReceiptLine>;
+    notes: string;
+    batch: string;
+    supplierId: bigint;
+    inventoryIds: Array<bigint>;
+}
+export interface Payment {
+    created: Time;
+    mode: PaymentMode;
+    reference: string;
+    invoiceId: bigint;
+    recordedBy: Principal;
+    paymentId: bigint;
+    paymentDate: Time;
+    amount: bigint;
+}
+export interface Expense {
+    expenseDate: Time;
+    created: Time;
+    receipt?: ExternalBlob;
+    expenseId: bigint;
+    mode: PaymentMode;
+    description: string;
+    recordedBy: Principal;
+    lastModified: Time;
+    category: ExpenseCategory;
+    amount: bigint;
+}
+export interface PurchaseOrderLine {
+    unit: string;
+    lineTotal: bigint;
+    description: string;
+    productId?: bigint;
+    quantity: bigint;
+    unitCost: bigint;
+}
+export interface DispatchInput {
+    vehicleNumber: string;
+    dispatchDate: Time;
+    lrNumber: string;
+    packageCount: bigint;
+    transporterName: string;
+}
+export interface Notification {
+    title: string;
+    userId: Principal;
+    isRead: boolean;
+    message: string;
+    timestamp: Time;
+    notificationId: bigint;
+}
+export interface PurchaseOrderLineInput {
+    unit: string;
+    description: string;
+    productId?: bigint;
+    quantity: bigint;
+    unitCost: bigint;
+}
+export interface CreditNote {
+    tax: bigint;
+    created: Time;
+    total: bigint;
+    createdBy: Principal;
+    invoiceId: bigint;
+    lines: Array<CreditNoteLine>;
+    interState: boolean;
+    invoiceNumber: string;
+    customerId: bigint;
+    creditNoteId: bigint;
+    reason: string;
+    creditNoteNumber: string;
+}
+export interface ProductImportSummary {
+    created: bigint;
+    updated: bigint;
+}
+export interface Supplier {
+    paymentTermsDays: bigint;
+    created: Time;
+    modified: Time;
+    name: string;
+    contactPerson: string;
+    email: string;
+    state: string;
+    gstin: string;
+    address: string;
+    phone: string;
+    supplierId: bigint;
+}
+export interface Dispatch {
+    challanNumber: string;
+    status: DispatchStatus;
+    created: Time;
+    vehicleNumber: string;
+    createdBy: Principal;
+    dispatchId: bigint;
+    dispatchDate: Time;
+    deliveryDate?: Time;
+    orderId: bigint;
+    lastModified: Time;
+    lrNumber: string;
+    packageCount: bigint;
+    transporterName: string;
+}
+export interface UserProfile {
+    appRole: AppRole;
+    name: string;
+    email: string;
+    department: string;
+}
+export interface BarcodeExportRequest {
+    exportType: BarcodeExportFormat;
+    productId: bigint;
+}
+export type Time = bigint;
+export interface InvoiceLineInput {
+    productId: bigint;
+    discount: bigint;
+    quantity: bigint;
+    unitPrice: bigint;
 }
 export interface ProfitLossReport {
+    expenseBreakdown: Array<ExpenseCategoryTotal>;
     reportDateRange: ReportDateRange;
     revenue: bigint;
     grossProfit: bigint;
@@ -53,24 +304,31 @@ export interface ProfitLossReport {
     expenses: bigint;
     netProfit: bigint;
 }
-export interface DataEntry {
-    id: bigint;
+export interface ProductStyle {
+    styleId: bigint;
     created: Time;
-    modified: Time;
-    entryId: bigint;
-    quantity: bigint;
-    entityType: string;
-    amount: bigint;
+    name: string;
+    hsnCode: string;
+    sizes: Array<string>;
+    attributes: ProductAttributes;
+    colors: Array<string>;
+    articleNumber: string;
+    taxSlab: TaxSlabRule;
 }
-export interface ApprovalRequest {
-    status: UserApprovalStatus;
-    principal: Principal;
-    timestamp: Time;
+export interface GoodsReceiptLineInput {
+    rejectedQuantity: bigint;
+    unit: string;
+    description: string;
+    productId?: bigint;
+    receivedQuantity: bigint;
+    purchaseOrderLine?: bigint;
 }
-export interface BootstrapStatus {
-    canisterStatus?: SystemStatus;
-    backendAvailable: boolean;
-    jsonSupport: boolean;
+export interface BankDetails {
+    branch: string;
+    ifsc: string;
+    bankName: string;
+    accountName: string;
+    accountNumber: string;
 }
 export interface AppBootstrapState {
     isApproved: boolean;
@@ -86,14 +344,49 @@ export interface InventoryRecord {
     batch: string;
     supplierId: bigint;
 }
-export interface InventoryLocation {
-    rack: string;
-    shelf: string;
-    warehouse: string;
+export interface OrderStatusChange {
+    status: OrderStatus;
+    changedAt: Time;
 }
-export interface BarcodeBatchExportRequest {
-    productIds: Array<bigint>;
-    exportType: BarcodeExportFormat;
+export interface CompanySettings {
+    pan: string;
+    stateCode: string;
+    bankDetails: BankDetails;
+    tagline: string;
+    primaryColor: string;
+    email: string;
+    website: string;
+    accentColor: string;
+    legalName: string;
+    invoiceFooterTerms: string;
+    gstin: string;
+    address: string;
+    upiId: string;
+    phone: string;
+}
+export interface PurchaseOrder {
+    status: PurchaseOrderStatus;
+    created: Time;
+    total: bigint;
+    createdBy: Principal;
+    purchaseOrderId: bigint;
+    lines: Array<PurchaseOrderLine>;
+    lastModified: Time;
+    notes: string;
+    expectedDate: Time;
+    poNumber: string;
+    supplierId: bigint;
+}
+export interface GoodsReceiptLine {
+    rejectedQuantity: bigint;
+    unit: string;
+    description: string;
+    productId?: bigint;
+    receivedQuantity: bigint;
+    pendingQuantity: bigint;
+    orderedQuantity: bigint;
+    acceptedQuantity: bigint;
+    purchaseOrderLine?: bigint;
 }
 export interface InvoiceFilter {
     paymentStatus?: T;
@@ -101,15 +394,24 @@ export interface InvoiceFilter {
     invoiceDateRange?: ReportDateRange;
     searchQuery?: string;
 }
-export interface OrderRecord {
-    id: bigint;
-    status: string;
-    created: Time;
-    modified: Time;
-    productId: bigint;
+export interface ProductStyleInput {
+    mrp: bigint;
+    name: string;
+    wholesalePrice: bigint;
+    description: string;
+    hsnCode: string;
+    sizes: Array<string>;
+    attributes: ProductAttributes;
+    colors: Array<string>;
+    price: bigint;
+    costPrice: bigint;
+    articleNumber: string;
+    taxSlab: TaxSlabRule;
+}
+export interface VariantQuantity {
+    color: string;
+    size: string;
     quantity: bigint;
-    customerId: bigint;
-    totalPrice: bigint;
 }
 export interface Invoice {
     tax: bigint;
@@ -120,23 +422,38 @@ export interface Invoice {
     stockAdjusted: boolean;
     dueDate?: Time;
     invoiceId: bigint;
-    productId: bigint;
+    lines: Array<InvoiceLine>;
+    amountPaid: bigint;
     lastModified: Time;
+    interState: boolean;
     imageUrl?: string;
+    invoiceNumber: string;
     pdfUrl?: string;
     paymentDate?: Time;
-    quantity: bigint;
     customerId: bigint;
+    placeOfSupply: string;
     orderIds: Array<bigint>;
-    price: bigint;
+    creditedAmount: bigint;
     inventoryIds: Array<bigint>;
 }
 export interface Customer {
     id: bigint;
+    paymentTermsDays: bigint;
     created: Time;
     modified: Time;
     name: string;
     email: string;
+    state: string;
+    address: string;
+    phone: string;
+}
+export interface SupplierInput {
+    paymentTermsDays: bigint;
+    name: string;
+    contactPerson: string;
+    email: string;
+    state: string;
+    gstin: string;
     address: string;
     phone: string;
 }
@@ -144,19 +461,54 @@ export interface UserApprovalInfo {
     status: ApprovalStatus;
     principal: Principal;
 }
-export interface Notification {
-    title: string;
-    userId: Principal;
-    isRead: boolean;
-    message: string;
-    timestamp: Time;
-    notificationId: bigint;
+export interface InvoiceLine {
+    tax: bigint;
+    cgst: bigint;
+    igst: bigint;
+    sgst: bigint;
+    hsnCode: string;
+    productId: bigint;
+    discount: bigint;
+    quantity: bigint;
+    unitPrice: bigint;
+    taxRate: bigint;
+    unitCost: bigint;
 }
-export interface UserProfile {
-    appRole: AppRole;
+export interface CreditNoteLineInput {
+    lineIndex: bigint;
+    damaged: boolean;
+    quantity: bigint;
+}
+export interface ProductPriceRevision {
+    mrp?: bigint;
+    wholesalePrice?: bigint;
+    productId: bigint;
+    price?: bigint;
+}
+export interface Product {
+    mrp: bigint;
+    styleId?: bigint;
+    inventoryStatus: InventoryStatus;
     name: string;
-    email: string;
-    department: string;
+    wholesalePrice: bigint;
+    color: string;
+    rack: string;
+    size: string;
+    description: string;
+    hsnCode: string;
+    productId: bigint;
+    shelf: string;
+    reservedStock: bigint;
+    attributes: ProductAttributes;
+    barcode: string;
+    stockLevel: bigint;
+    price: bigint;
+    costPrice: bigint;
+    warehouse: string;
+    supplierId?: bigint;
+    archived: boolean;
+    taxSlab: TaxSlabRule;
+    images: Array<ExternalBlob>;
 }
 export enum AppRole {
     accountant = "accountant",
@@ -168,14 +520,60 @@ export enum BarcodeExportFormat {
     pdf = "pdf",
     png = "png"
 }
+export enum DispatchStatus {
+    dispatched = "dispatched",
+    inTransit = "inTransit",
+    delivered = "delivered"
+}
+export enum ExpenseCategory {
+    other = "other",
+    marketing = "marketing",
+    rent = "rent",
+    transport = "transport",
+    electricity = "electricity",
+    maintenance = "maintenance",
+    salaries = "salaries",
+    packaging = "packaging"
+}
 export enum InventoryStatus {
     low = "low",
     inStock = "inStock",
     outOfStock = "outOfStock"
 }
-export enum InvoiceExportFormat {
-    pdf = "pdf",
-    excel = "excel"
+export enum OrderStatus {
+    cancelled = "cancelled",
+    pending = "pending",
+    fulfilled = "fulfilled",
+    processing = "processing"
+}
+export enum PaymentMode {
+    upi = "upi",
+    cash = "cash",
+    bankTransfer = "bankTransfer",
+    cheque = "cheque"
+}
+export enum PurchaseOrderStatus {
+    cancelled = "cancelled",
+    ordered = "ordered",
+    partiallyReceived = "partiallyReceived",
+    draft = "draft",
+    received = "received"
+}
+export enum QuotationStatus {
+    expired = "expired",
+    sent = "sent",
+    accepted = "accepted",
+    draft = "draft"
+}
+export enum StockMovementReason {
+    theft = "theft",
+    damage = "damage",
+    salesReturn = "salesReturn",
+    opening = "opening",
+    sale = "sale",
+    correction = "correction",
+    transfer = "transfer",
+    purchase = "purchase"
 }
 export enum SystemStatus {
     initialized = "initialized",
@@ -185,8 +583,13 @@ export enum T {
     paid = "paid",
     sent = "sent",
     overdue = "overdue",
+    partiallyPaid = "partiallyPaid",
     draft = "draft"
 }
+export enum TaxonomyTermKind {
+    season = "season",
+    brand = "brand"
+}
 export enum UserApprovalStatus {
     pending = "pending",
     approved = "approved",
@@ -199,47 +602,76 @@ export enum UserRole {
 }
 export interface backendInterface {
     addInventoryEntry(productId: bigint, quantity: bigint, batch: string, supplierId: bigint): Promise<bigint>;
-    addProduct(name: string, description: string, price: bigint, stockLevel: bigint, warehouse: string, rack: string, shelf: string, size: string, color: string, barcode: string): Promise<bigint>;
+    addProduct(name: string, description: string, price: bigint, wholesalePrice: bigint, mrp: bigint, costPrice: bigint, stockLevel: bigint, warehouse: string, rack: string, shelf: string, size: string, color: string, barcode: string, hsnCode: string, taxSlab: TaxSlabRule, attributes: ProductAttributes): Promise<bigint>;
     addProductImage(productId: bigint, blob: ExternalBlob): Promise<void>;
     addSecondaryAdminEmail(email: string): Promise<void>;
+    adjustStock(productId: bigint, delta: bigint, reason: StockMovementReason, reference: string): Promise<void>;
     approveUser(user: Principal): Promise<void>;
+    archiveProduct(productId: bigint): Promise<void>;
+    archiveProducts(productIds: Array<bigint>): Promise<void>;
     assignAppRole(user: Principal, role: AppRole): Promise<void>;
     assignCallerUserRole(user: Principal, role: UserRole): Promise<void>;
     batchExportBarcodes(arg0: BarcodeBatchExportRequest): Promise<ExternalBlob>;
     clearAllInvoices(): Promise<void>;
     clearPreviousRejection(user: Principal): Promise<void>;
-    createCustomer(name: string, email: string, phone: string, address: string): Promise<bigint>;
+    convertQuotationToInvoice(quotationId: bigint): Promise<bigint>;
+    createCreditNote(invoiceId: bigint, lineInputs: Array<CreditNoteLineInput>, reason: string): Promise<bigint>;
+    createCustomer(name: string, email: string, phone: string, address: string, state: string, paymentTermsDays: bigint): Promise<bigint>;
     createDataEntry(entityType: string, entryId: bigint, amount: bigint, quantity: bigint): Promise<bigint>;
-    createInvoice(customerId: bigint, productId: bigint, quantity: bigint, price: bigint, tax: bigint, total: bigint, status: T): Promise<bigint>;
+    createDispatch(orderId: bigint, input: DispatchInput): Promise<bigint>;
+    createExpense(input: ExpenseInput): Promise<bigint>;
+    createGoodsReceipt(purchaseOrderId: bigint | null, supplierId: bigint, lineInputs: Array<GoodsReceiptLineInput>, batch: string, notes: string): Promise<bigint>;
+    createInvoice(customerId: bigint, lineInputs: Array<InvoiceLineInput>, status: T, paymentTermsDays: bigint | null): Promise<bigint>;
+    createInvoiceFromOrders(orderIds: Array<bigint>): Promise<bigint>;
     createNotification(targetUser: Principal, title: string, message: string): Promise<bigint>;
-    createOrder(customerId: bigint, productId: bigint, quantity: bigint, status: string, totalPrice: bigint): Promise<bigint>;
+    createOrder(customerId: bigint, lineInputs: Array<OrderLineInput>): Promise<bigint>;
+    createProductCategory(name: string, parentId: bigint | null): Promise<bigint>;
+    createProductStyle(input: ProductStyleInput, openingStock: Array<VariantQuantity>): Promise<bigint>;
+    createPurchaseOrder(supplierId: bigint, lineInputs: Array<PurchaseOrderLineInput>, expectedDate: Time, notes: string): Promise<bigint>;
+    createQuotation(customerId: bigint, lineInputs: Array<InvoiceLineInput>, validUntil: Time, notes: string): Promise<bigint>;
+    createSupplier(input: SupplierInput): Promise<bigint>;
+    createTaxonomyTerm(kind: TaxonomyTermKind, name: string): Promise<bigint>;
     deleteAllInventory(): Promise<void>;
     deleteAllOrders(): Promise<void>;
     deleteCustomer(customerId: bigint): Promise<boolean>;
+    deleteExpense(expenseId: bigint): Promise<void>;
     deleteNotification(notificationId: bigint): Promise<boolean>;
-    exportInvoiceHistory(arg0: InvoiceExportFormat, arg1: InvoiceFilter | null, arg2: string | null, arg3: string | null): Promise<ExternalBlob>;
+    deleteProduct(productId: bigint): Promise<void>;
+    deleteProductCategory(categoryId: bigint): Promise<void>;
+    deleteSupplier(supplierId: bigint): Promise<void>;
+    deleteTaxonomyTerm(termId: bigint): Promise<void>;
     exportProductBarcode(arg0: BarcodeExportRequest): Promise<ExternalBlob>;
+    extendProductStyle(styleId: bigint, sizes: Array<string>, colors: Array<string>): Promise<void>;
     getAllApprovalRequests(): Promise<Array<ApprovalRequest>>;
     getApprovalRequests(): Promise<Array<UserApprovalInfo>>;
     getBootstrapState(): Promise<AppBootstrapState>;
     getBootstrapStatus(): Promise<BootstrapStatus>;
     getCallerUserProfile(): Promise<UserProfile | null>;
     getCallerUserRole(): Promise<UserRole>;
+    getCompanyLogo(): Promise<ExternalBlob | null>;
+    getCompanySettings(): Promise<CompanySettings>;
     getCustomer(_customerId: bigint): Promise<Customer | null>;
     getDataEntry(dataEntryId: bigint): Promise<DataEntry | null>;
+    getDispatch(dispatchId: bigint): Promise<Dispatch | null>;
+    getGoodsReceipt(goodsReceiptId: bigint): Promise<GoodsReceipt | null>;
     getInventoryEntry(inventoryId: bigint): Promise<InventoryRecord | null>;
     getInventoryReportBarcodes(): Promise<Array<string>>;
     getInvoice(invoiceId: bigint): Promise<Invoice | null>;
     getInvoiceHistory(filter: InvoiceFilter | null, sortBy: string | null, sortOrder: string | null): Promise<Array<Invoice>>;
+    getInvoiceNumberPrefix(): Promise<string>;
     getOrder(orderId: bigint): Promise<OrderRecord | null>;
     getPendingUsers(): Promise<Array<UserApprovalInfo>>;
     getProduct(productId: bigint): Promise<Product | null>;
     getProductLocation(productId: bigint): Promise<InventoryLocation | null>;
     getProfitLossReport(startDate: Time, endDate: Time): Promise<ProfitLossReport>;
+    getPurchaseOrder(purchaseOrderId: bigint): Promise<PurchaseOrder | null>;
+    getQuotation(quotationId: bigint): Promise<Quotation | null>;
     getSignatureForUser(user: Principal): Promise<ExternalBlob | null>;
     getStats(): Promise<Stats>;
+    getSupplier(supplierId: bigint): Promise<Supplier | null>;
     getUserProfile(user: Principal): Promise<UserProfile | null>;
     getUserSignature(): Promise<ExternalBlob | null>;
+    importProducts(rows: Array<ProductImportRow>): Promise<ProductImportSummary>;
     isAccountant(): Promise<boolean>;
     isAdmin(): Promise<boolean>;
     isCallerAdmin(): Promise<boolean>;
@@ -249,25 +681,55 @@ export interface backendInterface {
     isSalesManager(): Promise<boolean>;
     isSuperAdmin(): Promise<boolean>;
     listApprovals(): Promise<Array<UserApprovalInfo>>;
+    listCreditNotes(): Promise<Array<CreditNote>>;
     listCustomers(): Promise<Array<Customer>>;
     listDataEntries(): Promise<Array<DataEntry>>;
+    listDispatches(): Promise<Array<Dispatch>>;
+    listExpenses(): Promise<Array<Expense>>;
+    listGoodsReceipts(): Promise<Array<GoodsReceipt>>;
     listInventory(): Promise<Array<InventoryRecord>>;
+    listInvoicePayments(invoiceId: bigint): Promise<Array<Payment>>;
     listInvoices(): Promise<Array<Invoice>>;
     listNotifications(): Promise<Array<Notification>>;
     listOrders(): Promise<Array<OrderRecord>>;
+    listPayments(): Promise<Array<Payment>>;
+    listProductCategories(): Promise<Array<ProductCategory>>;
+    listProductStyles(): Promise<Array<ProductStyle>>;
     listProducts(): Promise<Array<Product>>;
+    listPurchaseOrders(): Promise<Array<PurchaseOrder>>;
+    listQuotations(): Promise<Array<Quotation>>;
     listSecondaryAdminEmails(): Promise<Array<string>>;
+    listStockMovements(productId: bigint): Promise<Array<StockMovement>>;
+    listSuppliers(): Promise<Array<Supplier>>;
+    listTaxonomyTerms(): Promise<Array<TaxonomyTerm>>;
     markNotificationAsRead(notificationId: bigint): Promise<boolean>;
     permanentlyRemoveUserAccount(targetUser: Principal): Promise<void>;
     processPreviouslyRejectedUser(user: Principal): Promise<void>;
+    recordPayment(invoiceId: bigint, amount: bigint, paymentDate: Time, mode: PaymentMode, reference: string): Promise<bigint>;
     rejectUser(user: Principal): Promise<void>;
     removeSecondaryAdminEmail(email: string): Promise<void>;
+    renameProductCategory(categoryId: bigint, name: string): Promise<void>;
     requestApproval(): Promise<void>;
+    restoreProduct(productId: bigint): Promise<void>;
+    reviseProductPrices(revisions: Array<ProductPriceRevision>): Promise<void>;
     saveCallerUserProfile(profile: UserProfile): Promise<void>;
     setApproval(user: Principal, status: ApprovalStatus): Promise<void>;
+    setCompanyLogo(logo: ExternalBlob | null): Promise<void>;
+    setInvoiceNumberPrefix(prefix: string): Promise<void>;
     setProductLocation(productId: bigint, location: InventoryLocation): Promise<void>;
+    setProductsCategory(productIds: Array<bigint>, categoryId: bigint | null): Promise<void>;
+    setProductsLocation(productIds: Array<bigint>, warehouse: string, rack: string, shelf: string): Promise<void>;
     stockAdjustInvoice(invoiceId: bigint): Promise<void>;
+    updateCompanySettings(settings: CompanySettings): Promise<void>;
+    updateCustomerPaymentTerms(customerId: bigint, paymentTermsDays: bigint): Promise<void>;
+    updateDispatchDetails(dispatchId: bigint, input: DispatchInput): Promise<void>;
+    updateDispatchStatus(dispatchId: bigint, status: DispatchStatus, deliveryDate: Time | null): Promise<void>;
+    updateExpense(expenseId: bigint, input: ExpenseInput): Promise<void>;
     updateInvoiceDocumentUrls(invoiceId: bigint, imageUrl: string | null, pdfUrl: string | null): Promise<boolean>;
-    updateProduct(productId: bigint, name: string, description: string, price: bigint, stockLevel: bigint, warehouse: string, rack: string, shelf: string, size: string, color: string, barcode: string): Promise<void>;
+    updateOrderStatus(orderId: bigint, status: OrderStatus): Promise<void>;
+    updateProduct(productId: bigint, name: string, description: string, price: bigint, wholesalePrice: bigint, mrp: bigint, costPrice: bigint, stockLevel: bigint, warehouse: string, rack: string, shelf: string, size: string, color: string, barcode: string, hsnCode: string, taxSlab: TaxSlabRule, attributes: ProductAttributes): Promise<void>;
+    updatePurchaseOrderStatus(purchaseOrderId: bigint, status: PurchaseOrderStatus): Promise<void>;
+    updateQuotationStatus(quotationId: bigint, status: QuotationStatus): Promise<void>;
+    updateSupplier(supplierId: bigint, input: SupplierInput): Promise<void>;
     uploadUserSignature(signatureBlob: ExternalBlob): Promise<void>;
 }
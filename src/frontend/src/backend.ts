@@ -89,41 +89,296 @@ export class ExternalBlob {
         return this;
     }
 }
-export interface BarcodeExportRequest {
-    exportType: BarcodeExportFormat;
+export interface OrderLineInput {
     productId: bigint;
+    quantity: bigint;
+    unitPrice: bigint;
 }
-export interface Product {
-    inventoryStatus: InventoryStatus;
+export interface ProductAttributes {
+    categoryId?: bigint;
+    tags: Array<string>;
+    season: string;
+    brand: string;
+    fabric: string;
+}
+export interface DataEntry {
+    id: bigint;
+    created: Time;
+    modified: Time;
+    entryId: bigint;
+    quantity: bigint;
+    entityType: string;
+    amount: bigint;
+}
+export interface Stats {
+    totalOrders: bigint;
+    totalInventory: bigint;
+    totalRevenue: bigint;
+    totalCustomers: bigint;
+}
+export interface ReportDateRange {
+    endDate: Time;
+    startDate: Time;
+}
+export interface OrderLine {
+    lineTotal: bigint;
+    productId: bigint;
+    quantity: bigint;
+    unitPrice: bigint;
+}
+export interface CreditNoteLine {
+    tax: bigint;
+    lineIndex: bigint;
+    damaged: boolean;
+    cgst: bigint;
+    igst: bigint;
+    taxableValue: bigint;
+    sgst: bigint;
+    hsnCode: string;
+    productId: bigint;
+    quantity: bigint;
+    unitPrice: bigint;
+    taxRate: bigint;
+}
+export interface TaxSlabRule {
+    threshold: bigint;
+    highRate: bigint;
+    lowRate: bigint;
+}
+export interface ApprovalRequest {
+    status: UserApprovalStatus;
+    principal: Principal;
+    timestamp: Time;
+}
+export interface Quotation {
+    tax: bigint;
+    status: QuotationStatus;
+    quotationId: bigint;
+    created: Time;
+    total: bigint;
+    createdBy: Principal;
+    invoiceId?: bigint;
+    lines: Array<InvoiceLine>;
+    lastModified: Time;
+    interState: boolean;
+    notes: string;
+    customerId: bigint;
+    placeOfSupply: string;
+    orderIds: Array<bigint>;
+    validUntil: Time;
+}
+export interface BootstrapStatus {
+    canisterStatus?: SystemStatus;
+    backendAvailable: boolean;
+    jsonSupport: boolean;
+}
+export interface ProductImportRow {
+    mrp: bigint;
     name: string;
+    wholesalePrice: bigint;
     color: string;
     rack: string;
     size: string;
     description: string;
-    productId: bigint;
+    hsnCode: string;
     shelf: string;
+    attributes: ProductAttributes;
     barcode: string;
     stockLevel: bigint;
     price: bigint;
+    costPrice: bigint;
     warehouse: string;
-    supplierId?: bigint;
-    images: Array<ExternalBlob>;
+    taxSlab: TaxSlabRule;
+}
+export interface InventoryLocation {
+    rack: string;
+    shelf: string;
+    warehouse: string;
+}
+export interface ExpenseCategoryTotal {
+    category: ExpenseCategory;
+    amount: bigint;
+}
+export interface TaxonomyTerm {
+    kind: TaxonomyTermKind;
+    name: string;
+    termId: bigint;
+}
+export interface StockMovement {
+    movementId: bigint;
+    balance: bigint;
+    reference: string;
+    productId: bigint;
+    recordedBy: Principal;
+    timestamp: Time;
+    delta: bigint;
+    reason: StockMovementReason;
+}
+export interface ProductCategory {
+    categoryId: bigint;
+    name: string;
+    parentId?: bigint;
+}
+export interface ExpenseInput {
+    expenseDate: Time;
+    receipt?: ExternalBlob;
+    mode: PaymentMode;
+    description: string;
+    category: ExpenseCategory;
+    amount: bigint;
+}
+export interface BarcodeBatchExportRequest {
+    productIds: Array<bigint>;
+    exportType: BarcodeExportFormat;
+}
+export interface OrderRecord {
+    id: bigint;
+    status: OrderStatus;
+    created: Time;
+    modified: Time;
+    invoiceId?: bigint;
+    statusHistory: Array<OrderStatusChange>;
+    lines: Array<OrderLine>;
+    stockReserved: boolean;
+    customerId: bigint;
+    totalPrice: bigint;
+}
+export interface GoodsReceipt {
+    grnNumber: string;
+    created: Time;
+    goodsReceiptId: bigint;
+    createdBy: Principal;
+    purchaseOrderId?: bigint;
+    lines: Array<GoodsReceiptLine>;
+    notes: string;
+    batch: string;
+    supplierId: bigint;
+    inventoryIds: Array<bigint>;
+}
+export interface Payment {
+    created: Time;
+    mode: PaymentMode;
+    reference: string;
+    invoiceId: bigint;
+    recordedBy: Principal;
+    paymentId: bigint;
+    paymentDate: Time;
+    amount: bigint;
+}
+export interface Expense {
+    expenseDate: Time;
+    created: Time;
+    receipt?: ExternalBlob;
+    expenseId: bigint;
+    mode: PaymentMode;
+    description: string;
+    recordedBy: Principal;
+    lastModified: Time;
+    category: ExpenseCategory;
+    amount: bigint;
+}
+export interface PurchaseOrderLine {
+    unit: string;
+    lineTotal: bigint;
+    description: string;
+    productId?: bigint;
+    quantity: bigint;
+    unitCost: bigint;
+}
+export interface DispatchInput {
+    vehicleNumber: string;
+    dispatchDate: Time;
+    lrNumber: string;
+    packageCount: bigint;
+    transporterName: string;
+}
+export interface Notification {
+    title: string;
+    userId: Principal;
+    isRead: boolean;
+    message: string;
+    timestamp: Time;
+    notificationId: bigint;
+}
+export interface PurchaseOrderLineInput {
+    unit: string;
+    description: string;
+    productId?: bigint;
+    quantity: bigint;
+    unitCost: bigint;
+}
+export interface CreditNote {
+    tax: bigint;
+    created: Time;
+    total: bigint;
+    createdBy: Principal;
+    invoiceId: bigint;
+    lines: Array<CreditNoteLine>;
+    interState: boolean;
+    invoiceNumber: string;
+    customerId: bigint;
+    creditNoteId: bigint;
+    reason: string;
+    creditNoteNumber: string;
+}
+export interface ProductImportSummary {
+    created: bigint;
+    updated: bigint;
+}
+export interface Supplier {
+    paymentTermsDays: bigint;
+    created: Time;
+    modified: Time;
+    name: string;
+    contactPerson: string;
+    email: string;
+    state: string;
+    gstin: string;
+    address: string;
+    phone: string;
+    supplierId: bigint;
+}
+export interface Dispatch {
+    challanNumber: string;
+    status: DispatchStatus;
+    created: Time;
+    vehicleNumber: string;
+    createdBy: Principal;
+    dispatchId: bigint;
+    dispatchDate: Time;
+    deliveryDate?: Time;
+    orderId: bigint;
+    lastModified: Time;
+    lrNumber: string;
+    packageCount: bigint;
+    transporterName: string;
+}
+export interface _CaffeineStorageRefillResult {
+    success?: boolean;
+    topped_up_amount?: bigint;
+}
+export interface UserProfile {
+    appRole: AppRole;
+    name: string;
+    email: string;
+    department: string;
+}
+export interface BarcodeExportRequest {
+    exportType: BarcodeExportFormat;
+    productId: bigint;
 }
 export type Time = bigint;
 export interface _CaffeineStorageRefillInformation {
     proposed_top_up_amount?: bigint;
 }
-export interface Stats {
-    totalOrders: bigint;
-    totalInventory: bigint;
-    totalRevenue: bigint;
-    totalCustomers: bigint;
-}
-export interface ReportDateRange {
-    endDate: Time;
-    startDate: Time;
+export interface InvoiceLineInput {
+    productId: bigint;
+    discount: bigint;
+    quantity: bigint;
+    unitPrice: bigint;
 }
 export interface ProfitLossReport {
+    expenseBreakdown: Array<ExpenseCategoryTotal>;
     reportDateRange: ReportDateRange;
     revenue: bigint;
     grossProfit: bigint;
@@ -135,24 +390,31 @@ export interface _CaffeineStorageCreateCertificateResult {
     method: string;
     blob_hash: string;
 }
-export interface DataEntry {
-    id: bigint;
+export interface ProductStyle {
+    styleId: bigint;
     created: Time;
-    modified: Time;
-    entryId: bigint;
-    quantity: bigint;
-    entityType: string;
-    amount: bigint;
+    name: string;
+    hsnCode: string;
+    sizes: Array<string>;
+    attributes: ProductAttributes;
+    colors: Array<string>;
+    articleNumber: string;
+    taxSlab: TaxSlabRule;
 }
-export interface ApprovalRequest {
-    status: UserApprovalStatus;
-    principal: Principal;
-    timestamp: Time;
+export interface GoodsReceiptLineInput {
+    rejectedQuantity: bigint;
+    unit: string;
+    description: string;
+    productId?: bigint;
+    receivedQuantity: bigint;
+    purchaseOrderLine?: bigint;
 }
-export interface BootstrapStatus {
-    canisterStatus?: SystemStatus;
-    backendAvailable: boolean;
-    jsonSupport: boolean;
+export interface BankDetails {
+    branch: string;
+    ifsc: string;
+    bankName: string;
+    accountName: string;
+    accountNumber: string;
 }
 export interface AppBootstrapState {
     isApproved: boolean;
@@ -168,14 +430,49 @@ export interface InventoryRecord {
     batch: string;
     supplierId: bigint;
 }
-export interface InventoryLocation {
-    rack: string;
-    shelf: string;
-    warehouse: string;
+export interface OrderStatusChange {
+    status: OrderStatus;
+    changedAt: Time;
 }
-export interface BarcodeBatchExportRequest {
-    productIds: Array<bigint>;
-    exportType: BarcodeExportFormat;
+export interface CompanySettings {
+    pan: string;
+    stateCode: string;
+    bankDetails: BankDetails;
+    tagline: string;
+    primaryColor: string;
+    email: string;
+    website: string;
+    accentColor: string;
+    legalName: string;
+    invoiceFooterTerms: string;
+    gstin: string;
+    address: string;
+    upiId: string;
+    phone: string;
+}
+export interface PurchaseOrder {
+    status: PurchaseOrderStatus;
+    created: Time;
+    total: bigint;
+    createdBy: Principal;
+    purchaseOrderId: bigint;
+    lines: Array<PurchaseOrderLine>;
+    lastModified: Time;
+    notes: string;
+    expectedDate: Time;
+    poNumber: string;
+    supplierId: bigint;
+}
+export interface GoodsReceiptLine {
+    rejectedQuantity: bigint;
+    unit: string;
+    description: string;
+    productId?: bigint;
+    receivedQuantity: bigint;
+    pendingQuantity: bigint;
+    orderedQuantity: bigint;
+    acceptedQuantity: bigint;
+    purchaseOrderLine?: bigint;
 }
 export interface InvoiceFilter {
     paymentStatus?: T;
@@ -183,15 +480,24 @@ export interface InvoiceFilter {
     invoiceDateRange?: ReportDateRange;
     searchQuery?: string;
 }
-export interface OrderRecord {
-    id: bigint;
-    status: string;
-    created: Time;
-    modified: Time;
-    productId: bigint;
+export interface ProductStyleInput {
+    mrp: bigint;
+    name: string;
+    wholesalePrice: bigint;
+    description: string;
+    hsnCode: string;
+    sizes: Array<string>;
+    attributes: ProductAttributes;
+    colors: Array<string>;
+    price: bigint;
+    costPrice: bigint;
+    articleNumber: string;
+    taxSlab: TaxSlabRule;
+}
+export interface VariantQuantity {
+    color: string;
+    size: string;
     quantity: bigint;
-    customerId: bigint;
-    totalPrice: bigint;
 }
 export interface Invoice {
     tax: bigint;
@@ -202,23 +508,38 @@ export interface Invoice {
     stockAdjusted: boolean;
     dueDate?: Time;
     invoiceId: bigint;
-    productId: bigint;
+    lines: Array<InvoiceLine>;
+    amountPaid: bigint;
     lastModified: Time;
+    interState: boolean;
     imageUrl?: string;
+    invoiceNumber: string;
     pdfUrl?: string;
     paymentDate?: Time;
-    quantity: bigint;
     customerId: bigint;
+    placeOfSupply: string;
     orderIds: Array<bigint>;
-    price: bigint;
+    creditedAmount: bigint;
     inventoryIds: Array<bigint>;
 }
 export interface Customer {
     id: bigint;
+    paymentTermsDays: bigint;
     created: Time;
     modified: Time;
     name: string;
     email: string;
+    state: string;
+    address: string;
+    phone: string;
+}
+export interface SupplierInput {
+    paymentTermsDays: bigint;
+    name: string;
+    contactPerson: string;
+    email: string;
+    state: string;
+    gstin: string;
     address: string;
     phone: string;
 }
@@ -226,23 +547,54 @@ export interface UserApprovalInfo {
     status: ApprovalStatus;
     principal: Principal;
 }
-export interface Notification {
-    title: string;
-    userId: Principal;
-    isRead: boolean;
-    message: string;
-    timestamp: Time;
-    notificationId: bigint;
+export interface InvoiceLine {
+    tax: bigint;
+    cgst: bigint;
+    igst: bigint;
+    sgst: bigint;
+    hsnCode: string;
+    productId: bigint;
+    discount: bigint;
+    quantity: bigint;
+    unitPrice: bigint;
+    taxRate: bigint;
+    unitCost: bigint;
 }
-export interface UserProfile {
-    appRole: AppRole;
-    name: string;
-    email: string;
-    department: string;
+export interface CreditNoteLineInput {
+    lineIndex: bigint;
+    damaged: boolean;
+    quantity: bigint;
 }
-export interface _CaffeineStorageRefillResult {
-    success?: boolean;
-    topped_up_amount?: bigint;
+export interface ProductPriceRevision {
+    mrp?: bigint;
+    wholesalePrice?: bigint;
+    productId: bigint;
+    price?: bigint;
+}
+export interface Product {
+    mrp: bigint;
+    styleId?: bigint;
+    inventoryStatus: InventoryStatus;
+    name: string;
+    wholesalePrice: bigint;
+    color: string;
+    rack: string;
+    size: string;
+    description: string;
+    hsnCode: string;
+    productId: bigint;
+    shelf: string;
+    reservedStock: bigint;
+    attributes: ProductAttributes;
+    barcode: string;
+    stockLevel: bigint;
+    price: bigint;
+    costPrice: bigint;
+    warehouse: string;
+    supplierId?: bigint;
+    archived: boolean;
+    taxSlab: TaxSlabRule;
+    images: Array<ExternalBlob>;
 }
 export enum AppRole {
     accountant = "accountant",
@@ -254,14 +606,60 @@ export enum BarcodeExportFormat {
     pdf = "pdf",
     png = "png"
 }
+export enum DispatchStatus {
+    dispatched = "dispatched",
+    inTransit = "inTransit",
+    delivered = "delivered"
+}
+export enum ExpenseCategory {
+    other = "other",
+    marketing = "marketing",
+    rent = "rent",
+    transport = "transport",
+    electricity = "electricity",
+    maintenance = "maintenance",
+    salaries = "salaries",
+    packaging = "packaging"
+}
 export enum InventoryStatus {
     low = "low",
     inStock = "inStock",
     outOfStock = "outOfStock"
 }
-export enum InvoiceExportFormat {
-    pdf = "pdf",
-    excel = "excel"
+export enum OrderStatus {
+    cancelled = "cancelled",
+    pending = "pending",
+    fulfilled = "fulfilled",
+    processing = "processing"
+}
+export enum PaymentMode {
+    upi = "upi",
+    cash = "cash",
+    bankTransfer = "bankTransfer",
+    cheque = "cheque"
+}
+export enum PurchaseOrderStatus {
+    cancelled = "cancelled",
+    ordered = "ordered",
+    partiallyReceived = "partiallyReceived",
+    draft = "draft",
+    received = "received"
+}
+export enum QuotationStatus {
+    expired = "expired",
+    sent = "sent",
+    accepted = "accepted",
+    draft = "draft"
+}
+export enum StockMovementReason {
+    theft = "theft",
+    damage = "damage",
+    salesReturn = "salesReturn",
+    opening = "opening",
+    sale = "sale",
+    correction = "correction",
+    transfer = "transfer",
+    purchase = "purchase"
 }
 export enum SystemStatus {
     initialized = "initialized",
@@ -271,8 +669,13 @@ export enum T {
     paid = "paid",
     sent = "sent",
     overdue = "overdue",
+    partiallyPaid = "partiallyPaid",
     draft = "draft"
 }
+export enum TaxonomyTermKind {
+    season = "season",
+    brand = "brand"
+}
 export enum UserApprovalStatus {
     pending = "pending",
     approved = "approved",
@@ -292,47 +695,76 @@ export interface backendInterface {
     _caffeineStorageUpdateGatewayPrincipals(): Promise<void>;
     _initializeAccessControlWithSecret(userSecret: string): Promise<void>;
     addInventoryEntry(productId: bigint, quantity: bigint, batch: string, supplierId: bigint): Promise<bigint>;
-    addProduct(name: string, description: string, price: bigint, stockLevel: bigint, warehouse: string, rack: string, shelf: string, size: string, color: string, barcode: string): Promise<bigint>;
+    addProduct(name: string, description: string, price: bigint, wholesalePrice: bigint, mrp: bigint, costPrice: bigint, stockLevel: bigint, warehouse: string, rack: string, shelf: string, size: string, color: string, barcode: string, hsnCode: string, taxSlab: TaxSlabRule, attributes: ProductAttributes): Promise<bigint>;
     addProductImage(productId: bigint, blob: ExternalBlob): Promise<void>;
     addSecondaryAdminEmail(email: string): Promise<void>;
+    adjustStock(productId: bigint, delta: bigint, reason: StockMovementReason, reference: string): Promise<void>;
     approveUser(user: Principal): Promise<void>;
+    archiveProduct(productId: bigint): Promise<void>;
+    archiveProducts(productIds: Array<bigint>): Promise<void>;
     assignAppRole(user: Principal, role: AppRole): Promise<void>;
     assignCallerUserRole(user: Principal, role: UserRole): Promise<void>;
     batchExportBarcodes(arg0: BarcodeBatchExportRequest): Promise<ExternalBlob>;
     clearAllInvoices(): Promise<void>;
     clearPreviousRejection(user: Principal): Promise<void>;
-    createCustomer(name: string, email: string, phone: string, address: string): Promise<bigint>;
+    convertQuotationToInvoice(quotationId: bigint): Promise<bigint>;
+    createCreditNote(invoiceId: bigint, lineInputs: Array<CreditNoteLineInput>, reason: string): Promise<bigint>;
+    createCustomer(name: string, email: string, phone: string, address: string, state: string, paymentTermsDays: bigint): Promise<bigint>;
     createDataEntry(entityType: string, entryId: bigint, amount: bigint, quantity: bigint): Promise<bigint>;
-    createInvoice(customerId: bigint, productId: bigint, quantity: bigint, price: bigint, tax: bigint, total: bigint, status: T): Promise<bigint>;
+    createDispatch(orderId: bigint, input: DispatchInput): Promise<bigint>;
+    createExpense(input: ExpenseInput): Promise<bigint>;
+    createGoodsReceipt(purchaseOrderId: bigint | null, supplierId: bigint, lineInputs: Array<GoodsReceiptLineInput>, batch: string, notes: string): Promise<bigint>;
+    createInvoice(customerId: bigint, lineInputs: Array<InvoiceLineInput>, status: T, paymentTermsDays: bigint | null): Promise<bigint>;
+    createInvoiceFromOrders(orderIds: Array<bigint>): Promise<bigint>;
     createNotification(targetUser: Principal, title: string, message: string): Promise<bigint>;
-    createOrder(customerId: bigint, productId: bigint, quantity: bigint, status: string, totalPrice: bigint): Promise<bigint>;
+    createOrder(customerId: bigint, lineInputs: Array<OrderLineInput>): Promise<bigint>;
+    createProductCategory(name: string, parentId: bigint | null): Promise<bigint>;
+    createProductStyle(input: ProductStyleInput, openingStock: Array<VariantQuantity>): Promise<bigint>;
+    createPurchaseOrder(supplierId: bigint, lineInputs: Array<PurchaseOrderLineInput>, expectedDate: Time, notes: string): Promise<bigint>;
+    createQuotation(customerId: bigint, lineInputs: Array<InvoiceLineInput>, validUntil: Time, notes: string): Promise<bigint>;
+    createSupplier(input: SupplierInput): Promise<bigint>;
+    createTaxonomyTerm(kind: TaxonomyTermKind, name: string): Promise<bigint>;
     deleteAllInventory(): Promise<void>;
     deleteAllOrders(): Promise<void>;
     deleteCustomer(customerId: bigint): Promise<boolean>;
+    deleteExpense(expenseId: bigint): Promise<void>;
     deleteNotification(notificationId: bigint): Promise<boolean>;
-    exportInvoiceHistory(arg0: InvoiceExportFormat, arg1: InvoiceFilter | null, arg2: string | null, arg3: string | null): Promise<ExternalBlob>;
+    deleteProduct(productId: bigint): Promise<void>;
+    deleteProductCategory(categoryId: bigint): Promise<void>;
+    deleteSupplier(supplierId: bigint): Promise<void>;
+    deleteTaxonomyTerm(termId: bigint): Promise<void>;
     exportProductBarcode(arg0: BarcodeExportRequest): Promise<ExternalBlob>;
+    extendProductStyle(styleId: bigint, sizes: Array<string>, colors: Array<string>): Promise<void>;
     getAllApprovalRequests(): Promise<Array<ApprovalRequest>>;
     getApprovalRequests(): Promise<Array<UserApprovalInfo>>;
     getBootstrapState(): Promise<AppBootstrapState>;
     getBootstrapStatus(): Promise<BootstrapStatus>;
     getCallerUserProfile(): Promise<UserProfile | null>;
     getCallerUserRole(): Promise<UserRole>;
+    getCompanyLogo(): Promise<ExternalBlob | null>;
+    getCompanySettings(): Promise<CompanySettings>;
     getCustomer(_customerId: bigint): Promise<Customer | null>;
     getDataEntry(dataEntryId: bigint): Promise<DataEntry | null>;
+    getDispatch(dispatchId: bigint): Promise<Dispatch | null>;
+    getGoodsReceipt(goodsReceiptId: bigint): Promise<GoodsReceipt | null>;
     getInventoryEntry(inventoryId: bigint): Promise<InventoryRecord | null>;
     getInventoryReportBarcodes(): Promise<Array<string>>;
     getInvoice(invoiceId: bigint): Promise<Invoice | null>;
     getInvoiceHistory(filter: InvoiceFilter | null, sortBy: string | null, sortOrder: string | null): Promise<Array<Invoice>>;
+    getInvoiceNumberPrefix(): Promise<string>;
     getOrder(orderId: bigint): Promise<OrderRecord | null>;
     getPendingUsers(): Promise<Array<UserApprovalInfo>>;
     getProduct(productId: bigint): Promise<Product | null>;
     getProductLocation(productId: bigint): Promise<InventoryLocation | null>;
     getProfitLossReport(startDate: Time, endDate: Time): Promise<ProfitLossReport>;
+    getPurchaseOrder(purchaseOrderId: bigint): Promise<PurchaseOrder | null>;
+    getQuotation(quotationId: bigint): Promise<Quotation | null>;
     getSignatureForUser(user: Principal): Promise<ExternalBlob | null>;
     getStats(): Promise<Stats>;
+    getSupplier(supplierId: bigint): Promise<Supplier | null>;
     getUserProfile(user: Principal): Promise<UserProfile | null>;
     getUserSignature(): Promise<ExternalBlob | null>;
+    importProducts(rows: Array<ProductImportRow>): Promise<ProductImportSummary>;
     isAccountant(): Promise<boolean>;
     isAdmin(): Promise<boolean>;
     isCallerAdmin(): Promise<boolean>;
@@ -342,29 +774,59 @@ export interface backendInterface {
     isSalesManager(): Promise<boolean>;
     isSuperAdmin(): Promise<boolean>;
     listApprovals(): Promise<Array<UserApprovalInfo>>;
+    listCreditNotes(): Promise<Array<CreditNote>>;
     listCustomers(): Promise<Array<Customer>>;
     listDataEntries(): Promise<Array<DataEntry>>;
+    listDispatches(): Promise<Array<Dispatch>>;
+    listExpenses(): Promise<Array<Expense>>;
+    listGoodsReceipts(): Promise<Array<GoodsReceipt>>;
     listInventory(): Promise<Array<InventoryRecord>>;
+    listInvoicePayments(invoiceId: bigint): Promise<Array<Payment>>;
     listInvoices(): Promise<Array<Invoice>>;
     listNotifications(): Promise<Array<Notification>>;
     listOrders(): Promise<Array<OrderRecord>>;
+    listPayments(): Promise<Array<Payment>>;
+    listProductCategories(): Promise<Array<ProductCategory>>;
+    listProductStyles(): Promise<Array<ProductStyle>>;
     listProducts(): Promise<Array<Product>>;
+    listPurchaseOrders(): Promise<Array<PurchaseOrder>>;
+    listQuotations(): Promise<Array<Quotation>>;
     listSecondaryAdminEmails(): Promise<Array<string>>;
+    listStockMovements(productId: bigint): Promise<Array<StockMovement>>;
+    listSuppliers(): Promise<Array<Supplier>>;
+    listTaxonomyTerms(): Promise<Array<TaxonomyTerm>>;
     markNotificationAsRead(notificationId: bigint): Promise<boolean>;
     permanentlyRemoveUserAccount(targetUser: Principal): Promise<void>;
     processPreviouslyRejectedUser(user: Principal): Promise<void>;
+    recordPayment(invoiceId: bigint, amount: bigint, paymentDate: Time, mode: PaymentMode, reference: string): Promise<bigint>;
     rejectUser(user: Principal): Promise<void>;
     removeSecondaryAdminEmail(email: string): Promise<void>;
+    renameProductCategory(categoryId: bigint, name: string): Promise<void>;
     requestApproval(): Promise<void>;
+    restoreProduct(productId: bigint): Promise<void>;
+    reviseProductPrices(revisions: Array<ProductPriceRevision>): Promise<void>;
     saveCallerUserProfile(profile: UserProfile): Promise<void>;
     setApproval(user: Principal, status: ApprovalStatus): Promise<void>;
+    setCompanyLogo(logo: ExternalBlob | null): Promise<void>;
+    setInvoiceNumberPrefix(prefix: string): Promise<void>;
     setProductLocation(productId: bigint, location: InventoryLocation): Promise<void>;
+    setProductsCategory(productIds: Array<bigint>, categoryId: bigint | null): Promise<void>;
+    setProductsLocation(productIds: Array<bigint>, warehouse: string, rack: string, shelf: string): Promise<void>;
     stockAdjustInvoice(invoiceId: bigint): Promise<void>;
+    updateCompanySettings(settings: CompanySettings): Promise<void>;
+    updateCustomerPaymentTerms(customerId: bigint, paymentTermsDays: bigint): Promise<void>;
+    updateDispatchDetails(dispatchId: bigint, input: DispatchInput): Promise<void>;
+    updateDispatchStatus(dispatchId: bigint, status: DispatchStatus, deliveryDate: Time | null): Promise<void>;
+    updateExpense(expenseId: bigint, input: ExpenseInput): Promise<void>;
     updateInvoiceDocumentUrls(invoiceId: bigint, imageUrl: string | null, pdfUrl: string | null): Promise<boolean>;
-    updateProduct(productId: bigint, name: string, description: string, price: bigint, stockLevel: bigint, warehouse: string, rack: string, shelf: string, size: string, color: string, barcode: string): Promise<void>;
+    updateOrderStatus(orderId: bigint, status: OrderStatus): Promise<void>;
+    updateProduct(productId: bigint, name: string, description: string, price: bigint, wholesalePrice: bigint, mrp: bigint, costPrice: bigint, stockLevel: bigint, warehouse: string, rack: string, shelf: string, size: string, color: string, barcode: string, hsnCode: string, taxSlab: TaxSlabRule, attributes: ProductAttributes): Promise<void>;
+    updatePurchaseOrderStatus(purchaseOrderId: bigint, status: PurchaseOrderStatus): Promise<void>;
+    updateQuotationStatus(quotationId: bigint, status: QuotationStatus): Promise<void>;
+    updateSupplier(supplierId: bigint, input: SupplierInput): Promise<void>;
     uploadUserSignature(signatureBlob: ExternalBlob): Promise<void>;
 }
-import type { AppBootstrapState as _AppBootstrapState, AppRole as _AppRole, ApprovalRequest as _ApprovalRequest, ApprovalStatus as _ApprovalStatus, BarcodeBatchExportRequest as _BarcodeBatchExportRequest, BarcodeExportFormat as _BarcodeExportFormat, BarcodeExportRequest as _BarcodeExportRequest, BootstrapStatus as _BootstrapStatus, Customer as _Customer, DataEntry as _DataEntry, ExternalBlob as _ExternalBlob, InventoryLocation as _InventoryLocation, InventoryRecord as _InventoryRecord, InventoryStatus as _InventoryStatus, Invoice as _Invoice, InvoiceExportFormat as _InvoiceExportFormat, InvoiceFilter as _InvoiceFilter, OrderRecord as _OrderRecord, Product as _Product, ReportDateRange as _ReportDateRange, SystemStatus as _SystemStatus, T as _T, Time as _Time, UserApprovalInfo as _UserApprovalInfo, UserApprovalStatus as _UserApprovalStatus, UserProfile as _UserProfile, UserRole as _UserRole, _CaffeineStorageRefillInformation as __CaffeineStorageRefillInformation, _CaffeineStorageRefillResult as __CaffeineStorageRefillResult } from "./declarations/backend.did.d.ts";
+import type { AppBootstrapState as _AppBootstrapState, AppRole as _AppRole, ApprovalRequest as _ApprovalRequest, ApprovalStatus as _ApprovalStatus, BarcodeBatchExportRequest as _BarcodeBatchExportRequest, BarcodeExportFormat as _BarcodeExportFormat, BarcodeExportRequest as _BarcodeExportRequest, BootstrapStatus as _BootstrapStatus, Customer as _Customer, DataEntry as _DataEntry, Dispatch as _Dispatch, DispatchStatus as _DispatchStatus, Expense as _Expense, ExpenseCategory as _ExpenseCategory, ExpenseCategoryTotal as _ExpenseCategoryTotal, ExpenseInput as _ExpenseInput, ExternalBlob as _ExternalBlob, GoodsReceipt as _GoodsReceipt, GoodsReceiptLine as _GoodsReceiptLine, GoodsReceiptLineInput as _GoodsReceiptLineInput, InventoryLocation as _InventoryLocation, InventoryRecord as _InventoryRecord, InventoryStatus as _InventoryStatus, Invoice as _Invoice, InvoiceFilter as _InvoiceFilter, InvoiceLine as _InvoiceLine, OrderLine as _OrderLine, OrderRecord as _OrderRecord, OrderStatus as _OrderStatus, OrderStatusChange as _OrderStatusChange, Payment as _Payment, PaymentMode as _PaymentMode, Product as _Product, ProductAttributes as _ProductAttributes, ProductCategory as _ProductCategory, ProductImportRow as _ProductImportRow, ProductPriceRevision as _ProductPriceRevision, ProductStyle as _ProductStyle, ProductStyleInput as _ProductStyleInput, ProfitLossReport as _ProfitLossReport, PurchaseOrder as _PurchaseOrder, PurchaseOrderLine as _PurchaseOrderLine, PurchaseOrderLineInput as _PurchaseOrderLineInput, PurchaseOrderStatus as _PurchaseOrderStatus, Quotation as _Quotation, QuotationStatus as _QuotationStatus, ReportDateRange as _ReportDateRange, StockMovement as _StockMovement, StockMovementReason as _StockMovementReason, Supplier as _Supplier, SystemStatus as _SystemStatus, T as _T, TaxSlabRule as _TaxSlabRule, TaxonomyTerm as _TaxonomyTerm, TaxonomyTermKind as _TaxonomyTermKind, Time as _Time, UserApprovalInfo as _UserApprovalInfo, UserApprovalStatus as _UserApprovalStatus, UserProfile as _UserProfile, UserRole as _UserRole, _CaffeineStorageRefillInformation as __CaffeineStorageRefillInformation, _CaffeineStorageRefillResult as __CaffeineStorageRefillResult } from "./declarations/backend.did.d.ts";
 export class Backend implements backendInterface {
     constructor(private actor: ActorSubclass<_SERVICE>, private _uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, private _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, private processError?: (error: unknown) => never){}
     async _caffeineStorageBlobIsLive(arg0: Uint8Array): Promise<boolean> {
@@ -479,31 +941,31 @@ export class Backend implements backendInterface {
             return result;
         }
     }
-    async addProduct(arg0: string, arg1: string, arg2: bigint, arg3: bigint, arg4: string, arg5: string, arg6: string, arg7: string, arg8: string, arg9: string): Promise<bigint> {
+    async addProduct(arg0: string, arg1: string, arg2: bigint, arg3: bigint, arg4: bigint, arg5: bigint, arg6: bigint, arg7: string, arg8: string, arg9: string, arg10: string, arg11: string, arg12: string, arg13: string, arg14: TaxSlabRule, arg15: ProductAttributes): Promise<bigint> {
         if (this.processError) {
             try {
-                const result = await this.actor.addProduct(arg0, arg1, arg2, arg3, arg4, arg5, arg6, arg7, arg8, arg9);
+                const result = await this.actor.addProduct(arg0, arg1, arg2, arg3, arg4, arg5, arg6, arg7, arg8, arg9, arg10, arg11, arg12, arg13, arg14, to_candid_ProductAttributes_n8(this._uploadFile, this._downloadFile, arg15));
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.addProduct(arg0, arg1, arg2, arg3, arg4, arg5, arg6, arg7, arg8, arg9);
+            const result = await this.actor.addProduct(arg0, arg1, arg2, arg3, arg4, arg5, arg6, arg7, arg8, arg9, arg10, arg11, arg12, arg13, arg14, to_candid_ProductAttributes_n8(this._uploadFile, this._downloadFile, arg15));
             return result;
         }
     }
     async addProductImage(arg0: bigint, arg1: ExternalBlob): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.addProductImage(arg0, await to_candid_ExternalBlob_n8(this._uploadFile, this._downloadFile, arg1));
+                const result = await this.actor.addProductImage(arg0, await to_candid_ExternalBlob_n10(this._uploadFile, this._downloadFile, arg1));
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.addProductImage(arg0, await to_candid_ExternalBlob_n8(this._uploadFile, this._downloadFile, arg1));
+            const result = await this.actor.addProductImage(arg0, await to_candid_ExternalBlob_n10(this._uploadFile, this._downloadFile, arg1));
             return result;
         }
     }
@@ -521,7 +983,21 @@ export class Backend implements backendInterface {
             return result;
         }
     }
-    async approveUser(arg0: Principal): Promise<void> {
+    async adjustStock(arg0: bigint, arg1: bigint, arg2: StockMovementReason, arg3: string): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.adjustStock(arg0, arg1, to_candid_StockMovementReason_n11(this._uploadFile, this._downloadFile, arg2), arg3);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.adjustStock(arg0, arg1, to_candid_StockMovementReason_n11(this._uploadFile, this._downloadFile, arg2), arg3);
+            return result;
+        }
+    }
+    async approveUser(arg0: Principal): Promise<void> {
         if (this.processError) {
             try {
                 const result = await this.actor.approveUser(arg0);
@@ -535,46 +1011,74 @@ export class Backend implements backendInterface {
             return result;
         }
     }
+    async archiveProduct(arg0: bigint): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.archiveProduct(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.archiveProduct(arg0);
+            return result;
+        }
+    }
+    async archiveProducts(arg0: Array<bigint>): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.archiveProducts(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.archiveProducts(arg0);
+            return result;
+        }
+    }
     async assignAppRole(arg0: Principal, arg1: AppRole): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.assignAppRole(arg0, to_candid_AppRole_n9(this._uploadFile, this._downloadFile, arg1));
+                const result = await this.actor.assignAppRole(arg0, to_candid_AppRole_n13(this._uploadFile, this._downloadFile, arg1));
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.assignAppRole(arg0, to_candid_AppRole_n9(this._uploadFile, this._downloadFile, arg1));
+            const result = await this.actor.assignAppRole(arg0, to_candid_AppRole_n13(this._uploadFile, this._downloadFile, arg1));
             return result;
         }
     }
     async assignCallerUserRole(arg0: Principal, arg1: UserRole): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.assignCallerUserRole(arg0, to_candid_UserRole_n11(this._uploadFile, this._downloadFile, arg1));
+                const result = await this.actor.assignCallerUserRole(arg0, to_candid_UserRole_n15(this._uploadFile, this._downloadFile, arg1));
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.assignCallerUserRole(arg0, to_candid_UserRole_n11(this._uploadFile, this._downloadFile, arg1));
+            const result = await this.actor.assignCallerUserRole(arg0, to_candid_UserRole_n15(this._uploadFile, this._downloadFile, arg1));
             return result;
         }
     }
     async batchExportBarcodes(arg0: BarcodeBatchExportRequest): Promise<ExternalBlob> {
         if (this.processError) {
             try {
-                const result = await this.actor.batchExportBarcodes(to_candid_BarcodeBatchExportRequest_n13(this._uploadFile, this._downloadFile, arg0));
-                return from_candid_ExternalBlob_n17(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.batchExportBarcodes(to_candid_BarcodeBatchExportRequest_n17(this._uploadFile, this._downloadFile, arg0));
+                return from_candid_ExternalBlob_n21(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.batchExportBarcodes(to_candid_BarcodeBatchExportRequest_n13(this._uploadFile, this._downloadFile, arg0));
-            return from_candid_ExternalBlob_n17(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.batchExportBarcodes(to_candid_BarcodeBatchExportRequest_n17(this._uploadFile, this._downloadFile, arg0));
+            return from_candid_ExternalBlob_n21(this._uploadFile, this._downloadFile, result);
         }
     }
     async clearAllInvoices(): Promise<void> {
@@ -605,966 +1109,2260 @@ export class Backend implements backendInterface {
             return result;
         }
     }
-    async createCustomer(arg0: string, arg1: string, arg2: string, arg3: string): Promise<bigint> {
+    async convertQuotationToInvoice(arg0: bigint): Promise<bigint> {
         if (this.processError) {
             try {
-                const result = await this.actor.createCustomer(arg0, arg1, arg2, arg3);
+                const result = await this.actor.convertQuotationToInvoice(arg0);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.createCustomer(arg0, arg1, arg2, arg3);
+            const result = await this.actor.convertQuotationToInvoice(arg0);
             return result;
         }
     }
-    async createDataEntry(arg0: string, arg1: bigint, arg2: bigint, arg3: bigint): Promise<bigint> {
+    async createCreditNote(arg0: bigint, arg1: Array<CreditNoteLineInput>, arg2: string): Promise<bigint> {
         if (this.processError) {
             try {
-                const result = await this.actor.createDataEntry(arg0, arg1, arg2, arg3);
+                const result = await this.actor.createCreditNote(arg0, arg1, arg2);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.createDataEntry(arg0, arg1, arg2, arg3);
+            const result = await this.actor.createCreditNote(arg0, arg1, arg2);
             return result;
         }
     }
-    async createInvoice(arg0: bigint, arg1: bigint, arg2: bigint, arg3: bigint, arg4: bigint, arg5: bigint, arg6: T): Promise<bigint> {
+    async createCustomer(arg0: string, arg1: string, arg2: string, arg3: string, arg4: string, arg5: bigint): Promise<bigint> {
         if (this.processError) {
             try {
-                const result = await this.actor.createInvoice(arg0, arg1, arg2, arg3, arg4, arg5, to_candid_T_n18(this._uploadFile, this._downloadFile, arg6));
+                const result = await this.actor.createCustomer(arg0, arg1, arg2, arg3, arg4, arg5);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.createInvoice(arg0, arg1, arg2, arg3, arg4, arg5, to_candid_T_n18(this._uploadFile, this._downloadFile, arg6));
+            const result = await this.actor.createCustomer(arg0, arg1, arg2, arg3, arg4, arg5);
             return result;
         }
     }
-    async createNotification(arg0: Principal, arg1: string, arg2: string): Promise<bigint> {
+    async createDataEntry(arg0: string, arg1: bigint, arg2: bigint, arg3: bigint): Promise<bigint> {
         if (this.processError) {
             try {
-                const result = await this.actor.createNotification(arg0, arg1, arg2);
+                const result = await this.actor.createDataEntry(arg0, arg1, arg2, arg3);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.createNotification(arg0, arg1, arg2);
+            const result = await this.actor.createDataEntry(arg0, arg1, arg2, arg3);
             return result;
         }
     }
-    async createOrder(arg0: bigint, arg1: bigint, arg2: bigint, arg3: string, arg4: bigint): Promise<bigint> {
+    async createDispatch(arg0: bigint, arg1: DispatchInput): Promise<bigint> {
         if (this.processError) {
             try {
-                const result = await this.actor.createOrder(arg0, arg1, arg2, arg3, arg4);
+                const result = await this.actor.createDispatch(arg0, arg1);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.createOrder(arg0, arg1, arg2, arg3, arg4);
+            const result = await this.actor.createDispatch(arg0, arg1);
             return result;
         }
     }
-    async deleteAllInventory(): Promise<void> {
+    async createExpense(arg0: ExpenseInput): Promise<bigint> {
         if (this.processError) {
             try {
-                const result = await this.actor.deleteAllInventory();
+                const result = await this.actor.createExpense(await to_candid_ExpenseInput_n22(this._uploadFile, this._downloadFile, arg0));
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.deleteAllInventory();
+            const result = await this.actor.createExpense(await to_candid_ExpenseInput_n22(this._uploadFile, this._downloadFile, arg0));
             return result;
         }
     }
-    async deleteAllOrders(): Promise<void> {
+    async createGoodsReceipt(arg0: bigint | null, arg1: bigint, arg2: Array<GoodsReceiptLineInput>, arg3: string, arg4: string): Promise<bigint> {
         if (this.processError) {
             try {
-                const result = await this.actor.deleteAllOrders();
+                const result = await this.actor.createGoodsReceipt(to_candid_opt_n28(this._uploadFile, this._downloadFile, arg0), arg1, to_candid_vec_n29(this._uploadFile, this._downloadFile, arg2), arg3, arg4);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.deleteAllOrders();
+            const result = await this.actor.createGoodsReceipt(to_candid_opt_n28(this._uploadFile, this._downloadFile, arg0), arg1, to_candid_vec_n29(this._uploadFile, this._downloadFile, arg2), arg3, arg4);
             return result;
         }
     }
-    async deleteCustomer(arg0: bigint): Promise<boolean> {
+    async createInvoice(arg0: bigint, arg1: Array<InvoiceLineInput>, arg2: T, arg3: bigint | null): Promise<bigint> {
         if (this.processError) {
             try {
-                const result = await this.actor.deleteCustomer(arg0);
+                const result = await this.actor.createInvoice(arg0, arg1, to_candid_T_n32(this._uploadFile, this._downloadFile, arg2), to_candid_opt_n28(this._uploadFile, this._downloadFile, arg3));
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.deleteCustomer(arg0);
+            const result = await this.actor.createInvoice(arg0, arg1, to_candid_T_n32(this._uploadFile, this._downloadFile, arg2), to_candid_opt_n28(this._uploadFile, this._downloadFile, arg3));
             return result;
         }
     }
-    async deleteNotification(arg0: bigint): Promise<boolean> {
+    async createInvoiceFromOrders(arg0: Array<bigint>): Promise<bigint> {
         if (this.processError) {
             try {
-                const result = await this.actor.deleteNotification(arg0);
+                const result = await this.actor.createInvoiceFromOrders(arg0);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.deleteNotification(arg0);
+            const result = await this.actor.createInvoiceFromOrders(arg0);
             return result;
         }
     }
-    async exportInvoiceHistory(arg0: InvoiceExportFormat, arg1: InvoiceFilter | null, arg2: string | null, arg3: string | null): Promise<ExternalBlob> {
+    async createNotification(arg0: Principal, arg1: string, arg2: string): Promise<bigint> {
         if (this.processError) {
             try {
-                const result = await this.actor.exportInvoiceHistory(to_candid_InvoiceExportFormat_n20(this._uploadFile, this._downloadFile, arg0), to_candid_opt_n22(this._uploadFile, this._downloadFile, arg1), to_candid_opt_n25(this._uploadFile, this._downloadFile, arg2), to_candid_opt_n25(this._uploadFile, this._downloadFile, arg3));
-                return from_candid_ExternalBlob_n17(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.createNotification(arg0, arg1, arg2);
+                return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.exportInvoiceHistory(to_candid_InvoiceExportFormat_n20(this._uploadFile, this._downloadFile, arg0), to_candid_opt_n22(this._uploadFile, this._downloadFile, arg1), to_candid_opt_n25(this._uploadFile, this._downloadFile, arg2), to_candid_opt_n25(this._uploadFile, this._downloadFile, arg3));
-            return from_candid_ExternalBlob_n17(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.createNotification(arg0, arg1, arg2);
+            return result;
         }
     }
-    async exportProductBarcode(arg0: BarcodeExportRequest): Promise<ExternalBlob> {
+    async createOrder(arg0: bigint, arg1: Array<OrderLineInput>): Promise<bigint> {
         if (this.processError) {
             try {
-                const result = await this.actor.exportProductBarcode(to_candid_BarcodeExportRequest_n26(this._uploadFile, this._downloadFile, arg0));
-                return from_candid_ExternalBlob_n17(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.createOrder(arg0, arg1);
+                return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.exportProductBarcode(to_candid_BarcodeExportRequest_n26(this._uploadFile, this._downloadFile, arg0));
-            return from_candid_ExternalBlob_n17(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.createOrder(arg0, arg1);
+            return result;
         }
     }
-    async getAllApprovalRequests(): Promise<Array<ApprovalRequest>> {
+    async createProductCategory(arg0: string, arg1: bigint | null): Promise<bigint> {
         if (this.processError) {
             try {
-                const result = await this.actor.getAllApprovalRequests();
-                return from_candid_vec_n28(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.createProductCategory(arg0, to_candid_opt_n28(this._uploadFile, this._downloadFile, arg1));
+                return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getAllApprovalRequests();
-            return from_candid_vec_n28(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.createProductCategory(arg0, to_candid_opt_n28(this._uploadFile, this._downloadFile, arg1));
+            return result;
         }
     }
-    async getApprovalRequests(): Promise<Array<UserApprovalInfo>> {
+    async createProductStyle(arg0: ProductStyleInput, arg1: Array<VariantQuantity>): Promise<bigint> {
         if (this.processError) {
             try {
-                const result = await this.actor.getApprovalRequests();
-                return from_candid_vec_n33(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.createProductStyle(to_candid_ProductStyleInput_n34(this._uploadFile, this._downloadFile, arg0), arg1);
+                return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getApprovalRequests();
-            return from_candid_vec_n33(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.createProductStyle(to_candid_ProductStyleInput_n34(this._uploadFile, this._downloadFile, arg0), arg1);
+            return result;
         }
     }
-    async getBootstrapState(): Promise<AppBootstrapState> {
+    async createPurchaseOrder(arg0: bigint, arg1: Array<PurchaseOrderLineInput>, arg2: Time, arg3: string): Promise<bigint> {
         if (this.processError) {
             try {
-                const result = await this.actor.getBootstrapState();
-                return from_candid_AppBootstrapState_n37(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.createPurchaseOrder(arg0, to_candid_vec_n36(this._uploadFile, this._downloadFile, arg1), arg2, arg3);
+                return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getBootstrapState();
-            return from_candid_AppBootstrapState_n37(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.createPurchaseOrder(arg0, to_candid_vec_n36(this._uploadFile, this._downloadFile, arg1), arg2, arg3);
+            return result;
         }
     }
-    async getBootstrapStatus(): Promise<BootstrapStatus> {
+    async createQuotation(arg0: bigint, arg1: Array<InvoiceLineInput>, arg2: Time, arg3: string): Promise<bigint> {
         if (this.processError) {
             try {
-                const result = await this.actor.getBootstrapStatus();
-                return from_candid_BootstrapStatus_n44(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.createQuotation(arg0, arg1, arg2, arg3);
+                return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getBootstrapStatus();
-            return from_candid_BootstrapStatus_n44(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.createQuotation(arg0, arg1, arg2, arg3);
+            return result;
         }
     }
-    async getCallerUserProfile(): Promise<UserProfile | null> {
+    async createSupplier(arg0: SupplierInput): Promise<bigint> {
         if (this.processError) {
             try {
-                const result = await this.actor.getCallerUserProfile();
-                return from_candid_opt_n39(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.createSupplier(arg0);
+                return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getCallerUserProfile();
-            return from_candid_opt_n39(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.createSupplier(arg0);
+            return result;
         }
     }
-    async getCallerUserRole(): Promise<UserRole> {
+    async createTaxonomyTerm(arg0: TaxonomyTermKind, arg1: string): Promise<bigint> {
         if (this.processError) {
             try {
-                const result = await this.actor.getCallerUserRole();
-                return from_candid_UserRole_n49(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.createTaxonomyTerm(to_candid_TaxonomyTermKind_n39(this._uploadFile, this._downloadFile, arg0), arg1);
+                return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getCallerUserRole();
-            return from_candid_UserRole_n49(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.createTaxonomyTerm(to_candid_TaxonomyTermKind_n39(this._uploadFile, this._downloadFile, arg0), arg1);
+            return result;
         }
     }
-    async getCustomer(arg0: bigint): Promise<Customer | null> {
+    async deleteAllInventory(): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.getCustomer(arg0);
-                return from_candid_opt_n51(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.deleteAllInventory();
+                return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getCustomer(arg0);
-            return from_candid_opt_n51(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.deleteAllInventory();
+            return result;
         }
     }
-    async getDataEntry(arg0: bigint): Promise<DataEntry | null> {
+    async deleteAllOrders(): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.getDataEntry(arg0);
-                return from_candid_opt_n52(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.deleteAllOrders();
+                return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getDataEntry(arg0);
-            return from_candid_opt_n52(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.deleteAllOrders();
+            return result;
         }
     }
-    async getInventoryEntry(arg0: bigint): Promise<InventoryRecord | null> {
+    async deleteCustomer(arg0: bigint): Promise<boolean> {
         if (this.processError) {
             try {
-                const result = await this.actor.getInventoryEntry(arg0);
-                return from_candid_opt_n53(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.deleteCustomer(arg0);
+                return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getInventoryEntry(arg0);
-            return from_candid_opt_n53(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.deleteCustomer(arg0);
+            return result;
         }
     }
-    async getInventoryReportBarcodes(): Promise<Array<string>> {
+    async deleteExpense(arg0: bigint): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.getInventoryReportBarcodes();
+                const result = await this.actor.deleteExpense(arg0);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getInventoryReportBarcodes();
+            const result = await this.actor.deleteExpense(arg0);
             return result;
         }
     }
-    async getInvoice(arg0: bigint): Promise<Invoice | null> {
+    async deleteNotification(arg0: bigint): Promise<boolean> {
         if (this.processError) {
             try {
-                const result = await this.actor.getInvoice(arg0);
-                return from_candid_opt_n54(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.deleteNotification(arg0);
+                return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getInvoice(arg0);
-            return from_candid_opt_n54(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.deleteNotification(arg0);
+            return result;
         }
     }
-    async getInvoiceHistory(arg0: InvoiceFilter | null, arg1: string | null, arg2: string | null): Promise<Array<Invoice>> {
+    async deleteProduct(arg0: bigint): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.getInvoiceHistory(to_candid_opt_n22(this._uploadFile, this._downloadFile, arg0), to_candid_opt_n25(this._uploadFile, this._downloadFile, arg1), to_candid_opt_n25(this._uploadFile, this._downloadFile, arg2));
-                return from_candid_vec_n61(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.deleteProduct(arg0);
+                return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getInvoiceHistory(to_candid_opt_n22(this._uploadFile, this._downloadFile, arg0), to_candid_opt_n25(this._uploadFile, this._downloadFile, arg1), to_candid_opt_n25(this._uploadFile, this._downloadFile, arg2));
-            return from_candid_vec_n61(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.deleteProduct(arg0);
+            return result;
         }
     }
-    async getOrder(arg0: bigint): Promise<OrderRecord | null> {
+    async deleteProductCategory(arg0: bigint): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.getOrder(arg0);
-                return from_candid_opt_n62(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.deleteProductCategory(arg0);
+                return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getOrder(arg0);
-            return from_candid_opt_n62(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.deleteProductCategory(arg0);
+            return result;
         }
     }
-    async getPendingUsers(): Promise<Array<UserApprovalInfo>> {
+    async deleteSupplier(arg0: bigint): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.getPendingUsers();
-                return from_candid_vec_n33(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.deleteSupplier(arg0);
+                return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getPendingUsers();
-            return from_candid_vec_n33(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.deleteSupplier(arg0);
+            return result;
         }
     }
-    async getProduct(arg0: bigint): Promise<Product | null> {
+    async deleteTaxonomyTerm(arg0: bigint): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.getProduct(arg0);
-                return from_candid_opt_n63(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.deleteTaxonomyTerm(arg0);
+                return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getProduct(arg0);
-            return from_candid_opt_n63(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.deleteTaxonomyTerm(arg0);
+            return result;
         }
     }
-    async getProductLocation(arg0: bigint): Promise<InventoryLocation | null> {
+    async exportProductBarcode(arg0: BarcodeExportRequest): Promise<ExternalBlob> {
         if (this.processError) {
             try {
-                const result = await this.actor.getProductLocation(arg0);
-                return from_candid_opt_n69(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.exportProductBarcode(to_candid_BarcodeExportRequest_n41(this._uploadFile, this._downloadFile, arg0));
+                return from_candid_ExternalBlob_n21(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getProductLocation(arg0);
-            return from_candid_opt_n69(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.exportProductBarcode(to_candid_BarcodeExportRequest_n41(this._uploadFile, this._downloadFile, arg0));
+            return from_candid_ExternalBlob_n21(this._uploadFile, this._downloadFile, result);
         }
     }
-    async getProfitLossReport(arg0: Time, arg1: Time): Promise<ProfitLossReport> {
+    async extendProductStyle(arg0: bigint, arg1: Array<string>, arg2: Array<string>): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.getProfitLossReport(arg0, arg1);
+                const result = await this.actor.extendProductStyle(arg0, arg1, arg2);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getProfitLossReport(arg0, arg1);
+            const result = await this.actor.extendProductStyle(arg0, arg1, arg2);
             return result;
         }
     }
-    async getSignatureForUser(arg0: Principal): Promise<ExternalBlob | null> {
+    async getAllApprovalRequests(): Promise<Array<ApprovalRequest>> {
         if (this.processError) {
             try {
-                const result = await this.actor.getSignatureForUser(arg0);
-                return from_candid_opt_n70(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.getAllApprovalRequests();
+                return from_candid_vec_n43(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getSignatureForUser(arg0);
-            return from_candid_opt_n70(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.getAllApprovalRequests();
+            return from_candid_vec_n43(this._uploadFile, this._downloadFile, result);
         }
     }
-    async getStats(): Promise<Stats> {
+    async getApprovalRequests(): Promise<Array<UserApprovalInfo>> {
         if (this.processError) {
             try {
-                const result = await this.actor.getStats();
-                return result;
+                const result = await this.actor.getApprovalRequests();
+                return from_candid_vec_n48(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getStats();
-            return result;
+            const result = await this.actor.getApprovalRequests();
+            return from_candid_vec_n48(this._uploadFile, this._downloadFile, result);
         }
     }
-    async getUserProfile(arg0: Principal): Promise<UserProfile | null> {
+    async getBootstrapState(): Promise<AppBootstrapState> {
         if (this.processError) {
             try {
-                const result = await this.actor.getUserProfile(arg0);
-                return from_candid_opt_n39(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.getBootstrapState();
+                return from_candid_AppBootstrapState_n52(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getUserProfile(arg0);
-            return from_candid_opt_n39(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.getBootstrapState();
+            return from_candid_AppBootstrapState_n52(this._uploadFile, this._downloadFile, result);
         }
     }
-    async getUserSignature(): Promise<ExternalBlob | null> {
+    async getBootstrapStatus(): Promise<BootstrapStatus> {
         if (this.processError) {
             try {
-                const result = await this.actor.getUserSignature();
-                return from_candid_opt_n70(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.getBootstrapStatus();
+                return from_candid_BootstrapStatus_n59(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getUserSignature();
-            return from_candid_opt_n70(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.getBootstrapStatus();
+            return from_candid_BootstrapStatus_n59(this._uploadFile, this._downloadFile, result);
         }
     }
-    async isAccountant(): Promise<boolean> {
+    async getCallerUserProfile(): Promise<UserProfile | null> {
         if (this.processError) {
             try {
-                const result = await this.actor.isAccountant();
-                return result;
+                const result = await this.actor.getCallerUserProfile();
+                return from_candid_opt_n54(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.isAccountant();
-            return result;
+            const result = await this.actor.getCallerUserProfile();
+            return from_candid_opt_n54(this._uploadFile, this._downloadFile, result);
         }
     }
-    async isAdmin(): Promise<boolean> {
+    async getCallerUserRole(): Promise<UserRole> {
         if (this.processError) {
             try {
-                const result = await this.actor.isAdmin();
-                return result;
+                const result = await this.actor.getCallerUserRole();
+                return from_candid_UserRole_n64(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.isAdmin();
-            return result;
+            const result = await this.actor.getCallerUserRole();
+            return from_candid_UserRole_n64(this._uploadFile, this._downloadFile, result);
         }
     }
-    async isCallerAdmin(): Promise<boolean> {
+    async getCompanyLogo(): Promise<ExternalBlob | null> {
         if (this.processError) {
             try {
-                const result = await this.actor.isCallerAdmin();
-                return result;
+                const result = await this.actor.getCompanyLogo();
+                return from_candid_opt_n66(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.isCallerAdmin();
-            return result;
+            const result = await this.actor.getCompanyLogo();
+            return from_candid_opt_n66(this._uploadFile, this._downloadFile, result);
         }
     }
-    async isCallerApproved(): Promise<boolean> {
+    async getCompanySettings(): Promise<CompanySettings> {
         if (this.processError) {
             try {
-                const result = await this.actor.isCallerApproved();
+                const result = await this.actor.getCompanySettings();
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.isCallerApproved();
+            const result = await this.actor.getCompanySettings();
             return result;
         }
     }
-    async isInventoryManager(): Promise<boolean> {
+    async getCustomer(arg0: bigint): Promise<Customer | null> {
         if (this.processError) {
             try {
-                const result = await this.actor.isInventoryManager();
-                return result;
+                const result = await this.actor.getCustomer(arg0);
+                return from_candid_opt_n67(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.isInventoryManager();
-            return result;
+            const result = await this.actor.getCustomer(arg0);
+            return from_candid_opt_n67(this._uploadFile, this._downloadFile, result);
         }
     }
-    async isPreviouslyRejected(arg0: Principal): Promise<boolean> {
+    async getDataEntry(arg0: bigint): Promise<DataEntry | null> {
         if (this.processError) {
             try {
-                const result = await this.actor.isPreviouslyRejected(arg0);
-                return result;
+                const result = await this.actor.getDataEntry(arg0);
+                return from_candid_opt_n68(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.isPreviouslyRejected(arg0);
-            return result;
+            const result = await this.actor.getDataEntry(arg0);
+            return from_candid_opt_n68(this._uploadFile, this._downloadFile, result);
         }
     }
-    async isSalesManager(): Promise<boolean> {
+    async getDispatch(arg0: bigint): Promise<Dispatch | null> {
         if (this.processError) {
             try {
-                const result = await this.actor.isSalesManager();
-                return result;
+                const result = await this.actor.getDispatch(arg0);
+                return from_candid_opt_n69(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.isSalesManager();
-            return result;
+            const result = await this.actor.getDispatch(arg0);
+            return from_candid_opt_n69(this._uploadFile, this._downloadFile, result);
         }
     }
-    async isSuperAdmin(): Promise<boolean> {
+    async getGoodsReceipt(arg0: bigint): Promise<GoodsReceipt | null> {
         if (this.processError) {
             try {
-                const result = await this.actor.isSuperAdmin();
-                return result;
+                const result = await this.actor.getGoodsReceipt(arg0);
+                return from_candid_opt_n75(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.isSuperAdmin();
-            return result;
+            const result = await this.actor.getGoodsReceipt(arg0);
+            return from_candid_opt_n75(this._uploadFile, this._downloadFile, result);
         }
     }
-    async listApprovals(): Promise<Array<UserApprovalInfo>> {
+    async getInventoryEntry(arg0: bigint): Promise<InventoryRecord | null> {
         if (this.processError) {
             try {
-                const result = await this.actor.listApprovals();
-                return from_candid_vec_n33(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.getInventoryEntry(arg0);
+                return from_candid_opt_n81(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.listApprovals();
-            return from_candid_vec_n33(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.getInventoryEntry(arg0);
+            return from_candid_opt_n81(this._uploadFile, this._downloadFile, result);
         }
     }
-    async listCustomers(): Promise<Array<Customer>> {
+    async getInventoryReportBarcodes(): Promise<Array<string>> {
         if (this.processError) {
             try {
-                const result = await this.actor.listCustomers();
+                const result = await this.actor.getInventoryReportBarcodes();
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.listCustomers();
+            const result = await this.actor.getInventoryReportBarcodes();
             return result;
         }
     }
-    async listDataEntries(): Promise<Array<DataEntry>> {
+    async getInvoice(arg0: bigint): Promise<Invoice | null> {
         if (this.processError) {
             try {
-                const result = await this.actor.listDataEntries();
-                return result;
+                const result = await this.actor.getInvoice(arg0);
+                return from_candid_opt_n82(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.listDataEntries();
-            return result;
+            const result = await this.actor.getInvoice(arg0);
+            return from_candid_opt_n82(this._uploadFile, this._downloadFile, result);
         }
     }
-    async listInventory(): Promise<Array<InventoryRecord>> {
+    async getInvoiceHistory(arg0: InvoiceFilter | null, arg1: string | null, arg2: string | null): Promise<Array<Invoice>> {
         if (this.processError) {
             try {
-                const result = await this.actor.listInventory();
+                const result = await this.actor.getInvoiceHistory(to_candid_opt_n88(this._uploadFile, this._downloadFile, arg0), to_candid_opt_n91(this._uploadFile, this._downloadFile, arg1), to_candid_opt_n91(this._uploadFile, this._downloadFile, arg2));
+                return from_candid_vec_n92(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getInvoiceHistory(to_candid_opt_n88(this._uploadFile, this._downloadFile, arg0), to_candid_opt_n91(this._uploadFile, this._downloadFile, arg1), to_candid_opt_n91(this._uploadFile, this._downloadFile, arg2));
+            return from_candid_vec_n92(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getInvoiceNumberPrefix(): Promise<string> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getInvoiceNumberPrefix();
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.listInventory();
+            const result = await this.actor.getInvoiceNumberPrefix();
             return result;
         }
     }
-    async listInvoices(): Promise<Array<Invoice>> {
+    async getOrder(arg0: bigint): Promise<OrderRecord | null> {
         if (this.processError) {
             try {
-                const result = await this.actor.listInvoices();
-                return from_candid_vec_n61(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.getOrder(arg0);
+                return from_candid_opt_n93(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.listInvoices();
-            return from_candid_vec_n61(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.getOrder(arg0);
+            return from_candid_opt_n93(this._uploadFile, this._downloadFile, result);
         }
     }
-    async listNotifications(): Promise<Array<Notification>> {
+    async getPendingUsers(): Promise<Array<UserApprovalInfo>> {
         if (this.processError) {
             try {
-                const result = await this.actor.listNotifications();
-                return result;
+                const result = await this.actor.getPendingUsers();
+                return from_candid_vec_n48(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.listNotifications();
-            return result;
+            const result = await this.actor.getPendingUsers();
+            return from_candid_vec_n48(this._uploadFile, this._downloadFile, result);
         }
     }
-    async listOrders(): Promise<Array<OrderRecord>> {
+    async getProduct(arg0: bigint): Promise<Product | null> {
         if (this.processError) {
             try {
-                const result = await this.actor.listOrders();
+                const result = await this.actor.getProduct(arg0);
+                return from_candid_opt_n101(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getProduct(arg0);
+            return from_candid_opt_n101(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getProductLocation(arg0: bigint): Promise<InventoryLocation | null> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getProductLocation(arg0);
+                return from_candid_opt_n109(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getProductLocation(arg0);
+            return from_candid_opt_n109(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getProfitLossReport(arg0: Time, arg1: Time): Promise<ProfitLossReport> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getProfitLossReport(arg0, arg1);
+                return from_candid_ProfitLossReport_n110(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getProfitLossReport(arg0, arg1);
+            return from_candid_ProfitLossReport_n110(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getPurchaseOrder(arg0: bigint): Promise<PurchaseOrder | null> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getPurchaseOrder(arg0);
+                return from_candid_opt_n117(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getPurchaseOrder(arg0);
+            return from_candid_opt_n117(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getQuotation(arg0: bigint): Promise<Quotation | null> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getQuotation(arg0);
+                return from_candid_opt_n125(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getQuotation(arg0);
+            return from_candid_opt_n125(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getSignatureForUser(arg0: Principal): Promise<ExternalBlob | null> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getSignatureForUser(arg0);
+                return from_candid_opt_n66(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getSignatureForUser(arg0);
+            return from_candid_opt_n66(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getStats(): Promise<Stats> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getStats();
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.listOrders();
+            const result = await this.actor.getStats();
             return result;
         }
     }
-    async listProducts(): Promise<Array<Product>> {
+    async getSupplier(arg0: bigint): Promise<Supplier | null> {
         if (this.processError) {
             try {
-                const result = await this.actor.listProducts();
-                return from_candid_vec_n71(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.getSupplier(arg0);
+                return from_candid_opt_n130(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.listProducts();
-            return from_candid_vec_n71(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.getSupplier(arg0);
+            return from_candid_opt_n130(this._uploadFile, this._downloadFile, result);
         }
     }
-    async listSecondaryAdminEmails(): Promise<Array<string>> {
+    async getUserProfile(arg0: Principal): Promise<UserProfile | null> {
         if (this.processError) {
             try {
-                const result = await this.actor.listSecondaryAdminEmails();
+                const result = await this.actor.getUserProfile(arg0);
+                return from_candid_opt_n54(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getUserProfile(arg0);
+            return from_candid_opt_n54(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getUserSignature(): Promise<ExternalBlob | null> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getUserSignature();
+                return from_candid_opt_n66(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getUserSignature();
+            return from_candid_opt_n66(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async importProducts(arg0: Array<ProductImportRow>): Promise<ProductImportSummary> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.importProducts(to_candid_vec_n131(this._uploadFile, this._downloadFile, arg0));
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.listSecondaryAdminEmails();
+            const result = await this.actor.importProducts(to_candid_vec_n131(this._uploadFile, this._downloadFile, arg0));
             return result;
         }
     }
-    async markNotificationAsRead(arg0: bigint): Promise<boolean> {
+    async isAccountant(): Promise<boolean> {
         if (this.processError) {
             try {
-                const result = await this.actor.markNotificationAsRead(arg0);
+                const result = await this.actor.isAccountant();
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.markNotificationAsRead(arg0);
+            const result = await this.actor.isAccountant();
             return result;
         }
     }
-    async permanentlyRemoveUserAccount(arg0: Principal): Promise<void> {
+    async isAdmin(): Promise<boolean> {
         if (this.processError) {
             try {
-                const result = await this.actor.permanentlyRemoveUserAccount(arg0);
+                const result = await this.actor.isAdmin();
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.permanentlyRemoveUserAccount(arg0);
+            const result = await this.actor.isAdmin();
             return result;
         }
     }
-    async processPreviouslyRejectedUser(arg0: Principal): Promise<void> {
+    async isCallerAdmin(): Promise<boolean> {
         if (this.processError) {
             try {
-                const result = await this.actor.processPreviouslyRejectedUser(arg0);
+                const result = await this.actor.isCallerAdmin();
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.processPreviouslyRejectedUser(arg0);
+            const result = await this.actor.isCallerAdmin();
             return result;
         }
     }
-    async rejectUser(arg0: Principal): Promise<void> {
+    async isCallerApproved(): Promise<boolean> {
         if (this.processError) {
             try {
-                const result = await this.actor.rejectUser(arg0);
+                const result = await this.actor.isCallerApproved();
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.rejectUser(arg0);
+            const result = await this.actor.isCallerApproved();
             return result;
         }
     }
-    async removeSecondaryAdminEmail(arg0: string): Promise<void> {
+    async isInventoryManager(): Promise<boolean> {
         if (this.processError) {
             try {
-                const result = await this.actor.removeSecondaryAdminEmail(arg0);
+                const result = await this.actor.isInventoryManager();
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.removeSecondaryAdminEmail(arg0);
+            const result = await this.actor.isInventoryManager();
             return result;
         }
     }
-    async requestApproval(): Promise<void> {
+    async isPreviouslyRejected(arg0: Principal): Promise<boolean> {
         if (this.processError) {
             try {
-                const result = await this.actor.requestApproval();
+                const result = await this.actor.isPreviouslyRejected(arg0);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.requestApproval();
+            const result = await this.actor.isPreviouslyRejected(arg0);
             return result;
         }
     }
-    async saveCallerUserProfile(arg0: UserProfile): Promise<void> {
+    async isSalesManager(): Promise<boolean> {
         if (this.processError) {
             try {
-                const result = await this.actor.saveCallerUserProfile(to_candid_UserProfile_n72(this._uploadFile, this._downloadFile, arg0));
+                const result = await this.actor.isSalesManager();
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.saveCallerUserProfile(to_candid_UserProfile_n72(this._uploadFile, this._downloadFile, arg0));
+            const result = await this.actor.isSalesManager();
             return result;
         }
     }
-    async setApproval(arg0: Principal, arg1: ApprovalStatus): Promise<void> {
+    async isSuperAdmin(): Promise<boolean> {
         if (this.processError) {
             try {
-                const result = await this.actor.setApproval(arg0, to_candid_ApprovalStatus_n74(this._uploadFile, this._downloadFile, arg1));
+                const result = await this.actor.isSuperAdmin();
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.setApproval(arg0, to_candid_ApprovalStatus_n74(this._uploadFile, this._downloadFile, arg1));
+            const result = await this.actor.isSuperAdmin();
             return result;
         }
     }
-    async setProductLocation(arg0: bigint, arg1: InventoryLocation): Promise<void> {
+    async listApprovals(): Promise<Array<UserApprovalInfo>> {
         if (this.processError) {
             try {
-                const result = await this.actor.setProductLocation(arg0, arg1);
+                const result = await this.actor.listApprovals();
+                return from_candid_vec_n48(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listApprovals();
+            return from_candid_vec_n48(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async listCreditNotes(): Promise<Array<CreditNote>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listCreditNotes();
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.setProductLocation(arg0, arg1);
+            const result = await this.actor.listCreditNotes();
             return result;
         }
     }
-    async stockAdjustInvoice(arg0: bigint): Promise<void> {
+    async listCustomers(): Promise<Array<Customer>> {
         if (this.processError) {
             try {
-                const result = await this.actor.stockAdjustInvoice(arg0);
+                const result = await this.actor.listCustomers();
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.stockAdjustInvoice(arg0);
+            const result = await this.actor.listCustomers();
             return result;
         }
     }
-    async updateInvoiceDocumentUrls(arg0: bigint, arg1: string | null, arg2: string | null): Promise<boolean> {
+    async listDataEntries(): Promise<Array<DataEntry>> {
         if (this.processError) {
             try {
-                const result = await this.actor.updateInvoiceDocumentUrls(arg0, to_candid_opt_n25(this._uploadFile, this._downloadFile, arg1), to_candid_opt_n25(this._uploadFile, this._downloadFile, arg2));
+                const result = await this.actor.listDataEntries();
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.updateInvoiceDocumentUrls(arg0, to_candid_opt_n25(this._uploadFile, this._downloadFile, arg1), to_candid_opt_n25(this._uploadFile, this._downloadFile, arg2));
+            const result = await this.actor.listDataEntries();
             return result;
         }
     }
-    async updateProduct(arg0: bigint, arg1: string, arg2: string, arg3: bigint, arg4: bigint, arg5: string, arg6: string, arg7: string, arg8: string, arg9: string, arg10: string): Promise<void> {
+    async listDispatches(): Promise<Array<Dispatch>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listDispatches();
+                return from_candid_vec_n134(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listDispatches();
+            return from_candid_vec_n134(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async listExpenses(): Promise<Array<Expense>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listExpenses();
+                return from_candid_vec_n135(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listExpenses();
+            return from_candid_vec_n135(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async listGoodsReceipts(): Promise<Array<GoodsReceipt>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listGoodsReceipts();
+                return from_candid_vec_n140(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listGoodsReceipts();
+            return from_candid_vec_n140(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async listInventory(): Promise<Array<InventoryRecord>> {
         if (this.processError) {
             try {
-                const result = await this.actor.updateProduct(arg0, arg1, arg2, arg3, arg4, arg5, arg6, arg7, arg8, arg9, arg10);
+                const result = await this.actor.listInventory();
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.updateProduct(arg0, arg1, arg2, arg3, arg4, arg5, arg6, arg7, arg8, arg9, arg10);
+            const result = await this.actor.listInventory();
             return result;
         }
     }
-    async uploadUserSignature(arg0: ExternalBlob): Promise<void> {
+    async listInvoicePayments(arg0: bigint): Promise<Array<Payment>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listInvoicePayments(arg0);
+                return from_candid_vec_n141(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listInvoicePayments(arg0);
+            return from_candid_vec_n141(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async listInvoices(): Promise<Array<Invoice>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listInvoices();
+                return from_candid_vec_n92(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listInvoices();
+            return from_candid_vec_n92(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async listNotifications(): Promise<Array<Notification>> {
         if (this.processError) {
             try {
-                const result = await this.actor.uploadUserSignature(await to_candid_ExternalBlob_n8(this._uploadFile, this._downloadFile, arg0));
+                const result = await this.actor.listNotifications();
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.uploadUserSignature(await to_candid_ExternalBlob_n8(this._uploadFile, this._downloadFile, arg0));
+            const result = await this.actor.listNotifications();
+            return result;
+        }
+    }
+    async listOrders(): Promise<Array<OrderRecord>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listOrders();
+                return from_candid_vec_n144(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listOrders();
+            return from_candid_vec_n144(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async listPayments(): Promise<Array<Payment>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listPayments();
+                return from_candid_vec_n141(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listPayments();
+            return from_candid_vec_n141(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async listProductCategories(): Promise<Array<ProductCategory>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listProductCategories();
+                return from_candid_vec_n145(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listProductCategories();
+            return from_candid_vec_n145(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async listProductStyles(): Promise<Array<ProductStyle>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listProductStyles();
+                return from_candid_vec_n148(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listProductStyles();
+            return from_candid_vec_n148(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async listProducts(): Promise<Array<Product>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listProducts();
+                return from_candid_vec_n151(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listProducts();
+            return from_candid_vec_n151(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async listPurchaseOrders(): Promise<Array<PurchaseOrder>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listPurchaseOrders();
+                return from_candid_vec_n152(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listPurchaseOrders();
+            return from_candid_vec_n152(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async listQuotations(): Promise<Array<Quotation>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listQuotations();
+                return from_candid_vec_n153(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listQuotations();
+            return from_candid_vec_n153(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async listSecondaryAdminEmails(): Promise<Array<string>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listSecondaryAdminEmails();
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listSecondaryAdminEmails();
+            return result;
+        }
+    }
+    async listStockMovements(arg0: bigint): Promise<Array<StockMovement>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listStockMovements(arg0);
+                return from_candid_vec_n154(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listStockMovements(arg0);
+            return from_candid_vec_n154(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async listSuppliers(): Promise<Array<Supplier>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listSuppliers();
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listSuppliers();
+            return result;
+        }
+    }
+    async listTaxonomyTerms(): Promise<Array<TaxonomyTerm>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listTaxonomyTerms();
+                return from_candid_vec_n159(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listTaxonomyTerms();
+            return from_candid_vec_n159(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async markNotificationAsRead(arg0: bigint): Promise<boolean> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.markNotificationAsRead(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.markNotificationAsRead(arg0);
+            return result;
+        }
+    }
+    async permanentlyRemoveUserAccount(arg0: Principal): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.permanentlyRemoveUserAccount(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.permanentlyRemoveUserAccount(arg0);
+            return result;
+        }
+    }
+    async processPreviouslyRejectedUser(arg0: Principal): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.processPreviouslyRejectedUser(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.processPreviouslyRejectedUser(arg0);
+            return result;
+        }
+    }
+    async recordPayment(arg0: bigint, arg1: bigint, arg2: Time, arg3: PaymentMode, arg4: string): Promise<bigint> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.recordPayment(arg0, arg1, arg2, to_candid_PaymentMode_n24(this._uploadFile, this._downloadFile, arg3), arg4);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.recordPayment(arg0, arg1, arg2, to_candid_PaymentMode_n24(this._uploadFile, this._downloadFile, arg3), arg4);
+            return result;
+        }
+    }
+    async rejectUser(arg0: Principal): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.rejectUser(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.rejectUser(arg0);
+            return result;
+        }
+    }
+    async removeSecondaryAdminEmail(arg0: string): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.removeSecondaryAdminEmail(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.removeSecondaryAdminEmail(arg0);
+            return result;
+        }
+    }
+    async renameProductCategory(arg0: bigint, arg1: string): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.renameProductCategory(arg0, arg1);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.renameProductCategory(arg0, arg1);
+            return result;
+        }
+    }
+    async requestApproval(): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.requestApproval();
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.requestApproval();
+            return result;
+        }
+    }
+    async restoreProduct(arg0: bigint): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.restoreProduct(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.restoreProduct(arg0);
+            return result;
+        }
+    }
+    async reviseProductPrices(arg0: Array<ProductPriceRevision>): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.reviseProductPrices(to_candid_vec_n164(this._uploadFile, this._downloadFile, arg0));
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.reviseProductPrices(to_candid_vec_n164(this._uploadFile, this._downloadFile, arg0));
+            return result;
+        }
+    }
+    async saveCallerUserProfile(arg0: UserProfile): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.saveCallerUserProfile(to_candid_UserProfile_n167(this._uploadFile, this._downloadFile, arg0));
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.saveCallerUserProfile(to_candid_UserProfile_n167(this._uploadFile, this._downloadFile, arg0));
+            return result;
+        }
+    }
+    async setApproval(arg0: Principal, arg1: ApprovalStatus): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.setApproval(arg0, to_candid_ApprovalStatus_n169(this._uploadFile, this._downloadFile, arg1));
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.setApproval(arg0, to_candid_ApprovalStatus_n169(this._uploadFile, this._downloadFile, arg1));
+            return result;
+        }
+    }
+    async setCompanyLogo(arg0: ExternalBlob | null): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.setCompanyLogo(await to_candid_opt_n171(this._uploadFile, this._downloadFile, arg0));
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.setCompanyLogo(await to_candid_opt_n171(this._uploadFile, this._downloadFile, arg0));
+            return result;
+        }
+    }
+    async setInvoiceNumberPrefix(arg0: string): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.setInvoiceNumberPrefix(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.setInvoiceNumberPrefix(arg0);
+            return result;
+        }
+    }
+    async setProductLocation(arg0: bigint, arg1: InventoryLocation): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.setProductLocation(arg0, arg1);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.setProductLocation(arg0, arg1);
+            return result;
+        }
+    }
+    async setProductsCategory(arg0: Array<bigint>, arg1: bigint | null): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.setProductsCategory(arg0, to_candid_opt_n28(this._uploadFile, this._downloadFile, arg1));
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.setProductsCategory(arg0, to_candid_opt_n28(this._uploadFile, this._downloadFile, arg1));
+            return result;
+        }
+    }
+    async setProductsLocation(arg0: Array<bigint>, arg1: string, arg2: string, arg3: string): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.setProductsLocation(arg0, arg1, arg2, arg3);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.setProductsLocation(arg0, arg1, arg2, arg3);
+            return result;
+        }
+    }
+    async stockAdjustInvoice(arg0: bigint): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.stockAdjustInvoice(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.stockAdjustInvoice(arg0);
+            return result;
+        }
+    }
+    async updateCompanySettings(arg0: CompanySettings): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.updateCompanySettings(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.updateCompanySettings(arg0);
+            return result;
+        }
+    }
+    async updateCustomerPaymentTerms(arg0: bigint, arg1: bigint): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.updateCustomerPaymentTerms(arg0, arg1);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.updateCustomerPaymentTerms(arg0, arg1);
+            return result;
+        }
+    }
+    async updateDispatchDetails(arg0: bigint, arg1: DispatchInput): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.updateDispatchDetails(arg0, arg1);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.updateDispatchDetails(arg0, arg1);
+            return result;
+        }
+    }
+    async updateDispatchStatus(arg0: bigint, arg1: DispatchStatus, arg2: Time | null): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.updateDispatchStatus(arg0, to_candid_DispatchStatus_n172(this._uploadFile, this._downloadFile, arg1), to_candid_opt_n174(this._uploadFile, this._downloadFile, arg2));
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.updateDispatchStatus(arg0, to_candid_DispatchStatus_n172(this._uploadFile, this._downloadFile, arg1), to_candid_opt_n174(this._uploadFile, this._downloadFile, arg2));
+            return result;
+        }
+    }
+    async updateExpense(arg0: bigint, arg1: ExpenseInput): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.updateExpense(arg0, await to_candid_ExpenseInput_n22(this._uploadFile, this._downloadFile, arg1));
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.updateExpense(arg0, await to_candid_ExpenseInput_n22(this._uploadFile, this._downloadFile, arg1));
+            return result;
+        }
+    }
+    async updateInvoiceDocumentUrls(arg0: bigint, arg1: string | null, arg2: string | null): Promise<boolean> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.updateInvoiceDocumentUrls(arg0, to_candid_opt_n91(this._uploadFile, this._downloadFile, arg1), to_candid_opt_n91(this._uploadFile, this._downloadFile, arg2));
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.updateInvoiceDocumentUrls(arg0, to_candid_opt_n91(this._uploadFile, this._downloadFile, arg1), to_candid_opt_n91(this._uploadFile, this._downloadFile, arg2));
+            return result;
+        }
+    }
+    async updateOrderStatus(arg0: bigint, arg1: OrderStatus): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.updateOrderStatus(arg0, to_candid_OrderStatus_n175(this._uploadFile, this._downloadFile, arg1));
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.updateOrderStatus(arg0, to_candid_OrderStatus_n175(this._uploadFile, this._downloadFile, arg1));
+            return result;
+        }
+    }
+    async updateProduct(arg0: bigint, arg1: string, arg2: string, arg3: bigint, arg4: bigint, arg5: bigint, arg6: bigint, arg7: bigint, arg8: string, arg9: string, arg10: string, arg11: string, arg12: string, arg13: string, arg14: string, arg15: TaxSlabRule, arg16: ProductAttributes): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.updateProduct(arg0, arg1, arg2, arg3, arg4, arg5, arg6, arg7, arg8, arg9, arg10, arg11, arg12, arg13, arg14, arg15, to_candid_ProductAttributes_n8(this._uploadFile, this._downloadFile, arg16));
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.updateProduct(arg0, arg1, arg2, arg3, arg4, arg5, arg6, arg7, arg8, arg9, arg10, arg11, arg12, arg13, arg14, arg15, to_candid_ProductAttributes_n8(this._uploadFile, this._downloadFile, arg16));
+            return result;
+        }
+    }
+    async updatePurchaseOrderStatus(arg0: bigint, arg1: PurchaseOrderStatus): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.updatePurchaseOrderStatus(arg0, to_candid_PurchaseOrderStatus_n177(this._uploadFile, this._downloadFile, arg1));
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.updatePurchaseOrderStatus(arg0, to_candid_PurchaseOrderStatus_n177(this._uploadFile, this._downloadFile, arg1));
+            return result;
+        }
+    }
+    async updateQuotationStatus(arg0: bigint, arg1: QuotationStatus): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.updateQuotationStatus(arg0, to_candid_QuotationStatus_n179(this._uploadFile, this._downloadFile, arg1));
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.updateQuotationStatus(arg0, to_candid_QuotationStatus_n179(this._uploadFile, this._downloadFile, arg1));
+            return result;
+        }
+    }
+    async updateSupplier(arg0: bigint, arg1: SupplierInput): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.updateSupplier(arg0, arg1);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.updateSupplier(arg0, arg1);
+            return result;
+        }
+    }
+    async uploadUserSignature(arg0: ExternalBlob): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.uploadUserSignature(await to_candid_ExternalBlob_n10(this._uploadFile, this._downloadFile, arg0));
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.uploadUserSignature(await to_candid_ExternalBlob_n10(this._uploadFile, this._downloadFile, arg0));
             return result;
         }
     }
 }
-function from_candid_AppBootstrapState_n37(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _AppBootstrapState): AppBootstrapState {
-    return from_candid_record_n38(_uploadFile, _downloadFile, value);
+function from_candid_AppBootstrapState_n52(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _AppBootstrapState): AppBootstrapState {
+    return from_candid_record_n53(_uploadFile, _downloadFile, value);
 }
-function from_candid_AppRole_n42(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _AppRole): AppRole {
-    return from_candid_variant_n43(_uploadFile, _downloadFile, value);
+function from_candid_AppRole_n57(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _AppRole): AppRole {
+    return from_candid_variant_n58(_uploadFile, _downloadFile, value);
 }
-function from_candid_ApprovalRequest_n29(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ApprovalRequest): ApprovalRequest {
-    return from_candid_record_n30(_uploadFile, _downloadFile, value);
+function from_candid_ApprovalRequest_n44(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ApprovalRequest): ApprovalRequest {
+    return from_candid_record_n45(_uploadFile, _downloadFile, value);
 }
-function from_candid_ApprovalStatus_n36(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ApprovalStatus): ApprovalStatus {
-    return from_candid_variant_n32(_uploadFile, _downloadFile, value);
+function from_candid_ApprovalStatus_n51(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ApprovalStatus): ApprovalStatus {
+    return from_candid_variant_n47(_uploadFile, _downloadFile, value);
 }
-function from_candid_BootstrapStatus_n44(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _BootstrapStatus): BootstrapStatus {
-    return from_candid_record_n45(_uploadFile, _downloadFile, value);
+function from_candid_BootstrapStatus_n59(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _BootstrapStatus): BootstrapStatus {
+    return from_candid_record_n60(_uploadFile, _downloadFile, value);
 }
-async function from_candid_ExternalBlob_n17(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ExternalBlob): Promise<ExternalBlob> {
+function from_candid_DispatchStatus_n72(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _DispatchStatus): DispatchStatus {
+    return from_candid_variant_n73(_uploadFile, _downloadFile, value);
+}
+function from_candid_Dispatch_n70(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Dispatch): Dispatch {
+    return from_candid_record_n71(_uploadFile, _downloadFile, value);
+}
+function from_candid_ExpenseCategoryTotal_n113(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ExpenseCategoryTotal): ExpenseCategoryTotal {
+    return from_candid_record_n114(_uploadFile, _downloadFile, value);
+}
+function from_candid_ExpenseCategory_n115(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ExpenseCategory): ExpenseCategory {
+    return from_candid_variant_n116(_uploadFile, _downloadFile, value);
+}
+async function from_candid_Expense_n136(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Expense): Promise<Expense> {
+    return await from_candid_record_n137(_uploadFile, _downloadFile, value);
+}
+async function from_candid_ExternalBlob_n21(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ExternalBlob): Promise<ExternalBlob> {
     return await _downloadFile(value);
 }
-function from_candid_InventoryStatus_n66(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _InventoryStatus): InventoryStatus {
-    return from_candid_variant_n67(_uploadFile, _downloadFile, value);
+function from_candid_GoodsReceiptLine_n79(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _GoodsReceiptLine): GoodsReceiptLine {
+    return from_candid_record_n80(_uploadFile, _downloadFile, value);
 }
-function from_candid_Invoice_n55(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Invoice): Invoice {
-    return from_candid_record_n56(_uploadFile, _downloadFile, value);
+function from_candid_GoodsReceipt_n76(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _GoodsReceipt): GoodsReceipt {
+    return from_candid_record_n77(_uploadFile, _downloadFile, value);
 }
-async function from_candid_Product_n64(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Product): Promise<Product> {
-    return await from_candid_record_n65(_uploadFile, _downloadFile, value);
+function from_candid_InventoryStatus_n104(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _InventoryStatus): InventoryStatus {
+    return from_candid_variant_n105(_uploadFile, _downloadFile, value);
 }
-function from_candid_SystemStatus_n47(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _SystemStatus): SystemStatus {
-    return from_candid_variant_n48(_uploadFile, _downloadFile, value);
+function from_candid_Invoice_n83(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Invoice): Invoice {
+    return from_candid_record_n84(_uploadFile, _downloadFile, value);
 }
-function from_candid_T_n57(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _T): T {
-    return from_candid_variant_n58(_uploadFile, _downloadFile, value);
+function from_candid_OrderRecord_n94(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _OrderRecord): OrderRecord {
+    return from_candid_record_n95(_uploadFile, _downloadFile, value);
+}
+function from_candid_OrderStatusChange_n99(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _OrderStatusChange): OrderStatusChange {
+    return from_candid_record_n100(_uploadFile, _downloadFile, value);
 }
-function from_candid_UserApprovalInfo_n34(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _UserApprovalInfo): UserApprovalInfo {
-    return from_candid_record_n35(_uploadFile, _downloadFile, value);
+function from_candid_OrderStatus_n96(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _OrderStatus): OrderStatus {
+    return from_candid_variant_n97(_uploadFile, _downloadFile, value);
 }
-function from_candid_UserApprovalStatus_n31(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _UserApprovalStatus): UserApprovalStatus {
-    return from_candid_variant_n32(_uploadFile, _downloadFile, value);
+function from_candid_PaymentMode_n138(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _PaymentMode): PaymentMode {
+    return from_candid_variant_n139(_uploadFile, _downloadFile, value);
 }
-function from_candid_UserProfile_n40(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _UserProfile): UserProfile {
-    return from_candid_record_n41(_uploadFile, _downloadFile, value);
+function from_candid_Payment_n142(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Payment): Payment {
+    return from_candid_record_n143(_uploadFile, _downloadFile, value);
 }
-function from_candid_UserRole_n49(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _UserRole): UserRole {
-    return from_candid_variant_n50(_uploadFile, _downloadFile, value);
+function from_candid_ProductAttributes_n106(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ProductAttributes): ProductAttributes {
+    return from_candid_record_n107(_uploadFile, _downloadFile, value);
+}
+function from_candid_ProductCategory_n146(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ProductCategory): ProductCategory {
+    return from_candid_record_n147(_uploadFile, _downloadFile, value);
+}
+function from_candid_ProductStyle_n149(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ProductStyle): ProductStyle {
+    return from_candid_record_n150(_uploadFile, _downloadFile, value);
+}
+async function from_candid_Product_n102(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Product): Promise<Product> {
+    return await from_candid_record_n103(_uploadFile, _downloadFile, value);
+}
+function from_candid_ProfitLossReport_n110(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ProfitLossReport): ProfitLossReport {
+    return from_candid_record_n111(_uploadFile, _downloadFile, value);
+}
+function from_candid_PurchaseOrderLine_n123(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _PurchaseOrderLine): PurchaseOrderLine {
+    return from_candid_record_n124(_uploadFile, _downloadFile, value);
+}
+function from_candid_PurchaseOrderStatus_n120(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _PurchaseOrderStatus): PurchaseOrderStatus {
+    return from_candid_variant_n121(_uploadFile, _downloadFile, value);
+}
+function from_candid_PurchaseOrder_n118(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _PurchaseOrder): PurchaseOrder {
+    return from_candid_record_n119(_uploadFile, _downloadFile, value);
+}
+function from_candid_QuotationStatus_n128(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _QuotationStatus): QuotationStatus {
+    return from_candid_variant_n129(_uploadFile, _downloadFile, value);
+}
+function from_candid_Quotation_n126(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Quotation): Quotation {
+    return from_candid_record_n127(_uploadFile, _downloadFile, value);
+}
+function from_candid_StockMovementReason_n157(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _StockMovementReason): StockMovementReason {
+    return from_candid_variant_n158(_uploadFile, _downloadFile, value);
+}
+function from_candid_StockMovement_n155(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _StockMovement): StockMovement {
+    return from_candid_record_n156(_uploadFile, _downloadFile, value);
+}
+function from_candid_SystemStatus_n62(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _SystemStatus): SystemStatus {
+    return from_candid_variant_n63(_uploadFile, _downloadFile, value);
+}
+function from_candid_T_n85(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _T): T {
+    return from_candid_variant_n86(_uploadFile, _downloadFile, value);
+}
+function from_candid_TaxonomyTermKind_n162(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _TaxonomyTermKind): TaxonomyTermKind {
+    return from_candid_variant_n163(_uploadFile, _downloadFile, value);
+}
+function from_candid_TaxonomyTerm_n160(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _TaxonomyTerm): TaxonomyTerm {
+    return from_candid_record_n161(_uploadFile, _downloadFile, value);
+}
+function from_candid_UserApprovalInfo_n49(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _UserApprovalInfo): UserApprovalInfo {
+    return from_candid_record_n50(_uploadFile, _downloadFile, value);
+}
+function from_candid_UserApprovalStatus_n46(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _UserApprovalStatus): UserApprovalStatus {
+    return from_candid_variant_n47(_uploadFile, _downloadFile, value);
+}
+function from_candid_UserProfile_n55(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _UserProfile): UserProfile {
+    return from_candid_record_n56(_uploadFile, _downloadFile, value);
+}
+function from_candid_UserRole_n64(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _UserRole): UserRole {
+    return from_candid_variant_n65(_uploadFile, _downloadFile, value);
 }
 function from_candid__CaffeineStorageRefillResult_n4(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: __CaffeineStorageRefillResult): _CaffeineStorageRefillResult {
     return from_candid_record_n5(_uploadFile, _downloadFile, value);
 }
-function from_candid_opt_n39(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_UserProfile]): UserProfile | null {
-    return value.length === 0 ? null : from_candid_UserProfile_n40(_uploadFile, _downloadFile, value[0]);
+async function from_candid_opt_n101(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_Product]): Promise<Product | null> {
+    return value.length === 0 ? null : await from_candid_Product_n102(_uploadFile, _downloadFile, value[0]);
+}
+function from_candid_opt_n109(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_InventoryLocation]): InventoryLocation | null {
+    return value.length === 0 ? null : value[0];
+}
+function from_candid_opt_n117(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_PurchaseOrder]): PurchaseOrder | null {
+    return value.length === 0 ? null : from_candid_PurchaseOrder_n118(_uploadFile, _downloadFile, value[0]);
+}
+function from_candid_opt_n125(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_Quotation]): Quotation | null {
+    return value.length === 0 ? null : from_candid_Quotation_n126(_uploadFile, _downloadFile, value[0]);
 }
-function from_candid_opt_n46(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_SystemStatus]): SystemStatus | null {
-    return value.length === 0 ? null : from_candid_SystemStatus_n47(_uploadFile, _downloadFile, value[0]);
+function from_candid_opt_n130(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_Supplier]): Supplier | null {
+    return value.length === 0 ? null : value[0];
+}
+function from_candid_opt_n54(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_UserProfile]): UserProfile | null {
+    return value.length === 0 ? null : from_candid_UserProfile_n55(_uploadFile, _downloadFile, value[0]);
 }
-function from_candid_opt_n51(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_Customer]): Customer | null {
+function from_candid_opt_n6(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [boolean]): boolean | null {
     return value.length === 0 ? null : value[0];
 }
-function from_candid_opt_n52(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_DataEntry]): DataEntry | null {
+function from_candid_opt_n61(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_SystemStatus]): SystemStatus | null {
+    return value.length === 0 ? null : from_candid_SystemStatus_n62(_uploadFile, _downloadFile, value[0]);
+}
+async function from_candid_opt_n66(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_ExternalBlob]): Promise<ExternalBlob | null> {
+    return value.length === 0 ? null : await from_candid_ExternalBlob_n21(_uploadFile, _downloadFile, value[0]);
+}
+function from_candid_opt_n67(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_Customer]): Customer | null {
     return value.length === 0 ? null : value[0];
 }
-function from_candid_opt_n53(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_InventoryRecord]): InventoryRecord | null {
+function from_candid_opt_n68(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_DataEntry]): DataEntry | null {
     return value.length === 0 ? null : value[0];
 }
-function from_candid_opt_n54(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_Invoice]): Invoice | null {
-    return value.length === 0 ? null : from_candid_Invoice_n55(_uploadFile, _downloadFile, value[0]);
+function from_candid_opt_n69(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_Dispatch]): Dispatch | null {
+    return value.length === 0 ? null : from_candid_Dispatch_n70(_uploadFile, _downloadFile, value[0]);
 }
-function from_candid_opt_n59(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_Time]): Time | null {
+function from_candid_opt_n7(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [bigint]): bigint | null {
     return value.length === 0 ? null : value[0];
 }
-function from_candid_opt_n6(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [boolean]): boolean | null {
+function from_candid_opt_n74(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_Time]): Time | null {
+    return value.length === 0 ? null : value[0];
+}
+function from_candid_opt_n75(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_GoodsReceipt]): GoodsReceipt | null {
+    return value.length === 0 ? null : from_candid_GoodsReceipt_n76(_uploadFile, _downloadFile, value[0]);
+}
+function from_candid_opt_n81(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_InventoryRecord]): InventoryRecord | null {
+    return value.length === 0 ? null : value[0];
+}
+function from_candid_opt_n82(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_Invoice]): Invoice | null {
+    return value.length === 0 ? null : from_candid_Invoice_n83(_uploadFile, _downloadFile, value[0]);
+}
+function from_candid_opt_n87(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [string]): string | null {
     return value.length === 0 ? null : value[0];
 }
-function from_candid_opt_n60(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [string]): string | null {
-    return value.length === 0 ? null : value[0];
+function from_candid_opt_n93(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_OrderRecord]): OrderRecord | null {
+    return value.length === 0 ? null : from_candid_OrderRecord_n94(_uploadFile, _downloadFile, value[0]);
+}
+function from_candid_record_n100(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    status: _OrderStatus;
+    changedAt: _Time;
+}): {
+    status: OrderStatus;
+    changedAt: Time;
+} {
+    return {
+        status: from_candid_OrderStatus_n96(_uploadFile, _downloadFile, value.status),
+        changedAt: value.changedAt
+    };
+}
+async function from_candid_record_n103(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    mrp: bigint;
+    styleId: [] | [bigint];
+    inventoryStatus: _InventoryStatus;
+    name: string;
+    wholesalePrice: bigint;
+    color: string;
+    rack: string;
+    size: string;
+    description: string;
+    hsnCode: string;
+    productId: bigint;
+    shelf: string;
+    reservedStock: bigint;
+    attributes: _ProductAttributes;
+    barcode: string;
+    stockLevel: bigint;
+    price: bigint;
+    costPrice: bigint;
+    warehouse: string;
+    supplierId: [] | [bigint];
+    archived: boolean;
+    taxSlab: _TaxSlabRule;
+    images: Array<_ExternalBlob>;
+}): Promise<{
+    mrp: bigint;
+    styleId?: bigint;
+    inventoryStatus: InventoryStatus;
+    name: string;
+    wholesalePrice: bigint;
+    color: string;
+    rack: string;
+    size: string;
+    description: string;
+    hsnCode: string;
+    productId: bigint;
+    shelf: string;
+    reservedStock: bigint;
+    attributes: ProductAttributes;
+    barcode: string;
+    stockLevel: bigint;
+    price: bigint;
+    costPrice: bigint;
+    warehouse: string;
+    supplierId?: bigint;
+    archived: boolean;
+    taxSlab: TaxSlabRule;
+    images: Array<ExternalBlob>;
+}> {
+    return {
+        mrp: value.mrp,
+        styleId: record_opt_to_undefined(from_candid_opt_n7(_uploadFile, _downloadFile, value.styleId)),
+        inventoryStatus: from_candid_InventoryStatus_n104(_uploadFile, _downloadFile, value.inventoryStatus),
+        name: value.name,
+        wholesalePrice: value.wholesalePrice,
+        color: value.color,
+        rack: value.rack,
+        size: value.size,
+        description: value.description,
+        hsnCode: value.hsnCode,
+        productId: value.productId,
+        shelf: value.shelf,
+        reservedStock: value.reservedStock,
+        attributes: from_candid_ProductAttributes_n106(_uploadFile, _downloadFile, value.attributes),
+        barcode: value.barcode,
+        stockLevel: value.stockLevel,
+        price: value.price,
+        costPrice: value.costPrice,
+        warehouse: value.warehouse,
+        supplierId: record_opt_to_undefined(from_candid_opt_n7(_uploadFile, _downloadFile, value.supplierId)),
+        archived: value.archived,
+        taxSlab: value.taxSlab,
+        images: await from_candid_vec_n108(_uploadFile, _downloadFile, value.images)
+    };
+}
+function from_candid_record_n107(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    categoryId: [] | [bigint];
+    tags: Array<string>;
+    season: string;
+    brand: string;
+    fabric: string;
+}): {
+    categoryId?: bigint;
+    tags: Array<string>;
+    season: string;
+    brand: string;
+    fabric: string;
+} {
+    return {
+        categoryId: record_opt_to_undefined(from_candid_opt_n7(_uploadFile, _downloadFile, value.categoryId)),
+        tags: value.tags,
+        season: value.season,
+        brand: value.brand,
+        fabric: value.fabric
+    };
+}
+function from_candid_record_n111(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    expenseBreakdown: Array<_ExpenseCategoryTotal>;
+    reportDateRange: _ReportDateRange;
+    revenue: bigint;
+    grossProfit: bigint;
+    cogs: bigint;
+    expenses: bigint;
+    netProfit: bigint;
+}): {
+    expenseBreakdown: Array<ExpenseCategoryTotal>;
+    reportDateRange: ReportDateRange;
+    revenue: bigint;
+    grossProfit: bigint;
+    cogs: bigint;
+    expenses: bigint;
+    netProfit: bigint;
+} {
+    return {
+        expenseBreakdown: from_candid_vec_n112(_uploadFile, _downloadFile, value.expenseBreakdown),
+        reportDateRange: value.reportDateRange,
+        revenue: value.revenue,
+        grossProfit: value.grossProfit,
+        cogs: value.cogs,
+        expenses: value.expenses,
+        netProfit: value.netProfit
+    };
+}
+function from_candid_record_n114(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    category: _ExpenseCategory;
+    amount: bigint;
+}): {
+    category: ExpenseCategory;
+    amount: bigint;
+} {
+    return {
+        category: from_candid_ExpenseCategory_n115(_uploadFile, _downloadFile, value.category),
+        amount: value.amount
+    };
+}
+function from_candid_record_n119(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    status: _PurchaseOrderStatus;
+    created: _Time;
+    total: bigint;
+    createdBy: Principal;
+    purchaseOrderId: bigint;
+    lines: Array<_PurchaseOrderLine>;
+    lastModified: _Time;
+    notes: string;
+    expectedDate: _Time;
+    poNumber: string;
+    supplierId: bigint;
+}): {
+    status: PurchaseOrderStatus;
+    created: Time;
+    total: bigint;
+    createdBy: Principal;
+    purchaseOrderId: bigint;
+    lines: Array<PurchaseOrderLine>;
+    lastModified: Time;
+    notes: string;
+    expectedDate: Time;
+    poNumber: string;
+    supplierId: bigint;
+} {
+    return {
+        status: from_candid_PurchaseOrderStatus_n120(_uploadFile, _downloadFile, value.status),
+        created: value.created,
+        total: value.total,
+        createdBy: value.createdBy,
+        purchaseOrderId: value.purchaseOrderId,
+        lines: from_candid_vec_n122(_uploadFile, _downloadFile, value.lines),
+        lastModified: value.lastModified,
+        notes: value.notes,
+        expectedDate: value.expectedDate,
+        poNumber: value.poNumber,
+        supplierId: value.supplierId
+    };
+}
+function from_candid_record_n124(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    unit: string;
+    lineTotal: bigint;
+    description: string;
+    productId: [] | [bigint];
+    quantity: bigint;
+    unitCost: bigint;
+}): {
+    unit: string;
+    lineTotal: bigint;
+    description: string;
+    productId?: bigint;
+    quantity: bigint;
+    unitCost: bigint;
+} {
+    return {
+        unit: value.unit,
+        lineTotal: value.lineTotal,
+        description: value.description,
+        productId: record_opt_to_undefined(from_candid_opt_n7(_uploadFile, _downloadFile, value.productId)),
+        quantity: value.quantity,
+        unitCost: value.unitCost
+    };
+}
+function from_candid_record_n127(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    tax: bigint;
+    status: _QuotationStatus;
+    quotationId: bigint;
+    created: _Time;
+    total: bigint;
+    createdBy: Principal;
+    invoiceId: [] | [bigint];
+    lines: Array<_InvoiceLine>;
+    lastModified: _Time;
+    interState: boolean;
+    notes: string;
+    customerId: bigint;
+    placeOfSupply: string;
+    orderIds: Array<bigint>;
+    validUntil: _Time;
+}): {
+    tax: bigint;
+    status: QuotationStatus;
+    quotationId: bigint;
+    created: Time;
+    total: bigint;
+    createdBy: Principal;
+    invoiceId?: bigint;
+    lines: Array<InvoiceLine>;
+    lastModified: Time;
+    interState: boolean;
+    notes: string;
+    customerId: bigint;
+    placeOfSupply: string;
+    orderIds: Array<bigint>;
+    validUntil: Time;
+} {
+    return {
+        tax: value.tax,
+        status: from_candid_QuotationStatus_n128(_uploadFile, _downloadFile, value.status),
+        quotationId: value.quotationId,
+        created: value.created,
+        total: value.total,
+        createdBy: value.createdBy,
+        invoiceId: record_opt_to_undefined(from_candid_opt_n7(_uploadFile, _downloadFile, value.invoiceId)),
+        lines: value.lines,
+        lastModified: value.lastModified,
+        interState: value.interState,
+        notes: value.notes,
+        customerId: value.customerId,
+        placeOfSupply: value.placeOfSupply,
+        orderIds: value.orderIds,
+        validUntil: value.validUntil
+    };
+}
+async function from_candid_record_n137(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    expenseDate: _Time;
+    created: _Time;
+    receipt: [] | [_ExternalBlob];
+    expenseId: bigint;
+    mode: _PaymentMode;
+    description: string;
+    recordedBy: Principal;
+    lastModified: _Time;
+    category: _ExpenseCategory;
+    amount: bigint;
+}): Promise<{
+    expenseDate: Time;
+    created: Time;
+    receipt?: ExternalBlob;
+    expenseId: bigint;
+    mode: PaymentMode;
+    description: string;
+    recordedBy: Principal;
+    lastModified: Time;
+    category: ExpenseCategory;
+    amount: bigint;
+}> {
+    return {
+        expenseDate: value.expenseDate,
+        created: value.created,
+        receipt: record_opt_to_undefined(await from_candid_opt_n66(_uploadFile, _downloadFile, value.receipt)),
+        expenseId: value.expenseId,
+        mode: from_candid_PaymentMode_n138(_uploadFile, _downloadFile, value.mode),
+        description: value.description,
+        recordedBy: value.recordedBy,
+        lastModified: value.lastModified,
+        category: from_candid_ExpenseCategory_n115(_uploadFile, _downloadFile, value.category),
+        amount: value.amount
+    };
 }
-function from_candid_opt_n62(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_OrderRecord]): OrderRecord | null {
-    return value.length === 0 ? null : value[0];
+function from_candid_record_n143(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    created: _Time;
+    mode: _PaymentMode;
+    reference: string;
+    invoiceId: bigint;
+    recordedBy: Principal;
+    paymentId: bigint;
+    paymentDate: _Time;
+    amount: bigint;
+}): {
+    created: Time;
+    mode: PaymentMode;
+    reference: string;
+    invoiceId: bigint;
+    recordedBy: Principal;
+    paymentId: bigint;
+    paymentDate: Time;
+    amount: bigint;
+} {
+    return {
+        created: value.created,
+        mode: from_candid_PaymentMode_n138(_uploadFile, _downloadFile, value.mode),
+        reference: value.reference,
+        invoiceId: value.invoiceId,
+        recordedBy: value.recordedBy,
+        paymentId: value.paymentId,
+        paymentDate: value.paymentDate,
+        amount: value.amount
+    };
 }
-async function from_candid_opt_n63(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_Product]): Promise<Product | null> {
-    return value.length === 0 ? null : await from_candid_Product_n64(_uploadFile, _downloadFile, value[0]);
+function from_candid_record_n147(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    categoryId: bigint;
+    name: string;
+    parentId: [] | [bigint];
+}): {
+    categoryId: bigint;
+    name: string;
+    parentId?: bigint;
+} {
+    return {
+        categoryId: value.categoryId,
+        name: value.name,
+        parentId: record_opt_to_undefined(from_candid_opt_n7(_uploadFile, _downloadFile, value.parentId))
+    };
 }
-function from_candid_opt_n69(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_InventoryLocation]): InventoryLocation | null {
-    return value.length === 0 ? null : value[0];
+function from_candid_record_n150(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    styleId: bigint;
+    created: _Time;
+    name: string;
+    hsnCode: string;
+    sizes: Array<string>;
+    attributes: _ProductAttributes;
+    colors: Array<string>;
+    articleNumber: string;
+    taxSlab: _TaxSlabRule;
+}): {
+    styleId: bigint;
+    created: Time;
+    name: string;
+    hsnCode: string;
+    sizes: Array<string>;
+    attributes: ProductAttributes;
+    colors: Array<string>;
+    articleNumber: string;
+    taxSlab: TaxSlabRule;
+} {
+    return {
+        styleId: value.styleId,
+        created: value.created,
+        name: value.name,
+        hsnCode: value.hsnCode,
+        sizes: value.sizes,
+        attributes: from_candid_ProductAttributes_n106(_uploadFile, _downloadFile, value.attributes),
+        colors: value.colors,
+        articleNumber: value.articleNumber,
+        taxSlab: value.taxSlab
+    };
 }
-function from_candid_opt_n7(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [bigint]): bigint | null {
-    return value.length === 0 ? null : value[0];
+function from_candid_record_n156(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    movementId: bigint;
+    balance: bigint;
+    reference: string;
+    productId: bigint;
+    recordedBy: Principal;
+    timestamp: _Time;
+    delta: bigint;
+    reason: _StockMovementReason;
+}): {
+    movementId: bigint;
+    balance: bigint;
+    reference: string;
+    productId: bigint;
+    recordedBy: Principal;
+    timestamp: Time;
+    delta: bigint;
+    reason: StockMovementReason;
+} {
+    return {
+        movementId: value.movementId,
+        balance: value.balance,
+        reference: value.reference,
+        productId: value.productId,
+        recordedBy: value.recordedBy,
+        timestamp: value.timestamp,
+        delta: value.delta,
+        reason: from_candid_StockMovementReason_n157(_uploadFile, _downloadFile, value.reason)
+    };
 }
-async function from_candid_opt_n70(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_ExternalBlob]): Promise<ExternalBlob | null> {
-    return value.length === 0 ? null : await from_candid_ExternalBlob_n17(_uploadFile, _downloadFile, value[0]);
+function from_candid_record_n161(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    kind: _TaxonomyTermKind;
+    name: string;
+    termId: bigint;
+}): {
+    kind: TaxonomyTermKind;
+    name: string;
+    termId: bigint;
+} {
+    return {
+        kind: from_candid_TaxonomyTermKind_n162(_uploadFile, _downloadFile, value.kind),
+        name: value.name,
+        termId: value.termId
+    };
 }
-function from_candid_record_n30(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+function from_candid_record_n45(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
     status: _UserApprovalStatus;
     principal: Principal;
     timestamp: _Time;
@@ -1574,12 +3372,24 @@ function from_candid_record_n30(_uploadFile: (file: ExternalBlob) => Promise<Uin
     timestamp: Time;
 } {
     return {
-        status: from_candid_UserApprovalStatus_n31(_uploadFile, _downloadFile, value.status),
+        status: from_candid_UserApprovalStatus_n46(_uploadFile, _downloadFile, value.status),
         principal: value.principal,
         timestamp: value.timestamp
     };
 }
-function from_candid_record_n35(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+function from_candid_record_n5(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    success: [] | [boolean];
+    topped_up_amount: [] | [bigint];
+}): {
+    success?: boolean;
+    topped_up_amount?: bigint;
+} {
+    return {
+        success: record_opt_to_undefined(from_candid_opt_n6(_uploadFile, _downloadFile, value.success)),
+        topped_up_amount: record_opt_to_undefined(from_candid_opt_n7(_uploadFile, _downloadFile, value.topped_up_amount))
+    };
+}
+function from_candid_record_n50(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
     status: _ApprovalStatus;
     principal: Principal;
 }): {
@@ -1587,11 +3397,11 @@ function from_candid_record_n35(_uploadFile: (file: ExternalBlob) => Promise<Uin
     principal: Principal;
 } {
     return {
-        status: from_candid_ApprovalStatus_n36(_uploadFile, _downloadFile, value.status),
+        status: from_candid_ApprovalStatus_n51(_uploadFile, _downloadFile, value.status),
         principal: value.principal
     };
 }
-function from_candid_record_n38(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+function from_candid_record_n53(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
     isApproved: boolean;
     isAdmin: boolean;
     userProfile: [] | [_UserProfile];
@@ -1603,10 +3413,10 @@ function from_candid_record_n38(_uploadFile: (file: ExternalBlob) => Promise<Uin
     return {
         isApproved: value.isApproved,
         isAdmin: value.isAdmin,
-        userProfile: record_opt_to_undefined(from_candid_opt_n39(_uploadFile, _downloadFile, value.userProfile))
+        userProfile: record_opt_to_undefined(from_candid_opt_n54(_uploadFile, _downloadFile, value.userProfile))
     };
 }
-function from_candid_record_n41(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+function from_candid_record_n56(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
     appRole: _AppRole;
     name: string;
     email: string;
@@ -1618,13 +3428,13 @@ function from_candid_record_n41(_uploadFile: (file: ExternalBlob) => Promise<Uin
     department: string;
 } {
     return {
-        appRole: from_candid_AppRole_n42(_uploadFile, _downloadFile, value.appRole),
+        appRole: from_candid_AppRole_n57(_uploadFile, _downloadFile, value.appRole),
         name: value.name,
         email: value.email,
         department: value.department
     };
 }
-function from_candid_record_n45(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+function from_candid_record_n60(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
     canisterStatus: [] | [_SystemStatus];
     backendAvailable: boolean;
     jsonSupport: boolean;
@@ -1634,24 +3444,126 @@ function from_candid_record_n45(_uploadFile: (file: ExternalBlob) => Promise<Uin
     jsonSupport: boolean;
 } {
     return {
-        canisterStatus: record_opt_to_undefined(from_candid_opt_n46(_uploadFile, _downloadFile, value.canisterStatus)),
+        canisterStatus: record_opt_to_undefined(from_candid_opt_n61(_uploadFile, _downloadFile, value.canisterStatus)),
         backendAvailable: value.backendAvailable,
         jsonSupport: value.jsonSupport
     };
 }
-function from_candid_record_n5(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
-    success: [] | [boolean];
-    topped_up_amount: [] | [bigint];
+function from_candid_record_n71(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    challanNumber: string;
+    status: _DispatchStatus;
+    created: _Time;
+    vehicleNumber: string;
+    createdBy: Principal;
+    dispatchId: bigint;
+    dispatchDate: _Time;
+    deliveryDate: [] | [_Time];
+    orderId: bigint;
+    lastModified: _Time;
+    lrNumber: string;
+    packageCount: bigint;
+    transporterName: string;
 }): {
-    success?: boolean;
-    topped_up_amount?: bigint;
+    challanNumber: string;
+    status: DispatchStatus;
+    created: Time;
+    vehicleNumber: string;
+    createdBy: Principal;
+    dispatchId: bigint;
+    dispatchDate: Time;
+    deliveryDate?: Time;
+    orderId: bigint;
+    lastModified: Time;
+    lrNumber: string;
+    packageCount: bigint;
+    transporterName: string;
 } {
     return {
-        success: record_opt_to_undefined(from_candid_opt_n6(_uploadFile, _downloadFile, value.success)),
-        topped_up_amount: record_opt_to_undefined(from_candid_opt_n7(_uploadFile, _downloadFile, value.topped_up_amount))
+        challanNumber: value.challanNumber,
+        status: from_candid_DispatchStatus_n72(_uploadFile, _downloadFile, value.status),
+        created: value.created,
+        vehicleNumber: value.vehicleNumber,
+        createdBy: value.createdBy,
+        dispatchId: value.dispatchId,
+        dispatchDate: value.dispatchDate,
+        deliveryDate: record_opt_to_undefined(from_candid_opt_n74(_uploadFile, _downloadFile, value.deliveryDate)),
+        orderId: value.orderId,
+        lastModified: value.lastModified,
+        lrNumber: value.lrNumber,
+        packageCount: value.packageCount,
+        transporterName: value.transporterName
     };
 }
-function from_candid_record_n56(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+function from_candid_record_n77(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    grnNumber: string;
+    created: _Time;
+    goodsReceiptId: bigint;
+    createdBy: Principal;
+    purchaseOrderId: [] | [bigint];
+    lines: Array<_GoodsReceiptLine>;
+    notes: string;
+    batch: string;
+    supplierId: bigint;
+    inventoryIds: Array<bigint>;
+}): {
+    grnNumber: string;
+    created: Time;
+    goodsReceiptId: bigint;
+    createdBy: Principal;
+    purchaseOrderId?: bigint;
+    lines: Array<GoodsReceiptLine>;
+    notes: string;
+    batch: string;
+    supplierId: bigint;
+    inventoryIds: Array<bigint>;
+} {
+    return {
+        grnNumber: value.grnNumber,
+        created: value.created,
+        goodsReceiptId: value.goodsReceiptId,
+        createdBy: value.createdBy,
+        purchaseOrderId: record_opt_to_undefined(from_candid_opt_n7(_uploadFile, _downloadFile, value.purchaseOrderId)),
+        lines: from_candid_vec_n78(_uploadFile, _downloadFile, value.lines),
+        notes: value.notes,
+        batch: value.batch,
+        supplierId: value.supplierId,
+        inventoryIds: value.inventoryIds
+    };
+}
+function from_candid_record_n80(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    rejectedQuantity: bigint;
+    unit: string;
+    description: string;
+    productId: [] | [bigint];
+    receivedQuantity: bigint;
+    pendingQuantity: bigint;
+    orderedQuantity: bigint;
+    acceptedQuantity: bigint;
+    purchaseOrderLine: [] | [bigint];
+}): {
+    rejectedQuantity: bigint;
+    unit: string;
+    description: string;
+    productId?: bigint;
+    receivedQuantity: bigint;
+    pendingQuantity: bigint;
+    orderedQuantity: bigint;
+    acceptedQuantity: bigint;
+    purchaseOrderLine?: bigint;
+} {
+    return {
+        rejectedQuantity: value.rejectedQuantity,
+        unit: value.unit,
+        description: value.description,
+        productId: record_opt_to_undefined(from_candid_opt_n7(_uploadFile, _downloadFile, value.productId)),
+        receivedQuantity: value.receivedQuantity,
+        pendingQuantity: value.pendingQuantity,
+        orderedQuantity: value.orderedQuantity,
+        acceptedQuantity: value.acceptedQuantity,
+        purchaseOrderLine: record_opt_to_undefined(from_candid_opt_n7(_uploadFile, _downloadFile, value.purchaseOrderLine))
+    };
+}
+function from_candid_record_n84(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
     tax: bigint;
     status: _T;
     created: _Time;
@@ -1660,15 +3572,18 @@ function from_candid_record_n56(_uploadFile: (file: ExternalBlob) => Promise<Uin
     stockAdjusted: boolean;
     dueDate: [] | [_Time];
     invoiceId: bigint;
-    productId: bigint;
+    lines: Array<_InvoiceLine>;
+    amountPaid: bigint;
     lastModified: _Time;
+    interState: boolean;
     imageUrl: [] | [string];
+    invoiceNumber: string;
     pdfUrl: [] | [string];
     paymentDate: [] | [_Time];
-    quantity: bigint;
     customerId: bigint;
+    placeOfSupply: string;
     orderIds: Array<bigint>;
-    price: bigint;
+    creditedAmount: bigint;
     inventoryIds: Array<bigint>;
 }): {
     tax: bigint;
@@ -1679,87 +3594,170 @@ function from_candid_record_n56(_uploadFile: (file: ExternalBlob) => Promise<Uin
     stockAdjusted: boolean;
     dueDate?: Time;
     invoiceId: bigint;
-    productId: bigint;
+    lines: Array<InvoiceLine>;
+    amountPaid: bigint;
     lastModified: Time;
+    interState: boolean;
     imageUrl?: string;
+    invoiceNumber: string;
     pdfUrl?: string;
     paymentDate?: Time;
-    quantity: bigint;
     customerId: bigint;
+    placeOfSupply: string;
     orderIds: Array<bigint>;
-    price: bigint;
+    creditedAmount: bigint;
     inventoryIds: Array<bigint>;
 } {
     return {
         tax: value.tax,
-        status: from_candid_T_n57(_uploadFile, _downloadFile, value.status),
+        status: from_candid_T_n85(_uploadFile, _downloadFile, value.status),
         created: value.created,
         total: value.total,
         productIds: value.productIds,
         stockAdjusted: value.stockAdjusted,
-        dueDate: record_opt_to_undefined(from_candid_opt_n59(_uploadFile, _downloadFile, value.dueDate)),
+        dueDate: record_opt_to_undefined(from_candid_opt_n74(_uploadFile, _downloadFile, value.dueDate)),
         invoiceId: value.invoiceId,
-        productId: value.productId,
+        lines: value.lines,
+        amountPaid: value.amountPaid,
         lastModified: value.lastModified,
-        imageUrl: record_opt_to_undefined(from_candid_opt_n60(_uploadFile, _downloadFile, value.imageUrl)),
-        pdfUrl: record_opt_to_undefined(from_candid_opt_n60(_uploadFile, _downloadFile, value.pdfUrl)),
-        paymentDate: record_opt_to_undefined(from_candid_opt_n59(_uploadFile, _downloadFile, value.paymentDate)),
-        quantity: value.quantity,
+        interState: value.interState,
+        imageUrl: record_opt_to_undefined(from_candid_opt_n87(_uploadFile, _downloadFile, value.imageUrl)),
+        invoiceNumber: value.invoiceNumber,
+        pdfUrl: record_opt_to_undefined(from_candid_opt_n87(_uploadFile, _downloadFile, value.pdfUrl)),
+        paymentDate: record_opt_to_undefined(from_candid_opt_n74(_uploadFile, _downloadFile, value.paymentDate)),
         customerId: value.customerId,
+        placeOfSupply: value.placeOfSupply,
         orderIds: value.orderIds,
-        price: value.price,
+        creditedAmount: value.creditedAmount,
         inventoryIds: value.inventoryIds
     };
 }
-async function from_candid_record_n65(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
-    inventoryStatus: _InventoryStatus;
-    name: string;
-    color: string;
-    rack: string;
-    size: string;
-    description: string;
-    productId: bigint;
-    shelf: string;
-    barcode: string;
-    stockLevel: bigint;
-    price: bigint;
-    warehouse: string;
-    supplierId: [] | [bigint];
-    images: Array<_ExternalBlob>;
-}): Promise<{
-    inventoryStatus: InventoryStatus;
-    name: string;
-    color: string;
-    rack: string;
-    size: string;
-    description: string;
-    productId: bigint;
-    shelf: string;
-    barcode: string;
-    stockLevel: bigint;
-    price: bigint;
-    warehouse: string;
-    supplierId?: bigint;
-    images: Array<ExternalBlob>;
-}> {
+function from_candid_record_n95(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    id: bigint;
+    status: _OrderStatus;
+    created: _Time;
+    modified: _Time;
+    invoiceId: [] | [bigint];
+    statusHistory: Array<_OrderStatusChange>;
+    lines: Array<_OrderLine>;
+    stockReserved: boolean;
+    customerId: bigint;
+    totalPrice: bigint;
+}): {
+    id: bigint;
+    status: OrderStatus;
+    created: Time;
+    modified: Time;
+    invoiceId?: bigint;
+    statusHistory: Array<OrderStatusChange>;
+    lines: Array<OrderLine>;
+    stockReserved: boolean;
+    customerId: bigint;
+    totalPrice: bigint;
+} {
     return {
-        inventoryStatus: from_candid_InventoryStatus_n66(_uploadFile, _downloadFile, value.inventoryStatus),
-        name: value.name,
-        color: value.color,
-        rack: value.rack,
-        size: value.size,
-        description: value.description,
-        productId: value.productId,
-        shelf: value.shelf,
-        barcode: value.barcode,
-        stockLevel: value.stockLevel,
-        price: value.price,
-        warehouse: value.warehouse,
-        supplierId: record_opt_to_undefined(from_candid_opt_n7(_uploadFile, _downloadFile, value.supplierId)),
-        images: await from_candid_vec_n68(_uploadFile, _downloadFile, value.images)
+        id: value.id,
+        status: from_candid_OrderStatus_n96(_uploadFile, _downloadFile, value.status),
+        created: value.created,
+        modified: value.modified,
+        invoiceId: record_opt_to_undefined(from_candid_opt_n7(_uploadFile, _downloadFile, value.invoiceId)),
+        statusHistory: from_candid_vec_n98(_uploadFile, _downloadFile, value.statusHistory),
+        lines: value.lines,
+        stockReserved: value.stockReserved,
+        customerId: value.customerId,
+        totalPrice: value.totalPrice
     };
 }
-function from_candid_variant_n32(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+function from_candid_variant_n105(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    low: null;
+} | {
+    inStock: null;
+} | {
+    outOfStock: null;
+}): InventoryStatus {
+    return "low" in value ? InventoryStatus.low : "inStock" in value ? InventoryStatus.inStock : "outOfStock" in value ? InventoryStatus.outOfStock : value;
+}
+function from_candid_variant_n116(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    other: null;
+} | {
+    marketing: null;
+} | {
+    rent: null;
+} | {
+    transport: null;
+} | {
+    electricity: null;
+} | {
+    maintenance: null;
+} | {
+    salaries: null;
+} | {
+    packaging: null;
+}): ExpenseCategory {
+    return "other" in value ? ExpenseCategory.other : "marketing" in value ? ExpenseCategory.marketing : "rent" in value ? ExpenseCategory.rent : "transport" in value ? ExpenseCategory.transport : "electricity" in value ? ExpenseCategory.electricity : "maintenance" in value ? ExpenseCategory.maintenance : "salaries" in value ? ExpenseCategory.salaries : "packaging" in value ? ExpenseCategory.packaging : value;
+}
+function from_candid_variant_n121(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    cancelled: null;
+} | {
+    ordered: null;
+} | {
+    partiallyReceived: null;
+} | {
+    draft: null;
+} | {
+    received: null;
+}): PurchaseOrderStatus {
+    return "cancelled" in value ? PurchaseOrderStatus.cancelled : "ordered" in value ? PurchaseOrderStatus.ordered : "partiallyReceived" in value ? PurchaseOrderStatus.partiallyReceived : "draft" in value ? PurchaseOrderStatus.draft : "received" in value ? PurchaseOrderStatus.received : value;
+}
+function from_candid_variant_n129(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    expired: null;
+} | {
+    sent: null;
+} | {
+    accepted: null;
+} | {
+    draft: null;
+}): QuotationStatus {
+    return "expired" in value ? QuotationStatus.expired : "sent" in value ? QuotationStatus.sent : "accepted" in value ? QuotationStatus.accepted : "draft" in value ? QuotationStatus.draft : value;
+}
+function from_candid_variant_n139(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    upi: null;
+} | {
+    cash: null;
+} | {
+    bankTransfer: null;
+} | {
+    cheque: null;
+}): PaymentMode {
+    return "upi" in value ? PaymentMode.upi : "cash" in value ? PaymentMode.cash : "bankTransfer" in value ? PaymentMode.bankTransfer : "cheque" in value ? PaymentMode.cheque : value;
+}
+function from_candid_variant_n158(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    theft: null;
+} | {
+    damage: null;
+} | {
+    salesReturn: null;
+} | {
+    opening: null;
+} | {
+    sale: null;
+} | {
+    correction: null;
+} | {
+    transfer: null;
+} | {
+    purchase: null;
+}): StockMovementReason {
+    return "theft" in value ? StockMovementReason.theft : "damage" in value ? StockMovementReason.damage : "salesReturn" in value ? StockMovementReason.salesReturn : "opening" in value ? StockMovementReason.opening : "sale" in value ? StockMovementReason.sale : "correction" in value ? StockMovementReason.correction : "transfer" in value ? StockMovementReason.transfer : "purchase" in value ? StockMovementReason.purchase : value;
+}
+function from_candid_variant_n163(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    season: null;
+} | {
+    brand: null;
+}): TaxonomyTermKind {
+    return "season" in value ? TaxonomyTermKind.season : "brand" in value ? TaxonomyTermKind.brand : value;
+}
+function from_candid_variant_n47(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
     pending: null;
 } | {
     approved: null;
@@ -1768,7 +3766,7 @@ function from_candid_variant_n32(_uploadFile: (file: ExternalBlob) => Promise<Ui
 }): UserApprovalStatus {
     return "pending" in value ? UserApprovalStatus.pending : "approved" in value ? UserApprovalStatus.approved : "rejected" in value ? UserApprovalStatus.rejected : value;
 }
-function from_candid_variant_n43(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+function from_candid_variant_n58(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
     accountant: null;
 } | {
     admin: null;
@@ -1779,14 +3777,14 @@ function from_candid_variant_n43(_uploadFile: (file: ExternalBlob) => Promise<Ui
 }): AppRole {
     return "accountant" in value ? AppRole.accountant : "admin" in value ? AppRole.admin : "sales" in value ? AppRole.sales : "inventoryManager" in value ? AppRole.inventoryManager : value;
 }
-function from_candid_variant_n48(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+function from_candid_variant_n63(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
     initialized: null;
 } | {
     unknown: null;
 }): SystemStatus {
     return "initialized" in value ? SystemStatus.initialized : "unknown" in value ? SystemStatus.unknown : value;
 }
-function from_candid_variant_n50(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+function from_candid_variant_n65(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
     admin: null;
 } | {
     user: null;
@@ -1795,87 +3793,286 @@ function from_candid_variant_n50(_uploadFile: (file: ExternalBlob) => Promise<Ui
 }): UserRole {
     return "admin" in value ? UserRole.admin : "user" in value ? UserRole.user : "guest" in value ? UserRole.guest : value;
 }
-function from_candid_variant_n58(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+function from_candid_variant_n73(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    dispatched: null;
+} | {
+    inTransit: null;
+} | {
+    delivered: null;
+}): DispatchStatus {
+    return "dispatched" in value ? DispatchStatus.dispatched : "inTransit" in value ? DispatchStatus.inTransit : "delivered" in value ? DispatchStatus.delivered : value;
+}
+function from_candid_variant_n86(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
     paid: null;
 } | {
     sent: null;
 } | {
     overdue: null;
+} | {
+    partiallyPaid: null;
 } | {
     draft: null;
 }): T {
-    return "paid" in value ? T.paid : "sent" in value ? T.sent : "overdue" in value ? T.overdue : "draft" in value ? T.draft : value;
+    return "paid" in value ? T.paid : "sent" in value ? T.sent : "overdue" in value ? T.overdue : "partiallyPaid" in value ? T.partiallyPaid : "draft" in value ? T.draft : value;
 }
-function from_candid_variant_n67(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
-    low: null;
+function from_candid_variant_n97(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    cancelled: null;
 } | {
-    inStock: null;
+    pending: null;
 } | {
-    outOfStock: null;
-}): InventoryStatus {
-    return "low" in value ? InventoryStatus.low : "inStock" in value ? InventoryStatus.inStock : "outOfStock" in value ? InventoryStatus.outOfStock : value;
+    fulfilled: null;
+} | {
+    processing: null;
+}): OrderStatus {
+    return "cancelled" in value ? OrderStatus.cancelled : "pending" in value ? OrderStatus.pending : "fulfilled" in value ? OrderStatus.fulfilled : "processing" in value ? OrderStatus.processing : value;
+}
+async function from_candid_vec_n108(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_ExternalBlob>): Promise<Array<ExternalBlob>> {
+    return await Promise.all(value.map(async (x)=>await from_candid_ExternalBlob_n21(_uploadFile, _downloadFile, x)));
+}
+function from_candid_vec_n112(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_ExpenseCategoryTotal>): Array<ExpenseCategoryTotal> {
+    return value.map((x)=>from_candid_ExpenseCategoryTotal_n113(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n122(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_PurchaseOrderLine>): Array<PurchaseOrderLine> {
+    return value.map((x)=>from_candid_PurchaseOrderLine_n123(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n134(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_Dispatch>): Array<Dispatch> {
+    return value.map((x)=>from_candid_Dispatch_n70(_uploadFile, _downloadFile, x));
+}
+async function from_candid_vec_n135(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_Expense>): Promise<Array<Expense>> {
+    return await Promise.all(value.map(async (x)=>await from_candid_Expense_n136(_uploadFile, _downloadFile, x)));
+}
+function from_candid_vec_n140(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_GoodsReceipt>): Array<GoodsReceipt> {
+    return value.map((x)=>from_candid_GoodsReceipt_n76(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n141(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_Payment>): Array<Payment> {
+    return value.map((x)=>from_candid_Payment_n142(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n144(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_OrderRecord>): Array<OrderRecord> {
+    return value.map((x)=>from_candid_OrderRecord_n94(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n145(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_ProductCategory>): Array<ProductCategory> {
+    return value.map((x)=>from_candid_ProductCategory_n146(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n148(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_ProductStyle>): Array<ProductStyle> {
+    return value.map((x)=>from_candid_ProductStyle_n149(_uploadFile, _downloadFile, x));
+}
+async function from_candid_vec_n151(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_Product>): Promise<Array<Product>> {
+    return await Promise.all(value.map(async (x)=>await from_candid_Product_n102(_uploadFile, _downloadFile, x)));
+}
+function from_candid_vec_n152(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_PurchaseOrder>): Array<PurchaseOrder> {
+    return value.map((x)=>from_candid_PurchaseOrder_n118(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n153(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_Quotation>): Array<Quotation> {
+    return value.map((x)=>from_candid_Quotation_n126(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n154(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_StockMovement>): Array<StockMovement> {
+    return value.map((x)=>from_candid_StockMovement_n155(_uploadFile, _downloadFile, x));
 }
-function from_candid_vec_n28(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_ApprovalRequest>): Array<ApprovalRequest> {
-    return value.map((x)=>from_candid_ApprovalRequest_n29(_uploadFile, _downloadFile, x));
+function from_candid_vec_n159(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_TaxonomyTerm>): Array<TaxonomyTerm> {
+    return value.map((x)=>from_candid_TaxonomyTerm_n160(_uploadFile, _downloadFile, x));
 }
-function from_candid_vec_n33(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_UserApprovalInfo>): Array<UserApprovalInfo> {
-    return value.map((x)=>from_candid_UserApprovalInfo_n34(_uploadFile, _downloadFile, x));
+function from_candid_vec_n43(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_ApprovalRequest>): Array<ApprovalRequest> {
+    return value.map((x)=>from_candid_ApprovalRequest_n44(_uploadFile, _downloadFile, x));
 }
-function from_candid_vec_n61(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_Invoice>): Array<Invoice> {
-    return value.map((x)=>from_candid_Invoice_n55(_uploadFile, _downloadFile, x));
+function from_candid_vec_n48(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_UserApprovalInfo>): Array<UserApprovalInfo> {
+    return value.map((x)=>from_candid_UserApprovalInfo_n49(_uploadFile, _downloadFile, x));
 }
-async function from_candid_vec_n68(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_ExternalBlob>): Promise<Array<ExternalBlob>> {
-    return await Promise.all(value.map(async (x)=>await from_candid_ExternalBlob_n17(_uploadFile, _downloadFile, x)));
+function from_candid_vec_n78(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_GoodsReceiptLine>): Array<GoodsReceiptLine> {
+    return value.map((x)=>from_candid_GoodsReceiptLine_n79(_uploadFile, _downloadFile, x));
 }
-async function from_candid_vec_n71(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_Product>): Promise<Array<Product>> {
-    return await Promise.all(value.map(async (x)=>await from_candid_Product_n64(_uploadFile, _downloadFile, x)));
+function from_candid_vec_n92(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_Invoice>): Array<Invoice> {
+    return value.map((x)=>from_candid_Invoice_n83(_uploadFile, _downloadFile, x));
 }
-function to_candid_AppRole_n9(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: AppRole): _AppRole {
-    return to_candid_variant_n10(_uploadFile, _downloadFile, value);
+function from_candid_vec_n98(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_OrderStatusChange>): Array<OrderStatusChange> {
+    return value.map((x)=>from_candid_OrderStatusChange_n99(_uploadFile, _downloadFile, x));
 }
-function to_candid_ApprovalStatus_n74(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: ApprovalStatus): _ApprovalStatus {
-    return to_candid_variant_n75(_uploadFile, _downloadFile, value);
+function to_candid_AppRole_n13(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: AppRole): _AppRole {
+    return to_candid_variant_n14(_uploadFile, _downloadFile, value);
 }
-function to_candid_BarcodeBatchExportRequest_n13(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: BarcodeBatchExportRequest): _BarcodeBatchExportRequest {
-    return to_candid_record_n14(_uploadFile, _downloadFile, value);
+function to_candid_ApprovalStatus_n169(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: ApprovalStatus): _ApprovalStatus {
+    return to_candid_variant_n170(_uploadFile, _downloadFile, value);
 }
-function to_candid_BarcodeExportFormat_n15(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: BarcodeExportFormat): _BarcodeExportFormat {
-    return to_candid_variant_n16(_uploadFile, _downloadFile, value);
+function to_candid_BarcodeBatchExportRequest_n17(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: BarcodeBatchExportRequest): _BarcodeBatchExportRequest {
+    return to_candid_record_n18(_uploadFile, _downloadFile, value);
+}
+function to_candid_BarcodeExportFormat_n19(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: BarcodeExportFormat): _BarcodeExportFormat {
+    return to_candid_variant_n20(_uploadFile, _downloadFile, value);
+}
+function to_candid_BarcodeExportRequest_n41(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: BarcodeExportRequest): _BarcodeExportRequest {
+    return to_candid_record_n42(_uploadFile, _downloadFile, value);
+}
+function to_candid_DispatchStatus_n172(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: DispatchStatus): _DispatchStatus {
+    return to_candid_variant_n173(_uploadFile, _downloadFile, value);
 }
-function to_candid_BarcodeExportRequest_n26(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: BarcodeExportRequest): _BarcodeExportRequest {
-    return to_candid_record_n27(_uploadFile, _downloadFile, value);
+function to_candid_ExpenseCategory_n26(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: ExpenseCategory): _ExpenseCategory {
+    return to_candid_variant_n27(_uploadFile, _downloadFile, value);
 }
-async function to_candid_ExternalBlob_n8(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: ExternalBlob): Promise<_ExternalBlob> {
+async function to_candid_ExpenseInput_n22(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: ExpenseInput): Promise<_ExpenseInput> {
+    return await to_candid_record_n23(_uploadFile, _downloadFile, value);
+}
+async function to_candid_ExternalBlob_n10(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: ExternalBlob): Promise<_ExternalBlob> {
     return await _uploadFile(value);
 }
-function to_candid_InvoiceExportFormat_n20(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: InvoiceExportFormat): _InvoiceExportFormat {
-    return to_candid_variant_n21(_uploadFile, _downloadFile, value);
+function to_candid_GoodsReceiptLineInput_n30(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: GoodsReceiptLineInput): _GoodsReceiptLineInput {
+    return to_candid_record_n31(_uploadFile, _downloadFile, value);
+}
+function to_candid_InvoiceFilter_n89(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: InvoiceFilter): _InvoiceFilter {
+    return to_candid_record_n90(_uploadFile, _downloadFile, value);
+}
+function to_candid_OrderStatus_n175(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: OrderStatus): _OrderStatus {
+    return to_candid_variant_n176(_uploadFile, _downloadFile, value);
+}
+function to_candid_PaymentMode_n24(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: PaymentMode): _PaymentMode {
+    return to_candid_variant_n25(_uploadFile, _downloadFile, value);
 }
-function to_candid_InvoiceFilter_n23(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: InvoiceFilter): _InvoiceFilter {
-    return to_candid_record_n24(_uploadFile, _downloadFile, value);
+function to_candid_ProductAttributes_n8(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: ProductAttributes): _ProductAttributes {
+    return to_candid_record_n9(_uploadFile, _downloadFile, value);
 }
-function to_candid_T_n18(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: T): _T {
-    return to_candid_variant_n19(_uploadFile, _downloadFile, value);
+function to_candid_ProductImportRow_n132(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: ProductImportRow): _ProductImportRow {
+    return to_candid_record_n133(_uploadFile, _downloadFile, value);
 }
-function to_candid_UserProfile_n72(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: UserProfile): _UserProfile {
-    return to_candid_record_n73(_uploadFile, _downloadFile, value);
+function to_candid_ProductPriceRevision_n165(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: ProductPriceRevision): _ProductPriceRevision {
+    return to_candid_record_n166(_uploadFile, _downloadFile, value);
 }
-function to_candid_UserRole_n11(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: UserRole): _UserRole {
+function to_candid_ProductStyleInput_n34(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: ProductStyleInput): _ProductStyleInput {
+    return to_candid_record_n35(_uploadFile, _downloadFile, value);
+}
+function to_candid_PurchaseOrderLineInput_n37(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: PurchaseOrderLineInput): _PurchaseOrderLineInput {
+    return to_candid_record_n38(_uploadFile, _downloadFile, value);
+}
+function to_candid_PurchaseOrderStatus_n177(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: PurchaseOrderStatus): _PurchaseOrderStatus {
+    return to_candid_variant_n178(_uploadFile, _downloadFile, value);
+}
+function to_candid_QuotationStatus_n179(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: QuotationStatus): _QuotationStatus {
+    return to_candid_variant_n180(_uploadFile, _downloadFile, value);
+}
+function to_candid_StockMovementReason_n11(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: StockMovementReason): _StockMovementReason {
     return to_candid_variant_n12(_uploadFile, _downloadFile, value);
 }
+function to_candid_T_n32(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: T): _T {
+    return to_candid_variant_n33(_uploadFile, _downloadFile, value);
+}
+function to_candid_TaxonomyTermKind_n39(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: TaxonomyTermKind): _TaxonomyTermKind {
+    return to_candid_variant_n40(_uploadFile, _downloadFile, value);
+}
+function to_candid_UserProfile_n167(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: UserProfile): _UserProfile {
+    return to_candid_record_n168(_uploadFile, _downloadFile, value);
+}
+function to_candid_UserRole_n15(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: UserRole): _UserRole {
+    return to_candid_variant_n16(_uploadFile, _downloadFile, value);
+}
 function to_candid__CaffeineStorageRefillInformation_n2(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _CaffeineStorageRefillInformation): __CaffeineStorageRefillInformation {
     return to_candid_record_n3(_uploadFile, _downloadFile, value);
 }
 function to_candid_opt_n1(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _CaffeineStorageRefillInformation | null): [] | [__CaffeineStorageRefillInformation] {
     return value === null ? candid_none() : candid_some(to_candid__CaffeineStorageRefillInformation_n2(_uploadFile, _downloadFile, value));
 }
-function to_candid_opt_n22(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: InvoiceFilter | null): [] | [_InvoiceFilter] {
-    return value === null ? candid_none() : candid_some(to_candid_InvoiceFilter_n23(_uploadFile, _downloadFile, value));
+async function to_candid_opt_n171(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: ExternalBlob | null): Promise<[] | [_ExternalBlob]> {
+    return value === null ? candid_none() : candid_some(await to_candid_ExternalBlob_n10(_uploadFile, _downloadFile, value));
+}
+function to_candid_opt_n174(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Time | null): [] | [_Time] {
+    return value === null ? candid_none() : candid_some(value);
+}
+function to_candid_opt_n28(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: bigint | null): [] | [bigint] {
+    return value === null ? candid_none() : candid_some(value);
+}
+function to_candid_opt_n88(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: InvoiceFilter | null): [] | [_InvoiceFilter] {
+    return value === null ? candid_none() : candid_some(to_candid_InvoiceFilter_n89(_uploadFile, _downloadFile, value));
 }
-function to_candid_opt_n25(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: string | null): [] | [string] {
+function to_candid_opt_n91(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: string | null): [] | [string] {
     return value === null ? candid_none() : candid_some(value);
 }
-function to_candid_record_n14(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+function to_candid_record_n133(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    mrp: bigint;
+    name: string;
+    wholesalePrice: bigint;
+    color: string;
+    rack: string;
+    size: string;
+    description: string;
+    hsnCode: string;
+    shelf: string;
+    attributes: ProductAttributes;
+    barcode: string;
+    stockLevel: bigint;
+    price: bigint;
+    costPrice: bigint;
+    warehouse: string;
+    taxSlab: TaxSlabRule;
+}): {
+    mrp: bigint;
+    name: string;
+    wholesalePrice: bigint;
+    color: string;
+    rack: string;
+    size: string;
+    description: string;
+    hsnCode: string;
+    shelf: string;
+    attributes: _ProductAttributes;
+    barcode: string;
+    stockLevel: bigint;
+    price: bigint;
+    costPrice: bigint;
+    warehouse: string;
+    taxSlab: _TaxSlabRule;
+} {
+    return {
+        mrp: value.mrp,
+        name: value.name,
+        wholesalePrice: value.wholesalePrice,
+        color: value.color,
+        rack: value.rack,
+        size: value.size,
+        description: value.description,
+        hsnCode: value.hsnCode,
+        shelf: value.shelf,
+        attributes: to_candid_ProductAttributes_n8(_uploadFile, _downloadFile, value.attributes),
+        barcode: value.barcode,
+        stockLevel: value.stockLevel,
+        price: value.price,
+        costPrice: value.costPrice,
+        warehouse: value.warehouse,
+        taxSlab: value.taxSlab
+    };
+}
+function to_candid_record_n166(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    mrp?: bigint;
+    wholesalePrice?: bigint;
+    productId: bigint;
+    price?: bigint;
+}): {
+    mrp: [] | [bigint];
+    wholesalePrice: [] | [bigint];
+    productId: bigint;
+    price: [] | [bigint];
+} {
+    return {
+        mrp: value.mrp ? candid_some(value.mrp) : candid_none(),
+        wholesalePrice: value.wholesalePrice ? candid_some(value.wholesalePrice) : candid_none(),
+        productId: value.productId,
+        price: value.price ? candid_some(value.price) : candid_none()
+    };
+}
+function to_candid_record_n168(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    appRole: AppRole;
+    name: string;
+    email: string;
+    department: string;
+}): {
+    appRole: _AppRole;
+    name: string;
+    email: string;
+    department: string;
+} {
+    return {
+        appRole: to_candid_AppRole_n13(_uploadFile, _downloadFile, value.appRole),
+        name: value.name,
+        email: value.email,
+        department: value.department
+    };
+}
+function to_candid_record_n18(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
     productIds: Array<bigint>;
     exportType: BarcodeExportFormat;
 }): {
@@ -1884,28 +4081,130 @@ function to_candid_record_n14(_uploadFile: (file: ExternalBlob) => Promise<Uint8
 } {
     return {
         productIds: value.productIds,
-        exportType: to_candid_BarcodeExportFormat_n15(_uploadFile, _downloadFile, value.exportType)
+        exportType: to_candid_BarcodeExportFormat_n19(_uploadFile, _downloadFile, value.exportType)
     };
 }
-function to_candid_record_n24(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
-    paymentStatus?: T;
-    customerId?: bigint;
-    invoiceDateRange?: ReportDateRange;
-    searchQuery?: string;
+async function to_candid_record_n23(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    expenseDate: Time;
+    receipt?: ExternalBlob;
+    mode: PaymentMode;
+    description: string;
+    category: ExpenseCategory;
+    amount: bigint;
+}): Promise<{
+    expenseDate: _Time;
+    receipt: [] | [_ExternalBlob];
+    mode: _PaymentMode;
+    description: string;
+    category: _ExpenseCategory;
+    amount: bigint;
+}> {
+    return {
+        expenseDate: value.expenseDate,
+        receipt: value.receipt ? candid_some(await to_candid_ExternalBlob_n10(_uploadFile, _downloadFile, value.receipt)) : candid_none(),
+        mode: to_candid_PaymentMode_n24(_uploadFile, _downloadFile, value.mode),
+        description: value.description,
+        category: to_candid_ExpenseCategory_n26(_uploadFile, _downloadFile, value.category),
+        amount: value.amount
+    };
+}
+function to_candid_record_n3(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    proposed_top_up_amount?: bigint;
 }): {
-    paymentStatus: [] | [_T];
-    customerId: [] | [bigint];
-    invoiceDateRange: [] | [_ReportDateRange];
-    searchQuery: [] | [string];
+    proposed_top_up_amount: [] | [bigint];
 } {
     return {
-        paymentStatus: value.paymentStatus ? candid_some(to_candid_T_n18(_uploadFile, _downloadFile, value.paymentStatus)) : candid_none(),
-        customerId: value.customerId ? candid_some(value.customerId) : candid_none(),
-        invoiceDateRange: value.invoiceDateRange ? candid_some(value.invoiceDateRange) : candid_none(),
-        searchQuery: value.searchQuery ? candid_some(value.searchQuery) : candid_none()
+        proposed_top_up_amount: value.proposed_top_up_amount ? candid_some(value.proposed_top_up_amount) : candid_none()
+    };
+}
+function to_candid_record_n31(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    rejectedQuantity: bigint;
+    unit: string;
+    description: string;
+    productId?: bigint;
+    receivedQuantity: bigint;
+    purchaseOrderLine?: bigint;
+}): {
+    rejectedQuantity: bigint;
+    unit: string;
+    description: string;
+    productId: [] | [bigint];
+    receivedQuantity: bigint;
+    purchaseOrderLine: [] | [bigint];
+} {
+    return {
+        rejectedQuantity: value.rejectedQuantity,
+        unit: value.unit,
+        description: value.description,
+        productId: value.productId ? candid_some(value.productId) : candid_none(),
+        receivedQuantity: value.receivedQuantity,
+        purchaseOrderLine: value.purchaseOrderLine ? candid_some(value.purchaseOrderLine) : candid_none()
+    };
+}
+function to_candid_record_n35(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    mrp: bigint;
+    name: string;
+    wholesalePrice: bigint;
+    description: string;
+    hsnCode: string;
+    sizes: Array<string>;
+    attributes: ProductAttributes;
+    colors: Array<string>;
+    price: bigint;
+    costPrice: bigint;
+    articleNumber: string;
+    taxSlab: TaxSlabRule;
+}): {
+    mrp: bigint;
+    name: string;
+    wholesalePrice: bigint;
+    description: string;
+    hsnCode: string;
+    sizes: Array<string>;
+    attributes: _ProductAttributes;
+    colors: Array<string>;
+    price: bigint;
+    costPrice: bigint;
+    articleNumber: string;
+    taxSlab: _TaxSlabRule;
+} {
+    return {
+        mrp: value.mrp,
+        name: value.name,
+        wholesalePrice: value.wholesalePrice,
+        description: value.description,
+        hsnCode: value.hsnCode,
+        sizes: value.sizes,
+        attributes: to_candid_ProductAttributes_n8(_uploadFile, _downloadFile, value.attributes),
+        colors: value.colors,
+        price: value.price,
+        costPrice: value.costPrice,
+        articleNumber: value.articleNumber,
+        taxSlab: value.taxSlab
     };
 }
-function to_candid_record_n27(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+function to_candid_record_n38(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    unit: string;
+    description: string;
+    productId?: bigint;
+    quantity: bigint;
+    unitCost: bigint;
+}): {
+    unit: string;
+    description: string;
+    productId: [] | [bigint];
+    quantity: bigint;
+    unitCost: bigint;
+} {
+    return {
+        unit: value.unit,
+        description: value.description,
+        productId: value.productId ? candid_some(value.productId) : candid_none(),
+        quantity: value.quantity,
+        unitCost: value.unitCost
+    };
+}
+function to_candid_record_n42(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
     exportType: BarcodeExportFormat;
     productId: bigint;
 }): {
@@ -1913,38 +4212,85 @@ function to_candid_record_n27(_uploadFile: (file: ExternalBlob) => Promise<Uint8
     productId: bigint;
 } {
     return {
-        exportType: to_candid_BarcodeExportFormat_n15(_uploadFile, _downloadFile, value.exportType),
+        exportType: to_candid_BarcodeExportFormat_n19(_uploadFile, _downloadFile, value.exportType),
         productId: value.productId
     };
 }
-function to_candid_record_n3(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
-    proposed_top_up_amount?: bigint;
+function to_candid_record_n9(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    categoryId?: bigint;
+    tags: Array<string>;
+    season: string;
+    brand: string;
+    fabric: string;
 }): {
-    proposed_top_up_amount: [] | [bigint];
+    categoryId: [] | [bigint];
+    tags: Array<string>;
+    season: string;
+    brand: string;
+    fabric: string;
 } {
     return {
-        proposed_top_up_amount: value.proposed_top_up_amount ? candid_some(value.proposed_top_up_amount) : candid_none()
+        categoryId: value.categoryId ? candid_some(value.categoryId) : candid_none(),
+        tags: value.tags,
+        season: value.season,
+        brand: value.brand,
+        fabric: value.fabric
     };
 }
-function to_candid_record_n73(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
-    appRole: AppRole;
-    name: string;
-    email: string;
-    department: string;
+function to_candid_record_n90(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    paymentStatus?: T;
+    customerId?: bigint;
+    invoiceDateRange?: ReportDateRange;
+    searchQuery?: string;
 }): {
-    appRole: _AppRole;
-    name: string;
-    email: string;
-    department: string;
+    paymentStatus: [] | [_T];
+    customerId: [] | [bigint];
+    invoiceDateRange: [] | [_ReportDateRange];
+    searchQuery: [] | [string];
 } {
     return {
-        appRole: to_candid_AppRole_n9(_uploadFile, _downloadFile, value.appRole),
-        name: value.name,
-        email: value.email,
-        department: value.department
+        paymentStatus: value.paymentStatus ? candid_some(to_candid_T_n32(_uploadFile, _downloadFile, value.paymentStatus)) : candid_none(),
+        customerId: value.customerId ? candid_some(value.customerId) : candid_none(),
+        invoiceDateRange: value.invoiceDateRange ? candid_some(value.invoiceDateRange) : candid_none(),
+        searchQuery: value.searchQuery ? candid_some(value.searchQuery) : candid_none()
     };
 }
-function to_candid_variant_n10(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: AppRole): {
+function to_candid_variant_n12(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: StockMovementReason): {
+    theft: null;
+} | {
+    damage: null;
+} | {
+    salesReturn: null;
+} | {
+    opening: null;
+} | {
+    sale: null;
+} | {
+    correction: null;
+} | {
+    transfer: null;
+} | {
+    purchase: null;
+} {
+    return value == StockMovementReason.theft ? {
+        theft: null
+    } : value == StockMovementReason.damage ? {
+        damage: null
+    } : value == StockMovementReason.salesReturn ? {
+        salesReturn: null
+    } : value == StockMovementReason.opening ? {
+        opening: null
+    } : value == StockMovementReason.sale ? {
+        sale: null
+    } : value == StockMovementReason.correction ? {
+        correction: null
+    } : value == StockMovementReason.transfer ? {
+        transfer: null
+    } : value == StockMovementReason.purchase ? {
+        purchase: null
+    } : value;
+}
+function to_candid_variant_n14(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: AppRole): {
     accountant: null;
 } | {
     admin: null;
@@ -1963,7 +4309,7 @@ function to_candid_variant_n10(_uploadFile: (file: ExternalBlob) => Promise<Uint
         inventoryManager: null
     } : value;
 }
-function to_candid_variant_n12(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: UserRole): {
+function to_candid_variant_n16(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: UserRole): {
     admin: null;
 } | {
     user: null;
@@ -1978,7 +4324,98 @@ function to_candid_variant_n12(_uploadFile: (file: ExternalBlob) => Promise<Uint
         guest: null
     } : value;
 }
-function to_candid_variant_n16(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: BarcodeExportFormat): {
+function to_candid_variant_n170(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: UserApprovalStatus): {
+    pending: null;
+} | {
+    approved: null;
+} | {
+    rejected: null;
+} {
+    return value == UserApprovalStatus.pending ? {
+        pending: null
+    } : value == UserApprovalStatus.approved ? {
+        approved: null
+    } : value == UserApprovalStatus.rejected ? {
+        rejected: null
+    } : value;
+}
+function to_candid_variant_n173(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: DispatchStatus): {
+    dispatched: null;
+} | {
+    inTransit: null;
+} | {
+    delivered: null;
+} {
+    return value == DispatchStatus.dispatched ? {
+        dispatched: null
+    } : value == DispatchStatus.inTransit ? {
+        inTransit: null
+    } : value == DispatchStatus.delivered ? {
+        delivered: null
+    } : value;
+}
+function to_candid_variant_n176(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: OrderStatus): {
+    cancelled: null;
+} | {
+    pending: null;
+} | {
+    fulfilled: null;
+} | {
+    processing: null;
+} {
+    return value == OrderStatus.cancelled ? {
+        cancelled: null
+    } : value == OrderStatus.pending ? {
+        pending: null
+    } : value == OrderStatus.fulfilled ? {
+        fulfilled: null
+    } : value == OrderStatus.processing ? {
+        processing: null
+    } : value;
+}
+function to_candid_variant_n178(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: PurchaseOrderStatus): {
+    cancelled: null;
+} | {
+    ordered: null;
+} | {
+    partiallyReceived: null;
+} | {
+    draft: null;
+} | {
+    received: null;
+} {
+    return value == PurchaseOrderStatus.cancelled ? {
+        cancelled: null
+    } : value == PurchaseOrderStatus.ordered ? {
+        ordered: null
+    } : value == PurchaseOrderStatus.partiallyReceived ? {
+        partiallyReceived: null
+    } : value == PurchaseOrderStatus.draft ? {
+        draft: null
+    } : value == PurchaseOrderStatus.received ? {
+        received: null
+    } : value;
+}
+function to_candid_variant_n180(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: QuotationStatus): {
+    expired: null;
+} | {
+    sent: null;
+} | {
+    accepted: null;
+} | {
+    draft: null;
+} {
+    return value == QuotationStatus.expired ? {
+        expired: null
+    } : value == QuotationStatus.sent ? {
+        sent: null
+    } : value == QuotationStatus.accepted ? {
+        accepted: null
+    } : value == QuotationStatus.draft ? {
+        draft: null
+    } : value;
+}
+function to_candid_variant_n20(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: BarcodeExportFormat): {
     pdf: null;
 } | {
     png: null;
@@ -1989,12 +4426,68 @@ function to_candid_variant_n16(_uploadFile: (file: ExternalBlob) => Promise<Uint
         png: null
     } : value;
 }
-function to_candid_variant_n19(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: T): {
+function to_candid_variant_n25(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: PaymentMode): {
+    upi: null;
+} | {
+    cash: null;
+} | {
+    bankTransfer: null;
+} | {
+    cheque: null;
+} {
+    return value == PaymentMode.upi ? {
+        upi: null
+    } : value == PaymentMode.cash ? {
+        cash: null
+    } : value == PaymentMode.bankTransfer ? {
+        bankTransfer: null
+    } : value == PaymentMode.cheque ? {
+        cheque: null
+    } : value;
+}
+function to_candid_variant_n27(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: ExpenseCategory): {
+    other: null;
+} | {
+    marketing: null;
+} | {
+    rent: null;
+} | {
+    transport: null;
+} | {
+    electricity: null;
+} | {
+    maintenance: null;
+} | {
+    salaries: null;
+} | {
+    packaging: null;
+} {
+    return value == ExpenseCategory.other ? {
+        other: null
+    } : value == ExpenseCategory.marketing ? {
+        marketing: null
+    } : value == ExpenseCategory.rent ? {
+        rent: null
+    } : value == ExpenseCategory.transport ? {
+        transport: null
+    } : value == ExpenseCategory.electricity ? {
+        electricity: null
+    } : value == ExpenseCategory.maintenance ? {
+        maintenance: null
+    } : value == ExpenseCategory.salaries ? {
+        salaries: null
+    } : value == ExpenseCategory.packaging ? {
+        packaging: null
+    } : value;
+}
+function to_candid_variant_n33(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: T): {
     paid: null;
 } | {
     sent: null;
 } | {
     overdue: null;
+} | {
+    partiallyPaid: null;
 } | {
     draft: null;
 } {
@@ -2004,35 +4497,34 @@ function to_candid_variant_n19(_uploadFile: (file: ExternalBlob) => Promise<Uint
         sent: null
     } : value == T.overdue ? {
         overdue: null
+    } : value == T.partiallyPaid ? {
+        partiallyPaid: null
     } : value == T.draft ? {
         draft: null
     } : value;
 }
-function to_candid_variant_n21(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: InvoiceExportFormat): {
-    pdf: null;
+function to_candid_variant_n40(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: TaxonomyTermKind): {
+    season: null;
 } | {
-    excel: null;
+    brand: null;
 } {
-    return value == InvoiceExportFormat.pdf ? {
-        pdf: null
-    } : value == InvoiceExportFormat.excel ? {
-        excel: null
+    return value == TaxonomyTermKind.season ? {
+        season: null
+    } : value == TaxonomyTermKind.brand ? {
+        brand: null
     } : value;
 }
-function to_candid_variant_n75(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: UserApprovalStatus): {
-    pending: null;
-} | {
-    approved: null;
-} | {
-    rejected: null;
-} {
-    return value == UserApprovalStatus.pending ? {
-        pending: null
-    } : value == UserApprovalStatus.approved ? {
-        approved: null
-    } : value == UserApprovalStatus.rejected ? {
-        rejected: null
-    } : value;
+function to_candid_vec_n131(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<ProductImportRow>): Array<_ProductImportRow> {
+    return value.map((x)=>to_candid_ProductImportRow_n132(_uploadFile, _downloadFile, x));
+}
+function to_candid_vec_n164(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<ProductPriceRevision>): Array<_ProductPriceRevision> {
+    return value.map((x)=>to_candid_ProductPriceRevision_n165(_uploadFile, _downloadFile, x));
+}
+function to_candid_vec_n29(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<GoodsReceiptLineInput>): Array<_GoodsReceiptLineInput> {
+    return value.map((x)=>to_candid_GoodsReceiptLineInput_n30(_uploadFile, _downloadFile, x));
+}
+function to_candid_vec_n36(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<PurchaseOrderLineInput>): Array<_PurchaseOrderLineInput> {
+    return value.map((x)=>to_candid_PurchaseOrderLineInput_n37(_uploadFile, _downloadFile, x));
 }
 export interface CreateActorOptions {
     agent?: Agent;
@@ -18,6 +18,14 @@ import {
 import { useEffect, useRef, useState } from "react";
 import { toast } from "sonner";
 import type { Product } from "../backend";
+import { useCompanyBranding } from "../hooks/useQueries";
+import {
+  getCompanyContactLine,
+  getCompanyName,
+  getCompanyTaxIdLine,
+  getDocumentColors,
+  hexToRgb,
+} from "../utils/companyBranding";
 
 interface BarcodeGeneratorProps {
   product: Product;
@@ -36,6 +44,7 @@ export default function BarcodeGenerator({
   const [isGenerating, setIsGenerating] = useState(false);
   const [code128Error, setCode128Error] = useState<string | null>(null);
   const [qrError, setQrError] = useState<string | null>(null);
+  const { settings } = useCompanyBranding();
   const [_librariesLoaded, setLibrariesLoaded] = useState({
     jsBarcode: false,
     qrCode: false,
@@ -321,14 +330,43 @@ export default function BarcodeGenerator({
 
       pdf.addImage(imgData, "PNG", x, y, imgWidth, imgHeight);
 
+      // Company branding header
+      pdf.setFillColor(...hexToRgb(getDocumentColors(settings).primary));
+      pdf.rect(0, 0, pageWidth, 25, "F");
+      pdf.setTextColor(0, 0, 0);
+      pdf.setFontSize(20);
+      pdf.setFont("helvetica", "bold");
+      pdf.text(getCompanyName(settings), pageWidth / 2, 12, {
+        align: "center",
+      });
+      pdf.setFontSize(10);
+      pdf.setFont("helvetica", "normal");
+      pdf.text(
+        getCompanyTaxIdLine(settings) || settings?.tagline || "",
+        pageWidth / 2,
+        19,
+        { align: "center" },
+      );
+
       // Add product information
       pdf.setFontSize(12);
-      pdf.text(`Product: ${product.name}`, 10, 10);
-      pdf.text(`Barcode: ${product.barcode}`, 10, 20);
+      pdf.text(`Product: ${product.name}`, 10, 35);
+      pdf.text(`Barcode: ${product.barcode}`, 10, 45);
       pdf.text(
         `Size: ${product.size || "N/A"} | Color: ${product.color || "N/A"}`,
         10,
-        30,
+        55,
+      );
+
+      pdf.setFontSize(8);
+      pdf.setTextColor(102, 102, 102);
+      pdf.text(
+        getCompanyContactLine(settings),
+        pageWidth / 2,
+        pageHeight - 10,
+        {
+          align: "center",
+        },
       );
 
       pdf.save(
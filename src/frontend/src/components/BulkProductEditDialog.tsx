@@ -0,0 +1,419 @@
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowRight, Loader2 } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import type { Product } from "../backend";
+import {
+  useArchiveProducts,
+  useListProductCategories,
+  useReviseProductPrices,
+  useSetProductsCategory,
+  useSetProductsLocation,
+} from "../hooks/useQueries";
+import {
+  PRICE_FIELD_LABELS,
+  PRICE_ROUNDING_LABELS,
+  type PriceField,
+  type PriceRounding,
+  previewPriceRevision,
+} from "../utils/priceRevision";
+import { categoryOptions, categoryPath } from "../utils/taxonomy";
+
+type BulkAction = "price" | "location" | "category" | "archive";
+
+const BULK_ACTION_LABELS: Record<BulkAction, string> = {
+  price: "Change prices",
+  location: "Set location",
+  category: "Change category",
+  archive: "Archive",
+};
+
+interface BulkProductEditDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  products: Product[];
+  onApplied: () => void;
+}
+
+interface PreviewRow {
+  product: Product;
+  before: string;
+  after: string;
+  error?: string;
+}
+
+const formatLocation = (warehouse: string, rack: string, shelf: string) =>
+  [warehouse && `W: ${warehouse}`, rack && `R: ${rack}`, shelf && `S: ${shelf}`]
+    .filter(Boolean)
+    .join(" • ") || "-";
+
+export default function BulkProductEditDialog({
+  open,
+  onOpenChange,
+  products,
+  onApplied,
+}: BulkProductEditDialogProps) {
+  const { data: categories = [] } = useListProductCategories();
+  const reviseProductPrices = useReviseProductPrices();
+  const setProductsLocation = useSetProductsLocation();
+  const setProductsCategory = useSetProductsCategory();
+  const archiveProducts = useArchiveProducts();
+
+  const [action, setAction] = useState<BulkAction>("price");
+  const [priceField, setPriceField] = useState<PriceField>("price");
+  const [priceMode, setPriceMode] = useState<"percent" | "flat">("percent");
+  const [amount, setAmount] = useState("");
+  const [rounding, setRounding] = useState<PriceRounding>("none");
+  const [location, setLocation] = useState({
+    warehouse: "",
+    rack: "",
+    shelf: "",
+  });
+  const [categoryId, setCategoryId] = useState("none");
+
+  const isPending =
+    reviseProductPrices.isPending ||
+    setProductsLocation.isPending ||
+    setProductsCategory.isPending ||
+    archiveProducts.isPending;
+
+  const priceRevisions = previewPriceRevision(products, {
+    field: priceField,
+    mode: priceMode,
+    amount: Number(amount) || 0,
+    rounding,
+  });
+
+  const previewRows: PreviewRow[] = products.map((product, index) => {
+    switch (action) {
+      case "price": {
+        const revision = priceRevisions[index];
+        return {
+          product,
+          before: `₹${Number(revision.before)}`,
+          after: `₹${Number(revision.after)}`,
+          error: revision.error,
+        };
+      }
+      case "location":
+        return {
+          product,
+          before: formatLocation(
+            product.warehouse,
+            product.rack,
+            product.shelf,
+          ),
+          after: formatLocation(
+            location.warehouse.trim(),
+            location.rack.trim(),
+            location.shelf.trim(),
+          ),
+        };
+      case "category":
+        return {
+          product,
+          before:
+            categoryPath(categories, product.attributes.categoryId) ||
+            "Uncategorised",
+          after:
+            categoryId === "none"
+              ? "Uncategorised"
+              : categoryPath(categories, BigInt(categoryId)),
+        };
+      case "archive":
+        return {
+          product,
+          before: product.archived ? "Archived" : "Active",
+          after: "Archived",
+          error:
+            product.reservedStock > 0
+              ? `${product.reservedStock} units reserved by open orders`
+              : undefined,
+        };
+    }
+  });
+  const errorCount = previewRows.filter((row) => row.error).length;
+
+  const handleOpenChange = (next: boolean) => {
+    if (isPending) return;
+    if (!next) {
+      setAmount("");
+      setLocation({ warehouse: "", rack: "", shelf: "" });
+      setCategoryId("none");
+    }
+    onOpenChange(next);
+  };
+
+  const handleApply = async () => {
+    if (action === "price" && !Number(amount)) {
+      toast.error("Enter a price change");
+      return;
+    }
+    if (errorCount > 0) {
+      toast.error("Fix the highlighted products before applying");
+      return;
+    }
+
+    const productIds = products.map((p) => p.productId);
+    try {
+      switch (action) {
+        case "price":
+          await reviseProductPrices.mutateAsync(
+            priceRevisions.map((r) => r.revision),
+          );
+          break;
+        case "location":
+          await setProductsLocation.mutateAsync({
+            productIds,
+            warehouse: location.warehouse.trim(),
+            rack: location.rack.trim(),
+            shelf: location.shelf.trim(),
+          });
+          break;
+        case "category":
+          await setProductsCategory.mutateAsync({
+            productIds,
+            categoryId: categoryId === "none" ? null : BigInt(categoryId),
+          });
+          break;
+        case "archive":
+          await archiveProducts.mutateAsync(productIds);
+          break;
+      }
+      toast.success(`${products.length} product(s) updated`);
+      onApplied();
+      handleOpenChange(false);
+    } catch (error: any) {
+      toast.error(error?.message || "Bulk update failed");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Bulk Edit {products.length} Products</DialogTitle>
+          <DialogDescription>
+            The change is saved for all selected products in one update, or not
+            at all if any of them cannot take it
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="bulkAction">Action</Label>
+            <Select
+              value={action}
+              onValueChange={(value) => setAction(value as BulkAction)}
+            >
+              <SelectTrigger id="bulkAction">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(BULK_ACTION_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {action === "price" && (
+            <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+              <div className="space-y-2">
+                <Label htmlFor="bulkPriceField">Price</Label>
+                <Select
+                  value={priceField}
+                  onValueChange={(value) => setPriceField(value as PriceField)}
+                >
+                  <SelectTrigger id="bulkPriceField">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(PRICE_FIELD_LABELS).map(
+                      ([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ),
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="bulkPriceMode">Change By</Label>
+                <Select
+                  value={priceMode}
+                  onValueChange={(value) =>
+                    setPriceMode(value as "percent" | "flat")
+                  }
+                >
+                  <SelectTrigger id="bulkPriceMode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="percent">Percentage</SelectItem>
+                    <SelectItem value="flat">Flat ₹</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="bulkPriceAmount">
+                  {priceMode === "percent" ? "Change (%)" : "Change (₹)"}
+                </Label>
+                <Input
+                  id="bulkPriceAmount"
+                  type="number"
+                  placeholder="e.g., -20"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="bulkPriceRounding">Rounding</Label>
+                <Select
+                  value={rounding}
+                  onValueChange={(value) => setRounding(value as PriceRounding)}
+                >
+                  <SelectTrigger id="bulkPriceRounding">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(PRICE_ROUNDING_LABELS).map(
+                      ([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ),
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
+          {action === "location" && (
+            <div className="grid grid-cols-3 gap-4">
+              {(["warehouse", "rack", "shelf"] as const).map((field) => (
+                <div key={field} className="space-y-2">
+                  <Label htmlFor={`bulk-${field}`} className="capitalize">
+                    {field}
+                  </Label>
+                  <Input
+                    id={`bulk-${field}`}
+                    value={location[field]}
+                    onChange={(e) =>
+                      setLocation({ ...location, [field]: e.target.value })
+                    }
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          {action === "category" && (
+            <div className="space-y-2">
+              <Label htmlFor="bulkCategory">Category</Label>
+              <Select value={categoryId} onValueChange={setCategoryId}>
+                <SelectTrigger id="bulkCategory">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Uncategorised</SelectItem>
+                  {categoryOptions(categories).map((option) => (
+                    <SelectItem
+                      key={option.categoryId.toString()}
+                      value={option.categoryId.toString()}
+                    >
+                      {option.path}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="max-h-72 overflow-y-auto rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Before</TableHead>
+                  <TableHead />
+                  <TableHead>After</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {previewRows.map((row) => (
+                  <TableRow key={row.product.productId.toString()}>
+                    <TableCell>
+                      <p className="font-medium">{row.product.name}</p>
+                      {row.error && (
+                        <p className="text-xs text-destructive">{row.error}</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {row.before}
+                    </TableCell>
+                    <TableCell>
+                      <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                    </TableCell>
+                    <TableCell
+                      className={row.before === row.after ? "" : "font-medium"}
+                    >
+                      {row.after}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={handleApply}
+            disabled={isPending || errorCount > 0}
+          >
+            {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Apply to {products.length} Products
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
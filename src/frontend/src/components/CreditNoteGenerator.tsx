@@ -0,0 +1,352 @@
+import { Button } from "@/components/ui/button";
+import { Download, FileImage, FileText, Loader2 } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import type { CreditNote, Customer, Product } from "../backend";
+import { useCompanyBranding } from "../hooks/useQueries";
+import {
+  getCompanyContactLine,
+  getCompanyName,
+  getCompanyTaxIdLine,
+  getDocumentColors,
+} from "../utils/companyBranding";
+import {
+  INVOICE_LAYOUT,
+  formatCurrency,
+  formatDate,
+} from "../utils/invoiceDocument";
+import { buildCreditNotePdf } from "../utils/invoicePdf";
+
+interface CreditNoteGeneratorProps {
+  creditNote: CreditNote;
+  customer: Customer;
+  products: Product[];
+}
+
+export default function CreditNoteGenerator({
+  creditNote,
+  customer,
+  products,
+}: CreditNoteGeneratorProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [pdfUrl, setPdfUrl] = useState<string | null>(null);
+  const [logoLoaded, setLogoLoaded] = useState(false);
+  const logoRef = useRef<HTMLImageElement | null>(null);
+  const {
+    settings,
+    logoUrl,
+    isLoading: brandingLoading,
+  } = useCompanyBranding();
+
+  // Preload logo once company settings are known
+  useEffect(() => {
+    if (brandingLoading) return;
+    logoRef.current = null;
+    setLogoLoaded(false);
+    const logo = new Image();
+    logo.crossOrigin = "anonymous";
+    logo.onload = () => {
+      logoRef.current = logo;
+      setLogoLoaded(true);
+    };
+    logo.onerror = () => {
+      console.error("Failed to load logo");
+      setLogoLoaded(true); // Continue without logo
+    };
+    logo.src = logoUrl;
+  }, [logoUrl, brandingLoading]);
+
+  const generateCreditNoteImage = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return null;
+
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return null;
+
+    canvas.width = INVOICE_LAYOUT.canvasWidth;
+    canvas.height = INVOICE_LAYOUT.canvasHeight;
+
+    const { primary, accent, black, gray, white, tableRowBg } =
+      getDocumentColors(settings);
+    const {
+      canvasWidth,
+      canvasHeight,
+      padding,
+      headerHeight,
+      tableTop,
+      tableHeaderHeight,
+      tableRowHeight,
+    } = INVOICE_LAYOUT;
+
+    // Background and header
+    ctx.fillStyle = white;
+    ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+    ctx.fillStyle = accent;
+    ctx.fillRect(0, 0, canvasWidth, headerHeight);
+
+    if (logoRef.current) {
+      ctx.drawImage(logoRef.current, padding, 40, 180, 60);
+    } else {
+      ctx.fillStyle = primary;
+      ctx.font = "bold 36px Arial";
+      ctx.textAlign = "left";
+      ctx.fillText(getCompanyName(settings).toUpperCase(), padding, 70);
+    }
+
+    ctx.fillStyle = gray;
+    ctx.font = "12px Arial";
+    ctx.textAlign = "left";
+    ctx.fillText(getCompanyTaxIdLine(settings), padding, 120);
+
+    ctx.fillStyle = black;
+    ctx.font = "bold 36px Arial";
+    ctx.textAlign = "right";
+    ctx.fillText("CREDIT NOTE", canvasWidth - padding, 80);
+
+    ctx.font = "14px Arial";
+    ctx.fillStyle = gray;
+    ctx.fillText(
+      `Credit Note No: ${creditNote.creditNoteNumber}`,
+      canvasWidth - padding,
+      105,
+    );
+    ctx.fillText(
+      `Date: ${formatDate(creditNote.created)}`,
+      canvasWidth - padding,
+      125,
+    );
+    ctx.fillText(
+      `Against Invoice: ${creditNote.invoiceNumber}`,
+      canvasWidth - padding,
+      145,
+    );
+
+    // Customer
+    ctx.fillStyle = black;
+    ctx.font = "bold 16px Arial";
+    ctx.textAlign = "left";
+    ctx.fillText("CREDITED TO:", padding, 200);
+    ctx.font = "14px Arial";
+    ctx.fillStyle = gray;
+    ctx.fillText(customer.name, padding, 225);
+    ctx.fillText(customer.address, padding, 245);
+    ctx.fillText(`${customer.phone}`, padding, 265);
+    if (creditNote.reason) {
+      ctx.fillText(`Reason: ${creditNote.reason}`, padding, 290);
+    }
+
+    // Table header
+    ctx.fillStyle = primary;
+    ctx.fillRect(
+      padding,
+      tableTop,
+      canvasWidth - 2 * padding,
+      tableHeaderHeight,
+    );
+    ctx.fillStyle = white;
+    ctx.font = "bold 14px Arial";
+    ctx.textAlign = "left";
+    ctx.fillText("Sr. No.", padding + 20, tableTop + 25);
+    ctx.fillText("Description", padding + 80, tableTop + 25);
+    ctx.fillText("HSN", padding + 270, tableTop + 25);
+    ctx.fillText("Qty.", padding + 340, tableTop + 25);
+    ctx.fillText("Rate", padding + 390, tableTop + 25);
+    ctx.fillText("Condition", padding + 490, tableTop + 25);
+    ctx.textAlign = "right";
+    ctx.fillText("Amount", canvasWidth - padding - 20, tableTop + 25);
+
+    // Table rows
+    let currentRowTop = tableTop + tableHeaderHeight;
+    creditNote.lines.forEach((line, index) => {
+      if (index % 2 === 0) {
+        ctx.fillStyle = tableRowBg;
+        ctx.fillRect(
+          padding,
+          currentRowTop,
+          canvasWidth - 2 * padding,
+          tableRowHeight,
+        );
+      }
+      const product = products.find((p) => p.productId === line.productId);
+      const rowY = currentRowTop + 25;
+      ctx.fillStyle = black;
+      ctx.font = "14px Arial";
+      ctx.textAlign = "left";
+      ctx.fillText((index + 1).toString(), padding + 20, rowY);
+      ctx.fillText(product?.name || "Unknown Product", padding + 80, rowY);
+      ctx.fillText(line.hsnCode || "-", padding + 270, rowY);
+      ctx.fillText(line.quantity.toString(), padding + 340, rowY);
+      ctx.fillText(formatCurrency(line.unitPrice), padding + 390, rowY);
+      ctx.fillText(line.damaged ? "Damaged" : "Restocked", padding + 490, rowY);
+      ctx.textAlign = "right";
+      ctx.fillText(
+        formatCurrency(line.taxableValue),
+        canvasWidth - padding - 20,
+        rowY,
+      );
+      currentRowTop += tableRowHeight;
+    });
+
+    // Totals
+    const taxableValue = creditNote.lines.reduce(
+      (sum, line) => sum + Number(line.taxableValue),
+      0,
+    );
+    const sumOf = (key: "cgst" | "sgst" | "igst") =>
+      creditNote.lines.reduce((sum, line) => sum + Number(line[key]), 0);
+    const totalRows: [string, number][] = [
+      ["Taxable Value:", taxableValue],
+      ...(creditNote.interState
+        ? ([["IGST:", sumOf("igst")]] as [string, number][])
+        : ([
+            ["CGST:", sumOf("cgst")],
+            ["SGST:", sumOf("sgst")],
+          ] as [string, number][])),
+    ];
+
+    let totalsTop = currentRowTop + 15;
+    ctx.font = "14px Arial";
+    ctx.textAlign = "right";
+    for (const [label, amount] of totalRows) {
+      totalsTop += 25;
+      ctx.fillStyle = gray;
+      ctx.fillText(label, canvasWidth - 200, totalsTop);
+      ctx.fillStyle = black;
+      ctx.fillText(
+        formatCurrency(amount),
+        canvasWidth - padding - 20,
+        totalsTop,
+      );
+    }
+
+    const creditTotalTop = totalsTop + 15;
+    ctx.fillStyle = primary;
+    ctx.fillRect(canvasWidth - 320, creditTotalTop, 260, 40);
+    ctx.fillStyle = white;
+    ctx.font = "bold 18px Arial";
+    ctx.fillText("Total Credit:", canvasWidth - 200, creditTotalTop + 25);
+    ctx.fillText(
+      formatCurrency(creditNote.total),
+      canvasWidth - padding - 20,
+      creditTotalTop + 25,
+    );
+
+    // Footer
+    const footerTop = canvasHeight - 60;
+    ctx.strokeStyle = gray;
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(0, footerTop);
+    ctx.lineTo(canvasWidth, footerTop);
+    ctx.stroke();
+
+    ctx.fillStyle = gray;
+    ctx.font = "12px Arial";
+    ctx.textAlign = "center";
+    ctx.fillText(
+      getCompanyContactLine(settings),
+      canvasWidth / 2,
+      footerTop + 30,
+    );
+
+    return canvas.toDataURL("image/png");
+  };
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    try {
+      const imageDataUrl = generateCreditNoteImage();
+      if (!imageDataUrl) {
+        throw new Error("Failed to generate credit note image");
+      }
+      setImageUrl(imageDataUrl);
+      const pdf = buildCreditNotePdf(creditNote, customer, products, {
+        settings,
+        logo: logoRef.current,
+      });
+      setPdfUrl(URL.createObjectURL(pdf.output("blob")));
+    } catch (error) {
+      console.error("Credit note generation error:", error);
+      toast.error("Failed to generate credit note documents");
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const download = (url: string | null, extension: string) => {
+    if (!url) return;
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `credit-note-${creditNote.creditNoteNumber.replace(/\//g, "-")}.${extension}`;
+    link.click();
+  };
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: intentional — only trigger when logoLoaded changes, not on every handleGenerate reference change
+  useEffect(() => {
+    if (logoLoaded) {
+      handleGenerate();
+    }
+  }, [logoLoaded]);
+
+  return (
+    <div className="space-y-4">
+      <canvas ref={canvasRef} className="hidden" />
+
+      <div className="flex gap-2">
+        <Button
+          onClick={handleGenerate}
+          disabled={isGenerating || !logoLoaded}
+          variant="outline"
+          size="sm"
+        >
+          {isGenerating ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Generating...
+            </>
+          ) : (
+            <>
+              <FileText className="mr-2 h-4 w-4" />
+              Regenerate
+            </>
+          )}
+        </Button>
+
+        {imageUrl && (
+          <Button
+            onClick={() => download(imageUrl, "png")}
+            variant="outline"
+            size="sm"
+          >
+            <FileImage className="mr-2 h-4 w-4" />
+            Download Image
+          </Button>
+        )}
+
+        {pdfUrl && (
+          <Button
+            onClick={() => download(pdfUrl, "pdf")}
+            variant="outline"
+            size="sm"
+          >
+            <Download className="mr-2 h-4 w-4" />
+            Download PDF
+          </Button>
+        )}
+      </div>
+
+      {imageUrl && (
+        <div className="border rounded-lg p-4 bg-gray-50">
+          <p className="text-sm text-muted-foreground mb-2">Preview:</p>
+          <img
+            src={imageUrl}
+            alt="Credit Note Preview"
+            className="w-full max-w-md mx-auto border rounded shadow-sm"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,17 +1,31 @@
 import { Button } from "@/components/ui/button";
 import { Download, FileImage, FileText, Loader2 } from "lucide-react";
+import QRCode from "qrcode";
 import { useEffect, useRef, useState } from "react";
 import { toast } from "sonner";
 import type { Customer, Invoice, Product } from "../backend";
+import { useCompanyBranding } from "../hooks/useQueries";
+import {
+  getCompanyContactLine,
+  getCompanyName,
+  getCompanyTaxIdLine,
+  getDocumentColors,
+} from "../utils/companyBranding";
+import { getStateLabel } from "../utils/gst";
 import {
-  INVOICE_COLORS,
   INVOICE_LAYOUT,
   InvoiceLineItem,
+  amountInWords,
+  buildHsnSummary,
   buildLineItems,
+  buildUpiPaymentUri,
   calculateTotals,
   formatCurrency,
   formatDate,
+  getBalanceDue,
+  loadImage,
 } from "../utils/invoiceDocument";
+import { buildInvoicePdf } from "../utils/invoicePdf";
 
 interface InvoiceGeneratorProps {
   invoice: Invoice;
@@ -34,9 +48,17 @@ export default function InvoiceGenerator({
   const [pdfUrl, setPdfUrl] = useState<string | null>(null);
   const [logoLoaded, setLogoLoaded] = useState(false);
   const logoRef = useRef<HTMLImageElement | null>(null);
+  const {
+    settings,
+    logoUrl,
+    isLoading: brandingLoading,
+  } = useCompanyBranding();
 
-  // Preload logo
+  // Preload logo once company settings are known
   useEffect(() => {
+    if (brandingLoading) return;
+    logoRef.current = null;
+    setLogoLoaded(false);
     const logo = new Image();
     logo.crossOrigin = "anonymous";
     logo.onload = () => {
@@ -47,10 +69,13 @@ export default function InvoiceGenerator({
       console.error("Failed to load logo");
       setLogoLoaded(true); // Continue without logo
     };
-    logo.src = "/assets/generated/sahil-garments-logo.dim_900x300.png";
-  }, []);
+    logo.src = logoUrl;
+  }, [logoUrl, brandingLoading]);
 
-  const generateInvoiceImage = async () => {
+  const generateInvoiceImage = (
+    signature: HTMLImageElement | null,
+    upiQr: HTMLImageElement | null,
+  ) => {
     const canvas = canvasRef.current;
     if (!canvas) return null;
 
@@ -61,7 +86,8 @@ export default function InvoiceGenerator({
     canvas.width = INVOICE_LAYOUT.canvasWidth;
     canvas.height = INVOICE_LAYOUT.canvasHeight;
 
-    const { gold, black, gray, lightGray, white, tableRowBg } = INVOICE_COLORS;
+    const { primary, accent, black, gray, white, tableRowBg } =
+      getDocumentColors(settings);
     const {
       canvasWidth,
       canvasHeight,
@@ -77,7 +103,7 @@ export default function InvoiceGenerator({
     ctx.fillRect(0, 0, canvasWidth, canvasHeight);
 
     // Header background
-    ctx.fillStyle = lightGray;
+    ctx.fillStyle = accent;
     ctx.fillRect(0, 0, canvasWidth, headerHeight);
 
     // Draw logo (left side)
@@ -89,13 +115,25 @@ export default function InvoiceGenerator({
 
     // Company name (fallback if logo fails)
     if (!logoRef.current) {
-      ctx.fillStyle = gold;
+      ctx.fillStyle = primary;
       ctx.font = "bold 36px Arial";
       ctx.textAlign = "left";
-      ctx.fillText("SAHIL GARMENTS", padding, 70);
+      ctx.fillText(getCompanyName(settings).toUpperCase(), padding, 70);
       ctx.fillStyle = gray;
       ctx.font = "14px Arial";
-      ctx.fillText("Wholesale & Retail Clothing Store", padding, 95);
+      ctx.fillText(settings?.tagline ?? "", padding, 95);
+    }
+
+    // Seller GSTIN/PAN and address (left side, below logo)
+    ctx.fillStyle = gray;
+    ctx.font = "12px Arial";
+    ctx.textAlign = "left";
+    ctx.fillText(getCompanyTaxIdLine(settings), padding, 120);
+    if (settings?.address) {
+      const stateSuffix = settings.stateCode
+        ? `, ${getStateLabel(settings.stateCode)}`
+        : "";
+      ctx.fillText(`${settings.address}${stateSuffix}`, padding, 138);
     }
 
     // Invoice title (right side)
@@ -109,7 +147,7 @@ export default function InvoiceGenerator({
     ctx.fillStyle = gray;
     let metaY = 110;
     ctx.fillText(
-      `Invoice No: SG-${invoice.invoiceId}`,
+      `Invoice No: ${invoice.invoiceNumber}`,
       canvasWidth - padding,
       metaY,
     );
@@ -139,13 +177,18 @@ export default function InvoiceGenerator({
     ctx.fillText(customer.name, padding, 225);
     ctx.fillText(customer.address, padding, 245);
     ctx.fillText(`${customer.phone}`, padding, 265);
+    ctx.fillText(
+      `Place of Supply: ${getStateLabel(invoice.placeOfSupply)}`,
+      padding,
+      285,
+    );
 
     // Build line items
     const lineItems = buildLineItems(invoice, products);
     const totals = calculateTotals(lineItems, invoice);
 
-    // Table header (gold background)
-    ctx.fillStyle = gold;
+    // Table header (brand color background)
+    ctx.fillStyle = primary;
     ctx.fillRect(
       padding,
       tableTop,
@@ -158,9 +201,11 @@ export default function InvoiceGenerator({
     ctx.font = "bold 14px Arial";
     ctx.textAlign = "left";
     ctx.fillText("Sr. No.", padding + 20, tableTop + 25);
-    ctx.fillText("Description", padding + 100, tableTop + 25);
-    ctx.fillText("Qty.", padding + 360, tableTop + 25);
-    ctx.fillText("Unit Price", padding + 440, tableTop + 25);
+    ctx.fillText("Description", padding + 80, tableTop + 25);
+    ctx.fillText("HSN", padding + 270, tableTop + 25);
+    ctx.fillText("Qty.", padding + 340, tableTop + 25);
+    ctx.fillText("Unit Price", padding + 390, tableTop + 25);
+    ctx.fillText("Discount", padding + 500, tableTop + 25);
     ctx.textAlign = "right";
     ctx.fillText("Total", canvasWidth - padding - 20, tableTop + 25);
 
@@ -183,11 +228,17 @@ export default function InvoiceGenerator({
       ctx.font = "14px Arial";
       ctx.textAlign = "left";
       ctx.fillText(item.srNo.toString(), padding + 20, currentRowTop + 25);
-      ctx.fillText(item.description, padding + 100, currentRowTop + 25);
-      ctx.fillText(item.quantity.toString(), padding + 360, currentRowTop + 25);
+      ctx.fillText(item.description, padding + 80, currentRowTop + 25);
+      ctx.fillText(item.hsnCode || "-", padding + 270, currentRowTop + 25);
+      ctx.fillText(item.quantity.toString(), padding + 340, currentRowTop + 25);
       ctx.fillText(
         formatCurrency(item.unitPrice),
-        padding + 440,
+        padding + 390,
+        currentRowTop + 25,
+      );
+      ctx.fillText(
+        item.discount > 0 ? formatCurrency(item.discount) : "-",
+        padding + 500,
         currentRowTop + 25,
       );
       ctx.textAlign = "right";
@@ -215,46 +266,143 @@ export default function InvoiceGenerator({
       totalsTop,
     );
 
-    // GST
-    ctx.fillStyle = gray;
-    ctx.fillText(
-      `GST (${totals.gstPercentage}%):`,
-      canvasWidth - 200,
-      totalsTop + 25,
-    );
-    ctx.fillStyle = black;
-    ctx.fillText(
-      formatCurrency(totals.tax),
-      canvasWidth - padding - 20,
-      totalsTop + 25,
-    );
+    // GST: CGST + SGST within the state, IGST across states
+    const taxRows: [string, number][] = invoice.interState
+      ? [["IGST:", totals.igst]]
+      : [
+          ["CGST:", totals.cgst],
+          ["SGST:", totals.sgst],
+        ];
+    let taxRowTop = totalsTop;
+    for (const [label, amount] of taxRows) {
+      taxRowTop += 25;
+      ctx.fillStyle = gray;
+      ctx.fillText(label, canvasWidth - 200, taxRowTop);
+      ctx.fillStyle = black;
+      ctx.fillText(
+        formatCurrency(amount),
+        canvasWidth - padding - 20,
+        taxRowTop,
+      );
+    }
 
-    // Grand Total (gold background bar)
-    ctx.fillStyle = gold;
-    ctx.fillRect(canvasWidth - 320, totalsTop + 40, 260, 40);
+    // Grand Total (brand color bar)
+    const grandTotalTop = taxRowTop + 15;
+    ctx.fillStyle = primary;
+    ctx.fillRect(canvasWidth - 320, grandTotalTop, 260, 40);
     ctx.fillStyle = white;
     ctx.font = "bold 18px Arial";
-    ctx.fillText("Grand Total:", canvasWidth - 200, totalsTop + 65);
+    ctx.fillText("Grand Total:", canvasWidth - 200, grandTotalTop + 25);
     ctx.fillText(
       formatCurrency(totals.grandTotal),
       canvasWidth - padding - 20,
-      totalsTop + 65,
+      grandTotalTop + 25,
     );
 
-    // Payment Method section (left side)
-    const paymentTop = totalsTop + 110;
+    // Amount in words (left side, below the grand total)
     ctx.fillStyle = black;
-    ctx.font = "bold 16px Arial";
+    ctx.font = "italic 13px Arial";
+    ctx.textAlign = "left";
+    ctx.fillText(
+      `Amount in words: ${amountInWords(totals.grandTotal)}`,
+      padding,
+      grandTotalTop + 65,
+    );
+
+    // HSN-wise tax summary
+    const hsnTop = grandTotalTop + 85;
+    const hsnColumns = invoice.interState
+      ? ["HSN/SAC", "Taxable Value", "Rate", "IGST", "Total Tax"]
+      : ["HSN/SAC", "Taxable Value", "Rate", "CGST", "SGST", "Total Tax"];
+    const hsnColumnWidth = (canvasWidth - 2 * padding) / hsnColumns.length;
+    ctx.fillStyle = accent;
+    ctx.fillRect(padding, hsnTop, canvasWidth - 2 * padding, 28);
+    ctx.fillStyle = black;
+    ctx.font = "bold 12px Arial";
     ctx.textAlign = "left";
-    ctx.fillText("Payment Method:", padding, paymentTop);
+    hsnColumns.forEach((column, index) => {
+      ctx.fillText(column, padding + 10 + index * hsnColumnWidth, hsnTop + 18);
+    });
 
-    ctx.font = "14px Arial";
-    ctx.fillStyle = gray;
-    ctx.fillText("Bank Transfer", padding, paymentTop + 25);
-    ctx.fillText("Account: XXXXXXX7890", padding, paymentTop + 45);
+    ctx.font = "12px Arial";
+    let hsnRowTop = hsnTop + 28;
+    for (const row of buildHsnSummary(invoice)) {
+      const cells = invoice.interState
+        ? [
+            row.hsnCode,
+            formatCurrency(row.taxableValue),
+            `${row.taxRate}%`,
+            formatCurrency(row.igst),
+            formatCurrency(row.totalTax),
+          ]
+        : [
+            row.hsnCode,
+            formatCurrency(row.taxableValue),
+            `${row.taxRate}%`,
+            formatCurrency(row.cgst),
+            formatCurrency(row.sgst),
+            formatCurrency(row.totalTax),
+          ];
+      cells.forEach((cell, index) => {
+        ctx.fillText(
+          cell,
+          padding + 10 + index * hsnColumnWidth,
+          hsnRowTop + 18,
+        );
+      });
+      hsnRowTop += 24;
+    }
+
+    // Bank details (left side), only once configured in company settings
+    const paymentTop = hsnRowTop + 30;
+    const bank = settings?.bankDetails;
+    const bankLines = bank?.accountNumber
+      ? [
+          [bank.bankName, bank.branch].filter(Boolean).join(", "),
+          bank.accountName && `A/c Name: ${bank.accountName}`,
+          `A/c No: ${bank.accountNumber}`,
+          bank.ifsc && `IFSC: ${bank.ifsc}`,
+        ].filter(Boolean)
+      : [];
+    if (bankLines.length > 0) {
+      ctx.fillStyle = black;
+      ctx.font = "bold 16px Arial";
+      ctx.textAlign = "left";
+      ctx.fillText("Bank Details:", padding, paymentTop);
+
+      ctx.font = "14px Arial";
+      ctx.fillStyle = gray;
+      bankLines.forEach((line, index) => {
+        ctx.fillText(line, padding, paymentTop + 25 + index * 20);
+      });
+    }
+
+    // UPI payment QR (right side, beside the bank details)
+    const qrSize = 110;
+    if (upiQr && settings?.upiId) {
+      const qrLeft = canvasWidth - padding - qrSize;
+      ctx.drawImage(upiQr, qrLeft, paymentTop - 15, qrSize, qrSize);
+      ctx.fillStyle = black;
+      ctx.font = "bold 13px Arial";
+      ctx.textAlign = "right";
+      ctx.fillText("Scan to pay via UPI", qrLeft - 15, paymentTop + 10);
+      ctx.fillStyle = gray;
+      ctx.font = "12px Arial";
+      ctx.fillText(settings.upiId, qrLeft - 15, paymentTop + 30);
+      ctx.fillText(
+        `Balance Due: ${formatCurrency(getBalanceDue(invoice))}`,
+        qrLeft - 15,
+        paymentTop + 50,
+      );
+    }
 
     // Thank you message (left side)
-    const thankYouTop = paymentTop + 90;
+    const paymentHeight = Math.max(
+      bankLines.length > 0 ? 45 + bankLines.length * 20 : 0,
+      upiQr ? qrSize + 10 : 0,
+    );
+    const thankYouTop = paymentTop + paymentHeight;
+    ctx.textAlign = "left";
     ctx.fillStyle = black;
     ctx.font = "italic 16px Arial";
     ctx.fillText("Thank you for your business!", padding, thankYouTop);
@@ -271,20 +419,9 @@ export default function InvoiceGenerator({
     ctx.lineTo(canvasWidth - padding, signatureTop + 40);
     ctx.stroke();
 
-    // Load and draw signature if available
-    if (signatureUrl) {
-      try {
-        const signatureImg = new Image();
-        signatureImg.crossOrigin = "anonymous";
-        await new Promise((resolve, reject) => {
-          signatureImg.onload = resolve;
-          signatureImg.onerror = reject;
-          signatureImg.src = signatureUrl;
-        });
-        ctx.drawImage(signatureImg, canvasWidth - 220, signatureTop, 150, 35);
-      } catch (error) {
-        console.error("Failed to load signature:", error);
-      }
+    // Draw signature if available
+    if (signature) {
+      ctx.drawImage(signature, canvasWidth - 220, signatureTop, 150, 35);
     }
 
     ctx.fillStyle = black;
@@ -297,6 +434,24 @@ export default function InvoiceGenerator({
 
     // Footer line
     const footerTop = canvasHeight - 60;
+
+    // Terms & conditions from company settings, just above the footer
+    const termsLines = (settings?.invoiceFooterTerms ?? "")
+      .split("\n")
+      .filter((line) => line.trim() !== "")
+      .slice(0, 4);
+    if (termsLines.length > 0) {
+      const termsTop = footerTop - 10 - termsLines.length * 16;
+      ctx.fillStyle = black;
+      ctx.font = "bold 12px Arial";
+      ctx.textAlign = "left";
+      ctx.fillText("Terms & Conditions:", padding, termsTop - 4);
+      ctx.fillStyle = gray;
+      ctx.font = "11px Arial";
+      termsLines.forEach((line, index) => {
+        ctx.fillText(line, padding, termsTop + 12 + index * 16);
+      });
+    }
     ctx.strokeStyle = gray;
     ctx.lineWidth = 1;
     ctx.beginPath();
@@ -309,7 +464,7 @@ export default function InvoiceGenerator({
     ctx.font = "12px Arial";
     ctx.textAlign = "center";
     ctx.fillText(
-      "Sahil Garments | info@sahilgarments.com | +91 9876543210 | www.sahilgarments.com",
+      getCompanyContactLine(settings),
       canvasWidth / 2,
       footerTop + 30,
     );
@@ -317,35 +472,6 @@ export default function InvoiceGenerator({
     return canvas.toDataURL("image/png");
   };
 
-  const generatePDF = async (imageDataUrl: string) => {
-    // Load jsPDF from CDN
-    const script = document.createElement("script");
-    script.src =
-      "https://cdnjs.cloudflare.com/ajax/libs/jspdf/2.5.1/jspdf.umd.min.js";
-    document.head.appendChild(script);
-
-    await new Promise((resolve) => {
-      script.onload = resolve;
-    });
-
-    // @ts-ignore - jsPDF loaded from CDN
-    const { jsPDF } = window.jspdf;
-    const pdf = new jsPDF({
-      orientation: "portrait",
-      unit: "mm",
-      format: "a4",
-    });
-
-    // Add image to PDF
-    const imgWidth = 210; // A4 width in mm
-    const imgHeight = 262.5; // A4 height proportional to canvas
-    pdf.addImage(imageDataUrl, "PNG", 0, 0, imgWidth, imgHeight);
-
-    // Return PDF as blob URL
-    const pdfBlob = pdf.output("blob");
-    return URL.createObjectURL(pdfBlob);
-  };
-
   const handleGenerate = async () => {
     if (!logoLoaded) {
       toast.info("Loading logo...");
@@ -354,14 +480,52 @@ export default function InvoiceGenerator({
 
     setIsGenerating(true);
     try {
-      const imageDataUrl = await generateInvoiceImage();
+      let signature: HTMLImageElement | null = null;
+      if (signatureUrl) {
+        try {
+          signature = await loadImage(signatureUrl);
+        } catch (error) {
+          console.error("Failed to load signature:", error);
+        }
+      }
+
+      // UPI QR carrying the outstanding balance; skipped once fully paid
+      let upiQr: HTMLImageElement | null = null;
+      const balanceDue = getBalanceDue(invoice);
+      if (settings?.upiId && balanceDue > 0) {
+        try {
+          const qrDataUrl = await QRCode.toDataURL(
+            buildUpiPaymentUri({
+              vpa: settings.upiId,
+              payeeName: getCompanyName(settings),
+              amount: balanceDue,
+              invoiceNumber: invoice.invoiceNumber,
+            }),
+            { margin: 1, width: 240 },
+          );
+          upiQr = await loadImage(qrDataUrl);
+        } catch (error) {
+          console.error("Failed to generate UPI QR code:", error);
+        }
+      }
+
+      const imageDataUrl = generateInvoiceImage(signature, upiQr);
       if (!imageDataUrl) {
         throw new Error("Failed to generate invoice image");
       }
 
       setImageUrl(imageDataUrl);
 
-      const pdfBlobUrl = await generatePDF(imageDataUrl);
+      // The PDF is rendered as vector text, paginated for long invoices
+      const pdf = buildInvoicePdf(
+        invoice,
+        customer,
+        products,
+        { settings, logo: logoRef.current },
+        signature,
+        upiQr,
+      );
+      const pdfBlobUrl = URL.createObjectURL(pdf.output("blob"));
       setPdfUrl(pdfBlobUrl);
 
       if (onGenerated) {
@@ -377,11 +541,14 @@ export default function InvoiceGenerator({
     }
   };
 
+  // Invoice numbers contain "/" separators, which are not valid in file names
+  const fileBaseName = `invoice-${invoice.invoiceNumber.replace(/\//g, "-")}`;
+
   const downloadImage = () => {
     if (!imageUrl) return;
     const link = document.createElement("a");
     link.href = imageUrl;
-    link.download = `invoice-SG-${invoice.invoiceId}.png`;
+    link.download = `${fileBaseName}.png`;
     link.click();
     toast.success("Invoice image downloaded");
   };
@@ -390,7 +557,7 @@ export default function InvoiceGenerator({
     if (!pdfUrl) return;
     const link = document.createElement("a");
     link.href = pdfUrl;
-    link.download = `invoice-SG-${invoice.invoiceId}.pdf`;
+    link.download = `${fileBaseName}.pdf`;
     link.click();
     toast.success("Invoice PDF downloaded");
   };
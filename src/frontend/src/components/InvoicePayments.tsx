@@ -0,0 +1,243 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { IndianRupee, Loader2 } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { type Invoice, PaymentMode } from "../backend";
+import { useListInvoicePayments, useRecordPayment } from "../hooks/useQueries";
+import {
+  formatCurrency,
+  formatDate,
+  getBalanceDue,
+} from "../utils/invoiceDocument";
+
+export const PAYMENT_MODE_LABELS: Record<PaymentMode, string> = {
+  [PaymentMode.cash]: "Cash",
+  [PaymentMode.upi]: "UPI",
+  [PaymentMode.cheque]: "Cheque",
+  [PaymentMode.bankTransfer]: "Bank Transfer",
+};
+
+interface InvoicePaymentsProps {
+  invoice: Invoice;
+}
+
+export default function InvoicePayments({ invoice }: InvoicePaymentsProps) {
+  const { data: payments = [], isLoading } = useListInvoicePayments(
+    invoice.invoiceId,
+  );
+  const recordPayment = useRecordPayment();
+
+  const [amount, setAmount] = useState("");
+  const [paymentDate, setPaymentDate] = useState(
+    new Date().toISOString().split("T")[0],
+  );
+  const [mode, setMode] = useState<PaymentMode>(PaymentMode.cash);
+  const [reference, setReference] = useState("");
+
+  const balanceDue = getBalanceDue(invoice);
+  const canRecord = invoice.status !== "draft" && balanceDue > 0;
+
+  const sortedPayments = [...payments].sort(
+    (a, b) => Number(a.paymentDate) - Number(b.paymentDate),
+  );
+
+  const handleRecordPayment = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const value = Number.parseInt(amount);
+    if (!value || value <= 0) {
+      toast.error("Please enter a payment amount");
+      return;
+    }
+    if (value > balanceDue) {
+      toast.error(
+        `Payment exceeds balance due of ${formatCurrency(balanceDue)}`,
+      );
+      return;
+    }
+    if (mode !== PaymentMode.cash && !reference.trim()) {
+      toast.error("Please enter a UTR, cheque or transaction reference");
+      return;
+    }
+
+    try {
+      await recordPayment.mutateAsync({
+        invoiceId: invoice.invoiceId,
+        amount: BigInt(value),
+        paymentDate: BigInt(new Date(paymentDate).getTime()) * BigInt(1000000),
+        mode,
+        reference: reference.trim(),
+      });
+      toast.success(
+        value === balanceDue
+          ? "Payment recorded. Invoice fully paid."
+          : "Part-payment recorded",
+      );
+      setAmount("");
+      setReference("");
+    } catch (error: any) {
+      console.error("Record payment error:", error);
+      toast.error(error?.message || "Failed to record payment");
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="p-3 bg-muted rounded-lg">
+          <p className="text-xs text-muted-foreground">Invoice Total</p>
+          <p className="text-lg font-semibold">
+            {formatCurrency(invoice.total)}
+          </p>
+        </div>
+        <div className="p-3 bg-muted rounded-lg">
+          <p className="text-xs text-muted-foreground">Amount Paid</p>
+          <p className="text-lg font-semibold text-green-600">
+            {formatCurrency(invoice.amountPaid)}
+          </p>
+        </div>
+        {invoice.creditedAmount > BigInt(0) && (
+          <div className="p-3 bg-muted rounded-lg">
+            <p className="text-xs text-muted-foreground">Credited</p>
+            <p className="text-lg font-semibold text-blue-600">
+              {formatCurrency(invoice.creditedAmount)}
+            </p>
+          </div>
+        )}
+        <div className="p-3 bg-muted rounded-lg">
+          <p className="text-xs text-muted-foreground">Balance Due</p>
+          <p className="text-lg font-semibold text-red-600">
+            {formatCurrency(balanceDue)}
+          </p>
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-semibold mb-2">Payment History</h3>
+        {isLoading ? (
+          <Skeleton className="h-16 w-full" />
+        ) : sortedPayments.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4 text-center">
+            No payments recorded yet
+          </p>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Mode</TableHead>
+                  <TableHead>Reference</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sortedPayments.map((payment) => (
+                  <TableRow key={payment.paymentId.toString()}>
+                    <TableCell>{formatDate(payment.paymentDate)}</TableCell>
+                    <TableCell>{PAYMENT_MODE_LABELS[payment.mode]}</TableCell>
+                    <TableCell>{payment.reference || "-"}</TableCell>
+                    <TableCell className="text-right font-medium">
+                      {formatCurrency(payment.amount)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </div>
+
+      {canRecord && (
+        <form onSubmit={handleRecordPayment} className="space-y-4">
+          <h3 className="text-sm font-semibold">Record Payment</h3>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="paymentAmount">Amount (₹)</Label>
+              <Input
+                id="paymentAmount"
+                type="number"
+                min="1"
+                max={balanceDue}
+                placeholder={balanceDue.toString()}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="paymentDate">Payment Date</Label>
+              <Input
+                id="paymentDate"
+                type="date"
+                value={paymentDate}
+                onChange={(e) => setPaymentDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="paymentMode">Mode</Label>
+              <Select
+                value={mode}
+                onValueChange={(value) => setMode(value as PaymentMode)}
+              >
+                <SelectTrigger id="paymentMode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(PaymentMode).map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {PAYMENT_MODE_LABELS[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="paymentReference">Reference</Label>
+              <Input
+                id="paymentReference"
+                placeholder="UTR / cheque no."
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+              />
+            </div>
+          </div>
+          <Button
+            type="submit"
+            disabled={recordPayment.isPending}
+            className="w-full gap-2"
+          >
+            {recordPayment.isPending ? (
+              <>
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Recording...
+              </>
+            ) : (
+              <>
+                <IndianRupee className="h-4 w-4" />
+                Record Payment
+              </>
+            )}
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { TaxonomyTermKind } from "../backend";
+import {
+  useListProductCategories,
+  useListTaxonomyTerms,
+} from "../hooks/useQueries";
+import { type AttributeFormState, categoryOptions } from "../utils/taxonomy";
+
+interface ProductAttributesFieldsProps {
+  idPrefix: string;
+  value: AttributeFormState;
+  onChange: (value: AttributeFormState) => void;
+}
+
+// Select items cannot have an empty value, so "" is stored as this sentinel
+const NONE = "none";
+
+export default function ProductAttributesFields({
+  idPrefix,
+  value,
+  onChange,
+}: ProductAttributesFieldsProps) {
+  const { data: categories = [] } = useListProductCategories();
+  const { data: terms = [] } = useListTaxonomyTerms();
+
+  const termNames = (kind: TaxonomyTermKind, current: string) => {
+    const names = terms
+      .filter((term) => term.kind === kind)
+      .map((term) => term.name)
+      .sort((a, b) => a.localeCompare(b));
+    // Keep a value the product already had even if it is not in the list
+    return current && !names.includes(current) ? [current, ...names] : names;
+  };
+
+  const termSelect = (
+    field: "brand" | "season",
+    kind: TaxonomyTermKind,
+    label: string,
+  ) => (
+    <div className="space-y-2">
+      <Label htmlFor={`${idPrefix}-${field}`}>{label}</Label>
+      <Select
+        value={value[field] || NONE}
+        onValueChange={(selected) =>
+          onChange({ ...value, [field]: selected === NONE ? "" : selected })
+        }
+      >
+        <SelectTrigger id={`${idPrefix}-${field}`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NONE}>Not set</SelectItem>
+          {termNames(kind, value[field]).map((name) => (
+            <SelectItem key={name} value={name}>
+              {name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      <div className="col-span-2 space-y-2">
+        <Label htmlFor={`${idPrefix}-category`}>Category</Label>
+        <Select
+          value={value.categoryId}
+          onValueChange={(categoryId) => onChange({ ...value, categoryId })}
+        >
+          <SelectTrigger id={`${idPrefix}-category`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>Uncategorised</SelectItem>
+            {categoryOptions(categories).map((option) => (
+              <SelectItem
+                key={option.categoryId.toString()}
+                value={option.categoryId.toString()}
+              >
+                {option.path}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {termSelect("brand", TaxonomyTermKind.brand, "Brand")}
+      {termSelect("season", TaxonomyTermKind.season, "Season / Collection")}
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-fabric`}>Fabric</Label>
+        <Input
+          id={`${idPrefix}-fabric`}
+          placeholder="e.g., 100% Cotton"
+          value={value.fabric}
+          onChange={(e) => onChange({ ...value, fabric: e.target.value })}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-tags`}>Tags</Label>
+        <Input
+          id={`${idPrefix}-tags`}
+          placeholder="e.g., festive, bestseller"
+          value={value.tags}
+          onChange={(e) => onChange({ ...value, tags: e.target.value })}
+        />
+      </div>
+    </div>
+  );
+}
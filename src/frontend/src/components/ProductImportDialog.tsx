@@ -0,0 +1,415 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Download, FileSpreadsheet, Loader2, Upload } from "lucide-react";
+import { useMemo, useState } from "react";
+import { toast } from "sonner";
+import {
+  useImportProducts,
+  useListProductCategories,
+  useListProducts,
+  useListTaxonomyTerms,
+} from "../hooks/useQueries";
+import {
+  type ColumnMapping,
+  IMPORT_FIELDS,
+  type ImportField,
+  type ImportPreviewRow,
+  type ImportSheet,
+  type ProductImportResult,
+  buildImportErrorReport,
+  buildImportPreview,
+  buildImportTemplate,
+  detectColumnMapping,
+  readImportFile,
+} from "../utils/productImport";
+
+interface ProductImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Select items cannot have an empty value, so unmapped fields use this
+const UNMAPPED = "unmapped";
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.style.visibility = "hidden";
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+export default function ProductImportDialog({
+  open,
+  onOpenChange,
+}: ProductImportDialogProps) {
+  const { data: products = [] } = useListProducts();
+  const { data: categories = [] } = useListProductCategories();
+  const { data: terms = [] } = useListTaxonomyTerms();
+  const importProducts = useImportProducts();
+
+  const [fileName, setFileName] = useState("");
+  const [sheet, setSheet] = useState<ImportSheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [isReading, setIsReading] = useState(false);
+  const [progress, setProgress] = useState(0);
+  // Rows sent to the backend, frozen so the refreshed catalogue does not
+  // turn the rows just created into updates in the preview
+  const [submitted, setSubmitted] = useState<ImportPreviewRow[] | null>(null);
+  const [result, setResult] = useState<ProductImportResult | null>(null);
+
+  const preview = useMemo(
+    () =>
+      sheet
+        ? buildImportPreview(sheet, mapping, { products, categories, terms })
+        : [],
+    [sheet, mapping, products, categories, terms],
+  );
+  const rows = submitted ?? preview;
+  const validRows = rows.filter((row) => row.input);
+  const invalidRows = rows.filter((row) => !row.input);
+  const createCount = validRows.filter((row) => row.action === "create").length;
+
+  const reset = () => {
+    setFileName("");
+    setSheet(null);
+    setMapping({});
+    setProgress(0);
+    setSubmitted(null);
+    setResult(null);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (importProducts.isPending) return;
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    setIsReading(true);
+    try {
+      const loaded = await readImportFile(file);
+      reset();
+      setFileName(file.name);
+      setSheet(loaded);
+      setMapping(detectColumnMapping(loaded.headers));
+    } catch (error: any) {
+      toast.error(error?.message || "Could not read the file");
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const setFieldColumn = (field: ImportField, value: string) => {
+    const next = { ...mapping };
+    if (value === UNMAPPED) {
+      delete next[field];
+    } else {
+      next[field] = Number(value);
+    }
+    setMapping(next);
+  };
+
+  const handleImport = async () => {
+    if (validRows.length === 0) {
+      toast.error("There are no valid rows to import");
+      return;
+    }
+    setSubmitted(preview);
+    setProgress(0);
+    try {
+      const outcome = await importProducts.mutateAsync({
+        rows: validRows.flatMap((row) => (row.input ? [row.input] : [])),
+        onProgress: setProgress,
+      });
+      setResult(outcome);
+      const failed = outcome.failedChunks.reduce(
+        (sum, chunk) => sum + chunk.rows.length,
+        0,
+      );
+      if (failed === 0) {
+        toast.success(
+          `Imported ${outcome.created + outcome.updated} products (${outcome.created} new, ${outcome.updated} updated)`,
+        );
+      } else {
+        toast.error(`${failed} rows could not be imported`);
+      }
+    } catch (error: any) {
+      toast.error(error?.message || "Import failed");
+      setSubmitted(null);
+    }
+  };
+
+  const handleDownloadErrors = () => {
+    const failures = [
+      ...invalidRows,
+      ...(result?.failedChunks ?? []).flatMap((chunk) =>
+        chunk.rows.map((input) => {
+          const row = validRows.find((r) => r.barcode === input.barcode);
+          return {
+            rowNumber: row?.rowNumber ?? 0,
+            barcode: input.barcode,
+            name: input.name,
+            errors: [chunk.error],
+          };
+        }),
+      ),
+    ].sort((a, b) => a.rowNumber - b.rowNumber);
+    downloadBlob(
+      buildImportErrorReport(failures),
+      `import-errors-${new Date().toISOString().split("T")[0]}.csv`,
+    );
+  };
+
+  const missingRequired = IMPORT_FIELDS.filter(
+    (f) => f.required && mapping[f.field] === undefined,
+  );
+  const hasFailures =
+    invalidRows.length > 0 || (result?.failedChunks.length ?? 0) > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Products</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or Excel (.xlsx) sheet with one product per row. Rows
+            whose barcode matches an existing product update it, and blank cells
+            keep its current values; other rows create new products.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="importFile">File</Label>
+              <Input
+                id="importFile"
+                type="file"
+                accept=".csv,.xlsx"
+                onChange={handleFile}
+                disabled={isReading || importProducts.isPending}
+                className="w-72"
+              />
+            </div>
+            <Button
+              type="button"
+              variant="outline"
+              className="gap-2"
+              onClick={() =>
+                downloadBlob(buildImportTemplate(), "product-import.csv")
+              }
+            >
+              <FileSpreadsheet className="h-4 w-4" />
+              Template
+            </Button>
+            {isReading && <Loader2 className="h-5 w-5 animate-spin" />}
+          </div>
+
+          {sheet && (
+            <>
+              <div className="space-y-2">
+                <Label>Column Mapping</Label>
+                <p className="text-xs text-muted-foreground">
+                  {fileName}: {sheet.rows.length} rows. Columns were matched by
+                  their headers; adjust any that are wrong.
+                </p>
+                <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+                  {IMPORT_FIELDS.map(({ field, label, required }) => (
+                    <div key={field} className="space-y-1">
+                      <Label
+                        htmlFor={`importColumn-${field}`}
+                        className="text-xs"
+                      >
+                        {label}
+                        {required && " *"}
+                      </Label>
+                      <Select
+                        value={mapping[field]?.toString() ?? UNMAPPED}
+                        onValueChange={(value) => setFieldColumn(field, value)}
+                        disabled={submitted !== null}
+                      >
+                        <SelectTrigger
+                          id={`importColumn-${field}`}
+                          className="h-8"
+                        >
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                          {sheet.headers.map((header, index) => (
+                            <SelectItem
+                              // biome-ignore lint/suspicious/noArrayIndexKey: headers may repeat
+                              key={index}
+                              value={index.toString()}
+                            >
+                              {header || `Column ${index + 1}`}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+                {missingRequired.length > 0 && (
+                  <p className="text-xs text-destructive">
+                    Map the required columns:{" "}
+                    {missingRequired.map((f) => f.label).join(", ")}
+                  </p>
+                )}
+              </div>
+
+              <div className="flex flex-wrap gap-2 text-sm">
+                <Badge variant="default">{createCount} new</Badge>
+                <Badge variant="secondary">
+                  {validRows.length - createCount} updates
+                </Badge>
+                <Badge
+                  variant={invalidRows.length > 0 ? "destructive" : "outline"}
+                >
+                  {invalidRows.length} with errors
+                </Badge>
+              </div>
+
+              <div className="max-h-72 overflow-y-auto rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">Row</TableHead>
+                      <TableHead>Barcode</TableHead>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Action</TableHead>
+                      <TableHead>Problems</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.map((row) => (
+                      <TableRow key={row.rowNumber}>
+                        <TableCell>{row.rowNumber}</TableCell>
+                        <TableCell className="font-mono text-xs">
+                          {row.barcode || "-"}
+                        </TableCell>
+                        <TableCell>{row.name || "-"}</TableCell>
+                        <TableCell>
+                          {row.input ? (
+                            <Badge variant="outline">
+                              {row.action === "create" ? "Create" : "Update"}
+                            </Badge>
+                          ) : (
+                            <Badge variant="destructive">Skip</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-xs text-destructive">
+                          {row.errors.join("; ")}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </>
+          )}
+
+          {submitted && (
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <span>
+                  {result
+                    ? `Done: ${result.created} created, ${result.updated} updated`
+                    : "Importing..."}
+                </span>
+                <span className="text-muted-foreground">
+                  {progress} / {validRows.length}
+                </span>
+              </div>
+              <Progress
+                value={
+                  validRows.length === 0
+                    ? 0
+                    : (progress / validRows.length) * 100
+                }
+              />
+              {result && result.failedChunks.length > 0 && (
+                <p className="text-xs text-destructive">
+                  {result.failedChunks.length} batch(es) were rejected:{" "}
+                  {result.failedChunks[0].error}
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          {hasFailures && (
+            <Button
+              type="button"
+              variant="outline"
+              className="gap-2"
+              onClick={handleDownloadErrors}
+            >
+              <Download className="h-4 w-4" />
+              Error Report
+            </Button>
+          )}
+          {result ? (
+            <Button type="button" onClick={() => handleOpenChange(false)}>
+              Close
+            </Button>
+          ) : (
+            <Button
+              type="button"
+              className="gap-2"
+              onClick={handleImport}
+              disabled={
+                !sheet ||
+                validRows.length === 0 ||
+                missingRequired.length > 0 ||
+                importProducts.isPending
+              }
+            >
+              {importProducts.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Upload className="h-4 w-4" />
+              )}
+              Import {validRows.length} Rows
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
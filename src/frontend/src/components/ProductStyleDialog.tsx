@@ -0,0 +1,367 @@
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { useCreateProductStyle } from "../hooks/useQueries";
+import {
+  DEFAULT_TAX_SLAB_ID,
+  TAX_SLAB_PRESETS,
+  getTaxSlabRule,
+} from "../utils/gst";
+import { emptyAttributeForm, fromAttributeForm } from "../utils/taxonomy";
+import { parseGridValues, variantKey } from "../utils/variants";
+import ProductAttributesFields from "./ProductAttributesFields";
+
+interface ProductStyleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const emptyForm = () => ({
+  articleNumber: "",
+  name: "",
+  description: "",
+  hsnCode: "",
+  taxSlabId: DEFAULT_TAX_SLAB_ID,
+  price: "",
+  wholesalePrice: "",
+  mrp: "",
+  costPrice: "",
+  sizes: "",
+  colors: "",
+});
+
+export default function ProductStyleDialog({
+  open,
+  onOpenChange,
+}: ProductStyleDialogProps) {
+  const createProductStyle = useCreateProductStyle();
+  const [formData, setFormData] = useState(emptyForm);
+  const [attributesForm, setAttributesForm] = useState(emptyAttributeForm);
+  // Opening stock per size × colour cell, keyed by variantKey
+  const [openingStock, setOpeningStock] = useState<Record<string, string>>({});
+
+  const sizes = parseGridValues(formData.sizes);
+  const colors = parseGridValues(formData.colors);
+
+  const updateField = (field: keyof ReturnType<typeof emptyForm>) => {
+    return (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+      setFormData({ ...formData, [field]: e.target.value });
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setFormData(emptyForm());
+      setAttributesForm(emptyAttributeForm());
+      setOpeningStock({});
+    }
+    onOpenChange(next);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.articleNumber.trim() || !formData.name.trim()) {
+      toast.error("Article number and style name are required");
+      return;
+    }
+    if (sizes.length === 0 || colors.length === 0) {
+      toast.error("Enter at least one size and one colour");
+      return;
+    }
+    if (
+      new Set(sizes).size !== sizes.length ||
+      new Set(colors).size !== colors.length
+    ) {
+      toast.error("Sizes and colours must not repeat");
+      return;
+    }
+    const mrp = Number(formData.mrp || 0);
+    if (
+      mrp > 0 &&
+      (Number(formData.price) > mrp || Number(formData.wholesalePrice) > mrp)
+    ) {
+      toast.error("Selling prices cannot exceed the MRP");
+      return;
+    }
+
+    const cells = sizes.flatMap((size) =>
+      colors.map((color) => ({
+        size,
+        color,
+        quantity: Number(openingStock[variantKey(size, color)] || 0),
+      })),
+    );
+    if (
+      cells.some(
+        (cell) => !Number.isInteger(cell.quantity) || cell.quantity < 0,
+      )
+    ) {
+      toast.error("Opening stock must be whole, non-negative quantities");
+      return;
+    }
+
+    try {
+      await createProductStyle.mutateAsync({
+        input: {
+          articleNumber: formData.articleNumber.trim(),
+          name: formData.name.trim(),
+          description: formData.description,
+          attributes: fromAttributeForm(attributesForm),
+          hsnCode: formData.hsnCode.trim(),
+          taxSlab: getTaxSlabRule(formData.taxSlabId),
+          price: BigInt(formData.price || 0),
+          wholesalePrice: BigInt(formData.wholesalePrice || 0),
+          mrp: BigInt(mrp),
+          costPrice: BigInt(formData.costPrice || 0),
+          sizes,
+          colors,
+        },
+        openingStock: cells
+          .filter((cell) => cell.quantity > 0)
+          .map((cell) => ({
+            size: cell.size,
+            color: cell.color,
+            quantity: BigInt(cell.quantity),
+          })),
+      });
+      toast.success(`Style created with ${sizes.length * colors.length} SKUs`);
+      handleOpenChange(false);
+    } catch (error: any) {
+      toast.error(error?.message || "Failed to create style");
+      console.error(error);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New Style</DialogTitle>
+          <DialogDescription>
+            One SKU with its own barcode and stock is created for every size and
+            colour combination
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="styleArticleNumber">Article Number *</Label>
+              <Input
+                id="styleArticleNumber"
+                placeholder="e.g., SG-2041"
+                value={formData.articleNumber}
+                onChange={updateField("articleNumber")}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="styleName">Style Name *</Label>
+              <Input
+                id="styleName"
+                placeholder="e.g., Slim Fit Oxford Shirt"
+                value={formData.name}
+                onChange={updateField("name")}
+                required
+              />
+            </div>
+          </div>
+
+          <ProductAttributesFields
+            idPrefix="style"
+            value={attributesForm}
+            onChange={setAttributesForm}
+          />
+
+          <div className="space-y-2">
+            <Label htmlFor="styleDescription">Description</Label>
+            <Textarea
+              id="styleDescription"
+              rows={2}
+              value={formData.description}
+              onChange={updateField("description")}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="styleHsnCode">HSN Code</Label>
+              <Input
+                id="styleHsnCode"
+                placeholder="e.g., 6205"
+                value={formData.hsnCode}
+                onChange={updateField("hsnCode")}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="styleTaxSlab">GST Slab</Label>
+              <Select
+                value={formData.taxSlabId}
+                onValueChange={(value) =>
+                  setFormData({ ...formData, taxSlabId: value })
+                }
+              >
+                <SelectTrigger id="styleTaxSlab">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TAX_SLAB_PRESETS.map((preset) => (
+                    <SelectItem key={preset.id} value={preset.id}>
+                      {preset.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="stylePrice">Retail (₹) *</Label>
+              <Input
+                id="stylePrice"
+                type="number"
+                min="0"
+                value={formData.price}
+                onChange={updateField("price")}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="styleWholesalePrice">Wholesale (₹)</Label>
+              <Input
+                id="styleWholesalePrice"
+                type="number"
+                min="0"
+                value={formData.wholesalePrice}
+                onChange={updateField("wholesalePrice")}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="styleMrp">MRP (₹)</Label>
+              <Input
+                id="styleMrp"
+                type="number"
+                min="0"
+                value={formData.mrp}
+                onChange={updateField("mrp")}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="styleCostPrice">Cost (₹)</Label>
+              <Input
+                id="styleCostPrice"
+                type="number"
+                min="0"
+                value={formData.costPrice}
+                onChange={updateField("costPrice")}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="styleSizes">Sizes *</Label>
+              <Input
+                id="styleSizes"
+                placeholder="S, M, L, XL, XXL"
+                value={formData.sizes}
+                onChange={updateField("sizes")}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="styleColors">Colours *</Label>
+              <Input
+                id="styleColors"
+                placeholder="White, Sky Blue, Black"
+                value={formData.colors}
+                onChange={updateField("colors")}
+              />
+            </div>
+          </div>
+
+          {sizes.length > 0 && colors.length > 0 && (
+            <div className="space-y-2">
+              <Label>Opening Stock</Label>
+              <div className="overflow-x-auto rounded-md border">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="bg-muted">
+                      <th className="p-2 text-left font-medium">Colour</th>
+                      {sizes.map((size) => (
+                        <th key={size} className="p-2 text-center font-medium">
+                          {size}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {colors.map((color) => (
+                      <tr key={color} className="border-t">
+                        <td className="p-2 font-medium">{color}</td>
+                        {sizes.map((size) => {
+                          const key = variantKey(size, color);
+                          return (
+                            <td key={size} className="p-1">
+                              <Input
+                                type="number"
+                                min="0"
+                                className="h-8 w-20 mx-auto text-center"
+                                placeholder="0"
+                                value={openingStock[key] ?? ""}
+                                onChange={(e) =>
+                                  setOpeningStock({
+                                    ...openingStock,
+                                    [key]: e.target.value,
+                                  })
+                                }
+                              />
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => handleOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={createProductStyle.isPending}>
+              {createProductStyle.isPending && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              Create Style
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,14 +1,22 @@
 import {
   BarChart2,
   Bell,
+  Building2,
+  ClipboardList,
+  Factory,
+  FileMinus,
+  FileSignature,
   FileText,
   History,
   LayoutDashboard,
   Menu,
   Package,
+  PackageCheck,
+  Receipt,
   Scan,
   Shield,
   ShoppingCart,
+  Tags,
   TrendingUp,
   Users,
 } from "lucide-react";
@@ -41,6 +49,30 @@ const menuItems: MenuItem[] = [
     icon: <Package size={18} />,
     roles: [AppRole.inventoryManager, AppRole.admin],
   },
+  {
+    id: "taxonomy",
+    label: "Product Taxonomy",
+    icon: <Tags size={18} />,
+    adminOnly: true,
+  },
+  {
+    id: "suppliers",
+    label: "Suppliers",
+    icon: <Factory size={18} />,
+    roles: [AppRole.inventoryManager, AppRole.admin],
+  },
+  {
+    id: "purchase-orders",
+    label: "Purchase Orders",
+    icon: <ClipboardList size={18} />,
+    roles: [AppRole.inventoryManager, AppRole.admin],
+  },
+  {
+    id: "goods-receipts",
+    label: "Goods Receipts",
+    icon: <PackageCheck size={18} />,
+    roles: [AppRole.inventoryManager, AppRole.admin],
+  },
   {
     id: "orders",
     label: "Orders",
@@ -53,6 +85,12 @@ const menuItems: MenuItem[] = [
     icon: <Users size={18} />,
     roles: [AppRole.sales, AppRole.admin],
   },
+  {
+    id: "quotations",
+    label: "Quotations",
+    icon: <FileSignature size={18} />,
+    roles: [AppRole.sales, AppRole.admin],
+  },
   {
     id: "invoice",
     label: "Create Invoice",
@@ -65,6 +103,12 @@ const menuItems: MenuItem[] = [
     icon: <History size={18} />,
     roles: [AppRole.sales, AppRole.admin],
   },
+  {
+    id: "credit-notes",
+    label: "Credit Notes",
+    icon: <FileMinus size={18} />,
+    roles: [AppRole.sales, AppRole.admin],
+  },
   {
     id: "barcode",
     label: "Barcode Scanner",
@@ -77,12 +121,24 @@ const menuItems: MenuItem[] = [
     icon: <BarChart2 size={18} />,
     adminOnly: true,
   },
+  {
+    id: "expenses",
+    label: "Expenses",
+    icon: <Receipt size={18} />,
+    roles: [AppRole.accountant, AppRole.admin],
+  },
   {
     id: "profit-loss",
     label: "Profit & Loss",
     icon: <TrendingUp size={18} />,
     adminOnly: true,
   },
+  {
+    id: "company-settings",
+    label: "Company Settings",
+    icon: <Building2 size={18} />,
+    adminOnly: true,
+  },
   { id: "notifications", label: "Notifications", icon: <Bell size={18} /> },
   {
     id: "secondary-admin",
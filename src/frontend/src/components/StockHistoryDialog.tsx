@@ -0,0 +1,225 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { History, Loader2 } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { type Product, StockMovementReason } from "../backend";
+import { useAdjustStock, useListStockMovements } from "../hooks/useQueries";
+import { parseStockError } from "../utils/stockErrors";
+import {
+  MANUAL_STOCK_REASONS,
+  STOCK_MOVEMENT_REASON_LABELS,
+  isLossReason,
+} from "../utils/stockMovements";
+
+interface StockHistoryDialogProps {
+  product: Product;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  canAdjust: boolean;
+}
+
+export default function StockHistoryDialog({
+  product,
+  open,
+  onOpenChange,
+  canAdjust,
+}: StockHistoryDialogProps) {
+  const { data: movements = [], isLoading } = useListStockMovements(
+    open ? product.productId : null,
+  );
+  const adjustStock = useAdjustStock();
+  const [quantity, setQuantity] = useState("");
+  const [reason, setReason] = useState<StockMovementReason>(
+    StockMovementReason.correction,
+  );
+  const [reference, setReference] = useState("");
+
+  const sortedMovements = [...movements].sort(
+    (a, b) => Number(b.timestamp) - Number(a.timestamp),
+  );
+
+  const handleAdjust = async () => {
+    const delta = Number(quantity);
+    if (!Number.isInteger(delta) || delta === 0) {
+      toast.error("Please enter a whole, non-zero quantity");
+      return;
+    }
+    if (isLossReason(reason) && delta > 0) {
+      toast.error("Damage and theft must be entered as a negative quantity");
+      return;
+    }
+
+    try {
+      await adjustStock.mutateAsync({
+        productId: product.productId,
+        delta: BigInt(delta),
+        reason,
+        reference: reference.trim(),
+      });
+      toast.success("Stock adjusted");
+      setQuantity("");
+      setReference("");
+    } catch (error) {
+      toast.error(parseStockError(error).message);
+      console.error(error);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Stock History
+          </DialogTitle>
+          <DialogDescription>
+            {product.name} — {Number(product.stockLevel)} on hand
+          </DialogDescription>
+        </DialogHeader>
+
+        {canAdjust && (
+          <div className="grid gap-3 rounded-md border p-4 sm:grid-cols-[120px_160px_1fr_auto] sm:items-end">
+            <div className="space-y-2">
+              <Label htmlFor="adjustQuantity">Quantity (±)</Label>
+              <Input
+                id="adjustQuantity"
+                type="number"
+                step="1"
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+                placeholder="-2"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="adjustReason">Reason</Label>
+              <Select
+                value={reason}
+                onValueChange={(value) =>
+                  setReason(value as StockMovementReason)
+                }
+              >
+                <SelectTrigger id="adjustReason">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MANUAL_STOCK_REASONS.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {STOCK_MOVEMENT_REASON_LABELS[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="adjustReference">Reference</Label>
+              <Input
+                id="adjustReference"
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+                placeholder="Stock count sheet, transfer note..."
+              />
+            </div>
+            <Button onClick={handleAdjust} disabled={adjustStock.isPending}>
+              {adjustStock.isPending && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              Adjust
+            </Button>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : sortedMovements.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            No stock movements recorded for this product yet
+          </p>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Reference</TableHead>
+                  <TableHead className="text-right">Change</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                  <TableHead>By</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sortedMovements.map((movement) => {
+                  const delta = Number(movement.delta);
+                  return (
+                    <TableRow key={Number(movement.movementId)}>
+                      <TableCell className="whitespace-nowrap text-sm">
+                        {new Date(
+                          Number(movement.timestamp) / 1_000_000,
+                        ).toLocaleString("en-IN")}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">
+                          {STOCK_MOVEMENT_REASON_LABELS[movement.reason]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {movement.reference || "-"}
+                      </TableCell>
+                      <TableCell
+                        className={`text-right font-medium ${
+                          delta < 0 ? "text-red-600" : "text-green-600"
+                        }`}
+                      >
+                        {delta > 0 ? `+${delta}` : delta}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {Number(movement.balance)}
+                      </TableCell>
+                      <TableCell
+                        className="max-w-[120px] truncate font-mono text-xs text-muted-foreground"
+                        title={movement.recordedBy.toString()}
+                      >
+                        {movement.recordedBy.toString()}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
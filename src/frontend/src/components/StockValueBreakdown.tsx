@@ -0,0 +1,158 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Layers } from "lucide-react";
+import { useState } from "react";
+import { useListProductCategories, useListProducts } from "../hooks/useQueries";
+import {
+  ATTRIBUTE_GROUPING_LABELS,
+  type AttributeGrouping,
+  attributeGroup,
+} from "../utils/taxonomy";
+
+interface StockValueRow {
+  group: string;
+  skus: number;
+  pieces: number;
+  costValue: number;
+  retailValue: number;
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-IN", {
+    style: "currency",
+    currency: "INR",
+    maximumFractionDigits: 0,
+  }).format(amount);
+
+/** On-hand stock valued at cost and at retail, grouped by a product attribute. */
+export default function StockValueBreakdown() {
+  const { data: products = [], isLoading } = useListProducts();
+  const { data: categories = [] } = useListProductCategories();
+  const [grouping, setGrouping] = useState<AttributeGrouping>("category");
+
+  const rows = Array.from(
+    products
+      .reduce((acc, product) => {
+        const group = attributeGroup(product, grouping, categories);
+        const pieces = Number(product.stockLevel);
+        const row = acc.get(group) ?? {
+          group,
+          skus: 0,
+          pieces: 0,
+          costValue: 0,
+          retailValue: 0,
+        };
+        row.skus += 1;
+        row.pieces += pieces;
+        row.costValue += pieces * Number(product.costPrice);
+        row.retailValue += pieces * Number(product.price);
+        acc.set(group, row);
+        return acc;
+      }, new Map<string, StockValueRow>())
+      .values(),
+  ).sort((a, b) => b.costValue - a.costValue);
+
+  const totals = rows.reduce(
+    (sum, row) => ({
+      pieces: sum.pieces + row.pieces,
+      costValue: sum.costValue + row.costValue,
+      retailValue: sum.retailValue + row.retailValue,
+    }),
+    { pieces: 0, costValue: 0, retailValue: 0 },
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Layers className="h-5 w-5" />
+            Stock Value by {ATTRIBUTE_GROUPING_LABELS[grouping]}
+          </CardTitle>
+          <Select
+            value={grouping}
+            onValueChange={(value) => setGrouping(value as AttributeGrouping)}
+          >
+            <SelectTrigger className="w-[150px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(ATTRIBUTE_GROUPING_LABELS).map(
+                ([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ),
+              )}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : rows.length === 0 ? (
+          <p className="py-8 text-center text-muted-foreground">
+            No products found
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{ATTRIBUTE_GROUPING_LABELS[grouping]}</TableHead>
+                <TableHead className="text-right">SKUs</TableHead>
+                <TableHead className="text-right">Pieces</TableHead>
+                <TableHead className="text-right">At Cost</TableHead>
+                <TableHead className="text-right">At Retail</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.group}>
+                  <TableCell className="font-medium">{row.group}</TableCell>
+                  <TableCell className="text-right">{row.skus}</TableCell>
+                  <TableCell className="text-right">{row.pieces}</TableCell>
+                  <TableCell className="text-right">
+                    {formatCurrency(row.costValue)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatCurrency(row.retailValue)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell>Total</TableCell>
+                <TableCell className="text-right">{products.length}</TableCell>
+                <TableCell className="text-right">{totals.pieces}</TableCell>
+                <TableCell className="text-right">
+                  {formatCurrency(totals.costValue)}
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatCurrency(totals.retailValue)}
+                </TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,241 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Grid3x3, Loader2, Plus } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import type { Product, ProductStyle } from "../backend";
+import { useExtendProductStyle } from "../hooks/useQueries";
+import { getAvailableStock } from "../utils/stock";
+import { findVariant, parseGridValues } from "../utils/variants";
+
+interface StyleStockMatrixProps {
+  styles: ProductStyle[];
+  products: Product[];
+  canEdit: boolean;
+}
+
+export default function StyleStockMatrix({
+  styles,
+  products,
+  canEdit,
+}: StyleStockMatrixProps) {
+  const extendProductStyle = useExtendProductStyle();
+  const [extendingStyle, setExtendingStyle] = useState<ProductStyle | null>(
+    null,
+  );
+  const [newSizes, setNewSizes] = useState("");
+  const [newColors, setNewColors] = useState("");
+
+  const closeExtendDialog = () => {
+    setExtendingStyle(null);
+    setNewSizes("");
+    setNewColors("");
+  };
+
+  const handleExtend = async () => {
+    if (!extendingStyle) return;
+    const sizes = parseGridValues(newSizes);
+    const colors = parseGridValues(newColors);
+    if (sizes.length === 0 && colors.length === 0) {
+      toast.error("Enter at least one size or colour to add");
+      return;
+    }
+
+    try {
+      await extendProductStyle.mutateAsync({
+        styleId: extendingStyle.styleId,
+        sizes,
+        colors,
+      });
+      toast.success("Style grid extended");
+      closeExtendDialog();
+    } catch (error: any) {
+      toast.error(error?.message || "Failed to extend style");
+      console.error(error);
+    }
+  };
+
+  if (styles.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Grid3x3 className="h-5 w-5" />
+          Style Stock Matrix
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {styles.map((style) => {
+          const skus = products.filter((p) => p.styleId === style.styleId);
+          const totalStock = skus.reduce(
+            (sum, p) => sum + Number(p.stockLevel),
+            0,
+          );
+          return (
+            <div key={Number(style.styleId)} className="space-y-2">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div>
+                  <p className="font-medium">
+                    {style.name}{" "}
+                    <Badge variant="secondary" className="ml-1 font-mono">
+                      {style.articleNumber}
+                    </Badge>
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {[
+                      style.attributes.brand,
+                      style.attributes.fabric,
+                      style.hsnCode && `HSN ${style.hsnCode}`,
+                    ]
+                      .filter(Boolean)
+                      .join(" • ")}
+                    {" • "}
+                    {totalStock} pieces on hand
+                  </p>
+                </div>
+                {canEdit && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="gap-1"
+                    onClick={() => setExtendingStyle(style)}
+                  >
+                    <Plus className="h-4 w-4" />
+                    Sizes / Colours
+                  </Button>
+                )}
+              </div>
+              <div className="overflow-x-auto rounded-md border">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="bg-muted">
+                      <th className="p-2 text-left font-medium">Colour</th>
+                      {style.sizes.map((size) => (
+                        <th key={size} className="p-2 text-center font-medium">
+                          {size}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {style.colors.map((color) => (
+                      <tr key={color} className="border-t">
+                        <td className="p-2 font-medium">{color}</td>
+                        {style.sizes.map((size) => {
+                          const sku = findVariant(
+                            products,
+                            style.styleId,
+                            size,
+                            color,
+                          );
+                          if (!sku) {
+                            return (
+                              <td
+                                key={size}
+                                className="p-2 text-center text-muted-foreground"
+                              >
+                                -
+                              </td>
+                            );
+                          }
+                          const onHand = Number(sku.stockLevel);
+                          return (
+                            <td
+                              key={size}
+                              className="p-2 text-center"
+                              title={`${sku.barcode} • ${getAvailableStock(sku)} available`}
+                            >
+                              <span
+                                className={
+                                  onHand === 0
+                                    ? "text-red-600"
+                                    : onHand < 10
+                                      ? "text-amber-600 font-semibold"
+                                      : "font-medium"
+                                }
+                              >
+                                {onHand}
+                              </span>
+                              {sku.reservedStock > 0 && (
+                                <span className="block text-xs text-muted-foreground">
+                                  {Number(sku.reservedStock)} rsvd
+                                </span>
+                              )}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+
+      <Dialog
+        open={extendingStyle !== null}
+        onOpenChange={(open) => !open && closeExtendDialog()}
+      >
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>Extend {extendingStyle?.articleNumber}</DialogTitle>
+            <DialogDescription>
+              New SKUs are priced like the style's existing ones and start with
+              no stock
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="extendSizes">New Sizes</Label>
+              <Input
+                id="extendSizes"
+                placeholder="e.g., XXXL"
+                value={newSizes}
+                onChange={(e) => setNewSizes(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="extendColors">New Colours</Label>
+              <Input
+                id="extendColors"
+                placeholder="e.g., Olive, Maroon"
+                value={newColors}
+                onChange={(e) => setNewColors(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeExtendDialog}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleExtend}
+              disabled={extendProductStyle.isPending}
+            >
+              {extendProductStyle.isPending && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              Add to Grid
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,203 @@
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useState } from "react";
+import { toast } from "sonner";
+import type { Product } from "../backend";
+import { useListProductStyles } from "../hooks/useQueries";
+import { getAvailableStock } from "../utils/stock";
+import { findVariant, variantKey } from "../utils/variants";
+
+export interface VariantPick {
+  product: Product;
+  quantity: number;
+}
+
+interface VariantGridPickerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  products: Product[];
+  /** Receives one pick per cell with a quantity, in grid order. */
+  onAdd: (picks: VariantPick[]) => void;
+}
+
+export default function VariantGridPicker({
+  open,
+  onOpenChange,
+  products,
+  onAdd,
+}: VariantGridPickerProps) {
+  const { data: styles = [] } = useListProductStyles();
+  const [styleId, setStyleId] = useState("");
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+
+  const style = styles.find((s) => s.styleId.toString() === styleId);
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setStyleId("");
+      setQuantities({});
+    }
+    onOpenChange(next);
+  };
+
+  const handleAdd = () => {
+    if (!style) {
+      toast.error("Please select a style");
+      return;
+    }
+
+    const picks: VariantPick[] = [];
+    for (const color of style.colors) {
+      for (const size of style.sizes) {
+        const raw = quantities[variantKey(size, color)];
+        if (!raw) continue;
+        const quantity = Number(raw);
+        const product = findVariant(products, style.styleId, size, color);
+        if (!product || !Number.isInteger(quantity) || quantity < 0) {
+          toast.error(`Invalid quantity for ${size} / ${color}`);
+          return;
+        }
+        if (quantity > 0) {
+          picks.push({ product, quantity });
+        }
+      }
+    }
+    if (picks.length === 0) {
+      toast.error("Enter a quantity for at least one size and colour");
+      return;
+    }
+
+    onAdd(picks);
+    handleOpenChange(false);
+  };
+
+  const totalPieces = Object.values(quantities).reduce(
+    (sum, value) => sum + (Number(value) || 0),
+    0,
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Add from Size Grid</DialogTitle>
+          <DialogDescription>
+            Enter quantities across sizes and colours; each filled cell becomes
+            a line
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="gridStyle">Style</Label>
+            <Select
+              value={styleId}
+              onValueChange={(value) => {
+                setStyleId(value);
+                setQuantities({});
+              }}
+            >
+              <SelectTrigger id="gridStyle">
+                <SelectValue placeholder="Choose a style" />
+              </SelectTrigger>
+              <SelectContent>
+                {styles.map((s) => (
+                  <SelectItem
+                    key={s.styleId.toString()}
+                    value={s.styleId.toString()}
+                  >
+                    {s.articleNumber} - {s.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {style && (
+            <div className="overflow-x-auto rounded-md border">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="bg-muted">
+                    <th className="p-2 text-left font-medium">Colour</th>
+                    {style.sizes.map((size) => (
+                      <th key={size} className="p-2 text-center font-medium">
+                        {size}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {style.colors.map((color) => (
+                    <tr key={color} className="border-t">
+                      <td className="p-2 font-medium">{color}</td>
+                      {style.sizes.map((size) => {
+                        const key = variantKey(size, color);
+                        const sku = findVariant(
+                          products,
+                          style.styleId,
+                          size,
+                          color,
+                        );
+                        return (
+                          <td key={size} className="p-1 text-center">
+                            {sku ? (
+                              <>
+                                <Input
+                                  type="number"
+                                  min="0"
+                                  className="h-8 w-20 mx-auto text-center"
+                                  placeholder="0"
+                                  value={quantities[key] ?? ""}
+                                  onChange={(e) =>
+                                    setQuantities({
+                                      ...quantities,
+                                      [key]: e.target.value,
+                                    })
+                                  }
+                                />
+                                <span className="text-xs text-muted-foreground">
+                                  {getAvailableStock(sku)} avail.
+                                </span>
+                              </>
+                            ) : (
+                              <span className="text-muted-foreground">-</span>
+                            )}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleAdd} disabled={!style}>
+            Add {totalPieces > 0 ? `${totalPieces} pieces` : "Lines"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
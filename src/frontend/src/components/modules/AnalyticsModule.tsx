@@ -1,4 +1,11 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
 import {
   BarChart3,
@@ -8,6 +15,7 @@ import {
   TrendingUp,
   Users,
 } from "lucide-react";
+import { useState } from "react";
 import {
   Bar,
   BarChart,
@@ -24,7 +32,17 @@ import {
   YAxis,
 } from "recharts";
 import type { UserProfile } from "../../backend";
-import { useGetStats, useListOrders } from "../../hooks/useQueries";
+import {
+  useGetStats,
+  useListOrders,
+  useListProductCategories,
+  useListProducts,
+} from "../../hooks/useQueries";
+import {
+  ATTRIBUTE_GROUPING_LABELS,
+  type AttributeGrouping,
+  attributeGroup,
+} from "../../utils/taxonomy";
 
 interface AnalyticsModuleProps {
   userProfile: UserProfile;
@@ -33,6 +51,10 @@ interface AnalyticsModuleProps {
 export default function AnalyticsModule({ userProfile }: AnalyticsModuleProps) {
   const { data: stats, isLoading: statsLoading } = useGetStats();
   const { data: orders = [], isLoading: ordersLoading } = useListOrders();
+  const { data: products = [] } = useListProducts();
+  const { data: categories = [] } = useListProductCategories();
+  const [salesGrouping, setSalesGrouping] =
+    useState<AttributeGrouping>("category");
 
   const canAccessFinancial =
     userProfile.appRole === "admin" || userProfile.appRole === "accountant";
@@ -83,18 +105,19 @@ export default function AnalyticsModule({ userProfile }: AnalyticsModuleProps) {
     .slice(-6);
 
   const topProducts = orders
+    .flatMap((order) => order.lines)
     .reduce(
-      (acc, order) => {
-        const productId = Number(order.productId);
+      (acc, line) => {
+        const productId = Number(line.productId);
         const existing = acc.find((item) => item.productId === productId);
         if (existing) {
-          existing.quantity += Number(order.quantity);
-          existing.revenue += Number(order.totalPrice);
+          existing.quantity += Number(line.quantity);
+          existing.revenue += Number(line.lineTotal);
         } else {
           acc.push({
             productId,
-            quantity: Number(order.quantity),
-            revenue: Number(order.totalPrice),
+            quantity: Number(line.quantity),
+            revenue: Number(line.lineTotal),
           });
         }
         return acc;
@@ -104,6 +127,32 @@ export default function AnalyticsModule({ userProfile }: AnalyticsModuleProps) {
     .sort((a, b) => b.revenue - a.revenue)
     .slice(0, 5);
 
+  const salesByGroup = orders
+    .filter((o) => o.status === "fulfilled")
+    .flatMap((order) => order.lines)
+    .reduce(
+      (acc, line) => {
+        const product = products.find((p) => p.productId === line.productId);
+        const group = product
+          ? attributeGroup(product, salesGrouping, categories)
+          : "Unassigned";
+        const existing = acc.find((item) => item.group === group);
+        if (existing) {
+          existing.quantity += Number(line.quantity);
+          existing.revenue += Number(line.lineTotal);
+        } else {
+          acc.push({
+            group,
+            quantity: Number(line.quantity),
+            revenue: Number(line.lineTotal),
+          });
+        }
+        return acc;
+      },
+      [] as { group: string; quantity: number; revenue: number }[],
+    )
+    .sort((a, b) => b.revenue - a.revenue);
+
   const formatCurrency = (amount: number | bigint) => {
     return new Intl.NumberFormat("en-IN", {
       style: "currency",
@@ -325,6 +374,59 @@ export default function AnalyticsModule({ userProfile }: AnalyticsModuleProps) {
           </CardContent>
         </Card>
       )}
+
+      {canAccessFinancial && salesByGroup.length > 0 && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle>
+                Sales by {ATTRIBUTE_GROUPING_LABELS[salesGrouping]}
+              </CardTitle>
+              <Select
+                value={salesGrouping}
+                onValueChange={(value) =>
+                  setSalesGrouping(value as AttributeGrouping)
+                }
+              >
+                <SelectTrigger className="w-[150px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(ATTRIBUTE_GROUPING_LABELS).map(
+                    ([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ),
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <ResponsiveContainer width="100%" height={300}>
+              <BarChart data={salesByGroup}>
+                <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                <XAxis dataKey="group" />
+                <YAxis />
+                <Tooltip
+                  formatter={(value: number) => formatCurrency(value)}
+                  contentStyle={{
+                    backgroundColor: "hsl(var(--card))",
+                    border: "1px solid hsl(var(--border))",
+                    borderRadius: "8px",
+                  }}
+                />
+                <Bar
+                  dataKey="revenue"
+                  fill="hsl(var(--chart-3))"
+                  radius={[8, 8, 0, 0]}
+                />
+              </BarChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
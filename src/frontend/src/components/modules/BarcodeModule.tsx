@@ -12,6 +12,14 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   AlertCircle,
   ArrowDownCircle,
@@ -24,9 +32,24 @@ import {
 } from "lucide-react";
 import { useState } from "react";
 import { toast } from "sonner";
-import type { Product, UserProfile } from "../../backend";
-import { useListProducts, useUpdateProduct } from "../../hooks/useQueries";
+import {
+  type Product,
+  StockMovementReason,
+  type UserProfile,
+} from "../../backend";
+import {
+  useAdjustStock,
+  useGetCompanySettings,
+  useListProducts,
+} from "../../hooks/useQueries";
 import { useQRScanner } from "../../qr-code/useQRScanner";
+import { getCompanyName } from "../../utils/companyBranding";
+import { parseStockError } from "../../utils/stockErrors";
+import {
+  MANUAL_STOCK_REASONS,
+  STOCK_MOVEMENT_REASON_LABELS,
+  isLossReason,
+} from "../../utils/stockMovements";
 
 interface BarcodeModuleProps {
   userProfile: UserProfile;
@@ -34,8 +57,12 @@ interface BarcodeModuleProps {
 
 export default function BarcodeModule({ userProfile }: BarcodeModuleProps) {
   const { data: products = [] } = useListProducts();
-  const updateProduct = useUpdateProduct();
+  const { data: companySettings } = useGetCompanySettings();
+  const adjustStock = useAdjustStock();
   const [scanMode, setScanMode] = useState<"in" | "out">("in");
+  const [reason, setReason] = useState<StockMovementReason>(
+    StockMovementReason.correction,
+  );
   const [confirmDialog, setConfirmDialog] = useState<{
     open: boolean;
     product: Product | null;
@@ -85,6 +112,7 @@ export default function BarcodeModule({ userProfile }: BarcodeModuleProps) {
     const product = products.find((p) => p.barcode === barcodeData);
 
     if (product) {
+      setReason(StockMovementReason.correction);
       setConfirmDialog({
         open: true,
         product,
@@ -99,25 +127,15 @@ export default function BarcodeModule({ userProfile }: BarcodeModuleProps) {
     if (!confirmDialog.product) return;
 
     const product = confirmDialog.product;
-    const currentStock = Number(product.stockLevel);
-    const newStock =
-      confirmDialog.mode === "in"
-        ? currentStock + 1
-        : Math.max(0, currentStock - 1);
+    const delta = confirmDialog.mode === "in" ? 1 : -1;
+    const newStock = Number(product.stockLevel) + delta;
 
     try {
-      await updateProduct.mutateAsync({
+      await adjustStock.mutateAsync({
         productId: product.productId,
-        name: product.name,
-        description: product.description,
-        price: product.price,
-        stockLevel: BigInt(newStock),
-        warehouse: product.warehouse,
-        rack: product.rack,
-        shelf: product.shelf,
-        size: product.size,
-        color: product.color,
-        barcode: product.barcode,
+        delta: BigInt(delta),
+        reason,
+        reference: `Barcode scan ${confirmDialog.mode === "in" ? "IN" : "OUT"}`,
       });
 
       toast.success(
@@ -133,7 +151,7 @@ export default function BarcodeModule({ userProfile }: BarcodeModuleProps) {
 
       setConfirmDialog({ open: false, product: null, mode: "in" });
     } catch (error) {
-      toast.error("Failed to update stock level");
+      toast.error(parseStockError(error).message);
       console.error(error);
     }
   };
@@ -348,8 +366,8 @@ export default function BarcodeModule({ userProfile }: BarcodeModuleProps) {
           <div className="space-y-4">
             <div>
               <p className="text-sm text-muted-foreground mb-2">
-                Sahil Garments uses Code128 barcode format with the following
-                structure:
+                {getCompanyName(companySettings)} uses Code128 barcode format
+                with the following structure:
               </p>
               <div className="bg-muted/50 rounded-lg p-4 font-mono text-sm">
                 SG[8-digit Product ID]
@@ -443,6 +461,30 @@ export default function BarcodeModule({ userProfile }: BarcodeModuleProps) {
                         </>
                       )}
                     </p>
+                    <div className="space-y-2">
+                      <Label htmlFor="scanReason">Reason</Label>
+                      <Select
+                        value={reason}
+                        onValueChange={(value) =>
+                          setReason(value as StockMovementReason)
+                        }
+                      >
+                        <SelectTrigger id="scanReason">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {MANUAL_STOCK_REASONS.filter(
+                            (option) =>
+                              confirmDialog.mode === "out" ||
+                              !isLossReason(option),
+                          ).map((option) => (
+                            <SelectItem key={option} value={option}>
+                              {STOCK_MOVEMENT_REASON_LABELS[option]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
                   </>
                 )}
               </div>
@@ -452,14 +494,14 @@ export default function BarcodeModule({ userProfile }: BarcodeModuleProps) {
             <AlertDialogCancel>Cancel</AlertDialogCancel>
             <AlertDialogAction
               onClick={handleConfirmStockOperation}
-              disabled={updateProduct.isPending}
+              disabled={adjustStock.isPending}
               className={
                 confirmDialog.mode === "in"
                   ? "bg-green-600 hover:bg-green-700"
                   : "bg-orange-600 hover:bg-orange-700"
               }
             >
-              {updateProduct.isPending ? (
+              {adjustStock.isPending ? (
                 <>
                   <CheckCircle2 className="mr-2 h-4 w-4 animate-spin" />
                   Processing...
@@ -0,0 +1,553 @@
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Building2, Loader2, Save, Trash2, Upload } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import {
+  type BankDetails,
+  type CompanySettings,
+  ExternalBlob,
+} from "../../backend";
+import {
+  useCompanyBranding,
+  useGetCompanyLogo,
+  useGetInvoiceNumberPrefix,
+  useSetCompanyLogo,
+  useSetInvoiceNumberPrefix,
+  useUpdateCompanySettings,
+} from "../../hooks/useQueries";
+import { GST_STATES } from "../../utils/gst";
+
+const MAX_LOGO_SIZE_BYTES = 2 * 1024 * 1024;
+
+interface CompanySettingsModuleProps {
+  isAdmin: boolean;
+}
+
+export default function CompanySettingsModule({
+  isAdmin,
+}: CompanySettingsModuleProps) {
+  const { settings, logoUrl, isLoading } = useCompanyBranding();
+  const { data: uploadedLogo } = useGetCompanyLogo();
+  const updateSettings = useUpdateCompanySettings();
+  const setCompanyLogo = useSetCompanyLogo();
+  const { data: invoiceNumberPrefix = "" } = useGetInvoiceNumberPrefix();
+  const setInvoiceNumberPrefix = useSetInvoiceNumberPrefix();
+
+  const [draft, setDraft] = useState<CompanySettings | null>(null);
+  const [prefixDraft, setPrefixDraft] = useState<string | null>(null);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+
+  // Edits are kept in a draft until saved; until then the stored settings show
+  const form = draft ?? settings;
+
+  const updateField = <K extends keyof CompanySettings>(
+    key: K,
+    value: CompanySettings[K],
+  ) => {
+    if (!form) return;
+    setDraft({ ...form, [key]: value });
+  };
+
+  const updateBankField = (key: keyof BankDetails, value: string) => {
+    if (!form) return;
+    setDraft({ ...form, bankDetails: { ...form.bankDetails, [key]: value } });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+
+    const gstin = form.gstin.trim().toUpperCase();
+    const pan = form.pan.trim().toUpperCase();
+    const upiId = form.upiId.trim();
+    if (!form.legalName.trim()) {
+      toast.error("Legal name is required");
+      return;
+    }
+    if (gstin && gstin.length !== 15) {
+      toast.error("GSTIN must be 15 characters");
+      return;
+    }
+    if (pan && pan.length !== 10) {
+      toast.error("PAN must be 10 characters");
+      return;
+    }
+    if (upiId && !upiId.includes("@")) {
+      toast.error("UPI ID must be of the form name@bank");
+      return;
+    }
+    if (gstin && form.stateCode && !gstin.startsWith(form.stateCode)) {
+      toast.error("GSTIN does not match the selected state code");
+      return;
+    }
+
+    try {
+      await updateSettings.mutateAsync({
+        ...form,
+        legalName: form.legalName.trim(),
+        gstin,
+        pan,
+        upiId,
+        bankDetails: {
+          ...form.bankDetails,
+          ifsc: form.bankDetails.ifsc.trim().toUpperCase(),
+        },
+      });
+      setDraft(null);
+      toast.success("Company settings saved");
+    } catch (error: any) {
+      console.error("Save company settings error:", error);
+      toast.error(error?.message || "Failed to save company settings");
+    }
+  };
+
+  const handleLogoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    if (!file.type.startsWith("image/")) {
+      toast.error("Please select an image file");
+      return;
+    }
+    if (file.size > MAX_LOGO_SIZE_BYTES) {
+      toast.error("Logo must be smaller than 2 MB");
+      return;
+    }
+
+    try {
+      setUploadProgress(0);
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      const blob = ExternalBlob.fromBytes(bytes).withUploadProgress(
+        (percentage) => setUploadProgress(percentage),
+      );
+      await setCompanyLogo.mutateAsync(blob);
+      toast.success("Company logo updated");
+    } catch (error: any) {
+      console.error("Logo upload error:", error);
+      toast.error(error?.message || "Failed to upload logo");
+    } finally {
+      setUploadProgress(null);
+    }
+  };
+
+  const handleRemoveLogo = async () => {
+    try {
+      await setCompanyLogo.mutateAsync(null);
+      toast.success("Company logo removed");
+    } catch (error: any) {
+      toast.error(error?.message || "Failed to remove logo");
+    }
+  };
+
+  const handleSavePrefix = async () => {
+    const prefix = (prefixDraft ?? invoiceNumberPrefix).trim();
+    if (!prefix || prefix.includes("/")) {
+      toast.error("Prefix must not be empty or contain '/'");
+      return;
+    }
+    try {
+      await setInvoiceNumberPrefix.mutateAsync(prefix);
+      setPrefixDraft(null);
+      toast.success("Invoice number prefix updated");
+    } catch (error: any) {
+      toast.error(error?.message || "Failed to update invoice number prefix");
+    }
+  };
+
+  if (!isAdmin) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Card className="max-w-md">
+          <CardHeader>
+            <CardTitle className="text-destructive">Access Denied</CardTitle>
+            <CardDescription>
+              Company Settings are restricted to Admins only.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  if (isLoading || !form) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin mx-auto mb-2 text-blue-600" />
+          <p className="text-sm text-muted-foreground">
+            Loading company settings...
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight flex items-center gap-2">
+          <Building2 className="h-8 w-8" />
+          Company Settings
+        </h1>
+        <p className="text-muted-foreground mt-1">
+          Business details and branding printed on invoices, barcodes and
+          reports
+        </p>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Logo</CardTitle>
+            <CardDescription>
+              Shown in the header of invoices and credit notes
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="border rounded-lg p-4 bg-gray-50 flex items-center justify-center h-32">
+              <img
+                src={logoUrl}
+                alt={form.legalName}
+                className="max-h-24 max-w-full object-contain"
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                asChild
+                disabled={uploadProgress !== null}
+              >
+                <label htmlFor="companyLogo" className="cursor-pointer">
+                  {uploadProgress !== null ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Uploading {Math.round(uploadProgress)}%
+                    </>
+                  ) : (
+                    <>
+                      <Upload className="mr-2 h-4 w-4" />
+                      Upload Logo
+                    </>
+                  )}
+                </label>
+              </Button>
+              <input
+                id="companyLogo"
+                type="file"
+                accept="image/*"
+                className="hidden"
+                onChange={handleLogoUpload}
+              />
+              {uploadedLogo && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleRemoveLogo}
+                  disabled={setCompanyLogo.isPending}
+                >
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Use Default
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Invoice Numbering</CardTitle>
+            <CardDescription>
+              Invoices are numbered {invoiceNumberPrefix || "SG"}/2026-27/0001
+              within each financial year
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <Label htmlFor="invoicePrefix">Invoice number prefix</Label>
+            <div className="flex gap-2">
+              <Input
+                id="invoicePrefix"
+                value={prefixDraft ?? invoiceNumberPrefix}
+                onChange={(e) => setPrefixDraft(e.target.value)}
+              />
+              <Button
+                variant="outline"
+                onClick={handleSavePrefix}
+                disabled={
+                  prefixDraft === null || setInvoiceNumberPrefix.isPending
+                }
+              >
+                Save
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <form onSubmit={handleSave} className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Business Details</CardTitle>
+          </CardHeader>
+          <CardContent className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="legalName">Legal Name *</Label>
+              <Input
+                id="legalName"
+                value={form.legalName}
+                onChange={(e) => updateField("legalName", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tagline">Tagline</Label>
+              <Input
+                id="tagline"
+                value={form.tagline}
+                onChange={(e) => updateField("tagline", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="gstin">GSTIN</Label>
+              <Input
+                id="gstin"
+                maxLength={15}
+                placeholder="15-character GSTIN"
+                value={form.gstin}
+                onChange={(e) => updateField("gstin", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="pan">PAN</Label>
+              <Input
+                id="pan"
+                maxLength={10}
+                placeholder="10-character PAN"
+                value={form.pan}
+                onChange={(e) => updateField("pan", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="companyAddress">Address</Label>
+              <Textarea
+                id="companyAddress"
+                value={form.address}
+                onChange={(e) => updateField("address", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="companyState">
+                State (decides CGST + SGST or IGST)
+              </Label>
+              <Select
+                value={form.stateCode}
+                onValueChange={(value) => updateField("stateCode", value)}
+              >
+                <SelectTrigger id="companyState">
+                  <SelectValue placeholder="Select company state" />
+                </SelectTrigger>
+                <SelectContent>
+                  {GST_STATES.map((state) => (
+                    <SelectItem key={state.code} value={state.code}>
+                      {state.name} ({state.code})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="companyPhone">Phone</Label>
+              <Input
+                id="companyPhone"
+                value={form.phone}
+                onChange={(e) => updateField("phone", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="companyEmail">Email</Label>
+              <Input
+                id="companyEmail"
+                type="email"
+                value={form.email}
+                onChange={(e) => updateField("email", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="companyWebsite">Website</Label>
+              <Input
+                id="companyWebsite"
+                value={form.website}
+                onChange={(e) => updateField("website", e.target.value)}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Bank Details</CardTitle>
+            <CardDescription>
+              Printed on invoices once an account number is entered. The UPI ID
+              is encoded in a payment QR on invoices with a balance due.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="accountName">Account Name</Label>
+              <Input
+                id="accountName"
+                value={form.bankDetails.accountName}
+                onChange={(e) => updateBankField("accountName", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="accountNumber">Account Number</Label>
+              <Input
+                id="accountNumber"
+                value={form.bankDetails.accountNumber}
+                onChange={(e) =>
+                  updateBankField("accountNumber", e.target.value)
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bankName">Bank Name</Label>
+              <Input
+                id="bankName"
+                value={form.bankDetails.bankName}
+                onChange={(e) => updateBankField("bankName", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ifsc">IFSC</Label>
+              <Input
+                id="ifsc"
+                maxLength={11}
+                value={form.bankDetails.ifsc}
+                onChange={(e) => updateBankField("ifsc", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="branch">Branch</Label>
+              <Input
+                id="branch"
+                value={form.bankDetails.branch}
+                onChange={(e) => updateBankField("branch", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="upiId">UPI ID</Label>
+              <Input
+                id="upiId"
+                value={form.upiId}
+                onChange={(e) => updateField("upiId", e.target.value)}
+                placeholder="sahilgarments@okhdfcbank"
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Invoice Branding</CardTitle>
+          </CardHeader>
+          <CardContent className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="primaryColor">Primary Color</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="primaryColor"
+                  type="color"
+                  className="w-16 p-1"
+                  value={form.primaryColor}
+                  onChange={(e) => updateField("primaryColor", e.target.value)}
+                />
+                <Input
+                  value={form.primaryColor}
+                  onChange={(e) => updateField("primaryColor", e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="accentColor">Header Background Color</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="accentColor"
+                  type="color"
+                  className="w-16 p-1"
+                  value={form.accentColor}
+                  onChange={(e) => updateField("accentColor", e.target.value)}
+                />
+                <Input
+                  value={form.accentColor}
+                  onChange={(e) => updateField("accentColor", e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="footerTerms">
+                Invoice Terms & Conditions (one per line, up to 4 lines)
+              </Label>
+              <Textarea
+                id="footerTerms"
+                rows={4}
+                placeholder="Goods once sold will not be taken back."
+                value={form.invoiceFooterTerms}
+                onChange={(e) =>
+                  updateField("invoiceFooterTerms", e.target.value)
+                }
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="flex justify-end gap-2">
+          {draft && (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setDraft(null)}
+              disabled={updateSettings.isPending}
+            >
+              Discard Changes
+            </Button>
+          )}
+          <Button
+            type="submit"
+            disabled={!draft || updateSettings.isPending}
+            className="gap-2"
+          >
+            {updateSettings.isPending ? (
+              <>
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              <>
+                <Save className="h-4 w-4" />
+                Save Settings
+              </>
+            )}
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
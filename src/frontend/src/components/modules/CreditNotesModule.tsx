@@ -0,0 +1,481 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { Eye, FileMinus, Loader2, Plus } from "lucide-react";
+import { useMemo, useState } from "react";
+import { toast } from "sonner";
+import type { CreditNote, CreditNoteLineInput } from "../../backend";
+import {
+  useCreateCreditNote,
+  useListCreditNotes,
+  useListCustomers,
+  useListInvoices,
+  useListProducts,
+} from "../../hooks/useQueries";
+import { formatCurrency, formatDate } from "../../utils/invoiceDocument";
+import CreditNoteGenerator from "../CreditNoteGenerator";
+
+interface CreditNotesModuleProps {
+  userProfile: any;
+  isAdmin: boolean;
+}
+
+interface ReturnLineState {
+  quantity: string;
+  damaged: boolean;
+}
+
+export default function CreditNotesModule({
+  userProfile,
+  isAdmin,
+}: CreditNotesModuleProps) {
+  const { data: creditNotes = [], isLoading: creditNotesLoading } =
+    useListCreditNotes();
+  const { data: invoices = [], isLoading: invoicesLoading } = useListInvoices();
+  const { data: customers = [], isLoading: customersLoading } =
+    useListCustomers();
+  const { data: products = [], isLoading: productsLoading } = useListProducts();
+  const createCreditNote = useCreateCreditNote();
+
+  const [createDialogOpen, setCreateDialogOpen] = useState(false);
+  const [selectedInvoiceId, setSelectedInvoiceId] = useState("");
+  const [returnLines, setReturnLines] = useState<
+    Record<number, ReturnLineState>
+  >({});
+  const [reason, setReason] = useState("");
+  const [previewCreditNote, setPreviewCreditNote] = useState<CreditNote | null>(
+    null,
+  );
+
+  const canAccessCreditNotes = isAdmin || userProfile.appRole === "sales";
+
+  const creditableInvoices = invoices.filter((inv) => inv.status !== "draft");
+  const selectedInvoice = invoices.find(
+    (inv) => inv.invoiceId.toString() === selectedInvoiceId,
+  );
+
+  // Quantity already credited per line of the selected invoice
+  const creditedByLine = useMemo(() => {
+    const credited = new Map<number, number>();
+    if (!selectedInvoice) return credited;
+    for (const note of creditNotes) {
+      if (note.invoiceId !== selectedInvoice.invoiceId) continue;
+      for (const line of note.lines) {
+        const index = Number(line.lineIndex);
+        credited.set(index, (credited.get(index) ?? 0) + Number(line.quantity));
+      }
+    }
+    return credited;
+  }, [creditNotes, selectedInvoice]);
+
+  const sortedCreditNotes = [...creditNotes].sort(
+    (a, b) => Number(b.created) - Number(a.created),
+  );
+
+  const getCustomer = (customerId: bigint) =>
+    customers.find((c) => c.id === customerId);
+
+  const getProductName = (productId: bigint) =>
+    products.find((p) => p.productId === productId)?.name || "Unknown Product";
+
+  const resetForm = () => {
+    setSelectedInvoiceId("");
+    setReturnLines({});
+    setReason("");
+  };
+
+  const updateReturnLine = (
+    index: number,
+    update: Partial<ReturnLineState>,
+  ) => {
+    setReturnLines((prev) => ({
+      ...prev,
+      [index]: {
+        ...(prev[index] ?? { quantity: "", damaged: false }),
+        ...update,
+      },
+    }));
+  };
+
+  const handleCreateCreditNote = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!selectedInvoice) {
+      toast.error("Please select an invoice");
+      return;
+    }
+
+    const lines: CreditNoteLineInput[] = [];
+    for (const [key, state] of Object.entries(returnLines)) {
+      const index = Number(key);
+      const quantity = Number.parseInt(state.quantity);
+      if (!quantity || quantity <= 0) continue;
+
+      const invoiceLine = selectedInvoice.lines[index];
+      const returnable =
+        Number(invoiceLine.quantity) - (creditedByLine.get(index) ?? 0);
+      if (quantity > returnable) {
+        toast.error(
+          `Only ${returnable} unit(s) of ${getProductName(invoiceLine.productId)} can be returned`,
+        );
+        return;
+      }
+      lines.push({
+        lineIndex: BigInt(index),
+        quantity: BigInt(quantity),
+        damaged: state.damaged,
+      });
+    }
+
+    if (lines.length === 0) {
+      toast.error("Please enter a return quantity for at least one item");
+      return;
+    }
+    if (!reason.trim()) {
+      toast.error("Please enter a reason for the return");
+      return;
+    }
+
+    try {
+      await createCreditNote.mutateAsync({
+        invoiceId: selectedInvoice.invoiceId,
+        lines,
+        reason: reason.trim(),
+      });
+      toast.success("Credit note created");
+      setCreateDialogOpen(false);
+      resetForm();
+    } catch (error: any) {
+      console.error("Create credit note error:", error);
+      toast.error(error?.message || "Failed to create credit note");
+    }
+  };
+
+  const isLoading =
+    creditNotesLoading ||
+    invoicesLoading ||
+    customersLoading ||
+    productsLoading;
+
+  if (!canAccessCreditNotes) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Card className="max-w-md">
+          <CardHeader>
+            <CardTitle className="text-destructive">Access Denied</CardTitle>
+            <CardDescription>
+              Credit Notes are restricted to Admin and Sales roles only.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin mx-auto mb-2 text-blue-600" />
+          <p className="text-sm text-muted-foreground">
+            Loading credit notes...
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const previewCustomer = previewCreditNote
+    ? getCustomer(previewCreditNote.customerId)
+    : undefined;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Credit Notes</h1>
+          <p className="text-muted-foreground">
+            Record sales returns against issued invoices
+          </p>
+        </div>
+        <Button
+          onClick={() => {
+            resetForm();
+            setCreateDialogOpen(true);
+          }}
+          size="sm"
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          New Credit Note
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Issued Credit Notes</CardTitle>
+          <CardDescription>
+            {creditNotes.length} credit note
+            {creditNotes.length !== 1 ? "s" : ""} issued
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Credit Note</TableHead>
+                  <TableHead>Invoice</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Items</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sortedCreditNotes.length === 0 ? (
+                  <TableRow>
+                    <TableCell
+                      colSpan={8}
+                      className="text-center text-muted-foreground py-8"
+                    >
+                      No credit notes issued yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  sortedCreditNotes.map((note) => (
+                    <TableRow key={note.creditNoteId.toString()}>
+                      <TableCell className="font-medium">
+                        {note.creditNoteNumber}
+                      </TableCell>
+                      <TableCell>{note.invoiceNumber}</TableCell>
+                      <TableCell>
+                        {getCustomer(note.customerId)?.name ||
+                          "Unknown Customer"}
+                      </TableCell>
+                      <TableCell>{formatDate(note.created)}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {note.lines.map((line) => (
+                            <Badge
+                              key={line.lineIndex.toString()}
+                              variant={line.damaged ? "destructive" : "outline"}
+                            >
+                              {getProductName(line.productId)} ×{" "}
+                              {line.quantity.toString()}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell className="max-w-[200px] truncate">
+                        {note.reason}
+                      </TableCell>
+                      <TableCell className="text-right font-medium">
+                        {formatCurrency(note.total)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setPreviewCreditNote(note)}
+                        >
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Create Dialog */}
+      <Dialog open={createDialogOpen} onOpenChange={setCreateDialogOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>New Credit Note</DialogTitle>
+            <DialogDescription>
+              Select the original invoice and the quantities being returned.
+              Items not marked damaged go back into stock.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleCreateCreditNote} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="creditNoteInvoice">Invoice</Label>
+              <Select
+                value={selectedInvoiceId}
+                onValueChange={(value) => {
+                  setSelectedInvoiceId(value);
+                  setReturnLines({});
+                }}
+              >
+                <SelectTrigger id="creditNoteInvoice">
+                  <SelectValue placeholder="Select an invoice" />
+                </SelectTrigger>
+                <SelectContent>
+                  {creditableInvoices.map((inv) => (
+                    <SelectItem
+                      key={inv.invoiceId.toString()}
+                      value={inv.invoiceId.toString()}
+                    >
+                      {inv.invoiceNumber} —{" "}
+                      {getCustomer(inv.customerId)?.name || "Unknown Customer"}{" "}
+                      ({formatCurrency(inv.total)})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {selectedInvoice && (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Product</TableHead>
+                      <TableHead>Invoiced</TableHead>
+                      <TableHead>Returnable</TableHead>
+                      <TableHead>Return Qty</TableHead>
+                      <TableHead>Damaged</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {selectedInvoice.lines.map((line, index) => {
+                      const returnable =
+                        Number(line.quantity) -
+                        (creditedByLine.get(index) ?? 0);
+                      const state = returnLines[index];
+                      return (
+                        <TableRow key={`${line.productId.toString()}-${index}`}>
+                          <TableCell>
+                            {getProductName(line.productId)}
+                          </TableCell>
+                          <TableCell>{line.quantity.toString()}</TableCell>
+                          <TableCell>{returnable}</TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min="0"
+                              max={returnable}
+                              disabled={returnable === 0}
+                              className="w-24"
+                              value={state?.quantity ?? ""}
+                              onChange={(e) =>
+                                updateReturnLine(index, {
+                                  quantity: e.target.value,
+                                })
+                              }
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Checkbox
+                              checked={state?.damaged ?? false}
+                              disabled={returnable === 0}
+                              onCheckedChange={(checked) =>
+                                updateReturnLine(index, {
+                                  damaged: checked === true,
+                                })
+                              }
+                            />
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="creditNoteReason">Reason</Label>
+              <Textarea
+                id="creditNoteReason"
+                placeholder="e.g. Size exchange, defective stitching"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </div>
+
+            <Button
+              type="submit"
+              disabled={createCreditNote.isPending}
+              className="w-full gap-2"
+            >
+              {createCreditNote.isPending ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Creating...
+                </>
+              ) : (
+                <>
+                  <FileMinus className="h-4 w-4" />
+                  Create Credit Note
+                </>
+              )}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Preview Dialog */}
+      <Dialog
+        open={previewCreditNote !== null}
+        onOpenChange={(open) => !open && setPreviewCreditNote(null)}
+      >
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              Credit Note {previewCreditNote?.creditNoteNumber}
+            </DialogTitle>
+            <DialogDescription>
+              Against invoice {previewCreditNote?.invoiceNumber}
+            </DialogDescription>
+          </DialogHeader>
+          {previewCreditNote && previewCustomer && (
+            <CreditNoteGenerator
+              creditNote={previewCreditNote}
+              customer={previewCustomer}
+              products={products}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -21,6 +21,13 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
 import {
   Table,
@@ -48,7 +55,13 @@ import {
   useCreateCustomer,
   useDeleteCustomer,
   useListCustomers,
+  useUpdateCustomerPaymentTerms,
 } from "../../hooks/useQueries";
+import { GST_STATES, getStateLabel } from "../../utils/gst";
+import {
+  PAYMENT_TERMS_OPTIONS,
+  formatPaymentTerms,
+} from "../../utils/invoiceDocument";
 
 interface CustomersModuleProps {
   userProfile: UserProfile;
@@ -58,6 +71,7 @@ export default function CustomersModule({ userProfile }: CustomersModuleProps) {
   const { data: customers = [], isLoading } = useListCustomers();
   const createCustomer = useCreateCustomer();
   const deleteCustomer = useDeleteCustomer();
+  const updatePaymentTerms = useUpdateCustomerPaymentTerms();
 
   const [dialogOpen, setDialogOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
@@ -71,6 +85,8 @@ export default function CustomersModule({ userProfile }: CustomersModuleProps) {
     email: "",
     phone: "",
     address: "",
+    state: "",
+    paymentTermsDays: "30",
   });
 
   const isAdmin = userProfile.appRole === AppRole.admin;
@@ -98,16 +114,42 @@ export default function CustomersModule({ userProfile }: CustomersModuleProps) {
     }
 
     try {
-      await createCustomer.mutateAsync(formData);
+      await createCustomer.mutateAsync({
+        ...formData,
+        paymentTermsDays: BigInt(formData.paymentTermsDays),
+      });
       toast.success("Customer created successfully!");
       setDialogOpen(false);
-      setFormData({ name: "", email: "", phone: "", address: "" });
+      setFormData({
+        name: "",
+        email: "",
+        phone: "",
+        address: "",
+        state: "",
+        paymentTermsDays: "30",
+      });
     } catch (error) {
       toast.error("Failed to create customer");
       console.error(error);
     }
   };
 
+  const handlePaymentTermsChange = async (
+    customerId: bigint,
+    paymentTermsDays: string,
+  ) => {
+    try {
+      await updatePaymentTerms.mutateAsync({
+        customerId,
+        paymentTermsDays: BigInt(paymentTermsDays),
+      });
+      toast.success("Payment terms updated");
+    } catch (error: any) {
+      toast.error(error?.message || "Failed to update payment terms");
+      console.error(error);
+    }
+  };
+
   const handleDeleteClick = (customerId: bigint, customerName: string) => {
     setCustomerToDelete({ id: customerId, name: customerName });
     setDeleteDialogOpen(true);
@@ -216,6 +258,46 @@ export default function CustomersModule({ userProfile }: CustomersModuleProps) {
                       required
                     />
                   </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="state">State (Place of Supply)</Label>
+                    <Select
+                      value={formData.state}
+                      onValueChange={(value) =>
+                        setFormData({ ...formData, state: value })
+                      }
+                    >
+                      <SelectTrigger id="state">
+                        <SelectValue placeholder="Select state" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {GST_STATES.map((state) => (
+                          <SelectItem key={state.code} value={state.code}>
+                            {state.name} ({state.code})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="paymentTerms">Default Payment Terms</Label>
+                    <Select
+                      value={formData.paymentTermsDays}
+                      onValueChange={(value) =>
+                        setFormData({ ...formData, paymentTermsDays: value })
+                      }
+                    >
+                      <SelectTrigger id="paymentTerms">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {PAYMENT_TERMS_OPTIONS.map((days) => (
+                          <SelectItem key={days} value={days.toString()}>
+                            {formatPaymentTerms(days)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
                 <DialogFooter>
                   <Button type="submit" disabled={createCustomer.isPending}>
@@ -276,6 +358,8 @@ export default function CustomersModule({ userProfile }: CustomersModuleProps) {
                     <TableHead>Name</TableHead>
                     <TableHead>Contact</TableHead>
                     <TableHead>Address</TableHead>
+                    <TableHead>State</TableHead>
+                    <TableHead>Payment Terms</TableHead>
                     <TableHead>Created</TableHead>
                     {canDelete && (
                       <TableHead className="text-right">Actions</TableHead>
@@ -311,6 +395,35 @@ export default function CustomersModule({ userProfile }: CustomersModuleProps) {
                           </span>
                         </div>
                       </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {getStateLabel(customer.state)}
+                      </TableCell>
+                      <TableCell>
+                        {canCreate ? (
+                          <Select
+                            value={customer.paymentTermsDays.toString()}
+                            onValueChange={(value) =>
+                              handlePaymentTermsChange(customer.id, value)
+                            }
+                            disabled={updatePaymentTerms.isPending}
+                          >
+                            <SelectTrigger className="h-8 w-[140px]">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {PAYMENT_TERMS_OPTIONS.map((days) => (
+                                <SelectItem key={days} value={days.toString()}>
+                                  {formatPaymentTerms(days)}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <span className="text-sm text-muted-foreground">
+                            {formatPaymentTerms(customer.paymentTermsDays)}
+                          </span>
+                        )}
+                      </TableCell>
                       <TableCell className="text-sm text-muted-foreground">
                         {formatDate(customer.created)}
                       </TableCell>
@@ -12,6 +12,7 @@ import {
   PackageCheck,
   ShoppingCart,
   TrendingUp,
+  Truck,
   Users,
   XCircle,
 } from "lucide-react";
@@ -26,10 +27,16 @@ import {
   XAxis,
   YAxis,
 } from "recharts";
-import { AppRole, type UserProfile } from "../../backend";
+import {
+  AppRole,
+  DispatchStatus,
+  OrderStatus,
+  type UserProfile,
+} from "../../backend";
 import {
   useDashboardMetrics,
   useListCustomers,
+  useListDispatches,
   useListInvoices,
   useListNotifications,
   useListOrders,
@@ -51,6 +58,7 @@ export default function DashboardHome({ userProfile }: DashboardHomeProps) {
   const { data: customers = [] } = useListCustomers();
   const { data: products = [] } = useListProducts();
   const { data: invoices = [] } = useListInvoices();
+  const { data: dispatches = [] } = useListDispatches();
 
   const isAdmin = userProfile.appRole === AppRole.admin;
   const canAccessFinancial =
@@ -74,10 +82,15 @@ export default function DashboardHome({ userProfile }: DashboardHomeProps) {
     }).length;
 
     const pendingInvoices = invoices.filter(
-      (i) => i.status === "draft" || i.status === "sent",
+      (i) =>
+        i.status === "draft" ||
+        i.status === "sent" ||
+        i.status === "partiallyPaid",
     ).length;
     const paidInvoices = invoices.filter((i) => i.status === "paid").length;
-    const unpaidInvoices = invoices.filter((i) => i.status === "sent").length;
+    const unpaidInvoices = invoices.filter(
+      (i) => i.status === "sent" || i.status === "partiallyPaid",
+    ).length;
     const overdueInvoices = invoices.filter(
       (i) => i.status === "overdue",
     ).length;
@@ -96,6 +109,28 @@ export default function DashboardHome({ userProfile }: DashboardHomeProps) {
   }, [notifications, products, orders, invoices]);
 
   const recentOrders = orders.slice(0, 5);
+
+  // Orders ready to go out but not yet dispatched, then dispatches still on the road
+  const pendingDispatches = [
+    ...orders
+      .filter(
+        (o) =>
+          (o.status === OrderStatus.processing ||
+            o.status === OrderStatus.fulfilled) &&
+          !dispatches.some((d) => d.orderId === o.id),
+      )
+      .map((order) => ({ order, dispatch: undefined })),
+    ...dispatches
+      .filter((d) => d.status !== DispatchStatus.delivered)
+      .sort((a, b) => Number(a.dispatchDate) - Number(b.dispatchDate))
+      .map((dispatch) => ({
+        order: orders.find((o) => o.id === dispatch.orderId),
+        dispatch,
+      })),
+  ];
+
+  const getCustomerName = (customerId: bigint | undefined) =>
+    customers.find((c) => c.id === customerId)?.name ?? "Unknown customer";
   const recentNotifications = notifications.slice(0, 5);
 
   const ordersByStatus = {
@@ -511,6 +546,58 @@ export default function DashboardHome({ userProfile }: DashboardHomeProps) {
               </Card>
             )}
 
+          {/* Pending Dispatches */}
+          {(isAdmin || userProfile.appRole === AppRole.sales) &&
+            pendingDispatches.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base flex items-center gap-2">
+                    <Truck className="h-4 w-4" />
+                    Pending Dispatches ({pendingDispatches.length})
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-2">
+                    {pendingDispatches
+                      .slice(0, 5)
+                      .map(({ order, dispatch }) => (
+                        <div
+                          key={
+                            dispatch
+                              ? `dispatch-${dispatch.dispatchId}`
+                              : `order-${order?.id}`
+                          }
+                          className="flex items-center justify-between p-2 rounded-lg bg-muted/30"
+                        >
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium truncate">
+                              Order #
+                              {order?.id.toString() ??
+                                dispatch?.orderId.toString()}{" "}
+                              · {getCustomerName(order?.customerId)}
+                            </p>
+                            {dispatch && (
+                              <p className="text-xs text-muted-foreground truncate">
+                                {dispatch.challanNumber}
+                                {dispatch.transporterName &&
+                                  ` · ${dispatch.transporterName}`}
+                              </p>
+                            )}
+                          </div>
+                          <Badge variant="outline" className="text-xs shrink-0">
+                            {!dispatch
+                              ? "Awaiting dispatch"
+                              : dispatch.status === DispatchStatus.inTransit
+                                ? "In transit"
+                                : "Dispatched"}
+                          </Badge>
+                        </div>
+                      ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
           {/* Recent Notifications */}
           {recentNotifications.length > 0 && (
             <Card>
@@ -0,0 +1,607 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Loader2,
+  Paperclip,
+  Pencil,
+  Plus,
+  Receipt,
+  Trash2,
+  Upload,
+  X,
+} from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import {
+  AppRole,
+  type Expense,
+  ExpenseCategory,
+  ExternalBlob,
+  PaymentMode,
+  type UserProfile,
+} from "../../backend";
+import {
+  useCreateExpense,
+  useDeleteExpense,
+  useListExpenses,
+  useUpdateExpense,
+} from "../../hooks/useQueries";
+import { EXPENSE_CATEGORY_LABELS } from "../../utils/expenses";
+import { formatCurrency, formatDate } from "../../utils/invoiceDocument";
+import { PAYMENT_MODE_LABELS } from "../InvoicePayments";
+
+const MAX_RECEIPT_SIZE_BYTES = 5 * 1024 * 1024;
+
+interface ExpensesModuleProps {
+  userProfile: UserProfile;
+}
+
+interface ExpenseFormState {
+  category: ExpenseCategory;
+  expenseDate: string;
+  amount: string;
+  mode: PaymentMode;
+  description: string;
+  // Existing receipt kept on edit until replaced or removed
+  receipt: ExternalBlob | null;
+  receiptFile: File | null;
+}
+
+// Local yyyy-mm-dd, as date inputs expect
+const toInputDate = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const emptyForm = (): ExpenseFormState => ({
+  category: ExpenseCategory.rent,
+  expenseDate: toInputDate(new Date()),
+  amount: "",
+  mode: PaymentMode.cash,
+  description: "",
+  receipt: null,
+  receiptFile: null,
+});
+
+export default function ExpensesModule({ userProfile }: ExpensesModuleProps) {
+  const { data: expenses = [], isLoading } = useListExpenses();
+  const createExpense = useCreateExpense();
+  const updateExpense = useUpdateExpense();
+  const deleteExpense = useDeleteExpense();
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
+  const [expenseToDelete, setExpenseToDelete] = useState<Expense | null>(null);
+  const [formData, setFormData] = useState<ExpenseFormState>(emptyForm);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const [categoryFilter, setCategoryFilter] = useState<string>("all");
+  const [monthFilter, setMonthFilter] = useState(() =>
+    toInputDate(new Date()).slice(0, 7),
+  );
+
+  const canAccess =
+    userProfile.appRole === AppRole.admin ||
+    userProfile.appRole === AppRole.accountant;
+  const isSaving = createExpense.isPending || updateExpense.isPending;
+
+  const filteredExpenses = expenses
+    .filter((expense) => {
+      const date = toInputDate(
+        new Date(Number(expense.expenseDate) / 1_000_000),
+      );
+      return (
+        (!monthFilter || date.startsWith(monthFilter)) &&
+        (categoryFilter === "all" || expense.category === categoryFilter)
+      );
+    })
+    .sort((a, b) => Number(b.expenseDate) - Number(a.expenseDate));
+
+  const filteredTotal = filteredExpenses.reduce(
+    (sum, expense) => sum + Number(expense.amount),
+    0,
+  );
+
+  const openCreateDialog = () => {
+    setEditingExpense(null);
+    setFormData(emptyForm());
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (expense: Expense) => {
+    setEditingExpense(expense);
+    setFormData({
+      category: expense.category,
+      expenseDate: toInputDate(
+        new Date(Number(expense.expenseDate) / 1_000_000),
+      ),
+      amount: expense.amount.toString(),
+      mode: expense.mode,
+      description: expense.description,
+      receipt: expense.receipt ?? null,
+      receiptFile: null,
+    });
+    setDialogOpen(true);
+  };
+
+  const handleReceiptSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    if (!file.type.startsWith("image/")) {
+      toast.error("Please select an image of the receipt");
+      return;
+    }
+    if (file.size > MAX_RECEIPT_SIZE_BYTES) {
+      toast.error("Receipt image must be smaller than 5 MB");
+      return;
+    }
+    setFormData((prev) => ({ ...prev, receiptFile: file }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const amount = Number(formData.amount);
+    if (!Number.isInteger(amount) || amount <= 0) {
+      toast.error("Please enter the amount in whole rupees");
+      return;
+    }
+    if (
+      formData.category === ExpenseCategory.other &&
+      !formData.description.trim()
+    ) {
+      toast.error("Please describe expenses filed under Other");
+      return;
+    }
+    const expenseDate = new Date(`${formData.expenseDate}T00:00:00`);
+    if (Number.isNaN(expenseDate.getTime())) {
+      toast.error("Please enter a valid date");
+      return;
+    }
+
+    try {
+      let receipt = formData.receipt;
+      if (formData.receiptFile) {
+        setUploadProgress(0);
+        const bytes = new Uint8Array(await formData.receiptFile.arrayBuffer());
+        receipt = ExternalBlob.fromBytes(bytes).withUploadProgress(
+          (percentage) => setUploadProgress(percentage),
+        );
+      }
+
+      const input = {
+        category: formData.category,
+        expenseDate: BigInt(expenseDate.getTime()) * BigInt(1_000_000),
+        amount: BigInt(amount),
+        mode: formData.mode,
+        description: formData.description.trim(),
+        receipt: receipt ?? undefined,
+      };
+
+      if (editingExpense) {
+        await updateExpense.mutateAsync({
+          expenseId: editingExpense.expenseId,
+          input,
+        });
+        toast.success("Expense updated");
+      } else {
+        await createExpense.mutateAsync(input);
+        toast.success("Expense recorded");
+      }
+      setDialogOpen(false);
+      setEditingExpense(null);
+      setFormData(emptyForm());
+    } catch (error: any) {
+      console.error("Save expense error:", error);
+      toast.error(error?.message || "Failed to save expense");
+    } finally {
+      setUploadProgress(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!expenseToDelete) return;
+    try {
+      await deleteExpense.mutateAsync(expenseToDelete.expenseId);
+      toast.success("Expense deleted");
+    } catch (error: any) {
+      console.error("Delete expense error:", error);
+      toast.error(error?.message || "Failed to delete expense");
+    } finally {
+      setExpenseToDelete(null);
+    }
+  };
+
+  if (!canAccess) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <p className="text-muted-foreground">
+          Only Accountants and Admins can manage expenses.
+        </p>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin mx-auto mb-2 text-blue-600" />
+          <p className="text-sm text-muted-foreground">Loading expenses...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Expenses</h1>
+          <p className="text-muted-foreground">
+            Rent, salaries, utilities and other running costs for the P&L
+          </p>
+        </div>
+        <Button onClick={openCreateDialog} size="sm">
+          <Plus className="mr-2 h-4 w-4" />
+          Record Expense
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-center justify-between">
+            <div>
+              <CardTitle>Expense Register</CardTitle>
+              <CardDescription>
+                {filteredExpenses.length} entries totalling{" "}
+                {formatCurrency(filteredTotal)}
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Input
+                type="month"
+                className="w-[160px]"
+                value={monthFilter}
+                onChange={(e) => setMonthFilter(e.target.value)}
+              />
+              <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+                <SelectTrigger className="w-[190px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All categories</SelectItem>
+                  {Object.entries(EXPENSE_CATEGORY_LABELS).map(
+                    ([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ),
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead>Paid By</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead>Receipt</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredExpenses.length === 0 ? (
+                  <TableRow>
+                    <TableCell
+                      colSpan={7}
+                      className="text-center text-muted-foreground py-8"
+                    >
+                      No expenses recorded for this period
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  filteredExpenses.map((expense) => (
+                    <TableRow key={expense.expenseId.toString()}>
+                      <TableCell>{formatDate(expense.expenseDate)}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">
+                          {EXPENSE_CATEGORY_LABELS[expense.category]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="max-w-[260px] truncate">
+                        {expense.description || (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                      <TableCell>{PAYMENT_MODE_LABELS[expense.mode]}</TableCell>
+                      <TableCell className="text-right font-medium">
+                        {formatCurrency(expense.amount)}
+                      </TableCell>
+                      <TableCell>
+                        {expense.receipt ? (
+                          <a
+                            href={expense.receipt.getDirectURL()}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="inline-flex items-center gap-1 text-sm text-blue-600 hover:underline"
+                          >
+                            <Paperclip className="h-3 w-3" />
+                            View
+                          </a>
+                        ) : (
+                          <span className="text-xs text-muted-foreground">
+                            None
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => openEditDialog(expense)}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setExpenseToDelete(expense)}
+                        >
+                          <Trash2 className="h-4 w-4 text-red-600" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Create / Edit Dialog */}
+      <Dialog
+        open={dialogOpen}
+        onOpenChange={(open) => {
+          setDialogOpen(open);
+          if (!open) setEditingExpense(null);
+        }}
+      >
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              {editingExpense ? "Edit Expense" : "Record Expense"}
+            </DialogTitle>
+            <DialogDescription>
+              Expenses count towards the P&L in the period of their date.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid gap-4 grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="expenseCategory">Category</Label>
+                <Select
+                  value={formData.category}
+                  onValueChange={(value) =>
+                    setFormData({
+                      ...formData,
+                      category: value as ExpenseCategory,
+                    })
+                  }
+                >
+                  <SelectTrigger id="expenseCategory">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(EXPENSE_CATEGORY_LABELS).map(
+                      ([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ),
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="expenseDate">Date</Label>
+                <Input
+                  id="expenseDate"
+                  type="date"
+                  value={formData.expenseDate}
+                  onChange={(e) =>
+                    setFormData({ ...formData, expenseDate: e.target.value })
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="expenseAmount">Amount (₹)</Label>
+                <Input
+                  id="expenseAmount"
+                  type="number"
+                  min="1"
+                  placeholder="0"
+                  value={formData.amount}
+                  onChange={(e) =>
+                    setFormData({ ...formData, amount: e.target.value })
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="expenseMode">Paid By</Label>
+                <Select
+                  value={formData.mode}
+                  onValueChange={(value) =>
+                    setFormData({ ...formData, mode: value as PaymentMode })
+                  }
+                >
+                  <SelectTrigger id="expenseMode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(PAYMENT_MODE_LABELS).map(
+                      ([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ),
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="expenseDescription">Description</Label>
+              <Textarea
+                id="expenseDescription"
+                placeholder="e.g. Shop rent for October"
+                value={formData.description}
+                onChange={(e) =>
+                  setFormData({ ...formData, description: e.target.value })
+                }
+                rows={2}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Receipt</Label>
+              <div className="flex items-center gap-2">
+                <Button variant="outline" size="sm" asChild>
+                  <label htmlFor="expenseReceipt" className="cursor-pointer">
+                    <Upload className="mr-2 h-4 w-4" />
+                    {formData.receiptFile || formData.receipt
+                      ? "Replace Image"
+                      : "Attach Image"}
+                  </label>
+                </Button>
+                <input
+                  id="expenseReceipt"
+                  type="file"
+                  accept="image/*"
+                  className="hidden"
+                  onChange={handleReceiptSelect}
+                />
+                {(formData.receiptFile || formData.receipt) && (
+                  <>
+                    <span className="text-sm text-muted-foreground truncate max-w-[180px]">
+                      {formData.receiptFile?.name ?? "Receipt attached"}
+                    </span>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() =>
+                        setFormData({
+                          ...formData,
+                          receipt: null,
+                          receiptFile: null,
+                        })
+                      }
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
+              </div>
+            </div>
+
+            <Button type="submit" disabled={isSaving} className="w-full gap-2">
+              {isSaving ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  {uploadProgress !== null && uploadProgress < 100
+                    ? `Uploading ${Math.round(uploadProgress)}%`
+                    : "Saving..."}
+                </>
+              ) : (
+                <>
+                  <Receipt className="h-4 w-4" />
+                  {editingExpense ? "Save Changes" : "Record Expense"}
+                </>
+              )}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog
+        open={!!expenseToDelete}
+        onOpenChange={(open) => !open && setExpenseToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete expense?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {expenseToDelete &&
+                `${EXPENSE_CATEGORY_LABELS[expenseToDelete.category]} of ${formatCurrency(expenseToDelete.amount)} on ${formatDate(expenseToDelete.expenseDate)} will be removed from the P&L.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,541 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, PackageCheck, Plus, Search, Trash2 } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import {
+  AppRole,
+  type GoodsReceiptLine,
+  type UserProfile,
+} from "../../backend";
+import {
+  useCreateGoodsReceipt,
+  useListGoodsReceipts,
+  useListProducts,
+  useListPurchaseOrders,
+  useListSuppliers,
+} from "../../hooks/useQueries";
+import { formatDate } from "../../utils/invoiceDocument";
+
+// Select value for lines that are not catalogue products, e.g. fabric
+const OTHER_MATERIAL = "other";
+
+interface GoodsReceiptsModuleProps {
+  userProfile: UserProfile;
+}
+
+interface ReceiptLineState {
+  productId: string;
+  description: string;
+  unit: string;
+  receivedQuantity: string;
+  rejectedQuantity: string;
+}
+
+const emptyLine = (): ReceiptLineState => ({
+  productId: "",
+  description: "",
+  unit: "pcs",
+  receivedQuantity: "",
+  rejectedQuantity: "0",
+});
+
+// Short or excess against what the purchase order line still had pending
+function renderVariance(line: GoodsReceiptLine) {
+  if (line.purchaseOrderLine === undefined) return null;
+  const variance = Number(line.acceptedQuantity) - Number(line.pendingQuantity);
+  if (variance < 0) {
+    return (
+      <Badge variant="outline" className="text-amber-600">
+        Short {-variance}
+      </Badge>
+    );
+  }
+  if (variance > 0) {
+    return (
+      <Badge variant="outline" className="text-red-600">
+        Excess {variance}
+      </Badge>
+    );
+  }
+  return null;
+}
+
+export default function GoodsReceiptsModule({
+  userProfile,
+}: GoodsReceiptsModuleProps) {
+  const { data: goodsReceipts = [], isLoading } = useListGoodsReceipts();
+  const { data: suppliers = [] } = useListSuppliers();
+  const { data: purchaseOrders = [] } = useListPurchaseOrders();
+  const { data: products = [] } = useListProducts();
+  const activeProducts = products.filter((p) => !p.archived);
+  const createGoodsReceipt = useCreateGoodsReceipt();
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [supplierId, setSupplierId] = useState("");
+  const [lines, setLines] = useState<ReceiptLineState[]>([emptyLine()]);
+  const [batch, setBatch] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const canEdit =
+    userProfile.appRole === AppRole.admin ||
+    userProfile.appRole === AppRole.inventoryManager;
+
+  const getSupplierName = (id: bigint) =>
+    suppliers.find((s) => s.supplierId === id)?.name || "Unknown Supplier";
+
+  const getPoNumber = (id: bigint) =>
+    purchaseOrders.find((po) => po.purchaseOrderId === id)?.poNumber ||
+    `PO #${id}`;
+
+  const query = searchQuery.toLowerCase();
+  const filteredReceipts = goodsReceipts
+    .filter(
+      (receipt) =>
+        !query ||
+        receipt.grnNumber.toLowerCase().includes(query) ||
+        receipt.batch.toLowerCase().includes(query) ||
+        getSupplierName(receipt.supplierId).toLowerCase().includes(query),
+    )
+    .sort((a, b) => Number(b.created) - Number(a.created));
+
+  const updateLine = (index: number, update: Partial<ReceiptLineState>) => {
+    setLines((prev) =>
+      prev.map((line, i) => (i === index ? { ...line, ...update } : line)),
+    );
+  };
+
+  const handleProductChange = (index: number, value: string) => {
+    const product = products.find((p) => p.productId.toString() === value);
+    updateLine(index, {
+      productId: value,
+      description: product ? product.name : "",
+    });
+  };
+
+  const resetForm = () => {
+    setSupplierId("");
+    setLines([emptyLine()]);
+    setBatch("");
+    setNotes("");
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const filledLines = lines.filter(
+      (line) => line.productId || line.description.trim(),
+    );
+    if (!supplierId || filledLines.length === 0) {
+      toast.error("Please select a supplier and add at least one line");
+      return;
+    }
+    if (
+      filledLines.some(
+        (line) =>
+          !(Number(line.receivedQuantity) > 0) ||
+          !Number.isInteger(Number(line.receivedQuantity)) ||
+          !Number.isInteger(Number(line.rejectedQuantity)) ||
+          Number(line.rejectedQuantity) < 0 ||
+          Number(line.rejectedQuantity) > Number(line.receivedQuantity),
+      )
+    ) {
+      toast.error(
+        "Every line needs a received quantity, with rejected pieces no more than received",
+      );
+      return;
+    }
+    if (
+      filledLines.some(
+        (line) => line.productId === OTHER_MATERIAL && !line.description.trim(),
+      )
+    ) {
+      toast.error("Describe the material for lines without a product");
+      return;
+    }
+
+    try {
+      await createGoodsReceipt.mutateAsync({
+        purchaseOrderId: null,
+        supplierId: BigInt(supplierId),
+        lines: filledLines.map((line) => ({
+          productId:
+            line.productId && line.productId !== OTHER_MATERIAL
+              ? BigInt(line.productId)
+              : undefined,
+          description: line.description.trim(),
+          unit: line.unit.trim() || "pcs",
+          receivedQuantity: BigInt(line.receivedQuantity),
+          rejectedQuantity: BigInt(line.rejectedQuantity || "0"),
+        })),
+        batch: batch.trim(),
+        notes: notes.trim(),
+      });
+      toast.success("Goods receipt posted and stock updated");
+      setDialogOpen(false);
+      resetForm();
+    } catch (error: any) {
+      console.error("Goods receipt error:", error);
+      toast.error(error?.message || "Failed to record goods receipt");
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin mx-auto mb-2 text-blue-600" />
+          <p className="text-sm text-muted-foreground">
+            Loading goods receipts...
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Goods Receipts</h1>
+          <p className="text-muted-foreground">
+            Inward stock from suppliers, against purchase orders or ad hoc
+          </p>
+        </div>
+        {canEdit && (
+          <Button
+            onClick={() => {
+              resetForm();
+              setDialogOpen(true);
+            }}
+            size="sm"
+            disabled={suppliers.length === 0}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Ad Hoc Receipt
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-center justify-between">
+            <div>
+              <CardTitle>Goods Receipt Notes</CardTitle>
+              <CardDescription>
+                Receive against a purchase order from the Purchase Orders page
+              </CardDescription>
+            </div>
+            <div className="relative w-full sm:w-[260px]">
+              <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search GRN, batch or supplier..."
+                className="pl-8"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+              />
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>GRN Number</TableHead>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead>Against</TableHead>
+                  <TableHead>Items</TableHead>
+                  <TableHead>Batch</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredReceipts.length === 0 ? (
+                  <TableRow>
+                    <TableCell
+                      colSpan={5}
+                      className="text-center text-muted-foreground py-8"
+                    >
+                      No goods receipts found
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  filteredReceipts.map((receipt) => (
+                    <TableRow key={receipt.goodsReceiptId.toString()}>
+                      <TableCell>
+                        <div className="font-medium">{receipt.grnNumber}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {formatDate(receipt.created)}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {getSupplierName(receipt.supplierId)}
+                      </TableCell>
+                      <TableCell>
+                        {receipt.purchaseOrderId !== undefined ? (
+                          getPoNumber(receipt.purchaseOrderId)
+                        ) : (
+                          <Badge variant="secondary">Ad hoc</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="space-y-1">
+                          {receipt.lines.map((line, index) => (
+                            <div
+                              // biome-ignore lint/suspicious/noArrayIndexKey: receipt lines have no id and never reorder
+                              key={index}
+                              className="flex flex-wrap items-center gap-2 text-sm"
+                            >
+                              <span>
+                                {line.description}:{" "}
+                                {Number(line.acceptedQuantity)} {line.unit}{" "}
+                                accepted
+                              </span>
+                              {Number(line.rejectedQuantity) > 0 && (
+                                <span className="text-xs text-red-600">
+                                  ({Number(line.rejectedQuantity)} rejected)
+                                </span>
+                              )}
+                              {renderVariance(line)}
+                            </div>
+                          ))}
+                        </div>
+                        {receipt.notes && (
+                          <div className="text-xs text-muted-foreground mt-1">
+                            {receipt.notes}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>{receipt.batch}</TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Ad Hoc Receipt Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Ad Hoc Goods Receipt</DialogTitle>
+            <DialogDescription>
+              For stock that arrived without a purchase order. Accepted pieces
+              of catalogue products are added to stock.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleCreate} className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="grnSupplier">Supplier</Label>
+                <Select value={supplierId} onValueChange={setSupplierId}>
+                  <SelectTrigger id="grnSupplier">
+                    <SelectValue placeholder="Choose a supplier" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {suppliers.map((supplier) => (
+                      <SelectItem
+                        key={supplier.supplierId.toString()}
+                        value={supplier.supplierId.toString()}
+                      >
+                        {supplier.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="grnBatch">Batch / Lot</Label>
+                <Input
+                  id="grnBatch"
+                  placeholder="Defaults to the GRN number"
+                  value={batch}
+                  onChange={(e) => setBatch(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead>Unit</TableHead>
+                    <TableHead>Received</TableHead>
+                    <TableHead>Rejected</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lines.map((line, index) => (
+                    // biome-ignore lint/suspicious/noArrayIndexKey: receipt lines are edited in place and have no id
+                    <TableRow key={index}>
+                      <TableCell className="min-w-[180px]">
+                        <Select
+                          value={line.productId}
+                          onValueChange={(value) =>
+                            handleProductChange(index, value)
+                          }
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select product" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={OTHER_MATERIAL}>
+                              Other material
+                            </SelectItem>
+                            {activeProducts.map((product) => (
+                              <SelectItem
+                                key={product.productId.toString()}
+                                value={product.productId.toString()}
+                              >
+                                {product.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell className="min-w-[160px]">
+                        <Input
+                          placeholder="e.g. Cotton poplin 58in"
+                          value={line.description}
+                          onChange={(e) =>
+                            updateLine(index, { description: e.target.value })
+                          }
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          className="w-16"
+                          value={line.unit}
+                          onChange={(e) =>
+                            updateLine(index, { unit: e.target.value })
+                          }
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="1"
+                          className="w-20"
+                          value={line.receivedQuantity}
+                          onChange={(e) =>
+                            updateLine(index, {
+                              receivedQuantity: e.target.value,
+                            })
+                          }
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          className="w-20"
+                          value={line.rejectedQuantity}
+                          onChange={(e) =>
+                            updateLine(index, {
+                              rejectedQuantity: e.target.value,
+                            })
+                          }
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          disabled={lines.length === 1}
+                          onClick={() =>
+                            setLines((prev) =>
+                              prev.filter((_, i) => i !== index),
+                            )
+                          }
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setLines((prev) => [...prev, emptyLine()])}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add Line
+            </Button>
+
+            <div className="space-y-2">
+              <Label htmlFor="grnNotes">Notes</Label>
+              <Input
+                id="grnNotes"
+                placeholder="e.g. Sample lot, invoice to follow"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+              />
+            </div>
+
+            <Button
+              type="submit"
+              disabled={createGoodsReceipt.isPending}
+              className="w-full gap-2"
+            >
+              {createGoodsReceipt.isPending ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Posting...
+                </>
+              ) : (
+                <>
+                  <PackageCheck className="h-4 w-4" />
+                  Post Goods Receipt
+                </>
+              )}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -13,6 +13,7 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Dialog,
   DialogContent,
@@ -24,6 +25,13 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
 import {
   Table,
@@ -37,29 +45,65 @@ import { Textarea } from "@/components/ui/textarea";
 import {
   AlertCircle,
   AlertTriangle,
+  Archive,
+  ArchiveRestore,
   Barcode,
   Camera,
   CameraOff,
   CheckCircle2,
+  Grid3x3,
+  History,
   Loader2,
   Package,
   Plus,
   QrCode,
   Search,
   Trash2,
+  Upload,
 } from "lucide-react";
 import { useState } from "react";
 import { toast } from "sonner";
-import type { Product, UserProfile } from "../../backend";
+import {
+  type Product,
+  TaxonomyTermKind,
+  type UserProfile,
+} from "../../backend";
 import {
   useAddProduct,
+  useArchiveProduct,
   useDeleteAllInventory,
+  useDeleteProduct,
   useListInventory,
+  useListProductCategories,
+  useListProductStyles,
   useListProducts,
+  useListTaxonomyTerms,
+  useRestoreProduct,
   useUpdateProduct,
 } from "../../hooks/useQueries";
 import { useQRScanner } from "../../qr-code/useQRScanner";
+import {
+  DEFAULT_TAX_SLAB_ID,
+  TAX_SLAB_PRESETS,
+  findTaxSlabPresetId,
+  getTaxSlabRule,
+} from "../../utils/gst";
+import { getAvailableStock } from "../../utils/stock";
+import {
+  categoryOptions,
+  categoryPath,
+  categoryWithDescendants,
+  emptyAttributeForm,
+  fromAttributeForm,
+  toAttributeForm,
+} from "../../utils/taxonomy";
 import BarcodeGenerator from "../BarcodeGenerator";
+import BulkProductEditDialog from "../BulkProductEditDialog";
+import ProductAttributesFields from "../ProductAttributesFields";
+import ProductImportDialog from "../ProductImportDialog";
+import ProductStyleDialog from "../ProductStyleDialog";
+import StockHistoryDialog from "../StockHistoryDialog";
+import StyleStockMatrix from "../StyleStockMatrix";
 
 interface InventoryModuleProps {
   userProfile: UserProfile;
@@ -68,20 +112,39 @@ interface InventoryModuleProps {
 export default function InventoryModule({ userProfile }: InventoryModuleProps) {
   const { data: products = [], isLoading } = useListProducts();
   const { data: inventory = [] } = useListInventory();
+  const { data: styles = [] } = useListProductStyles();
+  const { data: categories = [] } = useListProductCategories();
+  const { data: terms = [] } = useListTaxonomyTerms();
   const addProduct = useAddProduct();
   const updateProduct = useUpdateProduct();
   const deleteAllInventory = useDeleteAllInventory();
+  const archiveProduct = useArchiveProduct();
+  const restoreProduct = useRestoreProduct();
+  const deleteProduct = useDeleteProduct();
 
   const [dialogOpen, setDialogOpen] = useState(false);
   const [scannerOpen, setScannerOpen] = useState(false);
+  const [styleDialogOpen, setStyleDialogOpen] = useState(false);
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
+  const [bulkEditOpen, setBulkEditOpen] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<bigint>>(new Set());
   const [barcodeGeneratorOpen, setBarcodeGeneratorOpen] = useState(false);
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
+  const [historyProductId, setHistoryProductId] = useState<bigint | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
+  const [categoryFilter, setCategoryFilter] = useState("all");
+  const [brandFilter, setBrandFilter] = useState("all");
+  const [seasonFilter, setSeasonFilter] = useState("all");
+  const [showArchived, setShowArchived] = useState(false);
+  const [attributesForm, setAttributesForm] = useState(emptyAttributeForm);
   const [editingProduct, setEditingProduct] = useState<any>(null);
   const [formData, setFormData] = useState({
     name: "",
     description: "",
     price: "",
+    wholesalePrice: "",
+    mrp: "",
+    costPrice: "",
     stockLevel: "",
     warehouse: "",
     rack: "",
@@ -89,6 +152,8 @@ export default function InventoryModule({ userProfile }: InventoryModuleProps) {
     size: "",
     color: "",
     barcode: "",
+    hsnCode: "",
+    taxSlabId: DEFAULT_TAX_SLAB_ID,
   });
 
   const {
@@ -111,16 +176,63 @@ export default function InventoryModule({ userProfile }: InventoryModuleProps) {
   const isAdmin = userProfile.appRole === "admin";
   const canCreate = isAdmin || userProfile.appRole === "inventoryManager";
 
+  // A category filter also matches everything filed below that category
+  const categoryFilterIds =
+    categoryFilter === "all"
+      ? null
+      : categoryWithDescendants(categories, BigInt(categoryFilter));
+
+  const query = searchQuery.toLowerCase();
   const filteredProducts = products.filter(
     (item) =>
-      item.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      item.barcode.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      item.size.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      item.color.toLowerCase().includes(searchQuery.toLowerCase()),
+      item.archived === showArchived &&
+      (item.name.toLowerCase().includes(query) ||
+        item.barcode.toLowerCase().includes(query) ||
+        item.size.toLowerCase().includes(query) ||
+        item.color.toLowerCase().includes(query) ||
+        item.attributes.fabric.toLowerCase().includes(query) ||
+        item.attributes.tags.some((tag) =>
+          tag.toLowerCase().includes(query),
+        )) &&
+      (categoryFilterIds === null ||
+        (item.attributes.categoryId !== undefined &&
+          categoryFilterIds.has(item.attributes.categoryId))) &&
+      (brandFilter === "all" || item.attributes.brand === brandFilter) &&
+      (seasonFilter === "all" || item.attributes.season === seasonFilter),
   );
 
+  // Only rows the current filters show can be bulk edited
+  const selectedProducts = filteredProducts.filter((p) =>
+    selectedIds.has(p.productId),
+  );
+  const allSelected =
+    filteredProducts.length > 0 &&
+    selectedProducts.length === filteredProducts.length;
+
+  const toggleSelected = (productId: bigint, checked: boolean) => {
+    const next = new Set(selectedIds);
+    if (checked) {
+      next.add(productId);
+    } else {
+      next.delete(productId);
+    }
+    setSelectedIds(next);
+  };
+
+  const toggleAllSelected = (checked: boolean) => {
+    setSelectedIds(
+      checked ? new Set(filteredProducts.map((p) => p.productId)) : new Set(),
+    );
+  };
+
+  const termNames = (kind: TaxonomyTermKind) =>
+    terms
+      .filter((term) => term.kind === kind)
+      .map((term) => term.name)
+      .sort((a, b) => a.localeCompare(b));
+
   const lowStockProducts = products.filter(
-    (item) => Number(item.stockLevel) < 10,
+    (item) => !item.archived && Number(item.stockLevel) < 10,
   );
 
   const generateBarcode = (productId?: bigint) => {
@@ -139,6 +251,15 @@ export default function InventoryModule({ userProfile }: InventoryModuleProps) {
       return;
     }
 
+    const mrp = Number(formData.mrp) || 0;
+    if (
+      mrp > 0 &&
+      (Number(formData.price) > mrp || Number(formData.wholesalePrice) > mrp)
+    ) {
+      toast.error("Selling prices cannot exceed the MRP");
+      return;
+    }
+
     try {
       const barcode = formData.barcode || generateBarcode();
 
@@ -148,6 +269,9 @@ export default function InventoryModule({ userProfile }: InventoryModuleProps) {
           name: formData.name,
           description: formData.description,
           price: BigInt(formData.price),
+          wholesalePrice: BigInt(formData.wholesalePrice || "0"),
+          mrp: BigInt(formData.mrp || "0"),
+          costPrice: BigInt(formData.costPrice || "0"),
           stockLevel: BigInt(formData.stockLevel),
           warehouse: formData.warehouse,
           rack: formData.rack,
@@ -155,6 +279,9 @@ export default function InventoryModule({ userProfile }: InventoryModuleProps) {
           size: formData.size,
           color: formData.color,
           barcode,
+          hsnCode: formData.hsnCode.trim(),
+          taxSlab: getTaxSlabRule(formData.taxSlabId),
+          attributes: fromAttributeForm(attributesForm),
         });
         toast.success("Product updated successfully!");
       } else {
@@ -162,6 +289,9 @@ export default function InventoryModule({ userProfile }: InventoryModuleProps) {
           name: formData.name,
           description: formData.description,
           price: BigInt(formData.price),
+          wholesalePrice: BigInt(formData.wholesalePrice || "0"),
+          mrp: BigInt(formData.mrp || "0"),
+          costPrice: BigInt(formData.costPrice || "0"),
           stockLevel: BigInt(formData.stockLevel),
           warehouse: formData.warehouse,
           rack: formData.rack,
@@ -169,6 +299,9 @@ export default function InventoryModule({ userProfile }: InventoryModuleProps) {
           size: formData.size,
           color: formData.color,
           barcode,
+          hsnCode: formData.hsnCode.trim(),
+          taxSlab: getTaxSlabRule(formData.taxSlabId),
+          attributes: fromAttributeForm(attributesForm),
         });
         toast.success("Product added successfully!");
       }
@@ -179,6 +312,9 @@ export default function InventoryModule({ userProfile }: InventoryModuleProps) {
         name: "",
         description: "",
         price: "",
+        wholesalePrice: "",
+        mrp: "",
+        costPrice: "",
         stockLevel: "",
         warehouse: "",
         rack: "",
@@ -186,7 +322,10 @@ export default function InventoryModule({ userProfile }: InventoryModuleProps) {
         size: "",
         color: "",
         barcode: "",
+        hsnCode: "",
+        taxSlabId: DEFAULT_TAX_SLAB_ID,
       });
+      setAttributesForm(emptyAttributeForm());
     } catch (error) {
       toast.error(
         editingProduct ? "Failed to update product" : "Failed to add product",
@@ -201,6 +340,11 @@ export default function InventoryModule({ userProfile }: InventoryModuleProps) {
       name: product.name,
       description: product.description,
       price: product.price.toString(),
+      wholesalePrice: product.wholesalePrice
+        ? product.wholesalePrice.toString()
+        : "",
+      mrp: product.mrp ? product.mrp.toString() : "",
+      costPrice: product.costPrice.toString(),
       stockLevel: product.stockLevel.toString(),
       warehouse: product.warehouse,
       rack: product.rack,
@@ -208,15 +352,51 @@ export default function InventoryModule({ userProfile }: InventoryModuleProps) {
       size: product.size,
       color: product.color,
       barcode: product.barcode,
+      hsnCode: product.hsnCode,
+      taxSlabId: findTaxSlabPresetId(product.taxSlab),
     });
+    setAttributesForm(toAttributeForm(product.attributes));
     setDialogOpen(true);
   };
 
+  // Looked up from the live list so the dialog shows stock after adjustments
+  const historyProduct =
+    historyProductId === null
+      ? null
+      : (products.find((p) => p.productId === historyProductId) ?? null);
+
   const handleGenerateBarcode = (product: Product) => {
     setSelectedProduct(product);
     setBarcodeGeneratorOpen(true);
   };
 
+  const handleArchive = async (product: Product) => {
+    try {
+      await archiveProduct.mutateAsync(product.productId);
+      toast.success(`${product.name} archived`);
+    } catch (error: any) {
+      toast.error(error?.message || "Failed to archive product");
+    }
+  };
+
+  const handleRestore = async (product: Product) => {
+    try {
+      await restoreProduct.mutateAsync(product.productId);
+      toast.success(`${product.name} restored`);
+    } catch (error: any) {
+      toast.error(error?.message || "Failed to restore product");
+    }
+  };
+
+  const handleDeleteProduct = async (product: Product) => {
+    try {
+      await deleteProduct.mutateAsync(product.productId);
+      toast.success(`${product.name} deleted`);
+    } catch (error: any) {
+      toast.error(error?.message || "Failed to delete product");
+    }
+  };
+
   const handleDeleteAllInventory = async () => {
     try {
       await deleteAllInventory.mutateAsync();
@@ -240,7 +420,11 @@ export default function InventoryModule({ userProfile }: InventoryModuleProps) {
       toast.success(
         <div className="space-y-1">
           <p className="font-semibold">{product.name}</p>
-          <p className="text-sm">Stock: {Number(product.stockLevel)} units</p>
+          <p className="text-sm">
+            Stock: {Number(product.stockLevel)} on hand,{" "}
+            {Number(product.reservedStock)} reserved,{" "}
+            {getAvailableStock(product)} available
+          </p>
           <p className="text-sm">
             Size: {product.size} | Color: {product.color}
           </p>
@@ -335,6 +519,28 @@ export default function InventoryModule({ userProfile }: InventoryModuleProps) {
             Scan Barcode
           </Button>
 
+          {canCreate && (
+            <Button
+              variant="outline"
+              onClick={() => setStyleDialogOpen(true)}
+              className="gap-2"
+            >
+              <Grid3x3 className="h-4 w-4" />
+              New Style
+            </Button>
+          )}
+
+          {canCreate && (
+            <Button
+              variant="outline"
+              onClick={() => setImportDialogOpen(true)}
+              className="gap-2"
+            >
+              <Upload className="h-4 w-4" />
+              Import
+            </Button>
+          )}
+
           {canCreate && (
             <Dialog
               open={dialogOpen}
@@ -346,6 +552,9 @@ export default function InventoryModule({ userProfile }: InventoryModuleProps) {
                     name: "",
                     description: "",
                     price: "",
+                    wholesalePrice: "",
+                    mrp: "",
+                    costPrice: "",
                     stockLevel: "",
                     warehouse: "",
                     rack: "",
@@ -353,7 +562,10 @@ export default function InventoryModule({ userProfile }: InventoryModuleProps) {
                     size: "",
                     color: "",
                     barcode: "",
+                    hsnCode: "",
+                    taxSlabId: DEFAULT_TAX_SLAB_ID,
                   });
+                  setAttributesForm(emptyAttributeForm());
                 }
               }}
             >
@@ -421,9 +633,9 @@ export default function InventoryModule({ userProfile }: InventoryModuleProps) {
                       />
                     </div>
 
-                    <div className="grid grid-cols-3 gap-4">
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                       <div className="space-y-2">
-                        <Label htmlFor="price">Price (₹) *</Label>
+                        <Label htmlFor="price">Retail Price (₹) *</Label>
                         <Input
                           id="price"
                           type="number"
@@ -435,6 +647,56 @@ export default function InventoryModule({ userProfile }: InventoryModuleProps) {
                           required
                         />
                       </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="wholesalePrice">
+                          Wholesale Price (₹)
+                        </Label>
+                        <Input
+                          id="wholesalePrice"
+                          type="number"
+                          min="0"
+                          placeholder="0"
+                          value={formData.wholesalePrice}
+                          onChange={(e) =>
+                            setFormData({
+                              ...formData,
+                              wholesalePrice: e.target.value,
+                            })
+                          }
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="mrp">MRP (₹)</Label>
+                        <Input
+                          id="mrp"
+                          type="number"
+                          min="0"
+                          placeholder="0"
+                          value={formData.mrp}
+                          onChange={(e) =>
+                            setFormData({ ...formData, mrp: e.target.value })
+                          }
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="costPrice">Cost Price (₹)</Label>
+                        <Input
+                          id="costPrice"
+                          type="number"
+                          min="0"
+                          placeholder="0"
+                          value={formData.costPrice}
+                          onChange={(e) =>
+                            setFormData({
+                              ...formData,
+                              costPrice: e.target.value,
+                            })
+                          }
+                        />
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
                       <div className="space-y-2">
                         <Label htmlFor="stockLevel">Stock Level *</Label>
                         <Input
@@ -476,6 +738,49 @@ export default function InventoryModule({ userProfile }: InventoryModuleProps) {
                       />
                     </div>
 
+                    <ProductAttributesFields
+                      idPrefix="product"
+                      value={attributesForm}
+                      onChange={setAttributesForm}
+                    />
+
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="hsnCode">HSN Code</Label>
+                        <Input
+                          id="hsnCode"
+                          placeholder="e.g., 6109"
+                          value={formData.hsnCode}
+                          onChange={(e) =>
+                            setFormData({
+                              ...formData,
+                              hsnCode: e.target.value,
+                            })
+                          }
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="taxSlab">GST Slab</Label>
+                        <Select
+                          value={formData.taxSlabId}
+                          onValueChange={(value) =>
+                            setFormData({ ...formData, taxSlabId: value })
+                          }
+                        >
+                          <SelectTrigger id="taxSlab">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {TAX_SLAB_PRESETS.map((preset) => (
+                              <SelectItem key={preset.id} value={preset.id}>
+                                {preset.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+
                     <div className="grid grid-cols-3 gap-4">
                       <div className="space-y-2">
                         <Label htmlFor="warehouse">Warehouse</Label>
@@ -559,16 +864,75 @@ export default function InventoryModule({ userProfile }: InventoryModuleProps) {
 
       <Card>
         <CardHeader>
-          <div className="flex items-center justify-between">
+          <div className="flex flex-wrap items-center justify-between gap-2">
             <CardTitle>Product Catalog</CardTitle>
-            <div className="relative w-64">
-              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-              <Input
-                placeholder="Search products..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                className="pl-9"
-              />
+            <div className="flex flex-wrap gap-2">
+              <Select
+                value={showArchived ? "archived" : "active"}
+                onValueChange={(value) => {
+                  setShowArchived(value === "archived");
+                  setSelectedIds(new Set());
+                }}
+              >
+                <SelectTrigger className="w-[150px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="active">Active</SelectItem>
+                  <SelectItem value="archived">Archived</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All categories</SelectItem>
+                  {categoryOptions(categories).map((option) => (
+                    <SelectItem
+                      key={option.categoryId.toString()}
+                      value={option.categoryId.toString()}
+                    >
+                      {option.path}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={brandFilter} onValueChange={setBrandFilter}>
+                <SelectTrigger className="w-[150px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All brands</SelectItem>
+                  {termNames(TaxonomyTermKind.brand).map((name) => (
+                    <SelectItem key={name} value={name}>
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={seasonFilter} onValueChange={setSeasonFilter}>
+                <SelectTrigger className="w-[150px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All seasons</SelectItem>
+                  {termNames(TaxonomyTermKind.season).map((name) => (
+                    <SelectItem key={name} value={name}>
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="relative w-64">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search products..."
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  className="pl-9"
+                />
+              </div>
             </div>
           </div>
         </CardHeader>
@@ -582,143 +946,327 @@ export default function InventoryModule({ userProfile }: InventoryModuleProps) {
           ) : filteredProducts.length === 0 ? (
             <div className="text-center py-12">
               <Package className="h-16 w-16 mx-auto text-muted-foreground/50 mb-4" />
-              <p className="text-lg font-medium">No products found</p>
+              <p className="text-lg font-medium">
+                {showArchived ? "No archived products" : "No products found"}
+              </p>
               <p className="text-sm text-muted-foreground mt-1">
                 {searchQuery
                   ? "Try adjusting your search"
-                  : "Add your first product to get started"}
+                  : showArchived
+                    ? "Archived products appear here and can be restored"
+                    : "Add your first product to get started"}
               </p>
             </div>
           ) : (
-            <div className="rounded-md border">
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead>Product</TableHead>
-                    <TableHead>Barcode</TableHead>
-                    <TableHead>Size</TableHead>
-                    <TableHead>Color</TableHead>
-                    <TableHead>Price</TableHead>
-                    <TableHead>Stock</TableHead>
-                    <TableHead>Location</TableHead>
-                    <TableHead>Status</TableHead>
-                    <TableHead>Actions</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {filteredProducts.map((product) => {
-                    const stockLevel = Number(product.stockLevel);
-                    const isLowStock = stockLevel < 10;
-
-                    return (
-                      <TableRow key={Number(product.productId)}>
-                        <TableCell>
-                          <div>
-                            <p className="font-medium">{product.name}</p>
-                            {product.description && (
-                              <p className="text-xs text-muted-foreground truncate max-w-[200px]">
-                                {product.description}
-                              </p>
-                            )}
-                          </div>
-                        </TableCell>
-                        <TableCell>
-                          <Badge
-                            variant="secondary"
-                            className="gap-1 font-mono text-xs"
-                          >
-                            <QrCode className="h-3 w-3" />
-                            {product.barcode}
-                          </Badge>
-                        </TableCell>
-                        <TableCell>
-                          {product.size ? (
-                            <Badge variant="outline">{product.size}</Badge>
-                          ) : (
-                            <span className="text-xs text-muted-foreground">
-                              -
-                            </span>
-                          )}
-                        </TableCell>
-                        <TableCell>
-                          {product.color ? (
-                            <Badge variant="outline">{product.color}</Badge>
-                          ) : (
-                            <span className="text-xs text-muted-foreground">
-                              -
-                            </span>
-                          )}
-                        </TableCell>
-                        <TableCell className="font-medium">
-                          ₹{Number(product.price)}
-                        </TableCell>
-                        <TableCell>
-                          <span
-                            className={
-                              isLowStock
-                                ? "text-amber-600 font-semibold"
-                                : "font-medium"
+            <div className="space-y-3">
+              {canCreate && selectedProducts.length > 0 && (
+                <div className="flex items-center justify-between rounded-md border bg-muted/50 px-4 py-2">
+                  <span className="text-sm font-medium">
+                    {selectedProducts.length} selected
+                  </span>
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setSelectedIds(new Set())}
+                    >
+                      Clear
+                    </Button>
+                    <Button size="sm" onClick={() => setBulkEditOpen(true)}>
+                      Bulk Edit
+                    </Button>
+                  </div>
+                </div>
+              )}
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      {canCreate && (
+                        <TableHead className="w-10">
+                          <Checkbox
+                            checked={
+                              allSelected
+                                ? true
+                                : selectedProducts.length > 0
+                                  ? "indeterminate"
+                                  : false
                             }
-                          >
-                            {stockLevel} units
-                          </span>
-                        </TableCell>
-                        <TableCell className="text-sm">
-                          {product.warehouse ||
-                          product.rack ||
-                          product.shelf ? (
-                            <div className="text-xs">
-                              {product.warehouse && (
-                                <div>W: {product.warehouse}</div>
+                            onCheckedChange={(checked) =>
+                              toggleAllSelected(checked === true)
+                            }
+                            aria-label="Select all products"
+                          />
+                        </TableHead>
+                      )}
+                      <TableHead>Product</TableHead>
+                      <TableHead>Barcode</TableHead>
+                      <TableHead>Size</TableHead>
+                      <TableHead>Color</TableHead>
+                      <TableHead>Price</TableHead>
+                      <TableHead>Stock</TableHead>
+                      <TableHead>Location</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredProducts.map((product) => {
+                      const stockLevel = Number(product.stockLevel);
+                      const isLowStock = stockLevel < 10;
+
+                      return (
+                        <TableRow key={Number(product.productId)}>
+                          {canCreate && (
+                            <TableCell>
+                              <Checkbox
+                                checked={selectedIds.has(product.productId)}
+                                onCheckedChange={(checked) =>
+                                  toggleSelected(
+                                    product.productId,
+                                    checked === true,
+                                  )
+                                }
+                                aria-label={`Select ${product.name}`}
+                              />
+                            </TableCell>
+                          )}
+                          <TableCell>
+                            <div>
+                              <p className="font-medium">{product.name}</p>
+                              {(product.attributes.categoryId !== undefined ||
+                                product.attributes.brand) && (
+                                <p className="text-xs text-muted-foreground">
+                                  {[
+                                    categoryPath(
+                                      categories,
+                                      product.attributes.categoryId,
+                                    ),
+                                    product.attributes.brand,
+                                  ]
+                                    .filter(Boolean)
+                                    .join(" • ")}
+                                </p>
+                              )}
+                              {product.description && (
+                                <p className="text-xs text-muted-foreground truncate max-w-[200px]">
+                                  {product.description}
+                                </p>
                               )}
-                              {product.rack && <div>R: {product.rack}</div>}
-                              {product.shelf && <div>S: {product.shelf}</div>}
                             </div>
-                          ) : (
-                            <span className="text-muted-foreground">-</span>
-                          )}
-                        </TableCell>
-                        <TableCell>
-                          {isLowStock ? (
-                            <Badge variant="destructive" className="gap-1">
-                              <AlertTriangle className="h-3 w-3" />
-                              Low Stock
+                          </TableCell>
+                          <TableCell>
+                            <Badge
+                              variant="secondary"
+                              className="gap-1 font-mono text-xs"
+                            >
+                              <QrCode className="h-3 w-3" />
+                              {product.barcode}
                             </Badge>
-                          ) : (
-                            <Badge variant="default">In Stock</Badge>
-                          )}
-                        </TableCell>
-                        <TableCell>
-                          <div className="flex gap-2">
-                            <Button
-                              size="sm"
-                              variant="outline"
-                              onClick={() => handleGenerateBarcode(product)}
-                              title="Generate Barcode"
+                          </TableCell>
+                          <TableCell>
+                            {product.size ? (
+                              <Badge variant="outline">{product.size}</Badge>
+                            ) : (
+                              <span className="text-xs text-muted-foreground">
+                                -
+                              </span>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {product.color ? (
+                              <Badge variant="outline">{product.color}</Badge>
+                            ) : (
+                              <span className="text-xs text-muted-foreground">
+                                -
+                              </span>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <span className="font-medium">
+                              ₹{Number(product.price)}
+                            </span>
+                            <div className="text-xs text-muted-foreground">
+                              {product.wholesalePrice > 0 &&
+                                `Wholesale ₹${Number(product.wholesalePrice)} • `}
+                              {product.mrp > 0 &&
+                                `MRP ₹${Number(product.mrp)} • `}
+                              Cost ₹{Number(product.costPrice)}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <span
+                              className={
+                                isLowStock
+                                  ? "text-amber-600 font-semibold"
+                                  : "font-medium"
+                              }
                             >
-                              <Barcode className="h-4 w-4" />
-                            </Button>
-                            {canCreate && (
+                              {stockLevel} on hand
+                            </span>
+                            <div className="text-xs text-muted-foreground">
+                              {Number(product.reservedStock)} reserved •{" "}
+                              {getAvailableStock(product)} available
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            {product.warehouse ||
+                            product.rack ||
+                            product.shelf ? (
+                              <div className="text-xs">
+                                {product.warehouse && (
+                                  <div>W: {product.warehouse}</div>
+                                )}
+                                {product.rack && <div>R: {product.rack}</div>}
+                                {product.shelf && <div>S: {product.shelf}</div>}
+                              </div>
+                            ) : (
+                              <span className="text-muted-foreground">-</span>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {product.archived ? (
+                              <Badge variant="outline" className="gap-1">
+                                <Archive className="h-3 w-3" />
+                                Archived
+                              </Badge>
+                            ) : isLowStock ? (
+                              <Badge variant="destructive" className="gap-1">
+                                <AlertTriangle className="h-3 w-3" />
+                                Low Stock
+                              </Badge>
+                            ) : (
+                              <Badge variant="default">In Stock</Badge>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex gap-2">
                               <Button
                                 size="sm"
                                 variant="outline"
-                                onClick={() => handleEdit(product)}
+                                onClick={() => handleGenerateBarcode(product)}
+                                title="Generate Barcode"
                               >
-                                Edit
+                                <Barcode className="h-4 w-4" />
                               </Button>
-                            )}
-                          </div>
-                        </TableCell>
-                      </TableRow>
-                    );
-                  })}
-                </TableBody>
-              </Table>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() =>
+                                  setHistoryProductId(product.productId)
+                                }
+                                title="Stock History"
+                              >
+                                <History className="h-4 w-4" />
+                              </Button>
+                              {canCreate && !product.archived && (
+                                <>
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => handleEdit(product)}
+                                  >
+                                    Edit
+                                  </Button>
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => handleArchive(product)}
+                                    disabled={archiveProduct.isPending}
+                                    title="Archive"
+                                  >
+                                    <Archive className="h-4 w-4" />
+                                  </Button>
+                                </>
+                              )}
+                              {canCreate && product.archived && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => handleRestore(product)}
+                                  disabled={restoreProduct.isPending}
+                                  title="Restore"
+                                >
+                                  <ArchiveRestore className="h-4 w-4" />
+                                </Button>
+                              )}
+                              {isAdmin && product.archived && (
+                                <AlertDialog>
+                                  <AlertDialogTrigger asChild>
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      title="Delete permanently"
+                                    >
+                                      <Trash2 className="h-4 w-4 text-destructive" />
+                                    </Button>
+                                  </AlertDialogTrigger>
+                                  <AlertDialogContent>
+                                    <AlertDialogHeader>
+                                      <AlertDialogTitle>
+                                        Delete {product.name}?
+                                      </AlertDialogTitle>
+                                      <AlertDialogDescription>
+                                        This permanently removes the product,
+                                        its opening stock and corrections.
+                                        Products that appear on invoices, orders
+                                        or purchases, or with any other stock
+                                        movement, cannot be deleted and stay
+                                        archived instead.
+                                      </AlertDialogDescription>
+                                    </AlertDialogHeader>
+                                    <AlertDialogFooter>
+                                      <AlertDialogCancel>
+                                        Cancel
+                                      </AlertDialogCancel>
+                                      <AlertDialogAction
+                                        onClick={() =>
+                                          handleDeleteProduct(product)
+                                        }
+                                        className="bg-destructive hover:bg-destructive/90"
+                                      >
+                                        Delete
+                                      </AlertDialogAction>
+                                    </AlertDialogFooter>
+                                  </AlertDialogContent>
+                                </AlertDialog>
+                              )}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
             </div>
           )}
         </CardContent>
       </Card>
 
+      <StyleStockMatrix
+        styles={styles}
+        products={products}
+        canEdit={canCreate}
+      />
+
+      <ProductStyleDialog
+        open={styleDialogOpen}
+        onOpenChange={setStyleDialogOpen}
+      />
+
+      <BulkProductEditDialog
+        open={bulkEditOpen}
+        onOpenChange={setBulkEditOpen}
+        products={selectedProducts}
+        onApplied={() => setSelectedIds(new Set())}
+      />
+
+      <ProductImportDialog
+        open={importDialogOpen}
+        onOpenChange={setImportDialogOpen}
+      />
+
       {/* Barcode Scanner Dialog */}
       <Dialog
         open={scannerOpen}
@@ -816,6 +1364,16 @@ export default function InventoryModule({ userProfile }: InventoryModuleProps) {
           onOpenChange={setBarcodeGeneratorOpen}
         />
       )}
+
+      {/* Stock History Dialog */}
+      {historyProduct && (
+        <StockHistoryDialog
+          product={historyProduct}
+          open={historyProduct !== null}
+          onOpenChange={(open) => !open && setHistoryProductId(null)}
+          canAdjust={canCreate}
+        />
+      )}
     </div>
   );
 }
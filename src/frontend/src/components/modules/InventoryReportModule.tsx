@@ -21,10 +21,18 @@ import {
 import { useEffect, useRef, useState } from "react";
 import { toast } from "sonner";
 import type { Product } from "../../backend";
-import { useListProducts } from "../../hooks/useQueries";
+import { useGetCompanySettings, useListProducts } from "../../hooks/useQueries";
+import {
+  getCompanyName,
+  getDocumentColors,
+  hexToRgb,
+} from "../../utils/companyBranding";
 
 export default function InventoryReportModule() {
   const { data: products = [], isLoading } = useListProducts();
+  const { data: companySettings } = useGetCompanySettings();
+  const companyName = getCompanyName(companySettings);
+  const brandRgb = hexToRgb(getDocumentColors(companySettings).primary);
   const [generatingBarcodes, setGeneratingBarcodes] = useState(false);
   const [barcodeCanvases, setBarcodeCanvases] = useState<
     Map<number, HTMLCanvasElement>
@@ -308,16 +316,16 @@ export default function InventoryReportModule() {
       const pageWidth = pdf.internal.pageSize.getWidth();
       const pageHeight = pdf.internal.pageSize.getHeight();
 
-      // Add Sahil Garments branding header
-      pdf.setFillColor(218, 165, 32); // Gold color
+      // Add company branding header
+      pdf.setFillColor(...brandRgb);
       pdf.rect(0, 0, pageWidth, 25, "F");
       pdf.setTextColor(0, 0, 0);
       pdf.setFontSize(20);
       pdf.setFont("helvetica", "bold");
-      pdf.text("Sahil Garments", pageWidth / 2, 12, { align: "center" });
+      pdf.text(companyName, pageWidth / 2, 12, { align: "center" });
       pdf.setFontSize(10);
       pdf.setFont("helvetica", "normal");
-      pdf.text("Wholesale & Retail Clothing Store", pageWidth / 2, 19, {
+      pdf.text(companySettings?.tagline ?? "", pageWidth / 2, 19, {
         align: "center",
       });
 
@@ -354,7 +362,7 @@ export default function InventoryReportModule() {
       pdf.setFontSize(8);
       pdf.setTextColor(100, 100, 100);
       pdf.text(
-        "© 2025 Sahil Garments. All rights reserved.",
+        `© ${new Date().getFullYear()} ${companyName}. All rights reserved.`,
         pageWidth / 2,
         pageHeight - 10,
         { align: "center" },
@@ -413,12 +421,12 @@ export default function InventoryReportModule() {
 
           // Add header on first page
           if (isFirstPage && index === 0) {
-            pdf.setFillColor(218, 165, 32);
+            pdf.setFillColor(...brandRgb);
             pdf.rect(0, 0, pageWidth, 20, "F");
             pdf.setTextColor(0, 0, 0);
             pdf.setFontSize(16);
             pdf.setFont("helvetica", "bold");
-            pdf.text("Sahil Garments - Inventory Barcodes", pageWidth / 2, 12, {
+            pdf.text(`${companyName} - Inventory Barcodes`, pageWidth / 2, 12, {
               align: "center",
             });
             currentY = 30;
@@ -461,13 +469,15 @@ export default function InventoryReportModule() {
       pdf.setFontSize(8);
       pdf.setTextColor(100, 100, 100);
       pdf.text(
-        "© 2025 Sahil Garments. All rights reserved.",
+        `© ${new Date().getFullYear()} ${companyName}. All rights reserved.`,
         pageWidth / 2,
         pageHeight - 10,
         { align: "center" },
       );
 
-      pdf.save("sahil-garments-all-barcodes.pdf");
+      pdf.save(
+        `${companyName.replace(/[^a-z0-9]/gi, "-").toLowerCase()}-all-barcodes.pdf`,
+      );
       toast.success(
         `All barcodes exported as PDF (${validProducts.length} products)`,
       );
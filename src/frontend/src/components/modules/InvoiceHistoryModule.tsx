@@ -48,6 +48,7 @@ import {
   FileSpreadsheet,
   FileText,
   Filter,
+  IndianRupee,
   Loader2,
   Search,
   Trash2,
@@ -63,11 +64,38 @@ import {
 } from "../../backend";
 import {
   useClearAllInvoices,
+  useCompanyBranding,
   useListCustomers,
   useListInvoices,
   useListProducts,
 } from "../../hooks/useQueries";
+import {
+  INVOICE_STATUS_LABELS,
+  getBalanceDue,
+  loadImage,
+} from "../../utils/invoiceDocument";
+import { buildInvoiceRegisterPdf } from "../../utils/invoicePdf";
+import { buildInvoiceWorkbook } from "../../utils/invoiceWorkbook";
 import InvoiceGenerator from "../InvoiceGenerator";
+import InvoicePayments from "../InvoicePayments";
+
+const DATE_FILTER_LABELS: Record<string, string> = {
+  all: "All Time",
+  today: "Today",
+  week: "This Week",
+  month: "This Month",
+  lastMonth: "Last Month",
+};
+
+const SORT_LABELS: Record<string, string> = {
+  invoiceNumber: "Invoice No.",
+  customerName: "Customer",
+  invoiceDate: "Invoice Date",
+  dueDate: "Due Date",
+  totalAmount: "Total Amount",
+  balanceDue: "Balance Due",
+  paymentStatus: "Status",
+};
 
 interface InvoiceHistoryModuleProps {
   userProfile: any;
@@ -83,6 +111,7 @@ export default function InvoiceHistoryModule({
     useListCustomers();
   const { data: products = [], isLoading: productsLoading } = useListProducts();
   const clearAllInvoicesMutation = useClearAllInvoices();
+  const { settings, logoUrl } = useCompanyBranding();
 
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedCustomer, setSelectedCustomer] = useState<string>("all");
@@ -93,6 +122,14 @@ export default function InvoiceHistoryModule({
   const [selectedInvoice, setSelectedInvoice] = useState<Invoice | null>(null);
   const [previewDialogOpen, setPreviewDialogOpen] = useState(false);
   const [clearDialogOpen, setClearDialogOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [paymentsInvoiceId, setPaymentsInvoiceId] = useState<bigint | null>(
+    null,
+  );
+
+  // Looked up from the live list so balances refresh after each payment
+  const paymentsInvoice =
+    invoices.find((inv) => inv.invoiceId === paymentsInvoiceId) ?? null;
 
   const canAccessInvoiceHistory = isAdmin || userProfile.appRole === "sales";
 
@@ -126,6 +163,11 @@ export default function InvoiceHistoryModule({
         variant: "secondary" as const,
         className: "bg-yellow-600 hover:bg-yellow-700 text-white",
       },
+      partiallyPaid: {
+        label: "Partially Paid",
+        variant: "secondary" as const,
+        className: "bg-blue-600 hover:bg-blue-700 text-white",
+      },
       overdue: {
         label: "Overdue",
         variant: "destructive" as const,
@@ -151,11 +193,6 @@ export default function InvoiceHistoryModule({
     return customer?.name || "Unknown Customer";
   };
 
-  const getProductName = (productId: bigint) => {
-    const product = products.find((p) => p.productId === productId);
-    return product?.name || "Unknown Product";
-  };
-
   const getDateRangeFilter = () => {
     const now = Date.now() * 1000000;
     const today = new Date();
@@ -199,7 +236,7 @@ export default function InvoiceHistoryModule({
       const query = searchQuery.toLowerCase();
       filtered = filtered.filter(
         (inv) =>
-          inv.invoiceId.toString().includes(query) ||
+          inv.invoiceNumber.toLowerCase().includes(query) ||
           getCustomerName(inv.customerId).toLowerCase().includes(query) ||
           formatCurrency(inv.total).toLowerCase().includes(query),
       );
@@ -250,6 +287,9 @@ export default function InvoiceHistoryModule({
         case "totalAmount":
           comparison = Number(a.total) - Number(b.total);
           break;
+        case "balanceDue":
+          comparison = getBalanceDue(a) - getBalanceDue(b);
+          break;
         case "paymentStatus":
           comparison = a.status.localeCompare(b.status);
           break;
@@ -306,82 +346,85 @@ export default function InvoiceHistoryModule({
     }
   };
 
-  const exportToPDF = async () => {
-    toast.info(
-      "PDF export functionality would generate a comprehensive report of filtered invoices",
+  // Describes the active filters and sort order in exported reports
+  const getFilterLines = () => {
+    const lines = [
+      `Period: ${DATE_FILTER_LABELS[dateFilter] ?? "All Time"}`,
+      `Customer: ${
+        selectedCustomer === "all"
+          ? "All Customers"
+          : getCustomerName(BigInt(selectedCustomer))
+      }`,
+      `Status: ${
+        selectedStatus === "all"
+          ? "All Statuses"
+          : INVOICE_STATUS_LABELS[selectedStatus as InvoiceStatus]
+      }`,
+    ];
+    if (searchQuery) {
+      lines.push(`Search: "${searchQuery}"`);
+    }
+    lines.push(
+      `Sorted by: ${SORT_LABELS[sortBy] ?? sortBy} (${
+        sortOrder === "asc" ? "ascending" : "descending"
+      })`,
     );
-    // In a real implementation, this would use jsPDF to create a multi-page PDF
+    return lines;
   };
 
-  const exportToCSV = () => {
+  const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    link.style.visibility = "hidden";
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const exportFileDate = () => new Date().toISOString().split("T")[0];
+
+  const exportToPDF = async () => {
+    setIsExporting(true);
     try {
-      // Create CSV header
-      const headers = [
-        "Invoice Number",
-        "Customer Name",
-        "Product",
-        "Invoice Date",
-        "Due Date",
-        "Quantity",
-        "Unit Price",
-        "Tax",
-        "Total Amount",
-        "Payment Status",
-      ];
-
-      // Create CSV rows
-      const rows = filteredAndSortedInvoices.map((inv) => [
-        `SG-${inv.invoiceId}`,
-        getCustomerName(inv.customerId),
-        getProductName(inv.productId),
-        formatDate(inv.created),
-        inv.dueDate ? formatDate(inv.dueDate) : "N/A",
-        Number(inv.quantity).toString(),
-        Number(inv.price).toString(),
-        Number(inv.tax).toString(),
-        Number(inv.total).toString(),
-        inv.status,
-      ]);
-
-      // Combine headers and rows
-      const csvContent = [
-        headers.join(","),
-        ...rows.map((row) =>
-          row
-            .map((cell) => {
-              // Escape cells that contain commas or quotes
-              const cellStr = String(cell);
-              if (
-                cellStr.includes(",") ||
-                cellStr.includes('"') ||
-                cellStr.includes("\n")
-              ) {
-                return `"${cellStr.replace(/"/g, '""')}"`;
-              }
-              return cellStr;
-            })
-            .join(","),
-        ),
-      ].join("\n");
-
-      // Create blob and download
-      const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
-      const link = document.createElement("a");
-      const url = URL.createObjectURL(blob);
-      link.setAttribute("href", url);
-      link.setAttribute(
-        "download",
-        `invoice-history-${new Date().toISOString().split("T")[0]}.csv`,
+      const logo = await loadImage(logoUrl).catch(() => null);
+      const pdf = buildInvoiceRegisterPdf(
+        filteredAndSortedInvoices,
+        customers,
+        getFilterLines(),
+        { settings, logo },
+      );
+      downloadBlob(
+        pdf.output("blob"),
+        `invoice-register-${exportFileDate()}.pdf`,
       );
-      link.style.visibility = "hidden";
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
+      toast.success("Invoice register exported to PDF successfully!");
+    } catch (error) {
+      console.error("PDF export error:", error);
+      toast.error("Failed to export to PDF");
+    } finally {
+      setIsExporting(false);
+    }
+  };
 
-      toast.success("Invoice history exported to CSV successfully!");
+  const exportToExcel = async () => {
+    setIsExporting(true);
+    try {
+      const workbook = await buildInvoiceWorkbook({
+        invoices: filteredAndSortedInvoices,
+        customers,
+        products,
+        settings,
+      });
+      downloadBlob(workbook, `invoice-history-${exportFileDate()}.xlsx`);
+      toast.success("Invoice history exported to Excel successfully!");
     } catch (error) {
-      console.error("CSV export error:", error);
-      toast.error("Failed to export to CSV");
+      console.error("Excel export error:", error);
+      toast.error("Failed to export to Excel");
+    } finally {
+      setIsExporting(false);
     }
   };
 
@@ -477,13 +520,23 @@ export default function InvoiceHistoryModule({
               </AlertDialogContent>
             </AlertDialog>
           )}
-          <Button onClick={exportToPDF} variant="outline" size="sm">
+          <Button
+            onClick={exportToPDF}
+            variant="outline"
+            size="sm"
+            disabled={isExporting}
+          >
             <FileText className="mr-2 h-4 w-4" />
             Export PDF
           </Button>
-          <Button onClick={exportToCSV} variant="outline" size="sm">
+          <Button
+            onClick={exportToExcel}
+            variant="outline"
+            size="sm"
+            disabled={isExporting}
+          >
             <FileSpreadsheet className="mr-2 h-4 w-4" />
-            Export CSV
+            Export Excel
           </Button>
         </div>
       </div>
@@ -569,6 +622,7 @@ export default function InvoiceHistoryModule({
               <SelectContent>
                 <SelectItem value="all">All Statuses</SelectItem>
                 <SelectItem value="paid">Paid</SelectItem>
+                <SelectItem value="partiallyPaid">Partially Paid</SelectItem>
                 <SelectItem value="sent">Unpaid</SelectItem>
                 <SelectItem value="overdue">Overdue</SelectItem>
                 <SelectItem value="draft">Draft</SelectItem>
@@ -665,6 +719,14 @@ export default function InvoiceHistoryModule({
                     {sortBy === "totalAmount" &&
                       (sortOrder === "asc" ? "↑" : "↓")}
                   </TableHead>
+                  <TableHead
+                    className="cursor-pointer text-right"
+                    onClick={() => handleSort("balanceDue")}
+                  >
+                    Balance Due{" "}
+                    {sortBy === "balanceDue" &&
+                      (sortOrder === "asc" ? "↑" : "↓")}
+                  </TableHead>
                   <TableHead
                     className="cursor-pointer"
                     onClick={() => handleSort("paymentStatus")}
@@ -680,7 +742,7 @@ export default function InvoiceHistoryModule({
                 {filteredAndSortedInvoices.length === 0 ? (
                   <TableRow>
                     <TableCell
-                      colSpan={7}
+                      colSpan={8}
                       className="text-center py-8 text-muted-foreground"
                     >
                       No invoices found matching your filters
@@ -693,7 +755,7 @@ export default function InvoiceHistoryModule({
                       className="hover:bg-muted/50"
                     >
                       <TableCell className="font-medium">
-                        SG-{invoice.invoiceId.toString()}
+                        {invoice.invoiceNumber}
                       </TableCell>
                       <TableCell>
                         {getCustomerName(invoice.customerId)}
@@ -705,6 +767,9 @@ export default function InvoiceHistoryModule({
                       <TableCell className="text-right font-medium">
                         {formatCurrency(invoice.total)}
                       </TableCell>
+                      <TableCell className="text-right">
+                        {formatCurrency(getBalanceDue(invoice))}
+                      </TableCell>
                       <TableCell>{getStatusBadge(invoice.status)}</TableCell>
                       <TableCell className="text-right">
                         <Button
@@ -715,6 +780,16 @@ export default function InvoiceHistoryModule({
                           <Eye className="h-4 w-4 mr-1" />
                           Preview
                         </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() =>
+                            setPaymentsInvoiceId(invoice.invoiceId)
+                          }
+                        >
+                          <IndianRupee className="h-4 w-4 mr-1" />
+                          Payments
+                        </Button>
                       </TableCell>
                     </TableRow>
                   ))
@@ -730,7 +805,7 @@ export default function InvoiceHistoryModule({
         <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>
-              Invoice Preview - SG-{selectedInvoice?.invoiceId.toString()}
+              Invoice Preview - {selectedInvoice?.invoiceNumber}
             </DialogTitle>
             <DialogDescription>
               Preview and download invoice for{" "}
@@ -756,6 +831,27 @@ export default function InvoiceHistoryModule({
             })()}
         </DialogContent>
       </Dialog>
+
+      {/* Payments Dialog */}
+      <Dialog
+        open={paymentsInvoice !== null}
+        onOpenChange={(open) => {
+          if (!open) setPaymentsInvoiceId(null);
+        }}
+      >
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              Payments - {paymentsInvoice?.invoiceNumber}
+            </DialogTitle>
+            <DialogDescription>
+              Payment history and balance for{" "}
+              {paymentsInvoice && getCustomerName(paymentsInvoice.customerId)}
+            </DialogDescription>
+          </DialogHeader>
+          {paymentsInvoice && <InvoicePayments invoice={paymentsInvoice} />}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
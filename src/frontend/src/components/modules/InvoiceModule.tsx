@@ -11,19 +11,27 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
-import { AlertCircle, Loader2, Plus, Receipt } from "lucide-react";
+import { AlertCircle, Grid3x3, Loader2, Plus, Receipt } from "lucide-react";
 import { useState } from "react";
 import { toast } from "sonner";
 import { T as InvoiceStatus, type UserProfile } from "../../backend";
 import {
   useCreateInvoice,
+  useGetCompanySettings,
   useGetInvoice,
   useListCustomers,
   useListProducts,
   useStockAdjustInvoice,
 } from "../../hooks/useQueries";
+import { calculateLineTax, getStateLabel, isInterState } from "../../utils/gst";
+import {
+  PAYMENT_TERMS_OPTIONS,
+  formatPaymentTerms,
+} from "../../utils/invoiceDocument";
+import { getAvailableStock } from "../../utils/stock";
 import { parseStockError } from "../../utils/stockErrors";
 import InvoiceGenerator from "../InvoiceGenerator";
+import VariantGridPicker, { type VariantPick } from "../VariantGridPicker";
 
 interface InvoiceModuleProps {
   userProfile: UserProfile;
@@ -33,6 +41,7 @@ interface InvoiceItem {
   productId: bigint;
   quantity: number;
   price: number;
+  discount: number;
 }
 
 export default function InvoiceModule({
@@ -41,20 +50,24 @@ export default function InvoiceModule({
   const { data: customers = [], isLoading: customersLoading } =
     useListCustomers();
   const { data: products = [], isLoading: productsLoading } = useListProducts();
+  const activeProducts = products.filter((p) => !p.archived);
   const createInvoice = useCreateInvoice();
   const stockAdjustInvoice = useStockAdjustInvoice();
+  const { data: companySettings } = useGetCompanySettings();
+  const companyStateCode = companySettings?.stateCode ?? "";
 
   const [selectedCustomerId, setSelectedCustomerId] = useState<string>("");
   const [invoiceItems, setInvoiceItems] = useState<InvoiceItem[]>([]);
   const [currentProductId, setCurrentProductId] = useState<string>("");
   const [currentQuantity, setCurrentQuantity] = useState<string>("");
+  const [currentDiscount, setCurrentDiscount] = useState<string>("");
+  const [gridPickerOpen, setGridPickerOpen] = useState(false);
+  const [paymentTerms, setPaymentTerms] = useState<string>("default");
   const [showPreview, setShowPreview] = useState(false);
   const [createdInvoiceId, setCreatedInvoiceId] = useState<bigint | null>(null);
 
   const { data: createdInvoice } = useGetInvoice(createdInvoiceId);
 
-  const GST_RATE = 0.18;
-
   const handleAddItem = () => {
     if (!currentProductId || !currentQuantity) {
       toast.error("Please select a product and enter quantity");
@@ -75,8 +88,25 @@ export default function InvoiceModule({
       return;
     }
 
-    if (quantity > Number(product.stockLevel)) {
-      toast.error(`Insufficient stock. Available: ${product.stockLevel}`);
+    const alreadyAdded = invoiceItems
+      .filter((item) => item.productId === product.productId)
+      .reduce((sum, item) => sum + item.quantity, 0);
+    const available = getAvailableStock(product);
+    if (quantity + alreadyAdded > available) {
+      toast.error(
+        `Insufficient stock. Available: ${Math.max(0, available - alreadyAdded)}`,
+      );
+      return;
+    }
+
+    const price = Number(product.price);
+    const discount = currentDiscount ? Number.parseInt(currentDiscount) : 0;
+    if (Number.isNaN(discount) || discount < 0) {
+      toast.error("Discount must be a positive amount");
+      return;
+    }
+    if (discount > quantity * price) {
+      toast.error("Discount cannot exceed the line amount");
       return;
     }
 
@@ -85,26 +115,83 @@ export default function InvoiceModule({
       {
         productId: product.productId,
         quantity,
-        price: Number(product.price),
+        price,
+        discount,
       },
     ]);
 
     setCurrentProductId("");
     setCurrentQuantity("");
+    setCurrentDiscount("");
+  };
+
+  const handleAddGridPicks = (picks: VariantPick[]) => {
+    for (const { product, quantity } of picks) {
+      const alreadyAdded = invoiceItems
+        .filter((item) => item.productId === product.productId)
+        .reduce((sum, item) => sum + item.quantity, 0);
+      const available = getAvailableStock(product);
+      if (quantity + alreadyAdded > available) {
+        toast.error(
+          `Insufficient stock for ${product.name}. Available: ${Math.max(0, available - alreadyAdded)}`,
+        );
+        return;
+      }
+    }
+
+    setInvoiceItems([
+      ...invoiceItems,
+      ...picks.map(({ product, quantity }) => ({
+        productId: product.productId,
+        quantity,
+        price: Number(product.price),
+        discount: 0,
+      })),
+    ]);
   };
 
   const handleRemoveItem = (index: number) => {
     setInvoiceItems(invoiceItems.filter((_, i) => i !== index));
   };
 
+  const lineTaxableValue = (item: InvoiceItem) =>
+    item.price * item.quantity - item.discount;
+
+  const selectedCustomer = customers.find(
+    (c) => c.id.toString() === selectedCustomerId,
+  );
+
+  const interState = isInterState(
+    companyStateCode,
+    selectedCustomer?.state ?? "",
+  );
+
+  // Preview only; the backend recomputes tax from the product slab on save.
+  const lineTax = (item: InvoiceItem) => {
+    const product = products.find((p) => p.productId === item.productId);
+    if (!product) {
+      return { taxRate: 0, cgst: 0, sgst: 0, igst: 0, tax: 0 };
+    }
+    return calculateLineTax(
+      lineTaxableValue(item),
+      item.quantity,
+      product.taxSlab,
+      interState,
+    );
+  };
+
   const calculateTotals = () => {
     const subtotal = invoiceItems.reduce(
-      (sum, item) => sum + item.price * item.quantity,
+      (sum, item) => sum + lineTaxableValue(item),
       0,
     );
-    const tax = subtotal * GST_RATE;
+    const taxes = invoiceItems.map(lineTax);
+    const cgst = taxes.reduce((sum, t) => sum + t.cgst, 0);
+    const sgst = taxes.reduce((sum, t) => sum + t.sgst, 0);
+    const igst = taxes.reduce((sum, t) => sum + t.igst, 0);
+    const tax = cgst + sgst + igst;
     const total = subtotal + tax;
-    return { subtotal, tax, total };
+    return { subtotal, cgst, sgst, igst, tax, total };
   };
 
   const handleCreateInvoice = async () => {
@@ -119,17 +206,17 @@ export default function InvoiceModule({
     }
 
     try {
-      const { subtotal: _subtotal, tax, total } = calculateTotals();
-
-      const firstItem = invoiceItems[0];
       const invoiceId = await createInvoice.mutateAsync({
         customerId: BigInt(selectedCustomerId),
-        productId: firstItem.productId,
-        quantity: BigInt(firstItem.quantity),
-        price: BigInt(firstItem.price),
-        tax: BigInt(Math.round(tax)),
-        total: BigInt(Math.round(total)),
+        lines: invoiceItems.map((item) => ({
+          productId: item.productId,
+          quantity: BigInt(item.quantity),
+          unitPrice: BigInt(item.price),
+          discount: BigInt(item.discount),
+        })),
         status: InvoiceStatus.sent,
+        paymentTermsDays:
+          paymentTerms === "default" ? null : BigInt(paymentTerms),
       });
 
       setCreatedInvoiceId(invoiceId);
@@ -154,15 +241,13 @@ export default function InvoiceModule({
     setInvoiceItems([]);
     setCurrentProductId("");
     setCurrentQuantity("");
+    setCurrentDiscount("");
+    setPaymentTerms("default");
     setShowPreview(false);
     setCreatedInvoiceId(null);
   };
 
-  const { subtotal, tax, total } = calculateTotals();
-
-  const selectedCustomer = customers.find(
-    (c) => c.id.toString() === selectedCustomerId,
-  );
+  const { subtotal, cgst, sgst, igst, total } = calculateTotals();
 
   if (showPreview && createdInvoice && selectedCustomer) {
     return (
@@ -259,6 +344,33 @@ export default function InvoiceModule({
                   <span className="font-semibold">Address:</span>{" "}
                   {selectedCustomer.address}
                 </p>
+                <p className="text-sm">
+                  <span className="font-semibold">Place of Supply:</span>{" "}
+                  {getStateLabel(selectedCustomer.state)} (
+                  {interState ? "IGST" : "CGST + SGST"})
+                </p>
+              </div>
+            )}
+
+            {selectedCustomer && (
+              <div className="space-y-2">
+                <Label htmlFor="paymentTerms">Payment Terms</Label>
+                <Select value={paymentTerms} onValueChange={setPaymentTerms}>
+                  <SelectTrigger id="paymentTerms">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="default">
+                      Customer default (
+                      {formatPaymentTerms(selectedCustomer.paymentTermsDays)})
+                    </SelectItem>
+                    {PAYMENT_TERMS_OPTIONS.map((days) => (
+                      <SelectItem key={days} value={days.toString()}>
+                        {formatPaymentTerms(days)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
             )}
           </CardContent>
@@ -283,13 +395,13 @@ export default function InvoiceModule({
                       <SelectValue placeholder="Choose a product" />
                     </SelectTrigger>
                     <SelectContent>
-                      {products.map((product) => (
+                      {activeProducts.map((product) => (
                         <SelectItem
                           key={product.productId.toString()}
                           value={product.productId.toString()}
                         >
-                          {product.name} - ₹{Number(product.price)} (Stock:{" "}
-                          {Number(product.stockLevel)})
+                          {product.name} - ₹{Number(product.price)} (Available:{" "}
+                          {getAvailableStock(product)})
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -308,10 +420,30 @@ export default function InvoiceModule({
                   />
                 </div>
 
+                <div className="space-y-2">
+                  <Label htmlFor="discount">Discount (₹, optional)</Label>
+                  <Input
+                    id="discount"
+                    type="number"
+                    min="0"
+                    value={currentDiscount}
+                    onChange={(e) => setCurrentDiscount(e.target.value)}
+                    placeholder="Enter line discount"
+                  />
+                </div>
+
                 <Button onClick={handleAddItem} className="w-full gap-2">
                   <Plus className="h-4 w-4" />
                   Add Item
                 </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => setGridPickerOpen(true)}
+                  className="w-full gap-2"
+                >
+                  <Grid3x3 className="h-4 w-4" />
+                  Add from Size Grid
+                </Button>
               </>
             )}
           </CardContent>
@@ -346,8 +478,9 @@ export default function InvoiceModule({
                           {product?.name || "Unknown Product"}
                         </p>
                         <p className="text-sm text-muted-foreground">
-                          Quantity: {item.quantity} × ₹{item.price} = ₹
-                          {item.quantity * item.price}
+                          Quantity: {item.quantity} × ₹{item.price}
+                          {item.discount > 0 && ` − ₹${item.discount}`} = ₹
+                          {lineTaxableValue(item)}
                         </p>
                       </div>
                       <Button
@@ -367,10 +500,23 @@ export default function InvoiceModule({
                   <span>Subtotal:</span>
                   <span>₹{subtotal.toFixed(2)}</span>
                 </div>
-                <div className="flex justify-between text-sm">
-                  <span>GST (18%):</span>
-                  <span>₹{tax.toFixed(2)}</span>
-                </div>
+                {interState ? (
+                  <div className="flex justify-between text-sm">
+                    <span>IGST:</span>
+                    <span>₹{igst.toFixed(2)}</span>
+                  </div>
+                ) : (
+                  <>
+                    <div className="flex justify-between text-sm">
+                      <span>CGST:</span>
+                      <span>₹{cgst.toFixed(2)}</span>
+                    </div>
+                    <div className="flex justify-between text-sm">
+                      <span>SGST:</span>
+                      <span>₹{sgst.toFixed(2)}</span>
+                    </div>
+                  </>
+                )}
                 <div className="flex justify-between text-lg font-bold">
                   <span>Total:</span>
                   <span>₹{total.toFixed(2)}</span>
@@ -400,6 +546,13 @@ export default function InvoiceModule({
           )}
         </CardContent>
       </Card>
+
+      <VariantGridPicker
+        open={gridPickerOpen}
+        onOpenChange={setGridPickerOpen}
+        products={activeProducts}
+        onAdd={handleAddGridPicks}
+      />
     </div>
   );
 }
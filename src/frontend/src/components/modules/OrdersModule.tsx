@@ -13,6 +13,7 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Dialog,
   DialogContent,
@@ -43,100 +44,273 @@ import {
 import {
   AlertTriangle,
   CheckCircle,
+  Download,
+  FileText,
   Filter,
+  Grid3x3,
   Loader2,
   Package,
+  Pencil,
+  PlayCircle,
   Plus,
   Search,
   ShoppingCart,
   Trash2,
+  Truck,
+  XCircle,
 } from "lucide-react";
 import { useState } from "react";
 import { toast } from "sonner";
-import type { UserProfile } from "../../backend";
 import {
+  type Dispatch,
+  DispatchStatus,
+  type OrderRecord,
+  OrderStatus,
+  type UserProfile,
+} from "../../backend";
+import {
+  useCompanyBranding,
+  useCreateDispatch,
+  useCreateInvoiceFromOrders,
   useCreateOrder,
   useDeleteAllOrders,
   useListCustomers,
+  useListDispatches,
+  useListInvoices,
   useListOrders,
   useListProducts,
+  useUpdateDispatchDetails,
+  useUpdateDispatchStatus,
+  useUpdateOrderStatus,
 } from "../../hooks/useQueries";
+import { loadImage } from "../../utils/invoiceDocument";
+import { buildChallanPdf } from "../../utils/invoicePdf";
+import { getAvailableStock } from "../../utils/stock";
 import { parseStockError } from "../../utils/stockErrors";
+import VariantGridPicker, { type VariantPick } from "../VariantGridPicker";
 
 interface OrdersModuleProps {
   userProfile: UserProfile;
 }
 
+interface OrderLineState {
+  productId: string;
+  quantity: string;
+}
+
+const emptyLine = (): OrderLineState => ({ productId: "", quantity: "" });
+
+interface DispatchFormState {
+  transporterName: string;
+  lrNumber: string;
+  vehicleNumber: string;
+  packageCount: string;
+  dispatchDate: string;
+}
+
+// yyyy-mm-dd in local time, as date inputs expect
+const toInputDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+const emptyDispatchForm = (): DispatchFormState => ({
+  transporterName: "",
+  lrNumber: "",
+  vehicleNumber: "",
+  packageCount: "",
+  dispatchDate: toInputDate(new Date()),
+});
+
+const DISPATCH_STATUS_CONFIG: Record<
+  DispatchStatus,
+  { label: string; variant: "default" | "secondary" | "outline" }
+> = {
+  [DispatchStatus.dispatched]: { label: "Dispatched", variant: "outline" },
+  [DispatchStatus.inTransit]: { label: "In Transit", variant: "secondary" },
+  [DispatchStatus.delivered]: { label: "Delivered", variant: "default" },
+};
+
+// Next steps offered for each status; mirrors the transitions the backend allows
+const STATUS_ACTIONS: Record<
+  OrderStatus,
+  { status: OrderStatus; label: string }[]
+> = {
+  [OrderStatus.pending]: [
+    { status: OrderStatus.processing, label: "Start Processing" },
+    { status: OrderStatus.cancelled, label: "Cancel" },
+  ],
+  [OrderStatus.processing]: [
+    { status: OrderStatus.fulfilled, label: "Mark Fulfilled" },
+    { status: OrderStatus.cancelled, label: "Cancel" },
+  ],
+  [OrderStatus.fulfilled]: [],
+  [OrderStatus.cancelled]: [],
+};
+
 export default function OrdersModule({ userProfile }: OrdersModuleProps) {
   const { data: orders = [], isLoading } = useListOrders();
   const { data: customers = [] } = useListCustomers();
   const { data: products = [] } = useListProducts();
+  const activeProducts = products.filter((p) => !p.archived);
+  const { data: invoices = [] } = useListInvoices();
+  const { data: dispatches = [] } = useListDispatches();
+  const { settings, logoUrl } = useCompanyBranding();
   const createOrder = useCreateOrder();
+  const updateOrderStatus = useUpdateOrderStatus();
+  const createInvoiceFromOrders = useCreateInvoiceFromOrders();
   const deleteAllOrders = useDeleteAllOrders();
+  const createDispatch = useCreateDispatch();
+  const updateDispatchDetails = useUpdateDispatchDetails();
+  const updateDispatchStatus = useUpdateDispatchStatus();
 
   const [dialogOpen, setDialogOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState<string>("all");
-  const [formData, setFormData] = useState({
-    customerId: "",
-    productId: "",
-    quantity: "",
-  });
+  const [customerId, setCustomerId] = useState("");
+  const [lines, setLines] = useState<OrderLineState[]>([emptyLine()]);
+  const [gridPickerOpen, setGridPickerOpen] = useState(false);
+  const [updatingOrderId, setUpdatingOrderId] = useState<bigint | null>(null);
+  const [selectedOrderIds, setSelectedOrderIds] = useState<bigint[]>([]);
+  // Order being dispatched, with the dispatch being edited if it already exists
+  const [dispatchTarget, setDispatchTarget] = useState<{
+    order: OrderRecord;
+    dispatch: Dispatch | null;
+  } | null>(null);
+  const [dispatchForm, setDispatchForm] =
+    useState<DispatchFormState>(emptyDispatchForm);
+  const [updatingDispatchId, setUpdatingDispatchId] = useState<bigint | null>(
+    null,
+  );
 
   const isAdmin = userProfile.appRole === "admin";
   const canCreate = isAdmin || userProfile.appRole === "sales";
   const canAccessFinancial = isAdmin || userProfile.appRole === "accountant";
 
-  const filteredOrders = orders.filter((order) => {
-    const matchesSearch =
-      order.id.toString().includes(searchQuery) ||
-      order.customerId.toString().includes(searchQuery) ||
-      order.productId.toString().includes(searchQuery);
+  const getCustomerName = (id: bigint) =>
+    customers.find((c) => c.id === id)?.name || `Customer #${Number(id)}`;
+
+  const getProduct = (productId: bigint | string) =>
+    products.find((p) => p.productId.toString() === productId.toString());
+
+  const filteredOrders = orders
+    .filter((order) => {
+      const query = searchQuery.toLowerCase();
+      const matchesSearch =
+        order.id.toString().includes(query) ||
+        getCustomerName(order.customerId).toLowerCase().includes(query) ||
+        order.lines.some((line) =>
+          (getProduct(line.productId)?.name ?? "")
+            .toLowerCase()
+            .includes(query),
+        );
 
-    const matchesStatus =
-      statusFilter === "all" || order.status === statusFilter;
+      const matchesStatus =
+        statusFilter === "all" || order.status === statusFilter;
 
-    return matchesSearch && matchesStatus;
-  });
+      return matchesSearch && matchesStatus;
+    })
+    .sort((a, b) => Number(b.created) - Number(a.created));
 
-  const selectedProduct = products.find(
-    (p) => p.productId === BigInt(formData.productId || 0),
+  // Orders picked for invoicing must be fulfilled, not yet billed, and all for
+  // the customer of the first order picked
+  const selectedOrders = orders.filter((order) =>
+    selectedOrderIds.includes(order.id),
   );
-  const availableStock = selectedProduct
-    ? Number(selectedProduct.stockLevel)
-    : 0;
-  const requestedQuantity = Number(formData.quantity) || 0;
-  const hasInsufficientStock = requestedQuantity > availableStock;
+  const selectionCustomerId = selectedOrders[0]?.customerId;
+
+  const canSelectForInvoice = (order: OrderRecord) =>
+    order.status === OrderStatus.fulfilled &&
+    order.invoiceId === undefined &&
+    (selectionCustomerId === undefined ||
+      order.customerId === selectionCustomerId);
+
+  const toggleOrderSelection = (orderId: bigint, checked: boolean) => {
+    setSelectedOrderIds((prev) =>
+      checked ? [...prev, orderId] : prev.filter((id) => id !== orderId),
+    );
+  };
+
+  const getInvoiceNumber = (invoiceId: bigint) =>
+    invoices.find((inv) => inv.invoiceId === invoiceId)?.invoiceNumber ||
+    `#${Number(invoiceId)}`;
+
+  // Requested quantity per product across all lines of the new order
+  const requestedByProduct = lines.reduce((acc, line) => {
+    const quantity = Number(line.quantity) || 0;
+    if (line.productId && quantity > 0) {
+      acc.set(line.productId, (acc.get(line.productId) ?? 0) + quantity);
+    }
+    return acc;
+  }, new Map<string, number>());
+
+  const shortLines = Array.from(requestedByProduct.entries())
+    .map(([productId, requested]) => ({
+      product: getProduct(productId),
+      requested,
+    }))
+    .filter(
+      ({ product, requested }) =>
+        product && requested > getAvailableStock(product),
+    );
+  const hasInsufficientStock = shortLines.length > 0;
+
+  const orderTotal = lines.reduce((sum, line) => {
+    const product = line.productId ? getProduct(line.productId) : undefined;
+    return product
+      ? sum + Number(product.price) * (Number(line.quantity) || 0)
+      : sum;
+  }, 0);
+
+  const updateLine = (index: number, update: Partial<OrderLineState>) => {
+    setLines((prev) =>
+      prev.map((line, i) => (i === index ? { ...line, ...update } : line)),
+    );
+  };
+
+  // Grid picks replace the blank placeholder line rather than follow it
+  const addGridPicks = (picks: VariantPick[]) => {
+    setLines((prev) => [
+      ...prev.filter((line) => line.productId),
+      ...picks.map(({ product, quantity }) => ({
+        productId: product.productId.toString(),
+        quantity: quantity.toString(),
+      })),
+    ]);
+  };
+
+  const resetForm = () => {
+    setCustomerId("");
+    setLines([emptyLine()]);
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!formData.customerId || !formData.productId || !formData.quantity) {
-      toast.error("Please fill in all fields");
+    const filledLines = lines.filter((line) => line.productId);
+    if (!customerId || filledLines.length === 0) {
+      toast.error("Please select a customer and at least one product");
+      return;
+    }
+    if (filledLines.some((line) => !(Number(line.quantity) > 0))) {
+      toast.error("Quantity must be greater than 0");
       return;
     }
 
     if (hasInsufficientStock) {
+      const { product } = shortLines[0];
       toast.error(
-        `Insufficient stock! Only ${availableStock} units available.`,
+        `Insufficient stock! Only ${product ? getAvailableStock(product) : 0} units of ${product?.name} available.`,
       );
       return;
     }
 
     try {
-      const product = products.find(
-        (p) => p.productId === BigInt(formData.productId),
-      );
-      const totalPrice = product
-        ? product.price * BigInt(formData.quantity)
-        : BigInt(0);
-
       await createOrder.mutateAsync({
-        customerId: BigInt(formData.customerId),
-        productId: BigInt(formData.productId),
-        quantity: BigInt(formData.quantity),
-        status: "confirmed",
-        totalPrice,
+        customerId: BigInt(customerId),
+        lines: filledLines.map((line) => ({
+          productId: BigInt(line.productId),
+          quantity: BigInt(line.quantity),
+          unitPrice: getProduct(line.productId)?.price ?? BigInt(0),
+        })),
       });
 
       toast.success(
@@ -146,15 +320,13 @@ export default function OrdersModule({ userProfile }: OrdersModuleProps) {
             Order placed successfully!
           </div>
           <div className="text-xs text-muted-foreground">
-            • Order created and confirmed
-            <br />• Inventory automatically updated
-            <br />• Dashboard updated in real-time
+            The order is pending and can now be moved to processing.
           </div>
         </div>,
       );
 
       setDialogOpen(false);
-      setFormData({ customerId: "", productId: "", quantity: "" });
+      resetForm();
     } catch (error: any) {
       const stockError = parseStockError(error);
 
@@ -172,6 +344,155 @@ export default function OrdersModule({ userProfile }: OrdersModuleProps) {
     }
   };
 
+  const handleStatusChange = async (
+    order: OrderRecord,
+    status: OrderStatus,
+  ) => {
+    setUpdatingOrderId(order.id);
+    try {
+      await updateOrderStatus.mutateAsync({ orderId: order.id, status });
+      toast.success(`Order #${Number(order.id)} is now ${status}`);
+    } catch (error: any) {
+      console.error("Update order status error:", error);
+      toast.error(error?.message || "Failed to update order status");
+    } finally {
+      setUpdatingOrderId(null);
+    }
+  };
+
+  const handleGenerateInvoice = async () => {
+    if (selectedOrders.length === 0) return;
+    try {
+      await createInvoiceFromOrders.mutateAsync(
+        selectedOrders.map((order) => order.id),
+      );
+      toast.success(
+        `Invoice generated for ${selectedOrders.length} order${selectedOrders.length === 1 ? "" : "s"} and stock adjusted`,
+      );
+      setSelectedOrderIds([]);
+    } catch (error: any) {
+      console.error("Generate invoice error:", error);
+      toast.error(
+        parseStockError(error).message || "Failed to generate invoice",
+      );
+    }
+  };
+
+  const getDispatch = (orderId: bigint) =>
+    dispatches.find((dispatch) => dispatch.orderId === orderId);
+
+  const canDispatch = (order: OrderRecord) =>
+    order.status === OrderStatus.processing ||
+    order.status === OrderStatus.fulfilled;
+
+  const openDispatchDialog = (
+    order: OrderRecord,
+    dispatch: Dispatch | null,
+  ) => {
+    setDispatchTarget({ order, dispatch });
+    setDispatchForm(
+      dispatch
+        ? {
+            transporterName: dispatch.transporterName,
+            lrNumber: dispatch.lrNumber,
+            vehicleNumber: dispatch.vehicleNumber,
+            packageCount: dispatch.packageCount.toString(),
+            dispatchDate: toInputDate(
+              new Date(Number(dispatch.dispatchDate) / 1_000_000),
+            ),
+          }
+        : emptyDispatchForm(),
+    );
+  };
+
+  const handleDispatchSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!dispatchTarget) return;
+
+    const packageCount = Number(dispatchForm.packageCount);
+    if (!Number.isInteger(packageCount) || packageCount <= 0) {
+      toast.error("Number of bales/cartons must be greater than 0");
+      return;
+    }
+    const dispatchDate = new Date(`${dispatchForm.dispatchDate}T00:00:00`);
+    if (Number.isNaN(dispatchDate.getTime())) {
+      toast.error("Please enter a valid dispatch date");
+      return;
+    }
+
+    const input = {
+      transporterName: dispatchForm.transporterName.trim(),
+      lrNumber: dispatchForm.lrNumber.trim(),
+      vehicleNumber: dispatchForm.vehicleNumber.trim().toUpperCase(),
+      packageCount: BigInt(packageCount),
+      dispatchDate: BigInt(dispatchDate.getTime()) * BigInt(1_000_000),
+    };
+
+    try {
+      if (dispatchTarget.dispatch) {
+        await updateDispatchDetails.mutateAsync({
+          dispatchId: dispatchTarget.dispatch.dispatchId,
+          input,
+        });
+        toast.success("Dispatch details updated");
+      } else {
+        await createDispatch.mutateAsync({
+          orderId: dispatchTarget.order.id,
+          input,
+        });
+        toast.success(`Order #${Number(dispatchTarget.order.id)} dispatched`);
+      }
+      setDispatchTarget(null);
+    } catch (error: any) {
+      console.error("Dispatch error:", error);
+      toast.error(error?.message || "Failed to save dispatch");
+    }
+  };
+
+  const handleDispatchStatusChange = async (
+    dispatch: Dispatch,
+    status: DispatchStatus,
+  ) => {
+    setUpdatingDispatchId(dispatch.dispatchId);
+    try {
+      await updateDispatchStatus.mutateAsync({
+        dispatchId: dispatch.dispatchId,
+        status,
+        deliveryDate: null,
+      });
+      toast.success(
+        `${dispatch.challanNumber} marked ${DISPATCH_STATUS_CONFIG[status].label.toLowerCase()}`,
+      );
+    } catch (error: any) {
+      console.error("Update dispatch status error:", error);
+      toast.error(error?.message || "Failed to update dispatch");
+    } finally {
+      setUpdatingDispatchId(null);
+    }
+  };
+
+  const handleDownloadChallan = async (
+    dispatch: Dispatch,
+    order: OrderRecord,
+  ) => {
+    const customer = customers.find((c) => c.id === order.customerId);
+    if (!customer) {
+      toast.error("Customer not found");
+      return;
+    }
+    try {
+      const logo = await loadImage(logoUrl).catch(() => null);
+      const pdf = buildChallanPdf(dispatch, order, customer, products, {
+        settings,
+        logo,
+      });
+      pdf.save(`Challan-${dispatch.challanNumber.replace(/\//g, "-")}.pdf`);
+    } catch (error) {
+      console.error("Challan PDF error:", error);
+      toast.error("Failed to generate delivery challan");
+    }
+  };
+
   const handleDeleteAllOrders = async () => {
     try {
       await deleteAllOrders.mutateAsync();
@@ -200,20 +521,108 @@ export default function OrdersModule({ userProfile }: OrdersModuleProps) {
     }).format(Number(amount));
   };
 
-  const getStatusVariant = (status: string) => {
+  const getStatusVariant = (status: OrderStatus) => {
     switch (status) {
-      case "fulfilled":
-      case "confirmed":
+      case OrderStatus.fulfilled:
         return "default";
-      case "cancelled":
+      case OrderStatus.cancelled:
         return "destructive";
-      case "processing":
+      case OrderStatus.processing:
         return "secondary";
       default:
         return "outline";
     }
   };
 
+  // When the order entered its current status
+  const getStatusChangedAt = (order: OrderRecord) =>
+    order.statusHistory[order.statusHistory.length - 1]?.changedAt ??
+    order.modified;
+
+  const renderDispatchCell = (order: OrderRecord) => {
+    const dispatch = getDispatch(order.id);
+    if (!dispatch) {
+      return canCreate && canDispatch(order) ? (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => openDispatchDialog(order, null)}
+        >
+          <Truck className="mr-1 h-4 w-4" />
+          Dispatch
+        </Button>
+      ) : (
+        <span className="text-xs text-muted-foreground">
+          {canDispatch(order) ? "Awaiting dispatch" : "-"}
+        </span>
+      );
+    }
+
+    const config = DISPATCH_STATUS_CONFIG[dispatch.status];
+    const isUpdating = updatingDispatchId === dispatch.dispatchId;
+    return (
+      <div className="space-y-1">
+        <Badge variant={config.variant}>{config.label}</Badge>
+        <div className="text-xs text-muted-foreground">
+          {dispatch.challanNumber} • {Number(dispatch.packageCount)} pkg
+          {dispatch.lrNumber && ` • LR ${dispatch.lrNumber}`}
+        </div>
+        <div className="text-xs text-muted-foreground">
+          {dispatch.deliveryDate !== undefined
+            ? `Delivered ${formatDate(dispatch.deliveryDate)}`
+            : `Sent ${formatDate(dispatch.dispatchDate)}`}
+        </div>
+        <div className="flex flex-wrap gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => handleDownloadChallan(dispatch, order)}
+          >
+            <Download className="mr-1 h-4 w-4" />
+            Challan
+          </Button>
+          {canCreate && dispatch.status !== DispatchStatus.delivered && (
+            <>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => openDispatchDialog(order, dispatch)}
+              >
+                <Pencil className="mr-1 h-4 w-4" />
+                Edit
+              </Button>
+              {dispatch.status === DispatchStatus.dispatched && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={isUpdating}
+                  onClick={() =>
+                    handleDispatchStatusChange(
+                      dispatch,
+                      DispatchStatus.inTransit,
+                    )
+                  }
+                >
+                  In Transit
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={isUpdating}
+                onClick={() =>
+                  handleDispatchStatusChange(dispatch, DispatchStatus.delivered)
+                }
+              >
+                Delivered
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+    );
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -223,7 +632,7 @@ export default function OrdersModule({ userProfile }: OrdersModuleProps) {
             Orders
           </h1>
           <p className="text-muted-foreground mt-1">
-            Track and manage all orders with automatic inventory updates
+            Track orders from placement through processing to fulfilment
           </p>
         </div>
 
@@ -274,19 +683,25 @@ export default function OrdersModule({ userProfile }: OrdersModuleProps) {
           )}
 
           {canCreate && (
-            <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+            <Dialog
+              open={dialogOpen}
+              onOpenChange={(open) => {
+                setDialogOpen(open);
+                if (!open) resetForm();
+              }}
+            >
               <DialogTrigger asChild>
                 <Button className="gap-2 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700">
                   <Plus className="h-4 w-4" />
                   Place Order
                 </Button>
               </DialogTrigger>
-              <DialogContent className="sm:max-w-[500px]">
+              <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
                 <DialogHeader>
                   <DialogTitle>Place New Order</DialogTitle>
                   <DialogDescription>
-                    Create an order with automatic stock reduction and invoice
-                    generation
+                    Add one or more products for the customer. Prices are taken
+                    from the product list.
                   </DialogDescription>
                 </DialogHeader>
                 <form onSubmit={handleSubmit}>
@@ -294,20 +709,16 @@ export default function OrdersModule({ userProfile }: OrdersModuleProps) {
                     <Alert className="bg-blue-50 dark:bg-blue-950/20 border-blue-200 dark:border-blue-800">
                       <Package className="h-4 w-4 text-blue-600" />
                       <AlertDescription className="text-xs">
-                        <strong>Automatic workflow:</strong> Stock will be
-                        reduced and invoice generated when you confirm this
-                        order.
+                        <strong>Order workflow:</strong> Orders move from
+                        pending through processing to fulfilled. Moving an order
+                        to processing reserves its stock until it is invoiced or
+                        cancelled.
                       </AlertDescription>
                     </Alert>
 
                     <div className="space-y-2">
                       <Label htmlFor="customerId">Customer</Label>
-                      <Select
-                        value={formData.customerId}
-                        onValueChange={(value) =>
-                          setFormData({ ...formData, customerId: value })
-                        }
-                      >
+                      <Select value={customerId} onValueChange={setCustomerId}>
                         <SelectTrigger id="customerId">
                           <SelectValue placeholder="Select customer" />
                         </SelectTrigger>
@@ -325,70 +736,118 @@ export default function OrdersModule({ userProfile }: OrdersModuleProps) {
                     </div>
 
                     <div className="space-y-2">
-                      <Label htmlFor="productId">Product</Label>
-                      <Select
-                        value={formData.productId}
-                        onValueChange={(value) =>
-                          setFormData({ ...formData, productId: value })
+                      <Label>Products</Label>
+                      {lines.map((line, index) => {
+                        const product = line.productId
+                          ? getProduct(line.productId)
+                          : undefined;
+                        return (
+                          <div
+                            // biome-ignore lint/suspicious/noArrayIndexKey: order lines are edited in place and have no id
+                            key={index}
+                            className="flex gap-2 items-start"
+                          >
+                            <div className="flex-1 space-y-1">
+                              <Select
+                                value={line.productId}
+                                onValueChange={(value) =>
+                                  updateLine(index, { productId: value })
+                                }
+                              >
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Select product" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {activeProducts.map((p) => (
+                                    <SelectItem
+                                      key={Number(p.productId)}
+                                      value={p.productId.toString()}
+                                    >
+                                      {p.name} - Available:{" "}
+                                      {getAvailableStock(p)} (
+                                      {p.inventoryStatus})
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              {product && (
+                                <div className="text-xs text-muted-foreground">
+                                  Available: {getAvailableStock(product)} units
+                                  • Price: {formatCurrency(product.price)}
+                                </div>
+                              )}
+                            </div>
+                            <Input
+                              type="number"
+                              placeholder="Qty"
+                              className="w-24"
+                              min="1"
+                              value={line.quantity}
+                              onChange={(e) =>
+                                updateLine(index, { quantity: e.target.value })
+                              }
+                            />
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="icon"
+                              disabled={lines.length === 1}
+                              onClick={() =>
+                                setLines((prev) =>
+                                  prev.filter((_, i) => i !== index),
+                                )
+                              }
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        );
+                      })}
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() =>
+                          setLines((prev) => [...prev, emptyLine()])
                         }
                       >
-                        <SelectTrigger id="productId">
-                          <SelectValue placeholder="Select product" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          {products.map((product) => (
-                            <SelectItem
-                              key={Number(product.productId)}
-                              value={product.productId.toString()}
-                            >
-                              {product.name} - Stock:{" "}
-                              {Number(product.stockLevel)} (
-                              {product.inventoryStatus})
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
-                      {selectedProduct && (
-                        <div className="text-xs text-muted-foreground mt-1">
-                          Available: {availableStock} units • Price:{" "}
-                          {formatCurrency(selectedProduct.price)}
-                        </div>
-                      )}
+                        <Plus className="mr-2 h-4 w-4" />
+                        Add Product
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        className="ml-2"
+                        onClick={() => setGridPickerOpen(true)}
+                      >
+                        <Grid3x3 className="mr-2 h-4 w-4" />
+                        Add from Size Grid
+                      </Button>
                     </div>
 
-                    <div className="space-y-2">
-                      <Label htmlFor="quantity">Quantity</Label>
-                      <Input
-                        id="quantity"
-                        type="number"
-                        placeholder="Enter quantity"
-                        value={formData.quantity}
-                        onChange={(e) =>
-                          setFormData({ ...formData, quantity: e.target.value })
-                        }
-                        required
-                        min="1"
-                      />
-                      {hasInsufficientStock && formData.quantity && (
-                        <Alert variant="destructive" className="mt-2">
-                          <AlertTriangle className="h-4 w-4" />
-                          <AlertDescription className="text-xs">
-                            Insufficient stock! Only {availableStock} units
-                            available.
-                          </AlertDescription>
-                        </Alert>
-                      )}
-                      {selectedProduct &&
-                        requestedQuantity > 0 &&
-                        !hasInsufficientStock && (
-                          <div className="text-xs text-green-600 dark:text-green-400 mt-1">
-                            ✓ Stock available • Total:{" "}
-                            {formatCurrency(
-                              selectedProduct.price * BigInt(requestedQuantity),
-                            )}
-                          </div>
-                        )}
-                    </div>
+                    {hasInsufficientStock ? (
+                      <Alert variant="destructive">
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertDescription className="text-xs">
+                          Insufficient stock for{" "}
+                          {shortLines
+                            .map(
+                              ({ product }) =>
+                                `${product?.name} (${product ? getAvailableStock(product) : 0} available)`,
+                            )
+                            .join(", ")}
+                          .
+                        </AlertDescription>
+                      </Alert>
+                    ) : (
+                      orderTotal > 0 && (
+                        <div className="text-xs text-green-600 dark:text-green-400">
+                          ✓ Stock available • Total:{" "}
+                          {formatCurrency(BigInt(orderTotal))}
+                        </div>
+                      )
+                    )}
                   </div>
                   <DialogFooter>
                     <Button
@@ -420,6 +879,24 @@ export default function OrdersModule({ userProfile }: OrdersModuleProps) {
           <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-center justify-between">
             <CardTitle>Order Management</CardTitle>
             <div className="flex gap-2 w-full sm:w-auto">
+              {canCreate && (
+                <Button
+                  variant="outline"
+                  onClick={handleGenerateInvoice}
+                  disabled={
+                    selectedOrders.length === 0 ||
+                    createInvoiceFromOrders.isPending
+                  }
+                >
+                  {createInvoiceFromOrders.isPending ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <FileText className="mr-2 h-4 w-4" />
+                  )}
+                  Generate Invoice
+                  {selectedOrders.length > 0 && ` (${selectedOrders.length})`}
+                </Button>
+              )}
               <div className="relative flex-1 sm:w-64">
                 <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                 <Input
@@ -437,7 +914,6 @@ export default function OrdersModule({ userProfile }: OrdersModuleProps) {
                 <SelectContent>
                   <SelectItem value="all">All Status</SelectItem>
                   <SelectItem value="pending">Pending</SelectItem>
-                  <SelectItem value="confirmed">Confirmed</SelectItem>
                   <SelectItem value="processing">Processing</SelectItem>
                   <SelectItem value="fulfilled">Fulfilled</SelectItem>
                   <SelectItem value="cancelled">Cancelled</SelectItem>
@@ -468,24 +944,56 @@ export default function OrdersModule({ userProfile }: OrdersModuleProps) {
               <Table>
                 <TableHeader>
                   <TableRow>
+                    {canCreate && <TableHead className="w-10" />}
                     <TableHead>Order ID</TableHead>
-                    <TableHead>Customer ID</TableHead>
-                    <TableHead>Product ID</TableHead>
-                    <TableHead>Quantity</TableHead>
+                    <TableHead>Customer</TableHead>
+                    <TableHead>Items</TableHead>
                     {canAccessFinancial && <TableHead>Total Price</TableHead>}
                     <TableHead>Status</TableHead>
+                    <TableHead>Dispatch</TableHead>
                     <TableHead>Created</TableHead>
+                    {canCreate && (
+                      <TableHead className="text-right">Actions</TableHead>
+                    )}
                   </TableRow>
                 </TableHeader>
                 <TableBody>
                   {filteredOrders.map((order) => (
                     <TableRow key={Number(order.id)}>
+                      {canCreate && (
+                        <TableCell>
+                          <Checkbox
+                            aria-label={`Select order #${Number(order.id)} for invoicing`}
+                            checked={selectedOrderIds.includes(order.id)}
+                            disabled={
+                              !selectedOrderIds.includes(order.id) &&
+                              !canSelectForInvoice(order)
+                            }
+                            onCheckedChange={(checked) =>
+                              toggleOrderSelection(order.id, checked === true)
+                            }
+                          />
+                        </TableCell>
+                      )}
                       <TableCell className="font-medium">
                         #{Number(order.id)}
                       </TableCell>
-                      <TableCell>#{Number(order.customerId)}</TableCell>
-                      <TableCell>#{Number(order.productId)}</TableCell>
-                      <TableCell>{Number(order.quantity)}</TableCell>
+                      <TableCell>{getCustomerName(order.customerId)}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {order.lines.map((line, index) => (
+                            <Badge
+                              // biome-ignore lint/suspicious/noArrayIndexKey: order lines have no id and never reorder
+                              key={index}
+                              variant="outline"
+                            >
+                              {getProduct(line.productId)?.name ??
+                                `#${Number(line.productId)}`}{" "}
+                              × {Number(line.quantity)}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
                       {canAccessFinancial && (
                         <TableCell className="font-medium">
                           {formatCurrency(order.totalPrice)}
@@ -498,10 +1006,55 @@ export default function OrdersModule({ userProfile }: OrdersModuleProps) {
                         >
                           {order.status}
                         </Badge>
+                        <div className="text-xs text-muted-foreground mt-1">
+                          since {formatDate(getStatusChangedAt(order))}
+                        </div>
+                        {order.invoiceId !== undefined && (
+                          <div className="text-xs text-muted-foreground">
+                            Invoiced: {getInvoiceNumber(order.invoiceId)}
+                          </div>
+                        )}
                       </TableCell>
+                      <TableCell>{renderDispatchCell(order)}</TableCell>
                       <TableCell className="text-sm text-muted-foreground">
                         {formatDate(order.created)}
                       </TableCell>
+                      {canCreate && (
+                        <TableCell className="text-right space-x-1 whitespace-nowrap">
+                          {STATUS_ACTIONS[order.status]
+                            // Billed or dispatched orders can no longer be cancelled
+                            .filter(
+                              (action) =>
+                                action.status !== OrderStatus.cancelled ||
+                                (order.invoiceId === undefined &&
+                                  !getDispatch(order.id)),
+                            )
+                            .map((action) => (
+                              <Button
+                                key={action.status}
+                                variant={
+                                  action.status === OrderStatus.cancelled
+                                    ? "ghost"
+                                    : "outline"
+                                }
+                                size="sm"
+                                disabled={updatingOrderId === order.id}
+                                onClick={() =>
+                                  handleStatusChange(order, action.status)
+                                }
+                              >
+                                {action.status === OrderStatus.cancelled ? (
+                                  <XCircle className="mr-1 h-4 w-4" />
+                                ) : action.status === OrderStatus.fulfilled ? (
+                                  <CheckCircle className="mr-1 h-4 w-4" />
+                                ) : (
+                                  <PlayCircle className="mr-1 h-4 w-4" />
+                                )}
+                                {action.label}
+                              </Button>
+                            ))}
+                        </TableCell>
+                      )}
                     </TableRow>
                   ))}
                 </TableBody>
@@ -510,6 +1063,134 @@ export default function OrdersModule({ userProfile }: OrdersModuleProps) {
           )}
         </CardContent>
       </Card>
+
+      <Dialog
+        open={dispatchTarget !== null}
+        onOpenChange={(open) => {
+          if (!open) setDispatchTarget(null);
+        }}
+      >
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>
+              {dispatchTarget?.dispatch
+                ? `Edit ${dispatchTarget.dispatch.challanNumber}`
+                : `Dispatch Order #${Number(dispatchTarget?.order.id ?? 0)}`}
+            </DialogTitle>
+            <DialogDescription>
+              {dispatchTarget?.dispatch
+                ? "Update the transport details on the delivery challan."
+                : "A delivery challan number is issued when the goods are dispatched."}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleDispatchSubmit}>
+            <div className="grid gap-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="transporterName">Transporter</Label>
+                <Input
+                  id="transporterName"
+                  placeholder="Transporter name"
+                  value={dispatchForm.transporterName}
+                  onChange={(e) =>
+                    setDispatchForm({
+                      ...dispatchForm,
+                      transporterName: e.target.value,
+                    })
+                  }
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="lrNumber">LR / Docket No.</Label>
+                  <Input
+                    id="lrNumber"
+                    value={dispatchForm.lrNumber}
+                    onChange={(e) =>
+                      setDispatchForm({
+                        ...dispatchForm,
+                        lrNumber: e.target.value,
+                      })
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="vehicleNumber">Vehicle No.</Label>
+                  <Input
+                    id="vehicleNumber"
+                    placeholder="e.g. PB10AB1234"
+                    value={dispatchForm.vehicleNumber}
+                    onChange={(e) =>
+                      setDispatchForm({
+                        ...dispatchForm,
+                        vehicleNumber: e.target.value,
+                      })
+                    }
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="packageCount">Bales / Cartons</Label>
+                  <Input
+                    id="packageCount"
+                    type="number"
+                    min="1"
+                    value={dispatchForm.packageCount}
+                    onChange={(e) =>
+                      setDispatchForm({
+                        ...dispatchForm,
+                        packageCount: e.target.value,
+                      })
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="dispatchDate">Dispatch Date</Label>
+                  <Input
+                    id="dispatchDate"
+                    type="date"
+                    value={dispatchForm.dispatchDate}
+                    onChange={(e) =>
+                      setDispatchForm({
+                        ...dispatchForm,
+                        dispatchDate: e.target.value,
+                      })
+                    }
+                  />
+                </div>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setDispatchTarget(null)}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={
+                  createDispatch.isPending || updateDispatchDetails.isPending
+                }
+              >
+                {(createDispatch.isPending ||
+                  updateDispatchDetails.isPending) && (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                )}
+                {dispatchTarget?.dispatch ? "Save Changes" : "Dispatch"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <VariantGridPicker
+        open={gridPickerOpen}
+        onOpenChange={setGridPickerOpen}
+        products={activeProducts}
+        onAdd={addGridPicks}
+      />
     </div>
   );
 }
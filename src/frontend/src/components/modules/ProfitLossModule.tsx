@@ -17,6 +17,7 @@ import {
   FileSpreadsheet,
   FileText,
   PieChart,
+  Receipt,
   TrendingDown,
   TrendingUp,
 } from "lucide-react";
@@ -34,7 +35,12 @@ import {
 } from "recharts";
 import { toast } from "sonner";
 import type { UserProfile } from "../../backend";
-import { useGetProfitLossReport } from "../../hooks/useQueries";
+import {
+  useGetCompanySettings,
+  useGetProfitLossReport,
+} from "../../hooks/useQueries";
+import { getCompanyName } from "../../utils/companyBranding";
+import { EXPENSE_CATEGORY_LABELS } from "../../utils/expenses";
 
 interface ProfitLossModuleProps {
   userProfile: UserProfile;
@@ -87,6 +93,7 @@ export default function ProfitLossModule({
     error,
     refetch,
   } = useGetProfitLossReport(startDate, endDate);
+  const { data: companySettings } = useGetCompanySettings();
 
   if (!canAccess) {
     return (
@@ -121,7 +128,7 @@ export default function ProfitLossModule({
       return;
     }
     toast.success(
-      "Exporting Profit & Loss Report as PDF with Sahil Garments branding...",
+      `Exporting Profit & Loss Report as PDF with ${getCompanyName(companySettings)} branding...`,
     );
   };
 
@@ -270,7 +277,7 @@ export default function ProfitLossModule({
                 </div>
                 <div className="flex items-center gap-2 mt-2">
                   <p className="text-xs text-muted-foreground">
-                    From paid invoices
+                    Invoiced, net of credit notes
                   </p>
                   <TrendingUp className="h-3 w-3 text-green-600" />
                 </div>
@@ -368,6 +375,52 @@ export default function ProfitLossModule({
             </Card>
           </div>
 
+          <Card className="hover:shadow-lg transition-all duration-300">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Receipt className="h-5 w-5" />
+                Expenses by Category
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {report.expenseBreakdown.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No expenses recorded for this period
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  {report.expenseBreakdown.map((entry) => {
+                    const share =
+                      Number(report.expenses) > 0
+                        ? (Number(entry.amount) / Number(report.expenses)) * 100
+                        : 0;
+                    return (
+                      <div key={entry.category}>
+                        <div className="flex justify-between text-sm mb-1">
+                          <span className="font-medium">
+                            {EXPENSE_CATEGORY_LABELS[entry.category]}
+                          </span>
+                          <span>
+                            {formatCurrency(Number(entry.amount))}{" "}
+                            <span className="text-muted-foreground">
+                              ({share.toFixed(1)}%)
+                            </span>
+                          </span>
+                        </div>
+                        <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+                          <div
+                            className="bg-gray-600 h-2 rounded-full"
+                            style={{ width: `${share}%` }}
+                          />
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
           <Card className="hover:shadow-lg transition-all duration-300">
             <CardHeader>
               <div className="flex items-center justify-between">
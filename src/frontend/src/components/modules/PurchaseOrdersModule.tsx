@@ -0,0 +1,925 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  ClipboardList,
+  Loader2,
+  PackageCheck,
+  Plus,
+  Send,
+  Trash2,
+  XCircle,
+} from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import {
+  AppRole,
+  type PurchaseOrder,
+  PurchaseOrderStatus,
+  type UserProfile,
+} from "../../backend";
+import {
+  useCreateGoodsReceipt,
+  useCreatePurchaseOrder,
+  useListGoodsReceipts,
+  useListProducts,
+  useListPurchaseOrders,
+  useListSuppliers,
+  useUpdatePurchaseOrderStatus,
+} from "../../hooks/useQueries";
+import { formatCurrency, formatDate } from "../../utils/invoiceDocument";
+
+const DEFAULT_LEAD_DAYS = 14;
+
+// Select value for lines that are not catalogue products, e.g. fabric
+const OTHER_MATERIAL = "other";
+
+const STATUS_CONFIG: Record<
+  PurchaseOrderStatus,
+  { label: string; className: string }
+> = {
+  draft: { label: "Draft", className: "bg-gray-400 hover:bg-gray-500" },
+  ordered: { label: "Ordered", className: "bg-blue-600 hover:bg-blue-700" },
+  partiallyReceived: {
+    label: "Partially Received",
+    className: "bg-amber-500 hover:bg-amber-600",
+  },
+  received: { label: "Received", className: "bg-green-600 hover:bg-green-700" },
+  cancelled: { label: "Cancelled", className: "bg-red-600 hover:bg-red-700" },
+};
+
+interface PurchaseOrdersModuleProps {
+  userProfile: UserProfile;
+}
+
+interface PurchaseLineState {
+  productId: string;
+  description: string;
+  quantity: string;
+  unit: string;
+  unitCost: string;
+}
+
+interface ReceiptLineState {
+  receivedQuantity: string;
+  rejectedQuantity: string;
+}
+
+const emptyLine = (): PurchaseLineState => ({
+  productId: "",
+  description: "",
+  quantity: "",
+  unit: "pcs",
+  unitCost: "",
+});
+
+const defaultExpectedDate = () => {
+  const date = new Date();
+  date.setDate(date.getDate() + DEFAULT_LEAD_DAYS);
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export default function PurchaseOrdersModule({
+  userProfile,
+}: PurchaseOrdersModuleProps) {
+  const { data: purchaseOrders = [], isLoading } = useListPurchaseOrders();
+  const { data: suppliers = [] } = useListSuppliers();
+  const { data: products = [] } = useListProducts();
+  const activeProducts = products.filter((p) => !p.archived);
+  const createPurchaseOrder = useCreatePurchaseOrder();
+  const updateStatus = useUpdatePurchaseOrderStatus();
+  const { data: goodsReceipts = [] } = useListGoodsReceipts();
+  const createGoodsReceipt = useCreateGoodsReceipt();
+
+  const [createDialogOpen, setCreateDialogOpen] = useState(false);
+  const [supplierId, setSupplierId] = useState("");
+  const [lines, setLines] = useState<PurchaseLineState[]>([emptyLine()]);
+  const [expectedDate, setExpectedDate] = useState(defaultExpectedDate);
+  const [notes, setNotes] = useState("");
+  const [statusFilter, setStatusFilter] = useState<string>("open");
+  const [receivingPurchaseOrder, setReceivingPurchaseOrder] =
+    useState<PurchaseOrder | null>(null);
+  const [receiptLines, setReceiptLines] = useState<ReceiptLineState[]>([]);
+  const [receiptBatch, setReceiptBatch] = useState("");
+  const [receiptNotes, setReceiptNotes] = useState("");
+  const [busyPurchaseOrderId, setBusyPurchaseOrderId] = useState<bigint | null>(
+    null,
+  );
+
+  const canEdit =
+    userProfile.appRole === AppRole.admin ||
+    userProfile.appRole === AppRole.inventoryManager;
+
+  const getSupplierName = (id: bigint) =>
+    suppliers.find((s) => s.supplierId === id)?.name || "Unknown Supplier";
+
+  // Accepted quantity received so far on each line, across all receipts
+  const getReceivedQuantities = (purchaseOrder: PurchaseOrder) =>
+    purchaseOrder.lines.map((_, index) =>
+      goodsReceipts
+        .filter(
+          (receipt) =>
+            receipt.purchaseOrderId === purchaseOrder.purchaseOrderId,
+        )
+        .flatMap((receipt) => receipt.lines)
+        .filter((line) => line.purchaseOrderLine === BigInt(index))
+        .reduce((sum, line) => sum + Number(line.acceptedQuantity), 0),
+    );
+
+  const isClosed = (status: PurchaseOrderStatus) =>
+    status === PurchaseOrderStatus.received ||
+    status === PurchaseOrderStatus.cancelled;
+
+  const canReceive = (status: PurchaseOrderStatus) =>
+    status === PurchaseOrderStatus.ordered ||
+    status === PurchaseOrderStatus.partiallyReceived;
+
+  const filteredPurchaseOrders = purchaseOrders
+    .filter((po) =>
+      statusFilter === "open"
+        ? !isClosed(po.status)
+        : statusFilter === "all" || po.status === statusFilter,
+    )
+    .sort((a, b) => Number(b.created) - Number(a.created));
+
+  const orderTotal = lines.reduce(
+    (sum, line) =>
+      sum + (Number(line.quantity) || 0) * (Number(line.unitCost) || 0),
+    0,
+  );
+
+  const updateLine = (index: number, update: Partial<PurchaseLineState>) => {
+    setLines((prev) =>
+      prev.map((line, i) => (i === index ? { ...line, ...update } : line)),
+    );
+  };
+
+  const handleProductChange = (index: number, value: string) => {
+    const product = products.find((p) => p.productId.toString() === value);
+    updateLine(index, {
+      productId: value,
+      description: product ? product.name : "",
+    });
+  };
+
+  const resetForm = () => {
+    setSupplierId("");
+    setLines([emptyLine()]);
+    setExpectedDate(defaultExpectedDate());
+    setNotes("");
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const filledLines = lines.filter(
+      (line) => line.productId || line.description.trim(),
+    );
+    if (!supplierId || filledLines.length === 0) {
+      toast.error("Please select a supplier and add at least one line");
+      return;
+    }
+    if (
+      filledLines.some(
+        (line) =>
+          !(Number(line.quantity) > 0) ||
+          line.unitCost === "" ||
+          Number(line.unitCost) < 0,
+      )
+    ) {
+      toast.error("Every line needs a quantity and a unit cost");
+      return;
+    }
+    if (
+      filledLines.some(
+        (line) => line.productId === OTHER_MATERIAL && !line.description.trim(),
+      )
+    ) {
+      toast.error("Describe the material for lines without a product");
+      return;
+    }
+
+    const expected = new Date(`${expectedDate}T00:00:00`);
+    if (Number.isNaN(expected.getTime())) {
+      toast.error("Please enter a valid expected date");
+      return;
+    }
+
+    try {
+      await createPurchaseOrder.mutateAsync({
+        supplierId: BigInt(supplierId),
+        lines: filledLines.map((line) => ({
+          productId:
+            line.productId && line.productId !== OTHER_MATERIAL
+              ? BigInt(line.productId)
+              : undefined,
+          description: line.description.trim(),
+          quantity: BigInt(line.quantity),
+          unit: line.unit.trim() || "pcs",
+          unitCost: BigInt(Math.round(Number(line.unitCost))),
+        })),
+        expectedDate: BigInt(expected.getTime()) * BigInt(1_000_000),
+        notes: notes.trim(),
+      });
+      toast.success("Purchase order created as a draft");
+      setCreateDialogOpen(false);
+      resetForm();
+    } catch (error: any) {
+      console.error("Create purchase order error:", error);
+      toast.error(error?.message || "Failed to create purchase order");
+    }
+  };
+
+  const handleStatusChange = async (
+    purchaseOrder: PurchaseOrder,
+    status: PurchaseOrderStatus,
+  ) => {
+    setBusyPurchaseOrderId(purchaseOrder.purchaseOrderId);
+    try {
+      await updateStatus.mutateAsync({
+        purchaseOrderId: purchaseOrder.purchaseOrderId,
+        status,
+      });
+      toast.success(
+        `${purchaseOrder.poNumber} marked ${STATUS_CONFIG[status].label.toLowerCase()}`,
+      );
+    } catch (error: any) {
+      console.error("Update purchase order error:", error);
+      toast.error(error?.message || "Failed to update purchase order");
+    } finally {
+      setBusyPurchaseOrderId(null);
+    }
+  };
+
+  const openReceiveDialog = (purchaseOrder: PurchaseOrder) => {
+    const received = getReceivedQuantities(purchaseOrder);
+    setReceivingPurchaseOrder(purchaseOrder);
+    setReceiptLines(
+      purchaseOrder.lines.map((line, index) => ({
+        receivedQuantity: String(
+          Math.max(Number(line.quantity) - received[index], 0),
+        ),
+        rejectedQuantity: "0",
+      })),
+    );
+    setReceiptBatch("");
+    setReceiptNotes("");
+  };
+
+  const updateReceiptLine = (
+    index: number,
+    update: Partial<ReceiptLineState>,
+  ) => {
+    setReceiptLines((prev) =>
+      prev.map((line, i) => (i === index ? { ...line, ...update } : line)),
+    );
+  };
+
+  const handleReceive = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!receivingPurchaseOrder) return;
+
+    const receivedLines = receiptLines
+      .map((line, index) => ({ ...line, index }))
+      .filter((line) => Number(line.receivedQuantity) > 0);
+    if (receivedLines.length === 0) {
+      toast.error("Enter the quantity received for at least one line");
+      return;
+    }
+    if (
+      receivedLines.some(
+        (line) =>
+          !Number.isInteger(Number(line.receivedQuantity)) ||
+          !Number.isInteger(Number(line.rejectedQuantity)) ||
+          Number(line.rejectedQuantity) < 0 ||
+          Number(line.rejectedQuantity) > Number(line.receivedQuantity),
+      )
+    ) {
+      toast.error("Rejected pieces cannot exceed the quantity received");
+      return;
+    }
+
+    try {
+      await createGoodsReceipt.mutateAsync({
+        purchaseOrderId: receivingPurchaseOrder.purchaseOrderId,
+        supplierId: receivingPurchaseOrder.supplierId,
+        lines: receivedLines.map((line) => {
+          const poLine = receivingPurchaseOrder.lines[line.index];
+          return {
+            purchaseOrderLine: BigInt(line.index),
+            productId: poLine.productId,
+            description: poLine.description,
+            unit: poLine.unit,
+            receivedQuantity: BigInt(line.receivedQuantity),
+            rejectedQuantity: BigInt(line.rejectedQuantity || "0"),
+          };
+        }),
+        batch: receiptBatch.trim(),
+        notes: receiptNotes.trim(),
+      });
+      toast.success(
+        `Goods received against ${receivingPurchaseOrder.poNumber}; stock updated`,
+      );
+      setReceivingPurchaseOrder(null);
+    } catch (error: any) {
+      console.error("Goods receipt error:", error);
+      toast.error(error?.message || "Failed to record goods receipt");
+    }
+  };
+
+  const isOverdue = (purchaseOrder: PurchaseOrder) =>
+    canReceive(purchaseOrder.status) &&
+    Number(purchaseOrder.expectedDate) / 1_000_000 < Date.now();
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin mx-auto mb-2 text-blue-600" />
+          <p className="text-sm text-muted-foreground">
+            Loading purchase orders...
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Purchase Orders</h1>
+          <p className="text-muted-foreground">
+            Track fabric and ready-made stock on order from suppliers
+          </p>
+        </div>
+        {canEdit && (
+          <Button
+            onClick={() => {
+              resetForm();
+              setCreateDialogOpen(true);
+            }}
+            size="sm"
+            disabled={suppliers.length === 0}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            New Purchase Order
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-center justify-between">
+            <div>
+              <CardTitle>Purchase Orders</CardTitle>
+              <CardDescription>
+                {suppliers.length === 0
+                  ? "Add a supplier before raising purchase orders"
+                  : "Drafts become binding once placed with the supplier"}
+              </CardDescription>
+            </div>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="open">Open</SelectItem>
+                <SelectItem value="all">All</SelectItem>
+                <SelectItem value="draft">Draft</SelectItem>
+                <SelectItem value="ordered">Ordered</SelectItem>
+                <SelectItem value="partiallyReceived">
+                  Partially Received
+                </SelectItem>
+                <SelectItem value="received">Received</SelectItem>
+                <SelectItem value="cancelled">Cancelled</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>PO Number</TableHead>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead>Items</TableHead>
+                  <TableHead>Expected</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead>Status</TableHead>
+                  {canEdit && (
+                    <TableHead className="text-right">Actions</TableHead>
+                  )}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredPurchaseOrders.length === 0 ? (
+                  <TableRow>
+                    <TableCell
+                      colSpan={canEdit ? 7 : 6}
+                      className="text-center text-muted-foreground py-8"
+                    >
+                      No purchase orders found
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  filteredPurchaseOrders.map((purchaseOrder) => {
+                    const status = STATUS_CONFIG[purchaseOrder.status];
+                    const received = getReceivedQuantities(purchaseOrder);
+                    const isBusy =
+                      busyPurchaseOrderId === purchaseOrder.purchaseOrderId;
+                    return (
+                      <TableRow key={purchaseOrder.purchaseOrderId.toString()}>
+                        <TableCell>
+                          <div className="font-medium">
+                            {purchaseOrder.poNumber}
+                          </div>
+                          <div className="text-xs text-muted-foreground">
+                            {formatDate(purchaseOrder.created)}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          {getSupplierName(purchaseOrder.supplierId)}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {purchaseOrder.lines.map((line, index) => (
+                              <Badge
+                                // biome-ignore lint/suspicious/noArrayIndexKey: purchase order lines have no id and never reorder
+                                key={index}
+                                variant="outline"
+                              >
+                                {line.description} ×{" "}
+                                {purchaseOrder.status ===
+                                PurchaseOrderStatus.draft
+                                  ? Number(line.quantity)
+                                  : `${received[index]}/${Number(line.quantity)}`}{" "}
+                                {line.unit}
+                              </Badge>
+                            ))}
+                          </div>
+                        </TableCell>
+                        <TableCell
+                          className={
+                            isOverdue(purchaseOrder)
+                              ? "text-red-600 font-medium"
+                              : undefined
+                          }
+                        >
+                          {formatDate(purchaseOrder.expectedDate)}
+                        </TableCell>
+                        <TableCell className="text-right font-medium">
+                          {formatCurrency(purchaseOrder.total)}
+                        </TableCell>
+                        <TableCell>
+                          <Badge className={`${status.className} text-white`}>
+                            {status.label}
+                          </Badge>
+                        </TableCell>
+                        {canEdit && (
+                          <TableCell className="text-right space-x-1 whitespace-nowrap">
+                            {purchaseOrder.status ===
+                              PurchaseOrderStatus.draft && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                disabled={isBusy}
+                                onClick={() =>
+                                  handleStatusChange(
+                                    purchaseOrder,
+                                    PurchaseOrderStatus.ordered,
+                                  )
+                                }
+                              >
+                                <Send className="mr-1 h-4 w-4" />
+                                Place Order
+                              </Button>
+                            )}
+                            {canReceive(purchaseOrder.status) && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                disabled={isBusy}
+                                onClick={() => openReceiveDialog(purchaseOrder)}
+                              >
+                                <PackageCheck className="mr-1 h-4 w-4" />
+                                Receive
+                              </Button>
+                            )}
+                            {!isClosed(purchaseOrder.status) && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                disabled={isBusy}
+                                onClick={() =>
+                                  handleStatusChange(
+                                    purchaseOrder,
+                                    PurchaseOrderStatus.cancelled,
+                                  )
+                                }
+                              >
+                                <XCircle className="mr-1 h-4 w-4" />
+                                Cancel
+                              </Button>
+                            )}
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Create Dialog */}
+      <Dialog open={createDialogOpen} onOpenChange={setCreateDialogOpen}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>New Purchase Order</DialogTitle>
+            <DialogDescription>
+              Pick catalogue products or choose "Other material" for fabric and
+              trims. The order is saved as a draft.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleCreate} className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="poSupplier">Supplier</Label>
+                <Select value={supplierId} onValueChange={setSupplierId}>
+                  <SelectTrigger id="poSupplier">
+                    <SelectValue placeholder="Choose a supplier" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {suppliers.map((supplier) => (
+                      <SelectItem
+                        key={supplier.supplierId.toString()}
+                        value={supplier.supplierId.toString()}
+                      >
+                        {supplier.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="poExpectedDate">Expected Date</Label>
+                <Input
+                  id="poExpectedDate"
+                  type="date"
+                  value={expectedDate}
+                  onChange={(e) => setExpectedDate(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead>Qty</TableHead>
+                    <TableHead>Unit</TableHead>
+                    <TableHead>Unit Cost (₹)</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lines.map((line, index) => (
+                    // biome-ignore lint/suspicious/noArrayIndexKey: purchase lines are edited in place and have no id
+                    <TableRow key={index}>
+                      <TableCell className="min-w-[180px]">
+                        <Select
+                          value={line.productId}
+                          onValueChange={(value) =>
+                            handleProductChange(index, value)
+                          }
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select product" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={OTHER_MATERIAL}>
+                              Other material
+                            </SelectItem>
+                            {activeProducts.map((product) => (
+                              <SelectItem
+                                key={product.productId.toString()}
+                                value={product.productId.toString()}
+                              >
+                                {product.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell className="min-w-[160px]">
+                        <Input
+                          placeholder="e.g. Cotton poplin 58in"
+                          value={line.description}
+                          onChange={(e) =>
+                            updateLine(index, { description: e.target.value })
+                          }
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="1"
+                          className="w-20"
+                          value={line.quantity}
+                          onChange={(e) =>
+                            updateLine(index, { quantity: e.target.value })
+                          }
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          className="w-16"
+                          value={line.unit}
+                          onChange={(e) =>
+                            updateLine(index, { unit: e.target.value })
+                          }
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          className="w-24"
+                          value={line.unitCost}
+                          onChange={(e) =>
+                            updateLine(index, { unitCost: e.target.value })
+                          }
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          disabled={lines.length === 1}
+                          onClick={() =>
+                            setLines((prev) =>
+                              prev.filter((_, i) => i !== index),
+                            )
+                          }
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setLines((prev) => [...prev, emptyLine()])}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add Line
+              </Button>
+              <p className="text-base font-bold">
+                Total: {formatCurrency(orderTotal)}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="poNotes">Notes</Label>
+              <Textarea
+                id="poNotes"
+                placeholder="e.g. Deliver to godown; shade card attached"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+              />
+            </div>
+
+            <Button
+              type="submit"
+              disabled={createPurchaseOrder.isPending}
+              className="w-full gap-2"
+            >
+              {createPurchaseOrder.isPending ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Creating...
+                </>
+              ) : (
+                <>
+                  <ClipboardList className="h-4 w-4" />
+                  Create Purchase Order
+                </>
+              )}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Receive Dialog */}
+      <Dialog
+        open={!!receivingPurchaseOrder}
+        onOpenChange={(open) => !open && setReceivingPurchaseOrder(null)}
+      >
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              Receive Goods
+              {receivingPurchaseOrder
+                ? ` — ${receivingPurchaseOrder.poNumber}`
+                : ""}
+            </DialogTitle>
+            <DialogDescription>
+              Accepted pieces (received minus rejected) are added to stock. The
+              order stays open until every line is fully accepted.
+            </DialogDescription>
+          </DialogHeader>
+          {receivingPurchaseOrder && (
+            <form onSubmit={handleReceive} className="space-y-4">
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Item</TableHead>
+                      <TableHead className="text-right">Ordered</TableHead>
+                      <TableHead className="text-right">Pending</TableHead>
+                      <TableHead>Received</TableHead>
+                      <TableHead>Rejected</TableHead>
+                      <TableHead>Variance</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {receivingPurchaseOrder.lines.map((line, index) => {
+                      const pending = Math.max(
+                        Number(line.quantity) -
+                          getReceivedQuantities(receivingPurchaseOrder)[index],
+                        0,
+                      );
+                      const receiptLine = receiptLines[index];
+                      const accepted =
+                        (Number(receiptLine?.receivedQuantity) || 0) -
+                        (Number(receiptLine?.rejectedQuantity) || 0);
+                      const variance = accepted - pending;
+                      return (
+                        // biome-ignore lint/suspicious/noArrayIndexKey: receipt lines mirror the purchase order lines by index
+                        <TableRow key={index}>
+                          <TableCell>
+                            <div className="font-medium">
+                              {line.description}
+                            </div>
+                            <div className="text-xs text-muted-foreground">
+                              {line.unit}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {Number(line.quantity)}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {pending}
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min="0"
+                              className="w-20"
+                              value={receiptLine?.receivedQuantity ?? ""}
+                              onChange={(e) =>
+                                updateReceiptLine(index, {
+                                  receivedQuantity: e.target.value,
+                                })
+                              }
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min="0"
+                              className="w-20"
+                              value={receiptLine?.rejectedQuantity ?? ""}
+                              onChange={(e) =>
+                                updateReceiptLine(index, {
+                                  rejectedQuantity: e.target.value,
+                                })
+                              }
+                            />
+                          </TableCell>
+                          <TableCell>
+                            {!receiptLine ||
+                            !(Number(receiptLine.receivedQuantity) > 0) ? (
+                              <span className="text-xs text-muted-foreground">
+                                —
+                              </span>
+                            ) : variance < 0 ? (
+                              <Badge
+                                variant="outline"
+                                className="text-amber-600"
+                              >
+                                Short {-variance}
+                              </Badge>
+                            ) : variance > 0 ? (
+                              <Badge variant="outline" className="text-red-600">
+                                Excess {variance}
+                              </Badge>
+                            ) : (
+                              <Badge
+                                variant="outline"
+                                className="text-green-600"
+                              >
+                                Complete
+                              </Badge>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="receiptBatch">Batch / Lot</Label>
+                  <Input
+                    id="receiptBatch"
+                    placeholder="Defaults to the GRN number"
+                    value={receiptBatch}
+                    onChange={(e) => setReceiptBatch(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="receiptNotes">Notes</Label>
+                  <Input
+                    id="receiptNotes"
+                    placeholder="e.g. 4 pcs stained, returned to supplier"
+                    value={receiptNotes}
+                    onChange={(e) => setReceiptNotes(e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <Button
+                type="submit"
+                disabled={createGoodsReceipt.isPending}
+                className="w-full gap-2"
+              >
+                {createGoodsReceipt.isPending ? (
+                  <>
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Posting...
+                  </>
+                ) : (
+                  <>
+                    <PackageCheck className="h-4 w-4" />
+                    Post Goods Receipt
+                  </>
+                )}
+              </Button>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
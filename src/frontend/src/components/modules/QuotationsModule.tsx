@@ -0,0 +1,698 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  CheckCircle2,
+  Download,
+  FileSignature,
+  Loader2,
+  Plus,
+  Receipt,
+  Send,
+  Trash2,
+} from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { type Quotation, QuotationStatus } from "../../backend";
+import {
+  useCompanyBranding,
+  useConvertQuotationToInvoice,
+  useCreateQuotation,
+  useGetCompanySettings,
+  useListCustomers,
+  useListInvoices,
+  useListProducts,
+  useListQuotations,
+  useStockAdjustInvoice,
+  useUpdateQuotationStatus,
+} from "../../hooks/useQueries";
+import { calculateLineTax, isInterState } from "../../utils/gst";
+import {
+  formatCurrency,
+  formatDate,
+  loadImage,
+} from "../../utils/invoiceDocument";
+import {
+  buildQuotationPdf,
+  formatQuotationNumber,
+} from "../../utils/invoicePdf";
+import { parseStockError } from "../../utils/stockErrors";
+
+const DEFAULT_VALIDITY_DAYS = 15;
+
+const STATUS_CONFIG: Record<
+  QuotationStatus,
+  { label: string; className: string }
+> = {
+  draft: { label: "Draft", className: "bg-gray-400 hover:bg-gray-500" },
+  sent: { label: "Sent", className: "bg-blue-600 hover:bg-blue-700" },
+  accepted: { label: "Accepted", className: "bg-green-600 hover:bg-green-700" },
+  expired: { label: "Expired", className: "bg-red-600 hover:bg-red-700" },
+};
+
+interface QuotationsModuleProps {
+  userProfile: any;
+  isAdmin: boolean;
+}
+
+interface QuoteLineState {
+  productId: string;
+  quantity: string;
+  price: string;
+  discount: string;
+}
+
+const emptyLine = (): QuoteLineState => ({
+  productId: "",
+  quantity: "",
+  price: "",
+  discount: "",
+});
+
+const defaultValidUntil = () => {
+  const date = new Date();
+  date.setDate(date.getDate() + DEFAULT_VALIDITY_DAYS);
+  return date.toISOString().split("T")[0];
+};
+
+export default function QuotationsModule({
+  userProfile,
+  isAdmin,
+}: QuotationsModuleProps) {
+  const { data: quotations = [], isLoading: quotationsLoading } =
+    useListQuotations();
+  const { data: customers = [], isLoading: customersLoading } =
+    useListCustomers();
+  const { data: products = [], isLoading: productsLoading } = useListProducts();
+  const activeProducts = products.filter((p) => !p.archived);
+  const { data: invoices = [] } = useListInvoices();
+  const { data: companySettings } = useGetCompanySettings();
+  const { settings, logoUrl } = useCompanyBranding();
+  const createQuotation = useCreateQuotation();
+  const updateStatus = useUpdateQuotationStatus();
+  const convertQuotation = useConvertQuotationToInvoice();
+  const stockAdjustInvoice = useStockAdjustInvoice();
+
+  const [createDialogOpen, setCreateDialogOpen] = useState(false);
+  const [selectedCustomerId, setSelectedCustomerId] = useState("");
+  const [lines, setLines] = useState<QuoteLineState[]>([emptyLine()]);
+  const [validUntil, setValidUntil] = useState(defaultValidUntil);
+  const [notes, setNotes] = useState("");
+  const [busyQuotationId, setBusyQuotationId] = useState<bigint | null>(null);
+
+  const canAccessQuotations = isAdmin || userProfile.appRole === "sales";
+
+  const sortedQuotations = [...quotations].sort(
+    (a, b) => Number(b.created) - Number(a.created),
+  );
+
+  const getCustomer = (customerId: bigint) =>
+    customers.find((c) => c.id === customerId);
+
+  const getProduct = (productId: string) =>
+    products.find((p) => p.productId.toString() === productId);
+
+  const selectedCustomer = customers.find(
+    (c) => c.id.toString() === selectedCustomerId,
+  );
+  const interState = isInterState(
+    companySettings?.stateCode ?? "",
+    selectedCustomer?.state ?? "",
+  );
+
+  const lineTaxableValue = (line: QuoteLineState) =>
+    (Number.parseInt(line.quantity) || 0) * (Number.parseInt(line.price) || 0) -
+    (Number.parseInt(line.discount) || 0);
+
+  // Preview only; the backend recomputes tax from the product slab on save.
+  const previewTotals = lines.reduce(
+    (totals, line) => {
+      const product = getProduct(line.productId);
+      const quantity = Number.parseInt(line.quantity) || 0;
+      if (!product || quantity <= 0) return totals;
+      const taxableValue = Math.max(0, lineTaxableValue(line));
+      const { tax } = calculateLineTax(
+        taxableValue,
+        quantity,
+        product.taxSlab,
+        interState,
+      );
+      return {
+        subtotal: totals.subtotal + taxableValue,
+        tax: totals.tax + tax,
+      };
+    },
+    { subtotal: 0, tax: 0 },
+  );
+
+  const resetForm = () => {
+    setSelectedCustomerId("");
+    setLines([emptyLine()]);
+    setValidUntil(defaultValidUntil());
+    setNotes("");
+  };
+
+  const updateLine = (index: number, update: Partial<QuoteLineState>) => {
+    setLines((prev) =>
+      prev.map((line, i) => (i === index ? { ...line, ...update } : line)),
+    );
+  };
+
+  const handleProductChange = (index: number, productId: string) => {
+    const product = getProduct(productId);
+    updateLine(index, {
+      productId,
+      price: product ? Number(product.price).toString() : "",
+    });
+  };
+
+  const handleCreateQuotation = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!selectedCustomer) {
+      toast.error("Please select a customer");
+      return;
+    }
+
+    const filledLines = lines.filter((line) => line.productId);
+    if (filledLines.length === 0) {
+      toast.error("Please add at least one item");
+      return;
+    }
+    for (const line of filledLines) {
+      const quantity = Number.parseInt(line.quantity);
+      const price = Number.parseInt(line.price);
+      if (!quantity || quantity <= 0) {
+        toast.error("Quantity must be greater than 0");
+        return;
+      }
+      if (Number.isNaN(price) || price < 0) {
+        toast.error("Price must be a positive amount");
+        return;
+      }
+      if (lineTaxableValue(line) < 0) {
+        toast.error("Discount cannot exceed the line amount");
+        return;
+      }
+    }
+
+    const validUntilDate = new Date(`${validUntil}T23:59:59`);
+    if (Number.isNaN(validUntilDate.getTime()) || validUntilDate < new Date()) {
+      toast.error("Valid until must be a future date");
+      return;
+    }
+
+    try {
+      const quotationId = await createQuotation.mutateAsync({
+        customerId: selectedCustomer.id,
+        lines: filledLines.map((line) => ({
+          productId: BigInt(line.productId),
+          quantity: BigInt(line.quantity),
+          unitPrice: BigInt(line.price),
+          discount: BigInt(line.discount || "0"),
+        })),
+        validUntil: BigInt(validUntilDate.getTime()) * BigInt(1_000_000),
+        notes: notes.trim(),
+      });
+      toast.success(`Quotation ${formatQuotationNumber(quotationId)} created`);
+      setCreateDialogOpen(false);
+      resetForm();
+    } catch (error: any) {
+      console.error("Create quotation error:", error);
+      toast.error(error?.message || "Failed to create quotation");
+    }
+  };
+
+  const handleStatusChange = async (
+    quotation: Quotation,
+    status: QuotationStatus,
+  ) => {
+    setBusyQuotationId(quotation.quotationId);
+    try {
+      await updateStatus.mutateAsync({
+        quotationId: quotation.quotationId,
+        status,
+      });
+      toast.success(
+        `${formatQuotationNumber(quotation.quotationId)} marked ${STATUS_CONFIG[status].label.toLowerCase()}`,
+      );
+    } catch (error: any) {
+      console.error("Update quotation status error:", error);
+      toast.error(error?.message || "Failed to update quotation");
+    } finally {
+      setBusyQuotationId(null);
+    }
+  };
+
+  // Creates the orders and invoice, then adjusts stock as a new invoice would
+  const handleConvert = async (quotation: Quotation) => {
+    setBusyQuotationId(quotation.quotationId);
+    try {
+      const invoiceId = await convertQuotation.mutateAsync(
+        quotation.quotationId,
+      );
+      try {
+        await stockAdjustInvoice.mutateAsync(invoiceId);
+        toast.success(
+          `${formatQuotationNumber(quotation.quotationId)} converted to an invoice and stock adjusted`,
+        );
+      } catch (stockError: any) {
+        toast.error(parseStockError(stockError).message);
+      }
+    } catch (error: any) {
+      console.error("Convert quotation error:", error);
+      toast.error(error?.message || "Failed to convert quotation");
+    } finally {
+      setBusyQuotationId(null);
+    }
+  };
+
+  const handleDownload = async (quotation: Quotation) => {
+    const customer = getCustomer(quotation.customerId);
+    if (!customer) {
+      toast.error("Customer not found");
+      return;
+    }
+    try {
+      const logo = await loadImage(logoUrl).catch(() => null);
+      const pdf = buildQuotationPdf(quotation, customer, products, {
+        settings,
+        logo,
+      });
+      pdf.save(`${formatQuotationNumber(quotation.quotationId)}.pdf`);
+    } catch (error) {
+      console.error("Quotation PDF error:", error);
+      toast.error("Failed to generate quotation PDF");
+    }
+  };
+
+  const isLoading = quotationsLoading || customersLoading || productsLoading;
+
+  if (!canAccessQuotations) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Card className="max-w-md">
+          <CardHeader>
+            <CardTitle className="text-destructive">Access Denied</CardTitle>
+            <CardDescription>
+              Quotations are restricted to Admin and Sales roles only.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin mx-auto mb-2 text-blue-600" />
+          <p className="text-sm text-muted-foreground">Loading quotations...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Quotations</h1>
+          <p className="text-muted-foreground">
+            Send price quotes to retailers and convert accepted ones into
+            invoices
+          </p>
+        </div>
+        <Button
+          onClick={() => {
+            resetForm();
+            setCreateDialogOpen(true);
+          }}
+          size="sm"
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          New Quotation
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>All Quotations</CardTitle>
+          <CardDescription>
+            Quotations do not affect stock until they are converted into an
+            invoice
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Quotation</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Valid Until</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sortedQuotations.length === 0 ? (
+                  <TableRow>
+                    <TableCell
+                      colSpan={7}
+                      className="text-center text-muted-foreground py-8"
+                    >
+                      No quotations created yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  sortedQuotations.map((quotation) => {
+                    const status = STATUS_CONFIG[quotation.status];
+                    const invoice =
+                      quotation.invoiceId !== undefined
+                        ? invoices.find(
+                            (inv) => inv.invoiceId === quotation.invoiceId,
+                          )
+                        : undefined;
+                    const isBusy = busyQuotationId === quotation.quotationId;
+                    return (
+                      <TableRow key={quotation.quotationId.toString()}>
+                        <TableCell className="font-medium">
+                          {formatQuotationNumber(quotation.quotationId)}
+                        </TableCell>
+                        <TableCell>
+                          {getCustomer(quotation.customerId)?.name ||
+                            "Unknown Customer"}
+                        </TableCell>
+                        <TableCell>{formatDate(quotation.created)}</TableCell>
+                        <TableCell>
+                          {formatDate(quotation.validUntil)}
+                        </TableCell>
+                        <TableCell className="text-right font-medium">
+                          {formatCurrency(quotation.total)}
+                        </TableCell>
+                        <TableCell>
+                          <Badge className={`${status.className} text-white`}>
+                            {status.label}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right space-x-1 whitespace-nowrap">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDownload(quotation)}
+                          >
+                            <Download className="h-4 w-4" />
+                          </Button>
+                          {quotation.invoiceId !== undefined ? (
+                            <Badge variant="outline">
+                              Invoiced{invoice && `: ${invoice.invoiceNumber}`}
+                            </Badge>
+                          ) : (
+                            <>
+                              {quotation.status === QuotationStatus.draft && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  disabled={isBusy}
+                                  onClick={() =>
+                                    handleStatusChange(
+                                      quotation,
+                                      QuotationStatus.sent,
+                                    )
+                                  }
+                                >
+                                  <Send className="mr-1 h-4 w-4" />
+                                  Mark Sent
+                                </Button>
+                              )}
+                              {quotation.status === QuotationStatus.sent && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  disabled={isBusy}
+                                  onClick={() =>
+                                    handleStatusChange(
+                                      quotation,
+                                      QuotationStatus.accepted,
+                                    )
+                                  }
+                                >
+                                  <CheckCircle2 className="mr-1 h-4 w-4" />
+                                  Accept
+                                </Button>
+                              )}
+                              {quotation.status ===
+                                QuotationStatus.accepted && (
+                                <Button
+                                  size="sm"
+                                  disabled={isBusy}
+                                  onClick={() => handleConvert(quotation)}
+                                >
+                                  {isBusy ? (
+                                    <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                                  ) : (
+                                    <Receipt className="mr-1 h-4 w-4" />
+                                  )}
+                                  Convert to Invoice
+                                </Button>
+                              )}
+                            </>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Create Dialog */}
+      <Dialog open={createDialogOpen} onOpenChange={setCreateDialogOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>New Quotation</DialogTitle>
+            <DialogDescription>
+              Prices default to the product price and can be adjusted for this
+              quote. Stock is not reserved.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleCreateQuotation} className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="quotationCustomer">Customer</Label>
+                <Select
+                  value={selectedCustomerId}
+                  onValueChange={setSelectedCustomerId}
+                >
+                  <SelectTrigger id="quotationCustomer">
+                    <SelectValue placeholder="Choose a customer" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {customers.map((customer) => (
+                      <SelectItem
+                        key={customer.id.toString()}
+                        value={customer.id.toString()}
+                      >
+                        {customer.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="quotationValidUntil">Valid Until</Label>
+                <Input
+                  id="quotationValidUntil"
+                  type="date"
+                  value={validUntil}
+                  onChange={(e) => setValidUntil(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Qty</TableHead>
+                    <TableHead>Price (₹)</TableHead>
+                    <TableHead>Discount (₹)</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lines.map((line, index) => (
+                    // biome-ignore lint/suspicious/noArrayIndexKey: quote lines are edited in place and have no id
+                    <TableRow key={index}>
+                      <TableCell className="min-w-[200px]">
+                        <Select
+                          value={line.productId}
+                          onValueChange={(value) =>
+                            handleProductChange(index, value)
+                          }
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select product" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {activeProducts.map((product) => (
+                              <SelectItem
+                                key={product.productId.toString()}
+                                value={product.productId.toString()}
+                              >
+                                {product.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="1"
+                          className="w-20"
+                          value={line.quantity}
+                          onChange={(e) =>
+                            updateLine(index, { quantity: e.target.value })
+                          }
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          className="w-24"
+                          value={line.price}
+                          onChange={(e) =>
+                            updateLine(index, { price: e.target.value })
+                          }
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          className="w-24"
+                          value={line.discount}
+                          onChange={(e) =>
+                            updateLine(index, { discount: e.target.value })
+                          }
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          disabled={lines.length === 1}
+                          onClick={() =>
+                            setLines((prev) =>
+                              prev.filter((_, i) => i !== index),
+                            )
+                          }
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setLines((prev) => [...prev, emptyLine()])}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add Line
+              </Button>
+              <div className="text-right text-sm space-y-1">
+                <p>Subtotal: {formatCurrency(previewTotals.subtotal)}</p>
+                <p>
+                  {interState ? "IGST" : "CGST + SGST"}:{" "}
+                  {formatCurrency(previewTotals.tax)}
+                </p>
+                <p className="text-base font-bold">
+                  Total:{" "}
+                  {formatCurrency(previewTotals.subtotal + previewTotals.tax)}
+                </p>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="quotationNotes">Notes</Label>
+              <Textarea
+                id="quotationNotes"
+                placeholder="e.g. Delivery within 7 days of order confirmation"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+              />
+            </div>
+
+            <Button
+              type="submit"
+              disabled={createQuotation.isPending}
+              className="w-full gap-2"
+            >
+              {createQuotation.isPending ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Creating...
+                </>
+              ) : (
+                <>
+                  <FileSignature className="h-4 w-4" />
+                  Create Quotation
+                </>
+              )}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
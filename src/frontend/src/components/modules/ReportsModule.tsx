@@ -24,6 +24,7 @@ import { AlertCircle } from "lucide-react";
 import { toast } from "sonner";
 import type { UserProfile } from "../../backend";
 import { useListInventory, useListOrders } from "../../hooks/useQueries";
+import StockValueBreakdown from "../StockValueBreakdown";
 import InventoryReportModule from "./InventoryReportModule";
 import ProfitLossModule from "./ProfitLossModule";
 
@@ -237,7 +238,9 @@ export default function ReportsModule({ userProfile }: ReportsModuleProps) {
           </Card>
         </TabsContent>
 
-        <TabsContent value="stock">
+        <TabsContent value="stock" className="space-y-6">
+          <StockValueBreakdown />
+
           <Card>
             <CardHeader>
               <div className="flex items-center justify-between">
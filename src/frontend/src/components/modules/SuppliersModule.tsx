@@ -0,0 +1,518 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertTriangle,
+  Factory,
+  Loader2,
+  Mail,
+  Pencil,
+  Phone,
+  Plus,
+  Search,
+  Trash2,
+} from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { AppRole, type Supplier, type UserProfile } from "../../backend";
+import {
+  useCreateSupplier,
+  useDeleteSupplier,
+  useListSuppliers,
+  useUpdateSupplier,
+} from "../../hooks/useQueries";
+import { GST_STATES, getStateLabel } from "../../utils/gst";
+import {
+  PAYMENT_TERMS_OPTIONS,
+  formatPaymentTerms,
+} from "../../utils/invoiceDocument";
+
+interface SuppliersModuleProps {
+  userProfile: UserProfile;
+  isAdmin: boolean;
+}
+
+const emptyForm = () => ({
+  name: "",
+  gstin: "",
+  contactPerson: "",
+  phone: "",
+  email: "",
+  address: "",
+  state: "",
+  paymentTermsDays: "30",
+});
+
+export default function SuppliersModule({
+  userProfile,
+  isAdmin,
+}: SuppliersModuleProps) {
+  const { data: suppliers = [], isLoading } = useListSuppliers();
+  const createSupplier = useCreateSupplier();
+  const updateSupplier = useUpdateSupplier();
+  const deleteSupplier = useDeleteSupplier();
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [supplierToDelete, setSupplierToDelete] = useState<Supplier | null>(
+    null,
+  );
+  const [formData, setFormData] = useState(emptyForm);
+
+  const canEdit = isAdmin || userProfile.appRole === AppRole.inventoryManager;
+  const isSaving = createSupplier.isPending || updateSupplier.isPending;
+
+  const query = searchQuery.toLowerCase();
+  const filteredSuppliers = suppliers
+    .filter(
+      (supplier) =>
+        supplier.name.toLowerCase().includes(query) ||
+        supplier.gstin.toLowerCase().includes(query) ||
+        supplier.contactPerson.toLowerCase().includes(query) ||
+        supplier.phone.includes(searchQuery),
+    )
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const openCreateDialog = () => {
+    setEditingSupplier(null);
+    setFormData(emptyForm());
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (supplier: Supplier) => {
+    setEditingSupplier(supplier);
+    setFormData({
+      name: supplier.name,
+      gstin: supplier.gstin,
+      contactPerson: supplier.contactPerson,
+      phone: supplier.phone,
+      email: supplier.email,
+      address: supplier.address,
+      state: supplier.state,
+      paymentTermsDays: supplier.paymentTermsDays.toString(),
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name.trim() || !formData.phone.trim()) {
+      toast.error("Please enter the supplier name and phone number");
+      return;
+    }
+    const gstin = formData.gstin.trim().toUpperCase();
+    if (gstin && gstin.length !== 15) {
+      toast.error("GSTIN must be 15 characters");
+      return;
+    }
+
+    const input = {
+      name: formData.name.trim(),
+      gstin,
+      contactPerson: formData.contactPerson.trim(),
+      phone: formData.phone.trim(),
+      email: formData.email.trim(),
+      address: formData.address.trim(),
+      state: formData.state,
+      paymentTermsDays: BigInt(formData.paymentTermsDays),
+    };
+
+    try {
+      if (editingSupplier) {
+        await updateSupplier.mutateAsync({
+          supplierId: editingSupplier.supplierId,
+          input,
+        });
+        toast.success("Supplier updated successfully!");
+      } else {
+        await createSupplier.mutateAsync(input);
+        toast.success("Supplier created successfully!");
+      }
+      setDialogOpen(false);
+    } catch (error: any) {
+      toast.error(error?.message || "Failed to save supplier");
+      console.error(error);
+    }
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!supplierToDelete) return;
+
+    try {
+      await deleteSupplier.mutateAsync(supplierToDelete.supplierId);
+      toast.success(`Supplier "${supplierToDelete.name}" has been deleted`);
+      setSupplierToDelete(null);
+    } catch (error: any) {
+      toast.error(error?.message || "Failed to delete supplier");
+      console.error(error);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight flex items-center gap-2">
+            <Factory className="h-8 w-8" />
+            Suppliers
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            Mills, manufacturers and vendors you buy fabric and stock from
+          </p>
+        </div>
+
+        {canEdit && (
+          <Button
+            className="gap-2 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
+            onClick={openCreateDialog}
+          >
+            <Plus className="h-4 w-4" />
+            Add Supplier
+          </Button>
+        )}
+      </div>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {editingSupplier ? "Edit Supplier" : "Add New Supplier"}
+            </DialogTitle>
+            <DialogDescription>
+              {editingSupplier
+                ? "Update the supplier's details."
+                : "Create a new supplier profile in the system."}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit}>
+            <div className="grid gap-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="supplierName">Supplier Name</Label>
+                <Input
+                  id="supplierName"
+                  placeholder="Firm or mill name"
+                  value={formData.name}
+                  onChange={(e) =>
+                    setFormData({ ...formData, name: e.target.value })
+                  }
+                  required
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="supplierGstin">GSTIN</Label>
+                  <Input
+                    id="supplierGstin"
+                    placeholder="15-character GSTIN"
+                    maxLength={15}
+                    value={formData.gstin}
+                    onChange={(e) =>
+                      setFormData({ ...formData, gstin: e.target.value })
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="contactPerson">Contact Person</Label>
+                  <Input
+                    id="contactPerson"
+                    value={formData.contactPerson}
+                    onChange={(e) =>
+                      setFormData({
+                        ...formData,
+                        contactPerson: e.target.value,
+                      })
+                    }
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="supplierPhone">Phone Number</Label>
+                  <Input
+                    id="supplierPhone"
+                    placeholder="+91 98765 43210"
+                    value={formData.phone}
+                    onChange={(e) =>
+                      setFormData({ ...formData, phone: e.target.value })
+                    }
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="supplierEmail">Email Address</Label>
+                  <Input
+                    id="supplierEmail"
+                    type="email"
+                    value={formData.email}
+                    onChange={(e) =>
+                      setFormData({ ...formData, email: e.target.value })
+                    }
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="supplierAddress">Address</Label>
+                <Input
+                  id="supplierAddress"
+                  placeholder="Enter full address"
+                  value={formData.address}
+                  onChange={(e) =>
+                    setFormData({ ...formData, address: e.target.value })
+                  }
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="supplierState">State</Label>
+                  <Select
+                    value={formData.state}
+                    onValueChange={(value) =>
+                      setFormData({ ...formData, state: value })
+                    }
+                  >
+                    <SelectTrigger id="supplierState">
+                      <SelectValue placeholder="Select state" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {GST_STATES.map((state) => (
+                        <SelectItem key={state.code} value={state.code}>
+                          {state.name} ({state.code})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="supplierPaymentTerms">Payment Terms</Label>
+                  <Select
+                    value={formData.paymentTermsDays}
+                    onValueChange={(value) =>
+                      setFormData({ ...formData, paymentTermsDays: value })
+                    }
+                  >
+                    <SelectTrigger id="supplierPaymentTerms">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PAYMENT_TERMS_OPTIONS.map((days) => (
+                        <SelectItem key={days} value={days.toString()}>
+                          {formatPaymentTerms(days)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : editingSupplier ? (
+                  "Save Changes"
+                ) : (
+                  "Create Supplier"
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Supplier Directory</CardTitle>
+            <div className="relative w-64">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search suppliers..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="pl-9"
+              />
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              {["a", "b", "c", "d", "e"].map((id) => (
+                <Skeleton key={id} className="h-16 w-full" />
+              ))}
+            </div>
+          ) : filteredSuppliers.length === 0 ? (
+            <div className="text-center py-12">
+              <Factory className="h-16 w-16 mx-auto text-muted-foreground/50 mb-4" />
+              <p className="text-lg font-medium">No suppliers found</p>
+              <p className="text-sm text-muted-foreground mt-1">
+                {searchQuery
+                  ? "Try adjusting your search"
+                  : "Add your first supplier to get started"}
+              </p>
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>GSTIN</TableHead>
+                    <TableHead>Contact</TableHead>
+                    <TableHead>State</TableHead>
+                    <TableHead>Payment Terms</TableHead>
+                    {canEdit && (
+                      <TableHead className="text-right">Actions</TableHead>
+                    )}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredSuppliers.map((supplier) => (
+                    <TableRow key={Number(supplier.supplierId)}>
+                      <TableCell>
+                        <div className="font-medium">{supplier.name}</div>
+                        {supplier.address && (
+                          <div className="text-xs text-muted-foreground truncate max-w-[220px]">
+                            {supplier.address}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">
+                        {supplier.gstin || "-"}
+                      </TableCell>
+                      <TableCell>
+                        <div className="space-y-1 text-sm">
+                          {supplier.contactPerson && (
+                            <div className="font-medium">
+                              {supplier.contactPerson}
+                            </div>
+                          )}
+                          <div className="flex items-center gap-2 text-muted-foreground">
+                            <Phone className="h-3 w-3" />
+                            {supplier.phone}
+                          </div>
+                          {supplier.email && (
+                            <div className="flex items-center gap-2 text-muted-foreground">
+                              <Mail className="h-3 w-3" />
+                              {supplier.email}
+                            </div>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {supplier.state ? getStateLabel(supplier.state) : "-"}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {formatPaymentTerms(supplier.paymentTermsDays)}
+                      </TableCell>
+                      {canEdit && (
+                        <TableCell className="text-right whitespace-nowrap">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => openEditDialog(supplier)}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          {isAdmin && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                              onClick={() => setSupplierToDelete(supplier)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Delete Confirmation Dialog */}
+      <AlertDialog
+        open={supplierToDelete !== null}
+        onOpenChange={(open) => {
+          if (!open) setSupplierToDelete(null);
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-destructive" />
+              Delete Supplier
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete{" "}
+              <strong>{supplierToDelete?.name}</strong>? Suppliers with purchase
+              orders or inventory entries cannot be deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDeleteConfirm}
+              disabled={deleteSupplier.isPending}
+              className="bg-destructive hover:bg-destructive/90"
+            >
+              {deleteSupplier.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Deleting...
+                </>
+              ) : (
+                "Delete Supplier"
+              )}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
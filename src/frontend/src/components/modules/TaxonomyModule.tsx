@@ -0,0 +1,389 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Check,
+  FolderTree,
+  Loader2,
+  Pencil,
+  Plus,
+  Tags,
+  Trash2,
+  X,
+} from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { type ProductCategory, TaxonomyTermKind } from "../../backend";
+import {
+  useCreateProductCategory,
+  useCreateTaxonomyTerm,
+  useDeleteProductCategory,
+  useDeleteTaxonomyTerm,
+  useListProductCategories,
+  useListTaxonomyTerms,
+  useRenameProductCategory,
+} from "../../hooks/useQueries";
+import { categoryOptions } from "../../utils/taxonomy";
+
+interface TaxonomyModuleProps {
+  isAdmin: boolean;
+}
+
+const TERM_LISTS: {
+  kind: TaxonomyTermKind;
+  title: string;
+  placeholder: string;
+}[] = [
+  {
+    kind: TaxonomyTermKind.brand,
+    title: "Brands",
+    placeholder: "e.g., Sahil Classic",
+  },
+  {
+    kind: TaxonomyTermKind.season,
+    title: "Seasons & Collections",
+    placeholder: "e.g., Summer 2026",
+  },
+];
+
+export default function TaxonomyModule({ isAdmin }: TaxonomyModuleProps) {
+  const { data: categories = [], isLoading: categoriesLoading } =
+    useListProductCategories();
+  const { data: terms = [], isLoading: termsLoading } = useListTaxonomyTerms();
+  const createCategory = useCreateProductCategory();
+  const renameCategory = useRenameProductCategory();
+  const deleteCategory = useDeleteProductCategory();
+  const createTerm = useCreateTaxonomyTerm();
+  const deleteTerm = useDeleteTaxonomyTerm();
+
+  const [categoryName, setCategoryName] = useState("");
+  const [parentId, setParentId] = useState("none");
+  const [renaming, setRenaming] = useState<{
+    categoryId: bigint;
+    name: string;
+  } | null>(null);
+  const [termNames, setTermNames] = useState<Record<string, string>>({});
+
+  if (!isAdmin) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Card className="max-w-md">
+          <CardHeader>
+            <CardTitle className="text-destructive">Access Denied</CardTitle>
+            <CardDescription>
+              The product taxonomy is managed by Admins only.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  const handleAddCategory = async () => {
+    const name = categoryName.trim();
+    if (!name) {
+      toast.error("Please enter a category name");
+      return;
+    }
+    try {
+      await createCategory.mutateAsync({
+        name,
+        parentId: parentId === "none" ? null : BigInt(parentId),
+      });
+      toast.success("Category added");
+      setCategoryName("");
+    } catch (error: any) {
+      toast.error(error?.message || "Failed to add category");
+    }
+  };
+
+  const handleRename = async () => {
+    if (!renaming) return;
+    const name = renaming.name.trim();
+    if (!name) {
+      toast.error("Please enter a category name");
+      return;
+    }
+    try {
+      await renameCategory.mutateAsync({
+        categoryId: renaming.categoryId,
+        name,
+      });
+      toast.success("Category renamed");
+      setRenaming(null);
+    } catch (error: any) {
+      toast.error(error?.message || "Failed to rename category");
+    }
+  };
+
+  const handleDeleteCategory = async (category: ProductCategory) => {
+    try {
+      await deleteCategory.mutateAsync(category.categoryId);
+      toast.success(`${category.name} deleted`);
+    } catch (error: any) {
+      toast.error(error?.message || "Failed to delete category");
+    }
+  };
+
+  const handleAddTerm = async (kind: TaxonomyTermKind) => {
+    const name = (termNames[kind] ?? "").trim();
+    if (!name) {
+      toast.error("Please enter a name");
+      return;
+    }
+    try {
+      await createTerm.mutateAsync({ kind, name });
+      setTermNames({ ...termNames, [kind]: "" });
+    } catch (error: any) {
+      toast.error(error?.message || "Failed to add entry");
+    }
+  };
+
+  const handleDeleteTerm = async (termId: bigint) => {
+    try {
+      await deleteTerm.mutateAsync(termId);
+    } catch (error: any) {
+      toast.error(error?.message || "Failed to delete entry");
+    }
+  };
+
+  const renderCategories = (parent: bigint | undefined, depth: number) =>
+    categories
+      .filter((c) => c.parentId === parent)
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((category) => (
+        <div key={category.categoryId.toString()}>
+          <div
+            className="flex items-center justify-between gap-2 rounded-md px-2 py-1.5 hover:bg-muted"
+            style={{ paddingLeft: `${depth * 1.5 + 0.5}rem` }}
+          >
+            {renaming?.categoryId === category.categoryId ? (
+              <div className="flex flex-1 items-center gap-2">
+                <Input
+                  className="h-8"
+                  value={renaming.name}
+                  onChange={(e) =>
+                    setRenaming({ ...renaming, name: e.target.value })
+                  }
+                />
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={handleRename}
+                  disabled={renameCategory.isPending}
+                >
+                  <Check className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => setRenaming(null)}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ) : (
+              <>
+                <span className="text-sm font-medium">{category.name}</span>
+                <div className="flex gap-1">
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    title="Add sub-category"
+                    onClick={() => setParentId(category.categoryId.toString())}
+                  >
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    title="Rename"
+                    onClick={() =>
+                      setRenaming({
+                        categoryId: category.categoryId,
+                        name: category.name,
+                      })
+                    }
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    title="Delete"
+                    onClick={() => handleDeleteCategory(category)}
+                    disabled={deleteCategory.isPending}
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              </>
+            )}
+          </div>
+          {renderCategories(category.categoryId, depth + 1)}
+        </div>
+      ));
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight flex items-center gap-2">
+          <Tags className="h-8 w-8" />
+          Product Taxonomy
+        </h1>
+        <p className="text-muted-foreground mt-1">
+          Categories, brands and seasons used to file, filter and report on
+          products
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FolderTree className="h-5 w-5" />
+            Categories
+          </CardTitle>
+          <CardDescription>
+            Build the tree top-down, e.g. Men, then Shirts under Men, then
+            Formal under Shirts. Only empty leaf categories can be deleted.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-3 sm:grid-cols-[1fr_1fr_auto] sm:items-end">
+            <div className="space-y-2">
+              <Label htmlFor="categoryName">Name</Label>
+              <Input
+                id="categoryName"
+                placeholder="e.g., Formal"
+                value={categoryName}
+                onChange={(e) => setCategoryName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="categoryParent">Under</Label>
+              <Select value={parentId} onValueChange={setParentId}>
+                <SelectTrigger id="categoryParent">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Top level</SelectItem>
+                  {categoryOptions(categories).map((option) => (
+                    <SelectItem
+                      key={option.categoryId.toString()}
+                      value={option.categoryId.toString()}
+                    >
+                      {option.path}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              onClick={handleAddCategory}
+              disabled={createCategory.isPending}
+              className="gap-2"
+            >
+              {createCategory.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Plus className="h-4 w-4" />
+              )}
+              Add Category
+            </Button>
+          </div>
+
+          {categoriesLoading ? (
+            <Skeleton className="h-24 w-full" />
+          ) : categories.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">
+              No categories yet
+            </p>
+          ) : (
+            <div className="rounded-md border p-2">
+              {renderCategories(undefined, 0)}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        {TERM_LISTS.map(({ kind, title, placeholder }) => {
+          const entries = terms
+            .filter((term) => term.kind === kind)
+            .sort((a, b) => a.name.localeCompare(b.name));
+          return (
+            <Card key={kind}>
+              <CardHeader>
+                <CardTitle>{title}</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex gap-2">
+                  <Input
+                    placeholder={placeholder}
+                    value={termNames[kind] ?? ""}
+                    onChange={(e) =>
+                      setTermNames({ ...termNames, [kind]: e.target.value })
+                    }
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") handleAddTerm(kind);
+                    }}
+                  />
+                  <Button
+                    onClick={() => handleAddTerm(kind)}
+                    disabled={createTerm.isPending}
+                  >
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </div>
+                {termsLoading ? (
+                  <Skeleton className="h-8 w-full" />
+                ) : entries.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    Nothing added yet
+                  </p>
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    {entries.map((term) => (
+                      <Badge
+                        key={term.termId.toString()}
+                        variant="secondary"
+                        className="gap-1 pr-1"
+                      >
+                        {term.name}
+                        <button
+                          type="button"
+                          className="rounded-sm p-0.5 hover:bg-muted-foreground/20"
+                          onClick={() => handleDeleteTerm(term.termId)}
+                          disabled={deleteTerm.isPending}
+                          aria-label={`Remove ${term.name}`}
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
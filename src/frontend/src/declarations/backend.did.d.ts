@@ -27,6 +27,13 @@ export interface ApprovalRequest {
 export type ApprovalStatus = { 'pending' : null } |
   { 'approved' : null } |
   { 'rejected' : null };
+export interface BankDetails {
+  'branch' : string,
+  'ifsc' : string,
+  'bankName' : string,
+  'accountName' : string,
+  'accountNumber' : string,
+}
 export interface BarcodeBatchExportRequest {
   'productIds' : Array<bigint>,
   'exportType' : BarcodeExportFormat,
@@ -42,12 +49,63 @@ export interface BootstrapStatus {
   'backendAvailable' : boolean,
   'jsonSupport' : boolean,
 }
+export interface CompanySettings {
+  'pan' : string,
+  'stateCode' : string,
+  'bankDetails' : BankDetails,
+  'tagline' : string,
+  'primaryColor' : string,
+  'email' : string,
+  'website' : string,
+  'accentColor' : string,
+  'legalName' : string,
+  'invoiceFooterTerms' : string,
+  'gstin' : string,
+  'address' : string,
+  'upiId' : string,
+  'phone' : string,
+}
+export interface CreditNote {
+  'tax' : bigint,
+  'created' : Time,
+  'total' : bigint,
+  'createdBy' : Principal,
+  'invoiceId' : bigint,
+  'lines' : Array<CreditNoteLine>,
+  'interState' : boolean,
+  'invoiceNumber' : string,
+  'customerId' : bigint,
+  'creditNoteId' : bigint,
+  'reason' : string,
+  'creditNoteNumber' : string,
+}
+export interface CreditNoteLine {
+  'tax' : bigint,
+  'lineIndex' : bigint,
+  'damaged' : boolean,
+  'cgst' : bigint,
+  'igst' : bigint,
+  'taxableValue' : bigint,
+  'sgst' : bigint,
+  'hsnCode' : string,
+  'productId' : bigint,
+  'quantity' : bigint,
+  'unitPrice' : bigint,
+  'taxRate' : bigint,
+}
+export interface CreditNoteLineInput {
+  'lineIndex' : bigint,
+  'damaged' : boolean,
+  'quantity' : bigint,
+}
 export interface Customer {
   'id' : bigint,
+  'paymentTermsDays' : bigint,
   'created' : Time,
   'modified' : Time,
   'name' : string,
   'email' : string,
+  'state' : string,
   'address' : string,
   'phone' : string,
 }
@@ -60,7 +118,95 @@ export interface DataEntry {
   'entityType' : string,
   'amount' : bigint,
 }
+export interface Dispatch {
+  'challanNumber' : string,
+  'status' : DispatchStatus,
+  'created' : Time,
+  'vehicleNumber' : string,
+  'createdBy' : Principal,
+  'dispatchId' : bigint,
+  'dispatchDate' : Time,
+  'deliveryDate' : [] | [Time],
+  'orderId' : bigint,
+  'lastModified' : Time,
+  'lrNumber' : string,
+  'packageCount' : bigint,
+  'transporterName' : string,
+}
+export interface DispatchInput {
+  'vehicleNumber' : string,
+  'dispatchDate' : Time,
+  'lrNumber' : string,
+  'packageCount' : bigint,
+  'transporterName' : string,
+}
+export type DispatchStatus = { 'dispatched' : null } |
+  { 'inTransit' : null } |
+  { 'delivered' : null };
+export interface Expense {
+  'expenseDate' : Time,
+  'created' : Time,
+  'receipt' : [] | [ExternalBlob],
+  'expenseId' : bigint,
+  'mode' : PaymentMode,
+  'description' : string,
+  'recordedBy' : Principal,
+  'lastModified' : Time,
+  'category' : ExpenseCategory,
+  'amount' : bigint,
+}
+export type ExpenseCategory = { 'other' : null } |
+  { 'marketing' : null } |
+  { 'rent' : null } |
+  { 'transport' : null } |
+  { 'electricity' : null } |
+  { 'maintenance' : null } |
+  { 'salaries' : null } |
+  { 'packaging' : null };
+export interface ExpenseCategoryTotal {
+  'category' : ExpenseCategory,
+  'amount' : bigint,
+}
+export interface ExpenseInput {
+  'expenseDate' : Time,
+  'receipt' : [] | [ExternalBlob],
+  'mode' : PaymentMode,
+  'description' : string,
+  'category' : ExpenseCategory,
+  'amount' : bigint,
+}
 export type ExternalBlob = Uint8Array;
+export interface GoodsReceipt {
+  'grnNumber' : string,
+  'created' : Time,
+  'goodsReceiptId' : bigint,
+  'createdBy' : Principal,
+  'purchaseOrderId' : [] | [bigint],
+  'lines' : Array<GoodsReceiptLine>,
+  'notes' : string,
+  'batch' : string,
+  'supplierId' : bigint,
+  'inventoryIds' : Array<bigint>,
+}
+export interface GoodsReceiptLine {
+  'rejectedQuantity' : bigint,
+  'unit' : string,
+  'description' : string,
+  'productId' : [] | [bigint],
+  'receivedQuantity' : bigint,
+  'pendingQuantity' : bigint,
+  'orderedQuantity' : bigint,
+  'acceptedQuantity' : bigint,
+  'purchaseOrderLine' : [] | [bigint],
+}
+export interface GoodsReceiptLineInput {
+  'rejectedQuantity' : bigint,
+  'unit' : string,
+  'description' : string,
+  'productId' : [] | [bigint],
+  'receivedQuantity' : bigint,
+  'purchaseOrderLine' : [] | [bigint],
+}
 export interface InventoryLocation {
   'rack' : string,
   'shelf' : string,
@@ -87,25 +233,45 @@ export interface Invoice {
   'stockAdjusted' : boolean,
   'dueDate' : [] | [Time],
   'invoiceId' : bigint,
-  'productId' : bigint,
+  'lines' : Array<InvoiceLine>,
+  'amountPaid' : bigint,
   'lastModified' : Time,
+  'interState' : boolean,
   'imageUrl' : [] | [string],
+  'invoiceNumber' : string,
   'pdfUrl' : [] | [string],
   'paymentDate' : [] | [Time],
-  'quantity' : bigint,
   'customerId' : bigint,
+  'placeOfSupply' : string,
   'orderIds' : Array<bigint>,
-  'price' : bigint,
+  'creditedAmount' : bigint,
   'inventoryIds' : Array<bigint>,
 }
-export type InvoiceExportFormat = { 'pdf' : null } |
-  { 'excel' : null };
 export interface InvoiceFilter {
   'paymentStatus' : [] | [T],
   'customerId' : [] | [bigint],
   'invoiceDateRange' : [] | [ReportDateRange],
   'searchQuery' : [] | [string],
 }
+export interface InvoiceLine {
+  'tax' : bigint,
+  'cgst' : bigint,
+  'igst' : bigint,
+  'sgst' : bigint,
+  'hsnCode' : string,
+  'productId' : bigint,
+  'discount' : bigint,
+  'quantity' : bigint,
+  'unitPrice' : bigint,
+  'taxRate' : bigint,
+  'unitCost' : bigint,
+}
+export interface InvoiceLineInput {
+  'productId' : bigint,
+  'discount' : bigint,
+  'quantity' : bigint,
+  'unitPrice' : bigint,
+}
 export interface Notification {
   'title' : string,
   'userId' : Principal,
@@ -114,33 +280,140 @@ export interface Notification {
   'timestamp' : Time,
   'notificationId' : bigint,
 }
+export interface OrderLine {
+  'lineTotal' : bigint,
+  'productId' : bigint,
+  'quantity' : bigint,
+  'unitPrice' : bigint,
+}
+export interface OrderLineInput {
+  'productId' : bigint,
+  'quantity' : bigint,
+  'unitPrice' : bigint,
+}
 export interface OrderRecord {
   'id' : bigint,
-  'status' : string,
+  'status' : OrderStatus,
   'created' : Time,
   'modified' : Time,
-  'productId' : bigint,
-  'quantity' : bigint,
+  'invoiceId' : [] | [bigint],
+  'statusHistory' : Array<OrderStatusChange>,
+  'lines' : Array<OrderLine>,
+  'stockReserved' : boolean,
   'customerId' : bigint,
   'totalPrice' : bigint,
 }
+export type OrderStatus = { 'cancelled' : null } |
+  { 'pending' : null } |
+  { 'fulfilled' : null } |
+  { 'processing' : null };
+export interface OrderStatusChange {
+  'status' : OrderStatus,
+  'changedAt' : Time,
+}
+export interface Payment {
+  'created' : Time,
+  'mode' : PaymentMode,
+  'reference' : string,
+  'invoiceId' : bigint,
+  'recordedBy' : Principal,
+  'paymentId' : bigint,
+  'paymentDate' : Time,
+  'amount' : bigint,
+}
+export type PaymentMode = { 'upi' : null } |
+  { 'cash' : null } |
+  { 'bankTransfer' : null } |
+  { 'cheque' : null };
 export interface Product {
+  'mrp' : bigint,
+  'styleId' : [] | [bigint],
   'inventoryStatus' : InventoryStatus,
   'name' : string,
+  'wholesalePrice' : bigint,
   'color' : string,
   'rack' : string,
   'size' : string,
   'description' : string,
+  'hsnCode' : string,
   'productId' : bigint,
   'shelf' : string,
+  'reservedStock' : bigint,
+  'attributes' : ProductAttributes,
   'barcode' : string,
   'stockLevel' : bigint,
   'price' : bigint,
+  'costPrice' : bigint,
   'warehouse' : string,
   'supplierId' : [] | [bigint],
+  'archived' : boolean,
+  'taxSlab' : TaxSlabRule,
   'images' : Array<ExternalBlob>,
 }
+export interface ProductAttributes {
+  'categoryId' : [] | [bigint],
+  'tags' : Array<string>,
+  'season' : string,
+  'brand' : string,
+  'fabric' : string,
+}
+export interface ProductCategory {
+  'categoryId' : bigint,
+  'name' : string,
+  'parentId' : [] | [bigint],
+}
+export interface ProductImportRow {
+  'mrp' : bigint,
+  'name' : string,
+  'wholesalePrice' : bigint,
+  'color' : string,
+  'rack' : string,
+  'size' : string,
+  'description' : string,
+  'hsnCode' : string,
+  'shelf' : string,
+  'attributes' : ProductAttributes,
+  'barcode' : string,
+  'stockLevel' : bigint,
+  'price' : bigint,
+  'costPrice' : bigint,
+  'warehouse' : string,
+  'taxSlab' : TaxSlabRule,
+}
+export interface ProductImportSummary { 'created' : bigint, 'updated' : bigint }
+export interface ProductPriceRevision {
+  'mrp' : [] | [bigint],
+  'wholesalePrice' : [] | [bigint],
+  'productId' : bigint,
+  'price' : [] | [bigint],
+}
+export interface ProductStyle {
+  'styleId' : bigint,
+  'created' : Time,
+  'name' : string,
+  'hsnCode' : string,
+  'sizes' : Array<string>,
+  'attributes' : ProductAttributes,
+  'colors' : Array<string>,
+  'articleNumber' : string,
+  'taxSlab' : TaxSlabRule,
+}
+export interface ProductStyleInput {
+  'mrp' : bigint,
+  'name' : string,
+  'wholesalePrice' : bigint,
+  'description' : string,
+  'hsnCode' : string,
+  'sizes' : Array<string>,
+  'attributes' : ProductAttributes,
+  'colors' : Array<string>,
+  'price' : bigint,
+  'costPrice' : bigint,
+  'articleNumber' : string,
+  'taxSlab' : TaxSlabRule,
+}
 export interface ProfitLossReport {
+  'expenseBreakdown' : Array<ExpenseCategoryTotal>,
   'reportDateRange' : ReportDateRange,
   'revenue' : bigint,
   'grossProfit' : bigint,
@@ -148,6 +421,60 @@ export interface ProfitLossReport {
   'expenses' : bigint,
   'netProfit' : bigint,
 }
+export interface PurchaseOrder {
+  'status' : PurchaseOrderStatus,
+  'created' : Time,
+  'total' : bigint,
+  'createdBy' : Principal,
+  'purchaseOrderId' : bigint,
+  'lines' : Array<PurchaseOrderLine>,
+  'lastModified' : Time,
+  'notes' : string,
+  'expectedDate' : Time,
+  'poNumber' : string,
+  'supplierId' : bigint,
+}
+export interface PurchaseOrderLine {
+  'unit' : string,
+  'lineTotal' : bigint,
+  'description' : string,
+  'productId' : [] | [bigint],
+  'quantity' : bigint,
+  'unitCost' : bigint,
+}
+export interface PurchaseOrderLineInput {
+  'unit' : string,
+  'description' : string,
+  'productId' : [] | [bigint],
+  'quantity' : bigint,
+  'unitCost' : bigint,
+}
+export type PurchaseOrderStatus = { 'cancelled' : null } |
+  { 'ordered' : null } |
+  { 'partiallyReceived' : null } |
+  { 'draft' : null } |
+  { 'received' : null };
+export interface Quotation {
+  'tax' : bigint,
+  'status' : QuotationStatus,
+  'quotationId' : bigint,
+  'created' : Time,
+  'total' : bigint,
+  'createdBy' : Principal,
+  'invoiceId' : [] | [bigint],
+  'lines' : Array<InvoiceLine>,
+  'lastModified' : Time,
+  'interState' : boolean,
+  'notes' : string,
+  'customerId' : bigint,
+  'placeOfSupply' : string,
+  'orderIds' : Array<bigint>,
+  'validUntil' : Time,
+}
+export type QuotationStatus = { 'expired' : null } |
+  { 'sent' : null } |
+  { 'accepted' : null } |
+  { 'draft' : null };
 export interface ReportDateRange { 'endDate' : Time, 'startDate' : Time }
 export interface Stats {
   'totalOrders' : bigint,
@@ -155,12 +482,66 @@ export interface Stats {
   'totalRevenue' : bigint,
   'totalCustomers' : bigint,
 }
+export interface StockMovement {
+  'movementId' : bigint,
+  'balance' : bigint,
+  'reference' : string,
+  'productId' : bigint,
+  'recordedBy' : Principal,
+  'timestamp' : Time,
+  'delta' : bigint,
+  'reason' : StockMovementReason,
+}
+export type StockMovementReason = { 'theft' : null } |
+  { 'damage' : null } |
+  { 'salesReturn' : null } |
+  { 'opening' : null } |
+  { 'sale' : null } |
+  { 'correction' : null } |
+  { 'transfer' : null } |
+  { 'purchase' : null };
+export interface Supplier {
+  'paymentTermsDays' : bigint,
+  'created' : Time,
+  'modified' : Time,
+  'name' : string,
+  'contactPerson' : string,
+  'email' : string,
+  'state' : string,
+  'gstin' : string,
+  'address' : string,
+  'phone' : string,
+  'supplierId' : bigint,
+}
+export interface SupplierInput {
+  'paymentTermsDays' : bigint,
+  'name' : string,
+  'contactPerson' : string,
+  'email' : string,
+  'state' : string,
+  'gstin' : string,
+  'address' : string,
+  'phone' : string,
+}
 export type SystemStatus = { 'initialized' : null } |
   { 'unknown' : null };
 export type T = { 'paid' : null } |
   { 'sent' : null } |
   { 'overdue' : null } |
+  { 'partiallyPaid' : null } |
   { 'draft' : null };
+export interface TaxSlabRule {
+  'threshold' : bigint,
+  'highRate' : bigint,
+  'lowRate' : bigint,
+}
+export interface TaxonomyTerm {
+  'kind' : TaxonomyTermKind,
+  'name' : string,
+  'termId' : bigint,
+}
+export type TaxonomyTermKind = { 'season' : null } |
+  { 'brand' : null };
 export type Time = bigint;
 export interface UserApprovalInfo {
   'status' : ApprovalStatus,
@@ -178,6 +559,11 @@ export interface UserProfile {
 export type UserRole = { 'admin' : null } |
   { 'user' : null } |
   { 'guest' : null };
+export interface VariantQuantity {
+  'color' : string,
+  'size' : string,
+  'quantity' : bigint,
+}
 export interface _CaffeineStorageCreateCertificateResult {
   'method' : string,
   'blob_hash' : string,
@@ -213,18 +599,30 @@ export interface _SERVICE {
       string,
       bigint,
       bigint,
+      bigint,
+      bigint,
+      bigint,
+      string,
       string,
       string,
       string,
       string,
       string,
       string,
+      TaxSlabRule,
+      ProductAttributes,
     ],
     bigint
   >,
   'addProductImage' : ActorMethod<[bigint, ExternalBlob], undefined>,
   'addSecondaryAdminEmail' : ActorMethod<[string], undefined>,
+  'adjustStock' : ActorMethod<
+    [bigint, bigint, StockMovementReason, string],
+    undefined
+  >,
   'approveUser' : ActorMethod<[Principal], undefined>,
+  'archiveProduct' : ActorMethod<[bigint], undefined>,
+  'archiveProducts' : ActorMethod<[Array<bigint>], undefined>,
   'assignAppRole' : ActorMethod<[Principal, AppRole], undefined>,
   'assignCallerUserRole' : ActorMethod<[Principal, UserRole], undefined>,
   'batchExportBarcodes' : ActorMethod<
@@ -233,31 +631,70 @@ export interface _SERVICE {
   >,
   'clearAllInvoices' : ActorMethod<[], undefined>,
   'clearPreviousRejection' : ActorMethod<[Principal], undefined>,
-  'createCustomer' : ActorMethod<[string, string, string, string], bigint>,
+  'convertQuotationToInvoice' : ActorMethod<[bigint], bigint>,
+  'createCreditNote' : ActorMethod<
+    [bigint, Array<CreditNoteLineInput>, string],
+    bigint
+  >,
+  'createCustomer' : ActorMethod<
+    [string, string, string, string, string, bigint],
+    bigint
+  >,
   'createDataEntry' : ActorMethod<[string, bigint, bigint, bigint], bigint>,
+  'createDispatch' : ActorMethod<[bigint, DispatchInput], bigint>,
+  'createExpense' : ActorMethod<[ExpenseInput], bigint>,
+  'createGoodsReceipt' : ActorMethod<
+    [[] | [bigint], bigint, Array<GoodsReceiptLineInput>, string, string],
+    bigint
+  >,
   'createInvoice' : ActorMethod<
-    [bigint, bigint, bigint, bigint, bigint, bigint, T],
+    [bigint, Array<InvoiceLineInput>, T, [] | [bigint]],
     bigint
   >,
+  'createInvoiceFromOrders' : ActorMethod<[Array<bigint>], bigint>,
   'createNotification' : ActorMethod<[Principal, string, string], bigint>,
-  'createOrder' : ActorMethod<[bigint, bigint, bigint, string, bigint], bigint>,
+  'createOrder' : ActorMethod<[bigint, Array<OrderLineInput>], bigint>,
+  'createProductCategory' : ActorMethod<[string, [] | [bigint]], bigint>,
+  'createProductStyle' : ActorMethod<
+    [ProductStyleInput, Array<VariantQuantity>],
+    bigint
+  >,
+  'createPurchaseOrder' : ActorMethod<
+    [bigint, Array<PurchaseOrderLineInput>, Time, string],
+    bigint
+  >,
+  'createQuotation' : ActorMethod<
+    [bigint, Array<InvoiceLineInput>, Time, string],
+    bigint
+  >,
+  'createSupplier' : ActorMethod<[SupplierInput], bigint>,
+  'createTaxonomyTerm' : ActorMethod<[TaxonomyTermKind, string], bigint>,
   'deleteAllInventory' : ActorMethod<[], undefined>,
   'deleteAllOrders' : ActorMethod<[], undefined>,
   'deleteCustomer' : ActorMethod<[bigint], boolean>,
+  'deleteExpense' : ActorMethod<[bigint], undefined>,
   'deleteNotification' : ActorMethod<[bigint], boolean>,
-  'exportInvoiceHistory' : ActorMethod<
-    [InvoiceExportFormat, [] | [InvoiceFilter], [] | [string], [] | [string]],
-    ExternalBlob
-  >,
+  'deleteProduct' : ActorMethod<[bigint], undefined>,
+  'deleteProductCategory' : ActorMethod<[bigint], undefined>,
+  'deleteSupplier' : ActorMethod<[bigint], undefined>,
+  'deleteTaxonomyTerm' : ActorMethod<[bigint], undefined>,
   'exportProductBarcode' : ActorMethod<[BarcodeExportRequest], ExternalBlob>,
+  'extendProductStyle' : ActorMethod<
+    [bigint, Array<string>, Array<string>],
+    undefined
+  >,
   'getAllApprovalRequests' : ActorMethod<[], Array<ApprovalRequest>>,
   'getApprovalRequests' : ActorMethod<[], Array<UserApprovalInfo>>,
   'getBootstrapState' : ActorMethod<[], AppBootstrapState>,
   'getBootstrapStatus' : ActorMethod<[], BootstrapStatus>,
   'getCallerUserProfile' : ActorMethod<[], [] | [UserProfile]>,
   'getCallerUserRole' : ActorMethod<[], UserRole>,
+  'getCompanyLogo' : ActorMethod<[], [] | [ExternalBlob]>,
+  'getCompanySettings' : ActorMethod<[], CompanySettings>,
   'getCustomer' : ActorMethod<[bigint], [] | [Customer]>,
   'getDataEntry' : ActorMethod<[bigint], [] | [DataEntry]>,
+  'getDispatch' : ActorMethod<[bigint], [] | [Dispatch]>,
+  'getGoodsReceipt' : ActorMethod<[bigint], [] | [GoodsReceipt]>,
   'getInventoryEntry' : ActorMethod<[bigint], [] | [InventoryRecord]>,
   'getInventoryReportBarcodes' : ActorMethod<[], Array<string>>,
   'getInvoice' : ActorMethod<[bigint], [] | [Invoice]>,
@@ -265,15 +702,23 @@ export interface _SERVICE {
     [[] | [InvoiceFilter], [] | [string], [] | [string]],
     Array<Invoice>
   >,
+  'getInvoiceNumberPrefix' : ActorMethod<[], string>,
   'getOrder' : ActorMethod<[bigint], [] | [OrderRecord]>,
   'getPendingUsers' : ActorMethod<[], Array<UserApprovalInfo>>,
   'getProduct' : ActorMethod<[bigint], [] | [Product]>,
   'getProductLocation' : ActorMethod<[bigint], [] | [InventoryLocation]>,
   'getProfitLossReport' : ActorMethod<[Time, Time], ProfitLossReport>,
+  'getPurchaseOrder' : ActorMethod<[bigint], [] | [PurchaseOrder]>,
+  'getQuotation' : ActorMethod<[bigint], [] | [Quotation]>,
   'getSignatureForUser' : ActorMethod<[Principal], [] | [ExternalBlob]>,
   'getStats' : ActorMethod<[], Stats>,
+  'getSupplier' : ActorMethod<[bigint], [] | [Supplier]>,
   'getUserProfile' : ActorMethod<[Principal], [] | [UserProfile]>,
   'getUserSignature' : ActorMethod<[], [] | [ExternalBlob]>,
+  'importProducts' : ActorMethod<
+    [Array<ProductImportRow>],
+    ProductImportSummary
+  >,
   'isAccountant' : ActorMethod<[], boolean>,
   'isAdmin' : ActorMethod<[], boolean>,
   'isCallerAdmin' : ActorMethod<[], boolean>,
@@ -283,28 +728,67 @@ export interface _SERVICE {
   'isSalesManager' : ActorMethod<[], boolean>,
   'isSuperAdmin' : ActorMethod<[], boolean>,
   'listApprovals' : ActorMethod<[], Array<UserApprovalInfo>>,
+  'listCreditNotes' : ActorMethod<[], Array<CreditNote>>,
   'listCustomers' : ActorMethod<[], Array<Customer>>,
   'listDataEntries' : ActorMethod<[], Array<DataEntry>>,
+  'listDispatches' : ActorMethod<[], Array<Dispatch>>,
+  'listExpenses' : ActorMethod<[], Array<Expense>>,
+  'listGoodsReceipts' : ActorMethod<[], Array<GoodsReceipt>>,
   'listInventory' : ActorMethod<[], Array<InventoryRecord>>,
+  'listInvoicePayments' : ActorMethod<[bigint], Array<Payment>>,
   'listInvoices' : ActorMethod<[], Array<Invoice>>,
   'listNotifications' : ActorMethod<[], Array<Notification>>,
   'listOrders' : ActorMethod<[], Array<OrderRecord>>,
+  'listPayments' : ActorMethod<[], Array<Payment>>,
+  'listProductCategories' : ActorMethod<[], Array<ProductCategory>>,
+  'listProductStyles' : ActorMethod<[], Array<ProductStyle>>,
   'listProducts' : ActorMethod<[], Array<Product>>,
+  'listPurchaseOrders' : ActorMethod<[], Array<PurchaseOrder>>,
+  'listQuotations' : ActorMethod<[], Array<Quotation>>,
   'listSecondaryAdminEmails' : ActorMethod<[], Array<string>>,
+  'listStockMovements' : ActorMethod<[bigint], Array<StockMovement>>,
+  'listSuppliers' : ActorMethod<[], Array<Supplier>>,
+  'listTaxonomyTerms' : ActorMethod<[], Array<TaxonomyTerm>>,
   'markNotificationAsRead' : ActorMethod<[bigint], boolean>,
   'permanentlyRemoveUserAccount' : ActorMethod<[Principal], undefined>,
   'processPreviouslyRejectedUser' : ActorMethod<[Principal], undefined>,
+  'recordPayment' : ActorMethod<
+    [bigint, bigint, Time, PaymentMode, string],
+    bigint
+  >,
   'rejectUser' : ActorMethod<[Principal], undefined>,
   'removeSecondaryAdminEmail' : ActorMethod<[string], undefined>,
+  'renameProductCategory' : ActorMethod<[bigint, string], undefined>,
   'requestApproval' : ActorMethod<[], undefined>,
+  'restoreProduct' : ActorMethod<[bigint], undefined>,
+  'reviseProductPrices' : ActorMethod<[Array<ProductPriceRevision>], undefined>,
   'saveCallerUserProfile' : ActorMethod<[UserProfile], undefined>,
   'setApproval' : ActorMethod<[Principal, ApprovalStatus], undefined>,
+  'setCompanyLogo' : ActorMethod<[[] | [ExternalBlob]], undefined>,
+  'setInvoiceNumberPrefix' : ActorMethod<[string], undefined>,
   'setProductLocation' : ActorMethod<[bigint, InventoryLocation], undefined>,
+  'setProductsCategory' : ActorMethod<
+    [Array<bigint>, [] | [bigint]],
+    undefined
+  >,
+  'setProductsLocation' : ActorMethod<
+    [Array<bigint>, string, string, string],
+    undefined
+  >,
   'stockAdjustInvoice' : ActorMethod<[bigint], undefined>,
+  'updateCompanySettings' : ActorMethod<[CompanySettings], undefined>,
+  'updateCustomerPaymentTerms' : ActorMethod<[bigint, bigint], undefined>,
+  'updateDispatchDetails' : ActorMethod<[bigint, DispatchInput], undefined>,
+  'updateDispatchStatus' : ActorMethod<
+    [bigint, DispatchStatus, [] | [Time]],
+    undefined
+  >,
+  'updateExpense' : ActorMethod<[bigint, ExpenseInput], undefined>,
   'updateInvoiceDocumentUrls' : ActorMethod<
     [bigint, [] | [string], [] | [string]],
     boolean
   >,
+  'updateOrderStatus' : ActorMethod<[bigint, OrderStatus], undefined>,
   'updateProduct' : ActorMethod<
     [
       bigint,
@@ -312,15 +796,27 @@ export interface _SERVICE {
       string,
       bigint,
       bigint,
+      bigint,
+      bigint,
+      bigint,
+      string,
       string,
       string,
       string,
       string,
       string,
       string,
+      TaxSlabRule,
+      ProductAttributes,
     ],
     undefined
   >,
+  'updatePurchaseOrderStatus' : ActorMethod<
+    [bigint, PurchaseOrderStatus],
+    undefined
+  >,
+  'updateQuotationStatus' : ActorMethod<[bigint, QuotationStatus], undefined>,
+  'updateSupplier' : ActorMethod<[bigint, SupplierInput], undefined>,
   'uploadUserSignature' : ActorMethod<[ExternalBlob], undefined>,
 }
 export declare const idlService: IDL.ServiceClass;
@@ -19,7 +19,29 @@ export const _CaffeineStorageRefillResult = IDL.Record({
   'success' : IDL.Opt(IDL.Bool),
   'topped_up_amount' : IDL.Opt(IDL.Nat),
 });
+export const TaxSlabRule = IDL.Record({
+  'threshold' : IDL.Nat,
+  'highRate' : IDL.Nat,
+  'lowRate' : IDL.Nat,
+});
+export const ProductAttributes = IDL.Record({
+  'categoryId' : IDL.Opt(IDL.Nat),
+  'tags' : IDL.Vec(IDL.Text),
+  'season' : IDL.Text,
+  'brand' : IDL.Text,
+  'fabric' : IDL.Text,
+});
 export const ExternalBlob = IDL.Vec(IDL.Nat8);
+export const StockMovementReason = IDL.Variant({
+  'theft' : IDL.Null,
+  'damage' : IDL.Null,
+  'salesReturn' : IDL.Null,
+  'opening' : IDL.Null,
+  'sale' : IDL.Null,
+  'correction' : IDL.Null,
+  'transfer' : IDL.Null,
+  'purchase' : IDL.Null,
+});
 export const AppRole = IDL.Variant({
   'accountant' : IDL.Null,
   'admin' : IDL.Null,
@@ -39,26 +61,108 @@ export const BarcodeBatchExportRequest = IDL.Record({
   'productIds' : IDL.Vec(IDL.Nat),
   'exportType' : BarcodeExportFormat,
 });
+export const CreditNoteLineInput = IDL.Record({
+  'lineIndex' : IDL.Nat,
+  'damaged' : IDL.Bool,
+  'quantity' : IDL.Nat,
+});
+export const Time = IDL.Int;
+export const DispatchInput = IDL.Record({
+  'vehicleNumber' : IDL.Text,
+  'dispatchDate' : Time,
+  'lrNumber' : IDL.Text,
+  'packageCount' : IDL.Nat,
+  'transporterName' : IDL.Text,
+});
+export const PaymentMode = IDL.Variant({
+  'upi' : IDL.Null,
+  'cash' : IDL.Null,
+  'bankTransfer' : IDL.Null,
+  'cheque' : IDL.Null,
+});
+export const ExpenseCategory = IDL.Variant({
+  'other' : IDL.Null,
+  'marketing' : IDL.Null,
+  'rent' : IDL.Null,
+  'transport' : IDL.Null,
+  'electricity' : IDL.Null,
+  'maintenance' : IDL.Null,
+  'salaries' : IDL.Null,
+  'packaging' : IDL.Null,
+});
+export const ExpenseInput = IDL.Record({
+  'expenseDate' : Time,
+  'receipt' : IDL.Opt(ExternalBlob),
+  'mode' : PaymentMode,
+  'description' : IDL.Text,
+  'category' : ExpenseCategory,
+  'amount' : IDL.Nat,
+});
+export const GoodsReceiptLineInput = IDL.Record({
+  'rejectedQuantity' : IDL.Nat,
+  'unit' : IDL.Text,
+  'description' : IDL.Text,
+  'productId' : IDL.Opt(IDL.Nat),
+  'receivedQuantity' : IDL.Nat,
+  'purchaseOrderLine' : IDL.Opt(IDL.Nat),
+});
+export const InvoiceLineInput = IDL.Record({
+  'productId' : IDL.Nat,
+  'discount' : IDL.Nat,
+  'quantity' : IDL.Nat,
+  'unitPrice' : IDL.Nat,
+});
 export const T = IDL.Variant({
   'paid' : IDL.Null,
   'sent' : IDL.Null,
   'overdue' : IDL.Null,
+  'partiallyPaid' : IDL.Null,
   'draft' : IDL.Null,
 });
-export const InvoiceExportFormat = IDL.Variant({
-  'pdf' : IDL.Null,
-  'excel' : IDL.Null,
+export const OrderLineInput = IDL.Record({
+  'productId' : IDL.Nat,
+  'quantity' : IDL.Nat,
+  'unitPrice' : IDL.Nat,
 });
-export const Time = IDL.Int;
-export const ReportDateRange = IDL.Record({
-  'endDate' : Time,
-  'startDate' : Time,
+export const ProductStyleInput = IDL.Record({
+  'mrp' : IDL.Nat,
+  'name' : IDL.Text,
+  'wholesalePrice' : IDL.Nat,
+  'description' : IDL.Text,
+  'hsnCode' : IDL.Text,
+  'sizes' : IDL.Vec(IDL.Text),
+  'attributes' : ProductAttributes,
+  'colors' : IDL.Vec(IDL.Text),
+  'price' : IDL.Nat,
+  'costPrice' : IDL.Nat,
+  'articleNumber' : IDL.Text,
+  'taxSlab' : TaxSlabRule,
 });
-export const InvoiceFilter = IDL.Record({
-  'paymentStatus' : IDL.Opt(T),
-  'customerId' : IDL.Opt(IDL.Nat),
-  'invoiceDateRange' : IDL.Opt(ReportDateRange),
-  'searchQuery' : IDL.Opt(IDL.Text),
+export const VariantQuantity = IDL.Record({
+  'color' : IDL.Text,
+  'size' : IDL.Text,
+  'quantity' : IDL.Nat,
+});
+export const PurchaseOrderLineInput = IDL.Record({
+  'unit' : IDL.Text,
+  'description' : IDL.Text,
+  'productId' : IDL.Opt(IDL.Nat),
+  'quantity' : IDL.Nat,
+  'unitCost' : IDL.Nat,
+});
+export const SupplierInput = IDL.Record({
+  'paymentTermsDays' : IDL.Nat,
+  'name' : IDL.Text,
+  'contactPerson' : IDL.Text,
+  'email' : IDL.Text,
+  'state' : IDL.Text,
+  'gstin' : IDL.Text,
+  'address' : IDL.Text,
+  'phone' : IDL.Text,
+});
+export const TaxonomyTermKind = IDL.Variant({
+  'season' : IDL.Null,
+  'brand' : IDL.Null,
 });
 export const BarcodeExportRequest = IDL.Record({
   'exportType' : BarcodeExportFormat,
@@ -103,12 +207,37 @@ export const BootstrapStatus = IDL.Record({
   'backendAvailable' : IDL.Bool,
   'jsonSupport' : IDL.Bool,
 });
+export const BankDetails = IDL.Record({
+  'branch' : IDL.Text,
+  'ifsc' : IDL.Text,
+  'bankName' : IDL.Text,
+  'accountName' : IDL.Text,
+  'accountNumber' : IDL.Text,
+});
+export const CompanySettings = IDL.Record({
+  'pan' : IDL.Text,
+  'stateCode' : IDL.Text,
+  'bankDetails' : BankDetails,
+  'tagline' : IDL.Text,
+  'primaryColor' : IDL.Text,
+  'email' : IDL.Text,
+  'website' : IDL.Text,
+  'accentColor' : IDL.Text,
+  'legalName' : IDL.Text,
+  'invoiceFooterTerms' : IDL.Text,
+  'gstin' : IDL.Text,
+  'address' : IDL.Text,
+  'upiId' : IDL.Text,
+  'phone' : IDL.Text,
+});
 export const Customer = IDL.Record({
   'id' : IDL.Nat,
+  'paymentTermsDays' : IDL.Nat,
   'created' : Time,
   'modified' : Time,
   'name' : IDL.Text,
   'email' : IDL.Text,
+  'state' : IDL.Text,
   'address' : IDL.Text,
   'phone' : IDL.Text,
 });
@@ -121,6 +250,49 @@ export const DataEntry = IDL.Record({
   'entityType' : IDL.Text,
   'amount' : IDL.Nat,
 });
+export const DispatchStatus = IDL.Variant({
+  'dispatched' : IDL.Null,
+  'inTransit' : IDL.Null,
+  'delivered' : IDL.Null,
+});
+export const Dispatch = IDL.Record({
+  'challanNumber' : IDL.Text,
+  'status' : DispatchStatus,
+  'created' : Time,
+  'vehicleNumber' : IDL.Text,
+  'createdBy' : IDL.Principal,
+  'dispatchId' : IDL.Nat,
+  'dispatchDate' : Time,
+  'deliveryDate' : IDL.Opt(Time),
+  'orderId' : IDL.Nat,
+  'lastModified' : Time,
+  'lrNumber' : IDL.Text,
+  'packageCount' : IDL.Nat,
+  'transporterName' : IDL.Text,
+});
+export const GoodsReceiptLine = IDL.Record({
+  'rejectedQuantity' : IDL.Nat,
+  'unit' : IDL.Text,
+  'description' : IDL.Text,
+  'productId' : IDL.Opt(IDL.Nat),
+  'receivedQuantity' : IDL.Nat,
+  'pendingQuantity' : IDL.Nat,
+  'orderedQuantity' : IDL.Nat,
+  'acceptedQuantity' : IDL.Nat,
+  'purchaseOrderLine' : IDL.Opt(IDL.Nat),
+});
+export const GoodsReceipt = IDL.Record({
+  'grnNumber' : IDL.Text,
+  'created' : Time,
+  'goodsReceiptId' : IDL.Nat,
+  'createdBy' : IDL.Principal,
+  'purchaseOrderId' : IDL.Opt(IDL.Nat),
+  'lines' : IDL.Vec(GoodsReceiptLine),
+  'notes' : IDL.Text,
+  'batch' : IDL.Text,
+  'supplierId' : IDL.Nat,
+  'inventoryIds' : IDL.Vec(IDL.Nat),
+});
 export const InventoryRecord = IDL.Record({
   'id' : IDL.Nat,
   'created' : Time,
@@ -130,6 +302,19 @@ export const InventoryRecord = IDL.Record({
   'batch' : IDL.Text,
   'supplierId' : IDL.Nat,
 });
+export const InvoiceLine = IDL.Record({
+  'tax' : IDL.Nat,
+  'cgst' : IDL.Nat,
+  'igst' : IDL.Nat,
+  'sgst' : IDL.Nat,
+  'hsnCode' : IDL.Text,
+  'productId' : IDL.Nat,
+  'discount' : IDL.Nat,
+  'quantity' : IDL.Nat,
+  'unitPrice' : IDL.Nat,
+  'taxRate' : IDL.Nat,
+  'unitCost' : IDL.Nat,
+});
 export const Invoice = IDL.Record({
   'tax' : IDL.Nat,
   'status' : T,
@@ -139,24 +324,55 @@ export const Invoice = IDL.Record({
   'stockAdjusted' : IDL.Bool,
   'dueDate' : IDL.Opt(Time),
   'invoiceId' : IDL.Nat,
-  'productId' : IDL.Nat,
+  'lines' : IDL.Vec(InvoiceLine),
+  'amountPaid' : IDL.Nat,
   'lastModified' : Time,
+  'interState' : IDL.Bool,
   'imageUrl' : IDL.Opt(IDL.Text),
+  'invoiceNumber' : IDL.Text,
   'pdfUrl' : IDL.Opt(IDL.Text),
   'paymentDate' : IDL.Opt(Time),
-  'quantity' : IDL.Nat,
   'customerId' : IDL.Nat,
+  'placeOfSupply' : IDL.Text,
   'orderIds' : IDL.Vec(IDL.Nat),
-  'price' : IDL.Nat,
+  'creditedAmount' : IDL.Nat,
   'inventoryIds' : IDL.Vec(IDL.Nat),
 });
+export const ReportDateRange = IDL.Record({
+  'endDate' : Time,
+  'startDate' : Time,
+});
+export const InvoiceFilter = IDL.Record({
+  'paymentStatus' : IDL.Opt(T),
+  'customerId' : IDL.Opt(IDL.Nat),
+  'invoiceDateRange' : IDL.Opt(ReportDateRange),
+  'searchQuery' : IDL.Opt(IDL.Text),
+});
+export const OrderStatus = IDL.Variant({
+  'cancelled' : IDL.Null,
+  'pending' : IDL.Null,
+  'fulfilled' : IDL.Null,
+  'processing' : IDL.Null,
+});
+export const OrderStatusChange = IDL.Record({
+  'status' : OrderStatus,
+  'changedAt' : Time,
+});
+export const OrderLine = IDL.Record({
+  'lineTotal' : IDL.Nat,
+  'productId' : IDL.Nat,
+  'quantity' : IDL.Nat,
+  'unitPrice' : IDL.Nat,
+});
 export const OrderRecord = IDL.Record({
   'id' : IDL.Nat,
-  'status' : IDL.Text,
+  'status' : OrderStatus,
   'created' : Time,
   'modified' : Time,
-  'productId' : IDL.Nat,
-  'quantity' : IDL.Nat,
+  'invoiceId' : IDL.Opt(IDL.Nat),
+  'statusHistory' : IDL.Vec(OrderStatusChange),
+  'lines' : IDL.Vec(OrderLine),
+  'stockReserved' : IDL.Bool,
   'customerId' : IDL.Nat,
   'totalPrice' : IDL.Nat,
 });
@@ -166,19 +382,28 @@ export const InventoryStatus = IDL.Variant({
   'outOfStock' : IDL.Null,
 });
 export const Product = IDL.Record({
+  'mrp' : IDL.Nat,
+  'styleId' : IDL.Opt(IDL.Nat),
   'inventoryStatus' : InventoryStatus,
   'name' : IDL.Text,
+  'wholesalePrice' : IDL.Nat,
   'color' : IDL.Text,
   'rack' : IDL.Text,
   'size' : IDL.Text,
   'description' : IDL.Text,
+  'hsnCode' : IDL.Text,
   'productId' : IDL.Nat,
   'shelf' : IDL.Text,
+  'reservedStock' : IDL.Nat,
+  'attributes' : ProductAttributes,
   'barcode' : IDL.Text,
   'stockLevel' : IDL.Nat,
   'price' : IDL.Nat,
+  'costPrice' : IDL.Nat,
   'warehouse' : IDL.Text,
   'supplierId' : IDL.Opt(IDL.Nat),
+  'archived' : IDL.Bool,
+  'taxSlab' : TaxSlabRule,
   'images' : IDL.Vec(ExternalBlob),
 });
 export const InventoryLocation = IDL.Record({
@@ -186,13 +411,69 @@ export const InventoryLocation = IDL.Record({
   'shelf' : IDL.Text,
   'warehouse' : IDL.Text,
 });
+export const ExpenseCategoryTotal = IDL.Record({
+  'category' : ExpenseCategory,
+  'amount' : IDL.Nat,
+});
 export const ProfitLossReport = IDL.Record({
+  'expenseBreakdown' : IDL.Vec(ExpenseCategoryTotal),
   'reportDateRange' : ReportDateRange,
   'revenue' : IDL.Nat,
   'grossProfit' : IDL.Nat,
   'cogs' : IDL.Nat,
   'expenses' : IDL.Nat,
-  'netProfit' : IDL.Nat,
+  'netProfit' : IDL.Int,
+});
+export const PurchaseOrderStatus = IDL.Variant({
+  'cancelled' : IDL.Null,
+  'ordered' : IDL.Null,
+  'partiallyReceived' : IDL.Null,
+  'draft' : IDL.Null,
+  'received' : IDL.Null,
+});
+export const PurchaseOrderLine = IDL.Record({
+  'unit' : IDL.Text,
+  'lineTotal' : IDL.Nat,
+  'description' : IDL.Text,
+  'productId' : IDL.Opt(IDL.Nat),
+  'quantity' : IDL.Nat,
+  'unitCost' : IDL.Nat,
+});
+export const PurchaseOrder = IDL.Record({
+  'status' : PurchaseOrderStatus,
+  'created' : Time,
+  'total' : IDL.Nat,
+  'createdBy' : IDL.Principal,
+  'purchaseOrderId' : IDL.Nat,
+  'lines' : IDL.Vec(PurchaseOrderLine),
+  'lastModified' : Time,
+  'notes' : IDL.Text,
+  'expectedDate' : Time,
+  'poNumber' : IDL.Text,
+  'supplierId' : IDL.Nat,
+});
+export const QuotationStatus = IDL.Variant({
+  'expired' : IDL.Null,
+  'sent' : IDL.Null,
+  'accepted' : IDL.Null,
+  'draft' : IDL.Null,
+});
+export const Quotation = IDL.Record({
+  'tax' : IDL.Nat,
+  'status' : QuotationStatus,
+  'quotationId' : IDL.Nat,
+  'created' : Time,
+  'total' : IDL.Nat,
+  'createdBy' : IDL.Principal,
+  'invoiceId' : IDL.Opt(IDL.Nat),
+  'lines' : IDL.Vec(InvoiceLine),
+  'lastModified' : Time,
+  'interState' : IDL.Bool,
+  'notes' : IDL.Text,
+  'customerId' : IDL.Nat,
+  'placeOfSupply' : IDL.Text,
+  'orderIds' : IDL.Vec(IDL.Nat),
+  'validUntil' : Time,
 });
 export const Stats = IDL.Record({
   'totalOrders' : IDL.Nat,
@@ -200,6 +481,91 @@ export const Stats = IDL.Record({
   'totalRevenue' : IDL.Nat,
   'totalCustomers' : IDL.Nat,
 });
+export const Supplier = IDL.Record({
+  'paymentTermsDays' : IDL.Nat,
+  'created' : Time,
+  'modified' : Time,
+  'name' : IDL.Text,
+  'contactPerson' : IDL.Text,
+  'email' : IDL.Text,
+  'state' : IDL.Text,
+  'gstin' : IDL.Text,
+  'address' : IDL.Text,
+  'phone' : IDL.Text,
+  'supplierId' : IDL.Nat,
+});
+export const ProductImportRow = IDL.Record({
+  'mrp' : IDL.Nat,
+  'name' : IDL.Text,
+  'wholesalePrice' : IDL.Nat,
+  'color' : IDL.Text,
+  'rack' : IDL.Text,
+  'size' : IDL.Text,
+  'description' : IDL.Text,
+  'hsnCode' : IDL.Text,
+  'shelf' : IDL.Text,
+  'attributes' : ProductAttributes,
+  'barcode' : IDL.Text,
+  'stockLevel' : IDL.Nat,
+  'price' : IDL.Nat,
+  'costPrice' : IDL.Nat,
+  'warehouse' : IDL.Text,
+  'taxSlab' : TaxSlabRule,
+});
+export const ProductImportSummary = IDL.Record({
+  'created' : IDL.Nat,
+  'updated' : IDL.Nat,
+});
+export const CreditNoteLine = IDL.Record({
+  'tax' : IDL.Nat,
+  'lineIndex' : IDL.Nat,
+  'damaged' : IDL.Bool,
+  'cgst' : IDL.Nat,
+  'igst' : IDL.Nat,
+  'taxableValue' : IDL.Nat,
+  'sgst' : IDL.Nat,
+  'hsnCode' : IDL.Text,
+  'productId' : IDL.Nat,
+  'quantity' : IDL.Nat,
+  'unitPrice' : IDL.Nat,
+  'taxRate' : IDL.Nat,
+});
+export const CreditNote = IDL.Record({
+  'tax' : IDL.Nat,
+  'created' : Time,
+  'total' : IDL.Nat,
+  'createdBy' : IDL.Principal,
+  'invoiceId' : IDL.Nat,
+  'lines' : IDL.Vec(CreditNoteLine),
+  'interState' : IDL.Bool,
+  'invoiceNumber' : IDL.Text,
+  'customerId' : IDL.Nat,
+  'creditNoteId' : IDL.Nat,
+  'reason' : IDL.Text,
+  'creditNoteNumber' : IDL.Text,
+});
+export const Expense = IDL.Record({
+  'expenseDate' : Time,
+  'created' : Time,
+  'receipt' : IDL.Opt(ExternalBlob),
+  'expenseId' : IDL.Nat,
+  'mode' : PaymentMode,
+  'description' : IDL.Text,
+  'recordedBy' : IDL.Principal,
+  'lastModified' : Time,
+  'category' : ExpenseCategory,
+  'amount' : IDL.Nat,
+});
+export const Payment = IDL.Record({
+  'created' : Time,
+  'mode' : PaymentMode,
+  'reference' : IDL.Text,
+  'invoiceId' : IDL.Nat,
+  'recordedBy' : IDL.Principal,
+  'paymentId' : IDL.Nat,
+  'paymentDate' : Time,
+  'amount' : IDL.Nat,
+});
 export const Notification = IDL.Record({
   'title' : IDL.Text,
   'userId' : IDL.Principal,
@@ -208,6 +574,43 @@ export const Notification = IDL.Record({
   'timestamp' : Time,
   'notificationId' : IDL.Nat,
 });
+export const ProductCategory = IDL.Record({
+  'categoryId' : IDL.Nat,
+  'name' : IDL.Text,
+  'parentId' : IDL.Opt(IDL.Nat),
+});
+export const ProductStyle = IDL.Record({
+  'styleId' : IDL.Nat,
+  'created' : Time,
+  'name' : IDL.Text,
+  'hsnCode' : IDL.Text,
+  'sizes' : IDL.Vec(IDL.Text),
+  'attributes' : ProductAttributes,
+  'colors' : IDL.Vec(IDL.Text),
+  'articleNumber' : IDL.Text,
+  'taxSlab' : TaxSlabRule,
+});
+export const StockMovement = IDL.Record({
+  'movementId' : IDL.Nat,
+  'balance' : IDL.Nat,
+  'reference' : IDL.Text,
+  'productId' : IDL.Nat,
+  'recordedBy' : IDL.Principal,
+  'timestamp' : Time,
+  'delta' : IDL.Int,
+  'reason' : StockMovementReason,
+});
+export const TaxonomyTerm = IDL.Record({
+  'kind' : TaxonomyTermKind,
+  'name' : IDL.Text,
+  'termId' : IDL.Nat,
+});
+export const ProductPriceRevision = IDL.Record({
+  'mrp' : IDL.Opt(IDL.Nat),
+  'wholesalePrice' : IDL.Opt(IDL.Nat),
+  'productId' : IDL.Nat,
+  'price' : IDL.Opt(IDL.Nat),
+});
 
 export const idlService = IDL.Service({
   '_caffeineStorageBlobIsLive' : IDL.Func(
@@ -248,19 +651,32 @@ export const idlService = IDL.Service({
         IDL.Text,
         IDL.Nat,
         IDL.Nat,
+        IDL.Nat,
+        IDL.Nat,
+        IDL.Nat,
+        IDL.Text,
         IDL.Text,
         IDL.Text,
         IDL.Text,
         IDL.Text,
         IDL.Text,
         IDL.Text,
+        TaxSlabRule,
+        ProductAttributes,
       ],
       [IDL.Nat],
       [],
     ),
   'addProductImage' : IDL.Func([IDL.Nat, ExternalBlob], [], []),
   'addSecondaryAdminEmail' : IDL.Func([IDL.Text], [], []),
+  'adjustStock' : IDL.Func(
+      [IDL.Nat, IDL.Int, StockMovementReason, IDL.Text],
+      [],
+      [],
+    ),
   'approveUser' : IDL.Func([IDL.Principal], [], []),
+  'archiveProduct' : IDL.Func([IDL.Nat], [], []),
+  'archiveProducts' : IDL.Func([IDL.Vec(IDL.Nat)], [], []),
   'assignAppRole' : IDL.Func([IDL.Principal, AppRole], [], []),
   'assignCallerUserRole' : IDL.Func([IDL.Principal, UserRole], [], []),
   'batchExportBarcodes' : IDL.Func(
@@ -270,8 +686,14 @@ export const idlService = IDL.Service({
     ),
   'clearAllInvoices' : IDL.Func([], [], []),
   'clearPreviousRejection' : IDL.Func([IDL.Principal], [], []),
+  'convertQuotationToInvoice' : IDL.Func([IDL.Nat], [IDL.Nat], []),
+  'createCreditNote' : IDL.Func(
+      [IDL.Nat, IDL.Vec(CreditNoteLineInput), IDL.Text],
+      [IDL.Nat],
+      [],
+    ),
   'createCustomer' : IDL.Func(
-      [IDL.Text, IDL.Text, IDL.Text, IDL.Text],
+      [IDL.Text, IDL.Text, IDL.Text, IDL.Text, IDL.Text, IDL.Nat],
       [IDL.Nat],
       [],
     ),
@@ -280,36 +702,68 @@ export const idlService = IDL.Service({
       [IDL.Nat],
       [],
     ),
+  'createDispatch' : IDL.Func([IDL.Nat, DispatchInput], [IDL.Nat], []),
+  'createExpense' : IDL.Func([ExpenseInput], [IDL.Nat], []),
+  'createGoodsReceipt' : IDL.Func(
+      [
+        IDL.Opt(IDL.Nat),
+        IDL.Nat,
+        IDL.Vec(GoodsReceiptLineInput),
+        IDL.Text,
+        IDL.Text,
+      ],
+      [IDL.Nat],
+      [],
+    ),
   'createInvoice' : IDL.Func(
-      [IDL.Nat, IDL.Nat, IDL.Nat, IDL.Nat, IDL.Nat, IDL.Nat, T],
+      [IDL.Nat, IDL.Vec(InvoiceLineInput), T, IDL.Opt(IDL.Nat)],
       [IDL.Nat],
       [],
     ),
+  'createInvoiceFromOrders' : IDL.Func([IDL.Vec(IDL.Nat)], [IDL.Nat], []),
   'createNotification' : IDL.Func(
       [IDL.Principal, IDL.Text, IDL.Text],
       [IDL.Nat],
       [],
     ),
-  'createOrder' : IDL.Func(
-      [IDL.Nat, IDL.Nat, IDL.Nat, IDL.Text, IDL.Nat],
+  'createOrder' : IDL.Func([IDL.Nat, IDL.Vec(OrderLineInput)], [IDL.Nat], []),
+  'createProductCategory' : IDL.Func(
+      [IDL.Text, IDL.Opt(IDL.Nat)],
+      [IDL.Nat],
+      [],
+    ),
+  'createProductStyle' : IDL.Func(
+      [ProductStyleInput, IDL.Vec(VariantQuantity)],
       [IDL.Nat],
       [],
     ),
+  'createPurchaseOrder' : IDL.Func(
+      [IDL.Nat, IDL.Vec(PurchaseOrderLineInput), Time, IDL.Text],
+      [IDL.Nat],
+      [],
+    ),
+  'createQuotation' : IDL.Func(
+      [IDL.Nat, IDL.Vec(InvoiceLineInput), Time, IDL.Text],
+      [IDL.Nat],
+      [],
+    ),
+  'createSupplier' : IDL.Func([SupplierInput], [IDL.Nat], []),
+  'createTaxonomyTerm' : IDL.Func([TaxonomyTermKind, IDL.Text], [IDL.Nat], []),
   'deleteAllInventory' : IDL.Func([], [], []),
   'deleteAllOrders' : IDL.Func([], [], []),
   'deleteCustomer' : IDL.Func([IDL.Nat], [IDL.Bool], []),
+  'deleteExpense' : IDL.Func([IDL.Nat], [], []),
   'deleteNotification' : IDL.Func([IDL.Nat], [IDL.Bool], []),
-  'exportInvoiceHistory' : IDL.Func(
-      [
-        InvoiceExportFormat,
-        IDL.Opt(InvoiceFilter),
-        IDL.Opt(IDL.Text),
-        IDL.Opt(IDL.Text),
-      ],
-      [ExternalBlob],
+  'deleteProduct' : IDL.Func([IDL.Nat], [], []),
+  'deleteProductCategory' : IDL.Func([IDL.Nat], [], []),
+  'deleteSupplier' : IDL.Func([IDL.Nat], [], []),
+  'deleteTaxonomyTerm' : IDL.Func([IDL.Nat], [], []),
+  'exportProductBarcode' : IDL.Func([BarcodeExportRequest], [ExternalBlob], []),
+  'extendProductStyle' : IDL.Func(
+      [IDL.Nat, IDL.Vec(IDL.Text), IDL.Vec(IDL.Text)],
+      [],
       [],
     ),
-  'exportProductBarcode' : IDL.Func([BarcodeExportRequest], [ExternalBlob], []),
   'getAllApprovalRequests' : IDL.Func(
       [],
       [IDL.Vec(ApprovalRequest)],
@@ -320,8 +774,12 @@ export const idlService = IDL.Service({
   'getBootstrapStatus' : IDL.Func([], [BootstrapStatus], ['query']),
   'getCallerUserProfile' : IDL.Func([], [IDL.Opt(UserProfile)], ['query']),
   'getCallerUserRole' : IDL.Func([], [UserRole], ['query']),
+  'getCompanyLogo' : IDL.Func([], [IDL.Opt(ExternalBlob)], ['query']),
+  'getCompanySettings' : IDL.Func([], [CompanySettings], ['query']),
   'getCustomer' : IDL.Func([IDL.Nat], [IDL.Opt(Customer)], ['query']),
   'getDataEntry' : IDL.Func([IDL.Nat], [IDL.Opt(DataEntry)], ['query']),
+  'getDispatch' : IDL.Func([IDL.Nat], [IDL.Opt(Dispatch)], ['query']),
+  'getGoodsReceipt' : IDL.Func([IDL.Nat], [IDL.Opt(GoodsReceipt)], ['query']),
   'getInventoryEntry' : IDL.Func(
       [IDL.Nat],
       [IDL.Opt(InventoryRecord)],
@@ -334,6 +792,7 @@ export const idlService = IDL.Service({
       [IDL.Vec(Invoice)],
       ['query'],
     ),
+  'getInvoiceNumberPrefix' : IDL.Func([], [IDL.Text], ['query']),
   'getOrder' : IDL.Func([IDL.Nat], [IDL.Opt(OrderRecord)], ['query']),
   'getPendingUsers' : IDL.Func([], [IDL.Vec(UserApprovalInfo)], ['query']),
   'getProduct' : IDL.Func([IDL.Nat], [IDL.Opt(Product)], ['query']),
@@ -343,18 +802,26 @@ export const idlService = IDL.Service({
       ['query'],
     ),
   'getProfitLossReport' : IDL.Func([Time, Time], [ProfitLossReport], ['query']),
+  'getPurchaseOrder' : IDL.Func([IDL.Nat], [IDL.Opt(PurchaseOrder)], ['query']),
+  'getQuotation' : IDL.Func([IDL.Nat], [IDL.Opt(Quotation)], ['query']),
   'getSignatureForUser' : IDL.Func(
       [IDL.Principal],
       [IDL.Opt(ExternalBlob)],
       ['query'],
     ),
   'getStats' : IDL.Func([], [Stats], ['query']),
+  'getSupplier' : IDL.Func([IDL.Nat], [IDL.Opt(Supplier)], ['query']),
   'getUserProfile' : IDL.Func(
       [IDL.Principal],
       [IDL.Opt(UserProfile)],
       ['query'],
     ),
   'getUserSignature' : IDL.Func([], [IDL.Opt(ExternalBlob)], ['query']),
+  'importProducts' : IDL.Func(
+      [IDL.Vec(ProductImportRow)],
+      [ProductImportSummary],
+      [],
+    ),
   'isAccountant' : IDL.Func([], [IDL.Bool], ['query']),
   'isAdmin' : IDL.Func([], [IDL.Bool], ['query']),
   'isCallerAdmin' : IDL.Func([], [IDL.Bool], ['query']),
@@ -364,29 +831,76 @@ export const idlService = IDL.Service({
   'isSalesManager' : IDL.Func([], [IDL.Bool], ['query']),
   'isSuperAdmin' : IDL.Func([], [IDL.Bool], ['query']),
   'listApprovals' : IDL.Func([], [IDL.Vec(UserApprovalInfo)], ['query']),
+  'listCreditNotes' : IDL.Func([], [IDL.Vec(CreditNote)], ['query']),
   'listCustomers' : IDL.Func([], [IDL.Vec(Customer)], ['query']),
   'listDataEntries' : IDL.Func([], [IDL.Vec(DataEntry)], ['query']),
+  'listDispatches' : IDL.Func([], [IDL.Vec(Dispatch)], ['query']),
+  'listExpenses' : IDL.Func([], [IDL.Vec(Expense)], ['query']),
+  'listGoodsReceipts' : IDL.Func([], [IDL.Vec(GoodsReceipt)], ['query']),
   'listInventory' : IDL.Func([], [IDL.Vec(InventoryRecord)], ['query']),
+  'listInvoicePayments' : IDL.Func([IDL.Nat], [IDL.Vec(Payment)], ['query']),
   'listInvoices' : IDL.Func([], [IDL.Vec(Invoice)], ['query']),
   'listNotifications' : IDL.Func([], [IDL.Vec(Notification)], ['query']),
   'listOrders' : IDL.Func([], [IDL.Vec(OrderRecord)], ['query']),
+  'listPayments' : IDL.Func([], [IDL.Vec(Payment)], ['query']),
+  'listProductCategories' : IDL.Func([], [IDL.Vec(ProductCategory)], ['query']),
+  'listProductStyles' : IDL.Func([], [IDL.Vec(ProductStyle)], ['query']),
   'listProducts' : IDL.Func([], [IDL.Vec(Product)], ['query']),
+  'listPurchaseOrders' : IDL.Func([], [IDL.Vec(PurchaseOrder)], ['query']),
+  'listQuotations' : IDL.Func([], [IDL.Vec(Quotation)], ['query']),
   'listSecondaryAdminEmails' : IDL.Func([], [IDL.Vec(IDL.Text)], ['query']),
+  'listStockMovements' : IDL.Func(
+      [IDL.Nat],
+      [IDL.Vec(StockMovement)],
+      ['query'],
+    ),
+  'listSuppliers' : IDL.Func([], [IDL.Vec(Supplier)], ['query']),
+  'listTaxonomyTerms' : IDL.Func([], [IDL.Vec(TaxonomyTerm)], ['query']),
   'markNotificationAsRead' : IDL.Func([IDL.Nat], [IDL.Bool], []),
   'permanentlyRemoveUserAccount' : IDL.Func([IDL.Principal], [], []),
   'processPreviouslyRejectedUser' : IDL.Func([IDL.Principal], [], []),
+  'recordPayment' : IDL.Func(
+      [IDL.Nat, IDL.Nat, Time, PaymentMode, IDL.Text],
+      [IDL.Nat],
+      [],
+    ),
   'rejectUser' : IDL.Func([IDL.Principal], [], []),
   'removeSecondaryAdminEmail' : IDL.Func([IDL.Text], [], []),
+  'renameProductCategory' : IDL.Func([IDL.Nat, IDL.Text], [], []),
   'requestApproval' : IDL.Func([], [], []),
+  'restoreProduct' : IDL.Func([IDL.Nat], [], []),
+  'reviseProductPrices' : IDL.Func([IDL.Vec(ProductPriceRevision)], [], []),
   'saveCallerUserProfile' : IDL.Func([UserProfile], [], []),
   'setApproval' : IDL.Func([IDL.Principal, ApprovalStatus], [], []),
+  'setCompanyLogo' : IDL.Func([IDL.Opt(ExternalBlob)], [], []),
+  'setInvoiceNumberPrefix' : IDL.Func([IDL.Text], [], []),
   'setProductLocation' : IDL.Func([IDL.Nat, InventoryLocation], [], []),
+  'setProductsCategory' : IDL.Func(
+      [IDL.Vec(IDL.Nat), IDL.Opt(IDL.Nat)],
+      [],
+      [],
+    ),
+  'setProductsLocation' : IDL.Func(
+      [IDL.Vec(IDL.Nat), IDL.Text, IDL.Text, IDL.Text],
+      [],
+      [],
+    ),
   'stockAdjustInvoice' : IDL.Func([IDL.Nat], [], []),
+  'updateCompanySettings' : IDL.Func([CompanySettings], [], []),
+  'updateCustomerPaymentTerms' : IDL.Func([IDL.Nat, IDL.Nat], [], []),
+  'updateDispatchDetails' : IDL.Func([IDL.Nat, DispatchInput], [], []),
+  'updateDispatchStatus' : IDL.Func(
+      [IDL.Nat, DispatchStatus, IDL.Opt(Time)],
+      [],
+      [],
+    ),
+  'updateExpense' : IDL.Func([IDL.Nat, ExpenseInput], [], []),
   'updateInvoiceDocumentUrls' : IDL.Func(
       [IDL.Nat, IDL.Opt(IDL.Text), IDL.Opt(IDL.Text)],
       [IDL.Bool],
       [],
     ),
+  'updateOrderStatus' : IDL.Func([IDL.Nat, OrderStatus], [], []),
   'updateProduct' : IDL.Func(
       [
         IDL.Nat,
@@ -394,16 +908,29 @@ export const idlService = IDL.Service({
         IDL.Text,
         IDL.Nat,
         IDL.Nat,
+        IDL.Nat,
+        IDL.Nat,
+        IDL.Nat,
+        IDL.Text,
         IDL.Text,
         IDL.Text,
         IDL.Text,
         IDL.Text,
         IDL.Text,
         IDL.Text,
+        TaxSlabRule,
+        ProductAttributes,
       ],
       [],
       [],
     ),
+  'updatePurchaseOrderStatus' : IDL.Func(
+      [IDL.Nat, PurchaseOrderStatus],
+      [],
+      [],
+    ),
+  'updateQuotationStatus' : IDL.Func([IDL.Nat, QuotationStatus], [], []),
+  'updateSupplier' : IDL.Func([IDL.Nat, SupplierInput], [], []),
   'uploadUserSignature' : IDL.Func([ExternalBlob], [], []),
 });
 
@@ -421,7 +948,29 @@ export const idlFactory = ({ IDL }) => {
     'success' : IDL.Opt(IDL.Bool),
     'topped_up_amount' : IDL.Opt(IDL.Nat),
   });
+  const TaxSlabRule = IDL.Record({
+    'threshold' : IDL.Nat,
+    'highRate' : IDL.Nat,
+    'lowRate' : IDL.Nat,
+  });
+  const ProductAttributes = IDL.Record({
+    'categoryId' : IDL.Opt(IDL.Nat),
+    'tags' : IDL.Vec(IDL.Text),
+    'season' : IDL.Text,
+    'brand' : IDL.Text,
+    'fabric' : IDL.Text,
+  });
   const ExternalBlob = IDL.Vec(IDL.Nat8);
+  const StockMovementReason = IDL.Variant({
+    'theft' : IDL.Null,
+    'damage' : IDL.Null,
+    'salesReturn' : IDL.Null,
+    'opening' : IDL.Null,
+    'sale' : IDL.Null,
+    'correction' : IDL.Null,
+    'transfer' : IDL.Null,
+    'purchase' : IDL.Null,
+  });
   const AppRole = IDL.Variant({
     'accountant' : IDL.Null,
     'admin' : IDL.Null,
@@ -441,23 +990,108 @@ export const idlFactory = ({ IDL }) => {
     'productIds' : IDL.Vec(IDL.Nat),
     'exportType' : BarcodeExportFormat,
   });
+  const CreditNoteLineInput = IDL.Record({
+    'lineIndex' : IDL.Nat,
+    'damaged' : IDL.Bool,
+    'quantity' : IDL.Nat,
+  });
+  const Time = IDL.Int;
+  const DispatchInput = IDL.Record({
+    'vehicleNumber' : IDL.Text,
+    'dispatchDate' : Time,
+    'lrNumber' : IDL.Text,
+    'packageCount' : IDL.Nat,
+    'transporterName' : IDL.Text,
+  });
+  const PaymentMode = IDL.Variant({
+    'upi' : IDL.Null,
+    'cash' : IDL.Null,
+    'bankTransfer' : IDL.Null,
+    'cheque' : IDL.Null,
+  });
+  const ExpenseCategory = IDL.Variant({
+    'other' : IDL.Null,
+    'marketing' : IDL.Null,
+    'rent' : IDL.Null,
+    'transport' : IDL.Null,
+    'electricity' : IDL.Null,
+    'maintenance' : IDL.Null,
+    'salaries' : IDL.Null,
+    'packaging' : IDL.Null,
+  });
+  const ExpenseInput = IDL.Record({
+    'expenseDate' : Time,
+    'receipt' : IDL.Opt(ExternalBlob),
+    'mode' : PaymentMode,
+    'description' : IDL.Text,
+    'category' : ExpenseCategory,
+    'amount' : IDL.Nat,
+  });
+  const GoodsReceiptLineInput = IDL.Record({
+    'rejectedQuantity' : IDL.Nat,
+    'unit' : IDL.Text,
+    'description' : IDL.Text,
+    'productId' : IDL.Opt(IDL.Nat),
+    'receivedQuantity' : IDL.Nat,
+    'purchaseOrderLine' : IDL.Opt(IDL.Nat),
+  });
+  const InvoiceLineInput = IDL.Record({
+    'productId' : IDL.Nat,
+    'discount' : IDL.Nat,
+    'quantity' : IDL.Nat,
+    'unitPrice' : IDL.Nat,
+  });
   const T = IDL.Variant({
     'paid' : IDL.Null,
     'sent' : IDL.Null,
     'overdue' : IDL.Null,
+    'partiallyPaid' : IDL.Null,
     'draft' : IDL.Null,
   });
-  const InvoiceExportFormat = IDL.Variant({
-    'pdf' : IDL.Null,
-    'excel' : IDL.Null,
+  const OrderLineInput = IDL.Record({
+    'productId' : IDL.Nat,
+    'quantity' : IDL.Nat,
+    'unitPrice' : IDL.Nat,
   });
-  const Time = IDL.Int;
-  const ReportDateRange = IDL.Record({ 'endDate' : Time, 'startDate' : Time });
-  const InvoiceFilter = IDL.Record({
-    'paymentStatus' : IDL.Opt(T),
-    'customerId' : IDL.Opt(IDL.Nat),
-    'invoiceDateRange' : IDL.Opt(ReportDateRange),
-    'searchQuery' : IDL.Opt(IDL.Text),
+  const ProductStyleInput = IDL.Record({
+    'mrp' : IDL.Nat,
+    'name' : IDL.Text,
+    'wholesalePrice' : IDL.Nat,
+    'description' : IDL.Text,
+    'hsnCode' : IDL.Text,
+    'sizes' : IDL.Vec(IDL.Text),
+    'attributes' : ProductAttributes,
+    'colors' : IDL.Vec(IDL.Text),
+    'price' : IDL.Nat,
+    'costPrice' : IDL.Nat,
+    'articleNumber' : IDL.Text,
+    'taxSlab' : TaxSlabRule,
+  });
+  const VariantQuantity = IDL.Record({
+    'color' : IDL.Text,
+    'size' : IDL.Text,
+    'quantity' : IDL.Nat,
+  });
+  const PurchaseOrderLineInput = IDL.Record({
+    'unit' : IDL.Text,
+    'description' : IDL.Text,
+    'productId' : IDL.Opt(IDL.Nat),
+    'quantity' : IDL.Nat,
+    'unitCost' : IDL.Nat,
+  });
+  const SupplierInput = IDL.Record({
+    'paymentTermsDays' : IDL.Nat,
+    'name' : IDL.Text,
+    'contactPerson' : IDL.Text,
+    'email' : IDL.Text,
+    'state' : IDL.Text,
+    'gstin' : IDL.Text,
+    'address' : IDL.Text,
+    'phone' : IDL.Text,
+  });
+  const TaxonomyTermKind = IDL.Variant({
+    'season' : IDL.Null,
+    'brand' : IDL.Null,
   });
   const BarcodeExportRequest = IDL.Record({
     'exportType' : BarcodeExportFormat,
@@ -502,12 +1136,37 @@ export const idlFactory = ({ IDL }) => {
     'backendAvailable' : IDL.Bool,
     'jsonSupport' : IDL.Bool,
   });
+  const BankDetails = IDL.Record({
+    'branch' : IDL.Text,
+    'ifsc' : IDL.Text,
+    'bankName' : IDL.Text,
+    'accountName' : IDL.Text,
+    'accountNumber' : IDL.Text,
+  });
+  const CompanySettings = IDL.Record({
+    'pan' : IDL.Text,
+    'stateCode' : IDL.Text,
+    'bankDetails' : BankDetails,
+    'tagline' : IDL.Text,
+    'primaryColor' : IDL.Text,
+    'email' : IDL.Text,
+    'website' : IDL.Text,
+    'accentColor' : IDL.Text,
+    'legalName' : IDL.Text,
+    'invoiceFooterTerms' : IDL.Text,
+    'gstin' : IDL.Text,
+    'address' : IDL.Text,
+    'upiId' : IDL.Text,
+    'phone' : IDL.Text,
+  });
   const Customer = IDL.Record({
     'id' : IDL.Nat,
+    'paymentTermsDays' : IDL.Nat,
     'created' : Time,
     'modified' : Time,
     'name' : IDL.Text,
     'email' : IDL.Text,
+    'state' : IDL.Text,
     'address' : IDL.Text,
     'phone' : IDL.Text,
   });
@@ -520,6 +1179,49 @@ export const idlFactory = ({ IDL }) => {
     'entityType' : IDL.Text,
     'amount' : IDL.Nat,
   });
+  const DispatchStatus = IDL.Variant({
+    'dispatched' : IDL.Null,
+    'inTransit' : IDL.Null,
+    'delivered' : IDL.Null,
+  });
+  const Dispatch = IDL.Record({
+    'challanNumber' : IDL.Text,
+    'status' : DispatchStatus,
+    'created' : Time,
+    'vehicleNumber' : IDL.Text,
+    'createdBy' : IDL.Principal,
+    'dispatchId' : IDL.Nat,
+    'dispatchDate' : Time,
+    'deliveryDate' : IDL.Opt(Time),
+    'orderId' : IDL.Nat,
+    'lastModified' : Time,
+    'lrNumber' : IDL.Text,
+    'packageCount' : IDL.Nat,
+    'transporterName' : IDL.Text,
+  });
+  const GoodsReceiptLine = IDL.Record({
+    'rejectedQuantity' : IDL.Nat,
+    'unit' : IDL.Text,
+    'description' : IDL.Text,
+    'productId' : IDL.Opt(IDL.Nat),
+    'receivedQuantity' : IDL.Nat,
+    'pendingQuantity' : IDL.Nat,
+    'orderedQuantity' : IDL.Nat,
+    'acceptedQuantity' : IDL.Nat,
+    'purchaseOrderLine' : IDL.Opt(IDL.Nat),
+  });
+  const GoodsReceipt = IDL.Record({
+    'grnNumber' : IDL.Text,
+    'created' : Time,
+    'goodsReceiptId' : IDL.Nat,
+    'createdBy' : IDL.Principal,
+    'purchaseOrderId' : IDL.Opt(IDL.Nat),
+    'lines' : IDL.Vec(GoodsReceiptLine),
+    'notes' : IDL.Text,
+    'batch' : IDL.Text,
+    'supplierId' : IDL.Nat,
+    'inventoryIds' : IDL.Vec(IDL.Nat),
+  });
   const InventoryRecord = IDL.Record({
     'id' : IDL.Nat,
     'created' : Time,
@@ -529,6 +1231,19 @@ export const idlFactory = ({ IDL }) => {
     'batch' : IDL.Text,
     'supplierId' : IDL.Nat,
   });
+  const InvoiceLine = IDL.Record({
+    'tax' : IDL.Nat,
+    'cgst' : IDL.Nat,
+    'igst' : IDL.Nat,
+    'sgst' : IDL.Nat,
+    'hsnCode' : IDL.Text,
+    'productId' : IDL.Nat,
+    'discount' : IDL.Nat,
+    'quantity' : IDL.Nat,
+    'unitPrice' : IDL.Nat,
+    'taxRate' : IDL.Nat,
+    'unitCost' : IDL.Nat,
+  });
   const Invoice = IDL.Record({
     'tax' : IDL.Nat,
     'status' : T,
@@ -538,24 +1253,52 @@ export const idlFactory = ({ IDL }) => {
     'stockAdjusted' : IDL.Bool,
     'dueDate' : IDL.Opt(Time),
     'invoiceId' : IDL.Nat,
-    'productId' : IDL.Nat,
+    'lines' : IDL.Vec(InvoiceLine),
+    'amountPaid' : IDL.Nat,
     'lastModified' : Time,
+    'interState' : IDL.Bool,
     'imageUrl' : IDL.Opt(IDL.Text),
+    'invoiceNumber' : IDL.Text,
     'pdfUrl' : IDL.Opt(IDL.Text),
     'paymentDate' : IDL.Opt(Time),
-    'quantity' : IDL.Nat,
     'customerId' : IDL.Nat,
+    'placeOfSupply' : IDL.Text,
     'orderIds' : IDL.Vec(IDL.Nat),
-    'price' : IDL.Nat,
+    'creditedAmount' : IDL.Nat,
     'inventoryIds' : IDL.Vec(IDL.Nat),
   });
+  const ReportDateRange = IDL.Record({ 'endDate' : Time, 'startDate' : Time });
+  const InvoiceFilter = IDL.Record({
+    'paymentStatus' : IDL.Opt(T),
+    'customerId' : IDL.Opt(IDL.Nat),
+    'invoiceDateRange' : IDL.Opt(ReportDateRange),
+    'searchQuery' : IDL.Opt(IDL.Text),
+  });
+  const OrderStatus = IDL.Variant({
+    'cancelled' : IDL.Null,
+    'pending' : IDL.Null,
+    'fulfilled' : IDL.Null,
+    'processing' : IDL.Null,
+  });
+  const OrderStatusChange = IDL.Record({
+    'status' : OrderStatus,
+    'changedAt' : Time,
+  });
+  const OrderLine = IDL.Record({
+    'lineTotal' : IDL.Nat,
+    'productId' : IDL.Nat,
+    'quantity' : IDL.Nat,
+    'unitPrice' : IDL.Nat,
+  });
   const OrderRecord = IDL.Record({
     'id' : IDL.Nat,
-    'status' : IDL.Text,
+    'status' : OrderStatus,
     'created' : Time,
     'modified' : Time,
-    'productId' : IDL.Nat,
-    'quantity' : IDL.Nat,
+    'invoiceId' : IDL.Opt(IDL.Nat),
+    'statusHistory' : IDL.Vec(OrderStatusChange),
+    'lines' : IDL.Vec(OrderLine),
+    'stockReserved' : IDL.Bool,
     'customerId' : IDL.Nat,
     'totalPrice' : IDL.Nat,
   });
@@ -565,19 +1308,28 @@ export const idlFactory = ({ IDL }) => {
     'outOfStock' : IDL.Null,
   });
   const Product = IDL.Record({
+    'mrp' : IDL.Nat,
+    'styleId' : IDL.Opt(IDL.Nat),
     'inventoryStatus' : InventoryStatus,
     'name' : IDL.Text,
+    'wholesalePrice' : IDL.Nat,
     'color' : IDL.Text,
     'rack' : IDL.Text,
     'size' : IDL.Text,
     'description' : IDL.Text,
+    'hsnCode' : IDL.Text,
     'productId' : IDL.Nat,
     'shelf' : IDL.Text,
+    'reservedStock' : IDL.Nat,
+    'attributes' : ProductAttributes,
     'barcode' : IDL.Text,
     'stockLevel' : IDL.Nat,
     'price' : IDL.Nat,
+    'costPrice' : IDL.Nat,
     'warehouse' : IDL.Text,
     'supplierId' : IDL.Opt(IDL.Nat),
+    'archived' : IDL.Bool,
+    'taxSlab' : TaxSlabRule,
     'images' : IDL.Vec(ExternalBlob),
   });
   const InventoryLocation = IDL.Record({
@@ -585,13 +1337,69 @@ export const idlFactory = ({ IDL }) => {
     'shelf' : IDL.Text,
     'warehouse' : IDL.Text,
   });
+  const ExpenseCategoryTotal = IDL.Record({
+    'category' : ExpenseCategory,
+    'amount' : IDL.Nat,
+  });
   const ProfitLossReport = IDL.Record({
+    'expenseBreakdown' : IDL.Vec(ExpenseCategoryTotal),
     'reportDateRange' : ReportDateRange,
     'revenue' : IDL.Nat,
     'grossProfit' : IDL.Nat,
     'cogs' : IDL.Nat,
     'expenses' : IDL.Nat,
-    'netProfit' : IDL.Nat,
+    'netProfit' : IDL.Int,
+  });
+  const PurchaseOrderStatus = IDL.Variant({
+    'cancelled' : IDL.Null,
+    'ordered' : IDL.Null,
+    'partiallyReceived' : IDL.Null,
+    'draft' : IDL.Null,
+    'received' : IDL.Null,
+  });
+  const PurchaseOrderLine = IDL.Record({
+    'unit' : IDL.Text,
+    'lineTotal' : IDL.Nat,
+    'description' : IDL.Text,
+    'productId' : IDL.Opt(IDL.Nat),
+    'quantity' : IDL.Nat,
+    'unitCost' : IDL.Nat,
+  });
+  const PurchaseOrder = IDL.Record({
+    'status' : PurchaseOrderStatus,
+    'created' : Time,
+    'total' : IDL.Nat,
+    'createdBy' : IDL.Principal,
+    'purchaseOrderId' : IDL.Nat,
+    'lines' : IDL.Vec(PurchaseOrderLine),
+    'lastModified' : Time,
+    'notes' : IDL.Text,
+    'expectedDate' : Time,
+    'poNumber' : IDL.Text,
+    'supplierId' : IDL.Nat,
+  });
+  const QuotationStatus = IDL.Variant({
+    'expired' : IDL.Null,
+    'sent' : IDL.Null,
+    'accepted' : IDL.Null,
+    'draft' : IDL.Null,
+  });
+  const Quotation = IDL.Record({
+    'tax' : IDL.Nat,
+    'status' : QuotationStatus,
+    'quotationId' : IDL.Nat,
+    'created' : Time,
+    'total' : IDL.Nat,
+    'createdBy' : IDL.Principal,
+    'invoiceId' : IDL.Opt(IDL.Nat),
+    'lines' : IDL.Vec(InvoiceLine),
+    'lastModified' : Time,
+    'interState' : IDL.Bool,
+    'notes' : IDL.Text,
+    'customerId' : IDL.Nat,
+    'placeOfSupply' : IDL.Text,
+    'orderIds' : IDL.Vec(IDL.Nat),
+    'validUntil' : Time,
   });
   const Stats = IDL.Record({
     'totalOrders' : IDL.Nat,
@@ -599,6 +1407,91 @@ export const idlFactory = ({ IDL }) => {
     'totalRevenue' : IDL.Nat,
     'totalCustomers' : IDL.Nat,
   });
+  const Supplier = IDL.Record({
+    'paymentTermsDays' : IDL.Nat,
+    'created' : Time,
+    'modified' : Time,
+    'name' : IDL.Text,
+    'contactPerson' : IDL.Text,
+    'email' : IDL.Text,
+    'state' : IDL.Text,
+    'gstin' : IDL.Text,
+    'address' : IDL.Text,
+    'phone' : IDL.Text,
+    'supplierId' : IDL.Nat,
+  });
+  const ProductImportRow = IDL.Record({
+    'mrp' : IDL.Nat,
+    'name' : IDL.Text,
+    'wholesalePrice' : IDL.Nat,
+    'color' : IDL.Text,
+    'rack' : IDL.Text,
+    'size' : IDL.Text,
+    'description' : IDL.Text,
+    'hsnCode' : IDL.Text,
+    'shelf' : IDL.Text,
+    'attributes' : ProductAttributes,
+    'barcode' : IDL.Text,
+    'stockLevel' : IDL.Nat,
+    'price' : IDL.Nat,
+    'costPrice' : IDL.Nat,
+    'warehouse' : IDL.Text,
+    'taxSlab' : TaxSlabRule,
+  });
+  const ProductImportSummary = IDL.Record({
+    'created' : IDL.Nat,
+    'updated' : IDL.Nat,
+  });
+  const CreditNoteLine = IDL.Record({
+    'tax' : IDL.Nat,
+    'lineIndex' : IDL.Nat,
+    'damaged' : IDL.Bool,
+    'cgst' : IDL.Nat,
+    'igst' : IDL.Nat,
+    'taxableValue' : IDL.Nat,
+    'sgst' : IDL.Nat,
+    'hsnCode' : IDL.Text,
+    'productId' : IDL.Nat,
+    'quantity' : IDL.Nat,
+    'unitPrice' : IDL.Nat,
+    'taxRate' : IDL.Nat,
+  });
+  const CreditNote = IDL.Record({
+    'tax' : IDL.Nat,
+    'created' : Time,
+    'total' : IDL.Nat,
+    'createdBy' : IDL.Principal,
+    'invoiceId' : IDL.Nat,
+    'lines' : IDL.Vec(CreditNoteLine),
+    'interState' : IDL.Bool,
+    'invoiceNumber' : IDL.Text,
+    'customerId' : IDL.Nat,
+    'creditNoteId' : IDL.Nat,
+    'reason' : IDL.Text,
+    'creditNoteNumber' : IDL.Text,
+  });
+  const Expense = IDL.Record({
+    'expenseDate' : Time,
+    'created' : Time,
+    'receipt' : IDL.Opt(ExternalBlob),
+    'expenseId' : IDL.Nat,
+    'mode' : PaymentMode,
+    'description' : IDL.Text,
+    'recordedBy' : IDL.Principal,
+    'lastModified' : Time,
+    'category' : ExpenseCategory,
+    'amount' : IDL.Nat,
+  });
+  const Payment = IDL.Record({
+    'created' : Time,
+    'mode' : PaymentMode,
+    'reference' : IDL.Text,
+    'invoiceId' : IDL.Nat,
+    'recordedBy' : IDL.Principal,
+    'paymentId' : IDL.Nat,
+    'paymentDate' : Time,
+    'amount' : IDL.Nat,
+  });
   const Notification = IDL.Record({
     'title' : IDL.Text,
     'userId' : IDL.Principal,
@@ -607,6 +1500,43 @@ export const idlFactory = ({ IDL }) => {
     'timestamp' : Time,
     'notificationId' : IDL.Nat,
   });
+  const ProductCategory = IDL.Record({
+    'categoryId' : IDL.Nat,
+    'name' : IDL.Text,
+    'parentId' : IDL.Opt(IDL.Nat),
+  });
+  const ProductStyle = IDL.Record({
+    'styleId' : IDL.Nat,
+    'created' : Time,
+    'name' : IDL.Text,
+    'hsnCode' : IDL.Text,
+    'sizes' : IDL.Vec(IDL.Text),
+    'attributes' : ProductAttributes,
+    'colors' : IDL.Vec(IDL.Text),
+    'articleNumber' : IDL.Text,
+    'taxSlab' : TaxSlabRule,
+  });
+  const StockMovement = IDL.Record({
+    'movementId' : IDL.Nat,
+    'balance' : IDL.Nat,
+    'reference' : IDL.Text,
+    'productId' : IDL.Nat,
+    'recordedBy' : IDL.Principal,
+    'timestamp' : Time,
+    'delta' : IDL.Int,
+    'reason' : StockMovementReason,
+  });
+  const TaxonomyTerm = IDL.Record({
+    'kind' : TaxonomyTermKind,
+    'name' : IDL.Text,
+    'termId' : IDL.Nat,
+  });
+  const ProductPriceRevision = IDL.Record({
+    'mrp' : IDL.Opt(IDL.Nat),
+    'wholesalePrice' : IDL.Opt(IDL.Nat),
+    'productId' : IDL.Nat,
+    'price' : IDL.Opt(IDL.Nat),
+  });
   
   return IDL.Service({
     '_caffeineStorageBlobIsLive' : IDL.Func(
@@ -647,19 +1577,32 @@ export const idlFactory = ({ IDL }) => {
           IDL.Text,
           IDL.Nat,
           IDL.Nat,
+          IDL.Nat,
+          IDL.Nat,
+          IDL.Nat,
           IDL.Text,
           IDL.Text,
           IDL.Text,
           IDL.Text,
           IDL.Text,
           IDL.Text,
+          IDL.Text,
+          TaxSlabRule,
+          ProductAttributes,
         ],
         [IDL.Nat],
         [],
       ),
     'addProductImage' : IDL.Func([IDL.Nat, ExternalBlob], [], []),
     'addSecondaryAdminEmail' : IDL.Func([IDL.Text], [], []),
+    'adjustStock' : IDL.Func(
+        [IDL.Nat, IDL.Int, StockMovementReason, IDL.Text],
+        [],
+        [],
+      ),
     'approveUser' : IDL.Func([IDL.Principal], [], []),
+    'archiveProduct' : IDL.Func([IDL.Nat], [], []),
+    'archiveProducts' : IDL.Func([IDL.Vec(IDL.Nat)], [], []),
     'assignAppRole' : IDL.Func([IDL.Principal, AppRole], [], []),
     'assignCallerUserRole' : IDL.Func([IDL.Principal, UserRole], [], []),
     'batchExportBarcodes' : IDL.Func(
@@ -669,8 +1612,14 @@ export const idlFactory = ({ IDL }) => {
       ),
     'clearAllInvoices' : IDL.Func([], [], []),
     'clearPreviousRejection' : IDL.Func([IDL.Principal], [], []),
+    'convertQuotationToInvoice' : IDL.Func([IDL.Nat], [IDL.Nat], []),
+    'createCreditNote' : IDL.Func(
+        [IDL.Nat, IDL.Vec(CreditNoteLineInput), IDL.Text],
+        [IDL.Nat],
+        [],
+      ),
     'createCustomer' : IDL.Func(
-        [IDL.Text, IDL.Text, IDL.Text, IDL.Text],
+        [IDL.Text, IDL.Text, IDL.Text, IDL.Text, IDL.Text, IDL.Nat],
         [IDL.Nat],
         [],
       ),
@@ -679,40 +1628,76 @@ export const idlFactory = ({ IDL }) => {
         [IDL.Nat],
         [],
       ),
+    'createDispatch' : IDL.Func([IDL.Nat, DispatchInput], [IDL.Nat], []),
+    'createExpense' : IDL.Func([ExpenseInput], [IDL.Nat], []),
+    'createGoodsReceipt' : IDL.Func(
+        [
+          IDL.Opt(IDL.Nat),
+          IDL.Nat,
+          IDL.Vec(GoodsReceiptLineInput),
+          IDL.Text,
+          IDL.Text,
+        ],
+        [IDL.Nat],
+        [],
+      ),
     'createInvoice' : IDL.Func(
-        [IDL.Nat, IDL.Nat, IDL.Nat, IDL.Nat, IDL.Nat, IDL.Nat, T],
+        [IDL.Nat, IDL.Vec(InvoiceLineInput), T, IDL.Opt(IDL.Nat)],
         [IDL.Nat],
         [],
       ),
+    'createInvoiceFromOrders' : IDL.Func([IDL.Vec(IDL.Nat)], [IDL.Nat], []),
     'createNotification' : IDL.Func(
         [IDL.Principal, IDL.Text, IDL.Text],
         [IDL.Nat],
         [],
       ),
-    'createOrder' : IDL.Func(
-        [IDL.Nat, IDL.Nat, IDL.Nat, IDL.Text, IDL.Nat],
+    'createOrder' : IDL.Func([IDL.Nat, IDL.Vec(OrderLineInput)], [IDL.Nat], []),
+    'createProductCategory' : IDL.Func(
+        [IDL.Text, IDL.Opt(IDL.Nat)],
+        [IDL.Nat],
+        [],
+      ),
+    'createProductStyle' : IDL.Func(
+        [ProductStyleInput, IDL.Vec(VariantQuantity)],
+        [IDL.Nat],
+        [],
+      ),
+    'createPurchaseOrder' : IDL.Func(
+        [IDL.Nat, IDL.Vec(PurchaseOrderLineInput), Time, IDL.Text],
+        [IDL.Nat],
+        [],
+      ),
+    'createQuotation' : IDL.Func(
+        [IDL.Nat, IDL.Vec(InvoiceLineInput), Time, IDL.Text],
+        [IDL.Nat],
+        [],
+      ),
+    'createSupplier' : IDL.Func([SupplierInput], [IDL.Nat], []),
+    'createTaxonomyTerm' : IDL.Func(
+        [TaxonomyTermKind, IDL.Text],
         [IDL.Nat],
         [],
       ),
     'deleteAllInventory' : IDL.Func([], [], []),
     'deleteAllOrders' : IDL.Func([], [], []),
     'deleteCustomer' : IDL.Func([IDL.Nat], [IDL.Bool], []),
+    'deleteExpense' : IDL.Func([IDL.Nat], [], []),
     'deleteNotification' : IDL.Func([IDL.Nat], [IDL.Bool], []),
-    'exportInvoiceHistory' : IDL.Func(
-        [
-          InvoiceExportFormat,
-          IDL.Opt(InvoiceFilter),
-          IDL.Opt(IDL.Text),
-          IDL.Opt(IDL.Text),
-        ],
-        [ExternalBlob],
-        [],
-      ),
+    'deleteProduct' : IDL.Func([IDL.Nat], [], []),
+    'deleteProductCategory' : IDL.Func([IDL.Nat], [], []),
+    'deleteSupplier' : IDL.Func([IDL.Nat], [], []),
+    'deleteTaxonomyTerm' : IDL.Func([IDL.Nat], [], []),
     'exportProductBarcode' : IDL.Func(
         [BarcodeExportRequest],
         [ExternalBlob],
         [],
       ),
+    'extendProductStyle' : IDL.Func(
+        [IDL.Nat, IDL.Vec(IDL.Text), IDL.Vec(IDL.Text)],
+        [],
+        [],
+      ),
     'getAllApprovalRequests' : IDL.Func(
         [],
         [IDL.Vec(ApprovalRequest)],
@@ -727,8 +1712,12 @@ export const idlFactory = ({ IDL }) => {
     'getBootstrapStatus' : IDL.Func([], [BootstrapStatus], ['query']),
     'getCallerUserProfile' : IDL.Func([], [IDL.Opt(UserProfile)], ['query']),
     'getCallerUserRole' : IDL.Func([], [UserRole], ['query']),
+    'getCompanyLogo' : IDL.Func([], [IDL.Opt(ExternalBlob)], ['query']),
+    'getCompanySettings' : IDL.Func([], [CompanySettings], ['query']),
     'getCustomer' : IDL.Func([IDL.Nat], [IDL.Opt(Customer)], ['query']),
     'getDataEntry' : IDL.Func([IDL.Nat], [IDL.Opt(DataEntry)], ['query']),
+    'getDispatch' : IDL.Func([IDL.Nat], [IDL.Opt(Dispatch)], ['query']),
+    'getGoodsReceipt' : IDL.Func([IDL.Nat], [IDL.Opt(GoodsReceipt)], ['query']),
     'getInventoryEntry' : IDL.Func(
         [IDL.Nat],
         [IDL.Opt(InventoryRecord)],
@@ -741,6 +1730,7 @@ export const idlFactory = ({ IDL }) => {
         [IDL.Vec(Invoice)],
         ['query'],
       ),
+    'getInvoiceNumberPrefix' : IDL.Func([], [IDL.Text], ['query']),
     'getOrder' : IDL.Func([IDL.Nat], [IDL.Opt(OrderRecord)], ['query']),
     'getPendingUsers' : IDL.Func([], [IDL.Vec(UserApprovalInfo)], ['query']),
     'getProduct' : IDL.Func([IDL.Nat], [IDL.Opt(Product)], ['query']),
@@ -754,18 +1744,30 @@ export const idlFactory = ({ IDL }) => {
         [ProfitLossReport],
         ['query'],
       ),
+    'getPurchaseOrder' : IDL.Func(
+        [IDL.Nat],
+        [IDL.Opt(PurchaseOrder)],
+        ['query'],
+      ),
+    'getQuotation' : IDL.Func([IDL.Nat], [IDL.Opt(Quotation)], ['query']),
     'getSignatureForUser' : IDL.Func(
         [IDL.Principal],
         [IDL.Opt(ExternalBlob)],
         ['query'],
       ),
     'getStats' : IDL.Func([], [Stats], ['query']),
+    'getSupplier' : IDL.Func([IDL.Nat], [IDL.Opt(Supplier)], ['query']),
     'getUserProfile' : IDL.Func(
         [IDL.Principal],
         [IDL.Opt(UserProfile)],
         ['query'],
       ),
     'getUserSignature' : IDL.Func([], [IDL.Opt(ExternalBlob)], ['query']),
+    'importProducts' : IDL.Func(
+        [IDL.Vec(ProductImportRow)],
+        [ProductImportSummary],
+        [],
+      ),
     'isAccountant' : IDL.Func([], [IDL.Bool], ['query']),
     'isAdmin' : IDL.Func([], [IDL.Bool], ['query']),
     'isCallerAdmin' : IDL.Func([], [IDL.Bool], ['query']),
@@ -775,29 +1777,80 @@ export const idlFactory = ({ IDL }) => {
     'isSalesManager' : IDL.Func([], [IDL.Bool], ['query']),
     'isSuperAdmin' : IDL.Func([], [IDL.Bool], ['query']),
     'listApprovals' : IDL.Func([], [IDL.Vec(UserApprovalInfo)], ['query']),
+    'listCreditNotes' : IDL.Func([], [IDL.Vec(CreditNote)], ['query']),
     'listCustomers' : IDL.Func([], [IDL.Vec(Customer)], ['query']),
     'listDataEntries' : IDL.Func([], [IDL.Vec(DataEntry)], ['query']),
+    'listDispatches' : IDL.Func([], [IDL.Vec(Dispatch)], ['query']),
+    'listExpenses' : IDL.Func([], [IDL.Vec(Expense)], ['query']),
+    'listGoodsReceipts' : IDL.Func([], [IDL.Vec(GoodsReceipt)], ['query']),
     'listInventory' : IDL.Func([], [IDL.Vec(InventoryRecord)], ['query']),
+    'listInvoicePayments' : IDL.Func([IDL.Nat], [IDL.Vec(Payment)], ['query']),
     'listInvoices' : IDL.Func([], [IDL.Vec(Invoice)], ['query']),
     'listNotifications' : IDL.Func([], [IDL.Vec(Notification)], ['query']),
     'listOrders' : IDL.Func([], [IDL.Vec(OrderRecord)], ['query']),
+    'listPayments' : IDL.Func([], [IDL.Vec(Payment)], ['query']),
+    'listProductCategories' : IDL.Func(
+        [],
+        [IDL.Vec(ProductCategory)],
+        ['query'],
+      ),
+    'listProductStyles' : IDL.Func([], [IDL.Vec(ProductStyle)], ['query']),
     'listProducts' : IDL.Func([], [IDL.Vec(Product)], ['query']),
+    'listPurchaseOrders' : IDL.Func([], [IDL.Vec(PurchaseOrder)], ['query']),
+    'listQuotations' : IDL.Func([], [IDL.Vec(Quotation)], ['query']),
     'listSecondaryAdminEmails' : IDL.Func([], [IDL.Vec(IDL.Text)], ['query']),
+    'listStockMovements' : IDL.Func(
+        [IDL.Nat],
+        [IDL.Vec(StockMovement)],
+        ['query'],
+      ),
+    'listSuppliers' : IDL.Func([], [IDL.Vec(Supplier)], ['query']),
+    'listTaxonomyTerms' : IDL.Func([], [IDL.Vec(TaxonomyTerm)], ['query']),
     'markNotificationAsRead' : IDL.Func([IDL.Nat], [IDL.Bool], []),
     'permanentlyRemoveUserAccount' : IDL.Func([IDL.Principal], [], []),
     'processPreviouslyRejectedUser' : IDL.Func([IDL.Principal], [], []),
+    'recordPayment' : IDL.Func(
+        [IDL.Nat, IDL.Nat, Time, PaymentMode, IDL.Text],
+        [IDL.Nat],
+        [],
+      ),
     'rejectUser' : IDL.Func([IDL.Principal], [], []),
     'removeSecondaryAdminEmail' : IDL.Func([IDL.Text], [], []),
+    'renameProductCategory' : IDL.Func([IDL.Nat, IDL.Text], [], []),
     'requestApproval' : IDL.Func([], [], []),
+    'restoreProduct' : IDL.Func([IDL.Nat], [], []),
+    'reviseProductPrices' : IDL.Func([IDL.Vec(ProductPriceRevision)], [], []),
     'saveCallerUserProfile' : IDL.Func([UserProfile], [], []),
     'setApproval' : IDL.Func([IDL.Principal, ApprovalStatus], [], []),
+    'setCompanyLogo' : IDL.Func([IDL.Opt(ExternalBlob)], [], []),
+    'setInvoiceNumberPrefix' : IDL.Func([IDL.Text], [], []),
     'setProductLocation' : IDL.Func([IDL.Nat, InventoryLocation], [], []),
+    'setProductsCategory' : IDL.Func(
+        [IDL.Vec(IDL.Nat), IDL.Opt(IDL.Nat)],
+        [],
+        [],
+      ),
+    'setProductsLocation' : IDL.Func(
+        [IDL.Vec(IDL.Nat), IDL.Text, IDL.Text, IDL.Text],
+        [],
+        [],
+      ),
     'stockAdjustInvoice' : IDL.Func([IDL.Nat], [], []),
+    'updateCompanySettings' : IDL.Func([CompanySettings], [], []),
+    'updateCustomerPaymentTerms' : IDL.Func([IDL.Nat, IDL.Nat], [], []),
+    'updateDispatchDetails' : IDL.Func([IDL.Nat, DispatchInput], [], []),
+    'updateDispatchStatus' : IDL.Func(
+        [IDL.Nat, DispatchStatus, IDL.Opt(Time)],
+        [],
+        [],
+      ),
+    'updateExpense' : IDL.Func([IDL.Nat, ExpenseInput], [], []),
     'updateInvoiceDocumentUrls' : IDL.Func(
         [IDL.Nat, IDL.Opt(IDL.Text), IDL.Opt(IDL.Text)],
         [IDL.Bool],
         [],
       ),
+    'updateOrderStatus' : IDL.Func([IDL.Nat, OrderStatus], [], []),
     'updateProduct' : IDL.Func(
         [
           IDL.Nat,
@@ -805,16 +1858,29 @@ export const idlFactory = ({ IDL }) => {
           IDL.Text,
           IDL.Nat,
           IDL.Nat,
+          IDL.Nat,
+          IDL.Nat,
+          IDL.Nat,
+          IDL.Text,
           IDL.Text,
           IDL.Text,
           IDL.Text,
           IDL.Text,
           IDL.Text,
           IDL.Text,
+          TaxSlabRule,
+          ProductAttributes,
         ],
         [],
         [],
       ),
+    'updatePurchaseOrderStatus' : IDL.Func(
+        [IDL.Nat, PurchaseOrderStatus],
+        [],
+        [],
+      ),
+    'updateQuotationStatus' : IDL.Func([IDL.Nat, QuotationStatus], [], []),
+    'updateSupplier' : IDL.Func([IDL.Nat, SupplierInput], [], []),
     'uploadUserSignature' : IDL.Func([ExternalBlob], [], []),
   });
 };
@@ -3,19 +3,59 @@ import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import type {
   AppBootstrapState,
   ApprovalRequest,
+  CompanySettings,
+  CreditNote,
+  CreditNoteLineInput,
   Customer,
   DataEntry,
+  Dispatch,
+  DispatchInput,
+  DispatchStatus,
+  Expense,
+  ExpenseInput,
+  ExternalBlob,
+  GoodsReceipt,
+  GoodsReceiptLineInput,
   InventoryRecord,
   Invoice,
+  InvoiceLineInput,
   Notification,
+  OrderLineInput,
   OrderRecord,
+  OrderStatus,
+  Payment,
+  PaymentMode,
   Product,
+  ProductAttributes,
+  ProductCategory,
+  ProductImportRow,
+  ProductPriceRevision,
+  ProductStyle,
+  ProductStyleInput,
   ProfitLossReport,
+  PurchaseOrder,
+  PurchaseOrderLineInput,
+  PurchaseOrderStatus,
+  Quotation,
+  QuotationStatus,
   Stats,
+  StockMovement,
+  StockMovementReason,
+  Supplier,
+  SupplierInput,
+  TaxSlabRule,
+  TaxonomyTerm,
+  TaxonomyTermKind,
   UserApprovalInfo,
   UserProfile,
+  VariantQuantity,
 } from "../backend";
 import type { AppRole, T as InvoiceStatus } from "../backend";
+import { DEFAULT_LOGO_URL } from "../utils/companyBranding";
+import {
+  IMPORT_CHUNK_SIZE,
+  type ProductImportResult,
+} from "../utils/productImport";
 import { useActor } from "./useActor";
 
 // ─── Bootstrap ────────────────────────────────────────────────────────────────
@@ -268,6 +308,9 @@ export function useAddProduct() {
       name: string;
       description: string;
       price: bigint;
+      wholesalePrice: bigint;
+      mrp: bigint;
+      costPrice: bigint;
       stockLevel: bigint;
       warehouse: string;
       rack: string;
@@ -275,12 +318,18 @@ export function useAddProduct() {
       size: string;
       color: string;
       barcode: string;
+      hsnCode: string;
+      taxSlab: TaxSlabRule;
+      attributes: ProductAttributes;
     }) => {
       if (!actor) throw new Error("Actor not available");
       return actor.addProduct(
         params.name,
         params.description,
         params.price,
+        params.wholesalePrice,
+        params.mrp,
+        params.costPrice,
         params.stockLevel,
         params.warehouse,
         params.rack,
@@ -288,10 +337,14 @@ export function useAddProduct() {
         params.size,
         params.color,
         params.barcode,
+        params.hsnCode,
+        params.taxSlab,
+        params.attributes,
       );
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["stockMovements"] });
     },
   });
 }
@@ -306,6 +359,9 @@ export function useUpdateProduct() {
       name: string;
       description: string;
       price: bigint;
+      wholesalePrice: bigint;
+      mrp: bigint;
+      costPrice: bigint;
       stockLevel: bigint;
       warehouse: string;
       rack: string;
@@ -313,6 +369,9 @@ export function useUpdateProduct() {
       size: string;
       color: string;
       barcode: string;
+      hsnCode: string;
+      taxSlab: TaxSlabRule;
+      attributes: ProductAttributes;
     }) => {
       if (!actor) throw new Error("Actor not available");
       return actor.updateProduct(
@@ -320,6 +379,9 @@ export function useUpdateProduct() {
         params.name,
         params.description,
         params.price,
+        params.wholesalePrice,
+        params.mrp,
+        params.costPrice,
         params.stockLevel,
         params.warehouse,
         params.rack,
@@ -327,8 +389,177 @@ export function useUpdateProduct() {
         params.size,
         params.color,
         params.barcode,
+        params.hsnCode,
+        params.taxSlab,
+        params.attributes,
       );
     },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["stockMovements"] });
+    },
+  });
+}
+
+// Rows go to the backend in chunks so a large sheet neither exceeds the
+// message size limit nor loses everything to one bad row; a failed chunk is
+// reported and the rest carry on.
+export function useImportProducts() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      rows,
+      onProgress,
+    }: {
+      rows: ProductImportRow[];
+      onProgress?: (done: number) => void;
+    }) => {
+      if (!actor) throw new Error("Actor not available");
+      const result: ProductImportResult = {
+        created: 0,
+        updated: 0,
+        failedChunks: [],
+      };
+      for (let start = 0; start < rows.length; start += IMPORT_CHUNK_SIZE) {
+        const chunk = rows.slice(start, start + IMPORT_CHUNK_SIZE);
+        try {
+          const summary = await actor.importProducts(chunk);
+          result.created += Number(summary.created);
+          result.updated += Number(summary.updated);
+        } catch (error: any) {
+          result.failedChunks.push({
+            rows: chunk,
+            error: error?.message || "Import failed",
+          });
+        }
+        onProgress?.(start + chunk.length);
+      }
+      return result;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["stockMovements"] });
+    },
+  });
+}
+
+export function useArchiveProduct() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (productId: bigint) => {
+      if (!actor) throw new Error("Actor not available");
+      return actor.archiveProduct(productId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+    },
+  });
+}
+
+export function useRestoreProduct() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (productId: bigint) => {
+      if (!actor) throw new Error("Actor not available");
+      return actor.restoreProduct(productId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+    },
+  });
+}
+
+export function useSetProductsLocation() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      productIds,
+      warehouse,
+      rack,
+      shelf,
+    }: {
+      productIds: bigint[];
+      warehouse: string;
+      rack: string;
+      shelf: string;
+    }) => {
+      if (!actor) throw new Error("Actor not available");
+      return actor.setProductsLocation(productIds, warehouse, rack, shelf);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+    },
+  });
+}
+
+export function useSetProductsCategory() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      productIds,
+      categoryId,
+    }: {
+      productIds: bigint[];
+      categoryId: bigint | null;
+    }) => {
+      if (!actor) throw new Error("Actor not available");
+      return actor.setProductsCategory(productIds, categoryId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+    },
+  });
+}
+
+export function useArchiveProducts() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (productIds: bigint[]) => {
+      if (!actor) throw new Error("Actor not available");
+      return actor.archiveProducts(productIds);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+    },
+  });
+}
+
+export function useReviseProductPrices() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (revisions: ProductPriceRevision[]) => {
+      if (!actor) throw new Error("Actor not available");
+      return actor.reviseProductPrices(revisions);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+    },
+  });
+}
+
+export function useDeleteProduct() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (productId: bigint) => {
+      if (!actor) throw new Error("Actor not available");
+      return actor.deleteProduct(productId);
+    },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["products"] });
     },
@@ -346,11 +577,73 @@ export function useDeleteAllInventory() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["productStyles"] });
+      queryClient.invalidateQueries({ queryKey: ["stockMovements"] });
       queryClient.invalidateQueries({ queryKey: ["inventory"] });
     },
   });
 }
 
+export function useListProductStyles() {
+  const { actor, isFetching: actorFetching } = useActor();
+
+  return useQuery<ProductStyle[]>({
+    queryKey: ["productStyles"],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.listProductStyles();
+    },
+    enabled: !!actor && !actorFetching,
+    staleTime: 30_000,
+    gcTime: 5 * 60_000,
+    retry: 1,
+  });
+}
+
+export function useCreateProductStyle() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: {
+      input: ProductStyleInput;
+      openingStock: VariantQuantity[];
+    }) => {
+      if (!actor) throw new Error("Actor not available");
+      return actor.createProductStyle(params.input, params.openingStock);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["productStyles"] });
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["stockMovements"] });
+    },
+  });
+}
+
+export function useExtendProductStyle() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: {
+      styleId: bigint;
+      sizes: string[];
+      colors: string[];
+    }) => {
+      if (!actor) throw new Error("Actor not available");
+      return actor.extendProductStyle(
+        params.styleId,
+        params.sizes,
+        params.colors,
+      );
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["productStyles"] });
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+    },
+  });
+}
+
 export function useListInventory() {
   const { actor, isFetching: actorFetching } = useActor();
 
@@ -360,67 +653,755 @@ export function useListInventory() {
       if (!actor) return [];
       return actor.listInventory();
     },
-    enabled: !!actor && !actorFetching,
-    staleTime: 30_000,
-    gcTime: 5 * 60_000,
-    retry: 1,
+    enabled: !!actor && !actorFetching,
+    staleTime: 30_000,
+    gcTime: 5 * 60_000,
+    retry: 1,
+  });
+}
+
+export function useAddInventoryEntry() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: {
+      productId: bigint;
+      quantity: bigint;
+      batch: string;
+      supplierId: bigint;
+    }) => {
+      if (!actor) throw new Error("Actor not available");
+      return actor.addInventoryEntry(
+        params.productId,
+        params.quantity,
+        params.batch,
+        params.supplierId,
+      );
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["stockMovements"] });
+    },
+  });
+}
+
+export function useSetProductLocation() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: {
+      productId: bigint;
+      location: { warehouse: string; rack: string; shelf: string };
+    }) => {
+      if (!actor) throw new Error("Actor not available");
+      return actor.setProductLocation(params.productId, params.location);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+    },
+  });
+}
+
+export function useListStockMovements(productId: bigint | null) {
+  const { actor, isFetching: actorFetching } = useActor();
+
+  return useQuery<StockMovement[]>({
+    queryKey: ["stockMovements", productId?.toString()],
+    queryFn: async () => {
+      if (!actor || productId === null) return [];
+      return actor.listStockMovements(productId);
+    },
+    enabled: !!actor && !actorFetching && productId !== null,
+    staleTime: 30_000,
+    gcTime: 5 * 60_000,
+    retry: 1,
+  });
+}
+
+export function useAdjustStock() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: {
+      productId: bigint;
+      delta: bigint;
+      reason: StockMovementReason;
+      reference: string;
+    }) => {
+      if (!actor) throw new Error("Actor not available");
+      return actor.adjustStock(
+        params.productId,
+        params.delta,
+        params.reason,
+        params.reference,
+      );
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["stockMovements"] });
+    },
+  });
+}
+
+// ─── Taxonomy ─────────────────────────────────────────────────────────────────
+
+export function useListProductCategories() {
+  const { actor, isFetching: actorFetching } = useActor();
+
+  return useQuery<ProductCategory[]>({
+    queryKey: ["productCategories"],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.listProductCategories();
+    },
+    enabled: !!actor && !actorFetching,
+    staleTime: 30_000,
+    gcTime: 5 * 60_000,
+    retry: 1,
+  });
+}
+
+export function useCreateProductCategory() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: { name: string; parentId: bigint | null }) => {
+      if (!actor) throw new Error("Actor not available");
+      return actor.createProductCategory(params.name, params.parentId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["productCategories"] });
+    },
+  });
+}
+
+export function useRenameProductCategory() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: { categoryId: bigint; name: string }) => {
+      if (!actor) throw new Error("Actor not available");
+      return actor.renameProductCategory(params.categoryId, params.name);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["productCategories"] });
+    },
+  });
+}
+
+export function useDeleteProductCategory() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (categoryId: bigint) => {
+      if (!actor) throw new Error("Actor not available");
+      return actor.deleteProductCategory(categoryId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["productCategories"] });
+    },
+  });
+}
+
+export function useListTaxonomyTerms() {
+  const { actor, isFetching: actorFetching } = useActor();
+
+  return useQuery<TaxonomyTerm[]>({
+    queryKey: ["taxonomyTerms"],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.listTaxonomyTerms();
+    },
+    enabled: !!actor && !actorFetching,
+    staleTime: 30_000,
+    gcTime: 5 * 60_000,
+    retry: 1,
+  });
+}
+
+export function useCreateTaxonomyTerm() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: { kind: TaxonomyTermKind; name: string }) => {
+      if (!actor) throw new Error("Actor not available");
+      return actor.createTaxonomyTerm(params.kind, params.name);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["taxonomyTerms"] });
+    },
+  });
+}
+
+export function useDeleteTaxonomyTerm() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (termId: bigint) => {
+      if (!actor) throw new Error("Actor not available");
+      return actor.deleteTaxonomyTerm(termId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["taxonomyTerms"] });
+    },
+  });
+}
+
+// ─── Customers ────────────────────────────────────────────────────────────────
+
+export function useListCustomers() {
+  const { actor, isFetching: actorFetching } = useActor();
+
+  return useQuery<Customer[]>({
+    queryKey: ["customers"],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.listCustomers();
+    },
+    enabled: !!actor && !actorFetching,
+    staleTime: 30_000,
+    gcTime: 5 * 60_000,
+    retry: 1,
+  });
+}
+
+export function useCreateCustomer() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: {
+      name: string;
+      email: string;
+      phone: string;
+      address: string;
+      state: string;
+      paymentTermsDays: bigint;
+    }) => {
+      if (!actor) throw new Error("Actor not available");
+      return actor.createCustomer(
+        params.name,
+        params.email,
+        params.phone,
+        params.address,
+        params.state,
+        params.paymentTermsDays,
+      );
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["customers"] });
+    },
+  });
+}
+
+export function useUpdateCustomerPaymentTerms() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: {
+      customerId: bigint;
+      paymentTermsDays: bigint;
+    }) => {
+      if (!actor) throw new Error("Actor not available");
+      return actor.updateCustomerPaymentTerms(
+        params.customerId,
+        params.paymentTermsDays,
+      );
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["customers"] });
+    },
+  });
+}
+
+export function useDeleteCustomer() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (customerId: bigint) => {
+      if (!actor) throw new Error("Actor not available");
+      return actor.deleteCustomer(customerId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["customers"] });
+    },
+  });
+}
+
+// ─── Suppliers ────────────────────────────────────────────────────────────────
+
+export function useListSuppliers() {
+  const { actor, isFetching: actorFetching } = useActor();
+
+  return useQuery<Supplier[]>({
+    queryKey: ["suppliers"],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.listSuppliers();
+    },
+    enabled: !!actor && !actorFetching,
+    staleTime: 30_000,
+    gcTime: 5 * 60_000,
+    retry: 1,
+  });
+}
+
+export function useCreateSupplier() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: SupplierInput) => {
+      if (!actor) throw new Error("Actor not available");
+      return actor.createSupplier(input);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["suppliers"] });
+    },
+  });
+}
+
+export function useUpdateSupplier() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: {
+      supplierId: bigint;
+      input: SupplierInput;
+    }) => {
+      if (!actor) throw new Error("Actor not available");
+      return actor.updateSupplier(params.supplierId, params.input);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["suppliers"] });
+    },
+  });
+}
+
+export function useDeleteSupplier() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (supplierId: bigint) => {
+      if (!actor) throw new Error("Actor not available");
+      return actor.deleteSupplier(supplierId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["suppliers"] });
+    },
+  });
+}
+
+// ─── Purchase Orders ──────────────────────────────────────────────────────────
+
+export function useListPurchaseOrders() {
+  const { actor, isFetching: actorFetching } = useActor();
+
+  return useQuery<PurchaseOrder[]>({
+    queryKey: ["purchaseOrders"],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.listPurchaseOrders();
+    },
+    enabled: !!actor && !actorFetching,
+    staleTime: 30_000,
+    gcTime: 5 * 60_000,
+    retry: 1,
+  });
+}
+
+export function useCreatePurchaseOrder() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: {
+      supplierId: bigint;
+      lines: PurchaseOrderLineInput[];
+      expectedDate: bigint;
+      notes: string;
+    }) => {
+      if (!actor) throw new Error("Actor not available");
+      return actor.createPurchaseOrder(
+        params.supplierId,
+        params.lines,
+        params.expectedDate,
+        params.notes,
+      );
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["purchaseOrders"] });
+    },
+  });
+}
+
+export function useUpdatePurchaseOrderStatus() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: {
+      purchaseOrderId: bigint;
+      status: PurchaseOrderStatus;
+    }) => {
+      if (!actor) throw new Error("Actor not available");
+      return actor.updatePurchaseOrderStatus(
+        params.purchaseOrderId,
+        params.status,
+      );
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["purchaseOrders"] });
+    },
+  });
+}
+
+// ─── Goods Receipts ───────────────────────────────────────────────────────────
+
+export function useListGoodsReceipts() {
+  const { actor, isFetching: actorFetching } = useActor();
+
+  return useQuery<GoodsReceipt[]>({
+    queryKey: ["goodsReceipts"],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.listGoodsReceipts();
+    },
+    enabled: !!actor && !actorFetching,
+    staleTime: 30_000,
+    gcTime: 5 * 60_000,
+    retry: 1,
+  });
+}
+
+export function useCreateGoodsReceipt() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: {
+      purchaseOrderId: bigint | null;
+      supplierId: bigint;
+      lines: GoodsReceiptLineInput[];
+      batch: string;
+      notes: string;
+    }) => {
+      if (!actor) throw new Error("Actor not available");
+      return actor.createGoodsReceipt(
+        params.purchaseOrderId,
+        params.supplierId,
+        params.lines,
+        params.batch,
+        params.notes,
+      );
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["goodsReceipts"] });
+      queryClient.invalidateQueries({ queryKey: ["purchaseOrders"] });
+      queryClient.invalidateQueries({ queryKey: ["inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["stockMovements"] });
+    },
+  });
+}
+
+// ─── Orders ───────────────────────────────────────────────────────────────────
+
+export function useListOrders() {
+  const { actor, isFetching: actorFetching } = useActor();
+
+  return useQuery<OrderRecord[]>({
+    queryKey: ["orders"],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.listOrders();
+    },
+    enabled: !!actor && !actorFetching,
+    staleTime: 30_000,
+    gcTime: 5 * 60_000,
+    retry: 1,
+  });
+}
+
+export function useCreateOrder() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: {
+      customerId: bigint;
+      lines: OrderLineInput[];
+    }) => {
+      if (!actor) throw new Error("Actor not available");
+      return actor.createOrder(params.customerId, params.lines);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["orders"] });
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+    },
+  });
+}
+
+export function useUpdateOrderStatus() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: { orderId: bigint; status: OrderStatus }) => {
+      if (!actor) throw new Error("Actor not available");
+      return actor.updateOrderStatus(params.orderId, params.status);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["orders"] });
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+    },
+  });
+}
+
+export function useDeleteAllOrders() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      if (!actor) throw new Error("Actor not available");
+      return actor.deleteAllOrders();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["orders"] });
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["dispatches"] });
+    },
+  });
+}
+
+// ─── Dispatches ───────────────────────────────────────────────────────────────
+
+export function useListDispatches() {
+  const { actor, isFetching: actorFetching } = useActor();
+
+  return useQuery<Dispatch[]>({
+    queryKey: ["dispatches"],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.listDispatches();
+    },
+    enabled: !!actor && !actorFetching,
+    staleTime: 30_000,
+    gcTime: 5 * 60_000,
+    retry: 1,
+  });
+}
+
+export function useCreateDispatch() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: { orderId: bigint; input: DispatchInput }) => {
+      if (!actor) throw new Error("Actor not available");
+      return actor.createDispatch(params.orderId, params.input);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["dispatches"] });
+    },
+  });
+}
+
+export function useUpdateDispatchDetails() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: {
+      dispatchId: bigint;
+      input: DispatchInput;
+    }) => {
+      if (!actor) throw new Error("Actor not available");
+      return actor.updateDispatchDetails(params.dispatchId, params.input);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["dispatches"] });
+    },
+  });
+}
+
+export function useUpdateDispatchStatus() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: {
+      dispatchId: bigint;
+      status: DispatchStatus;
+      deliveryDate: bigint | null;
+    }) => {
+      if (!actor) throw new Error("Actor not available");
+      return actor.updateDispatchStatus(
+        params.dispatchId,
+        params.status,
+        params.deliveryDate,
+      );
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["dispatches"] });
+    },
+  });
+}
+
+// ─── Invoices ─────────────────────────────────────────────────────────────────
+
+export function useListInvoices() {
+  const { actor, isFetching: actorFetching } = useActor();
+
+  return useQuery<Invoice[]>({
+    queryKey: ["invoices"],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.listInvoices();
+    },
+    enabled: !!actor && !actorFetching,
+    staleTime: 30_000,
+    gcTime: 5 * 60_000,
+    retry: 1,
+  });
+}
+
+export function useGetInvoice(invoiceId: bigint | null) {
+  const { actor, isFetching: actorFetching } = useActor();
+
+  return useQuery<Invoice | null>({
+    queryKey: ["invoice", invoiceId?.toString()],
+    queryFn: async () => {
+      if (!actor || invoiceId === null) return null;
+      return actor.getInvoice(invoiceId);
+    },
+    enabled: !!actor && !actorFetching && invoiceId !== null,
+    staleTime: 30_000,
+    retry: 1,
+  });
+}
+
+export function useCreateInvoice() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: {
+      customerId: bigint;
+      lines: InvoiceLineInput[];
+      status: InvoiceStatus;
+      paymentTermsDays: bigint | null;
+    }) => {
+      if (!actor) throw new Error("Actor not available");
+      return actor.createInvoice(
+        params.customerId,
+        params.lines,
+        params.status,
+        params.paymentTermsDays,
+      );
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["invoices"] });
+    },
+  });
+}
+
+export function useStockAdjustInvoice() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (invoiceId: bigint) => {
+      if (!actor) throw new Error("Actor not available");
+      return actor.stockAdjustInvoice(invoiceId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["invoices"] });
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["stockMovements"] });
+      queryClient.invalidateQueries({ queryKey: ["orders"] });
+    },
+  });
+}
+
+export function useCreateInvoiceFromOrders() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (orderIds: bigint[]) => {
+      if (!actor) throw new Error("Actor not available");
+      return actor.createInvoiceFromOrders(orderIds);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["orders"] });
+      queryClient.invalidateQueries({ queryKey: ["invoices"] });
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["stockMovements"] });
+    },
   });
 }
 
-export function useAddInventoryEntry() {
+export function useUpdateInvoiceDocumentUrls() {
   const { actor } = useActor();
   const queryClient = useQueryClient();
 
   return useMutation({
     mutationFn: async (params: {
-      productId: bigint;
-      quantity: bigint;
-      batch: string;
-      supplierId: bigint;
+      invoiceId: bigint;
+      imageUrl: string | null;
+      pdfUrl: string | null;
     }) => {
       if (!actor) throw new Error("Actor not available");
-      return actor.addInventoryEntry(
-        params.productId,
-        params.quantity,
-        params.batch,
-        params.supplierId,
+      return actor.updateInvoiceDocumentUrls(
+        params.invoiceId,
+        params.imageUrl,
+        params.pdfUrl,
       );
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["inventory"] });
-      queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["invoices"] });
     },
   });
 }
 
-export function useSetProductLocation() {
+export function useClearAllInvoices() {
   const { actor } = useActor();
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (params: {
-      productId: bigint;
-      location: { warehouse: string; rack: string; shelf: string };
-    }) => {
+    mutationFn: async () => {
       if (!actor) throw new Error("Actor not available");
-      return actor.setProductLocation(params.productId, params.location);
+      return actor.clearAllInvoices();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["invoices"] });
     },
   });
 }
 
-// ─── Customers ────────────────────────────────────────────────────────────────
-
-export function useListCustomers() {
+export function useGetInvoiceHistory() {
   const { actor, isFetching: actorFetching } = useActor();
 
-  return useQuery<Customer[]>({
-    queryKey: ["customers"],
+  return useQuery<Invoice[]>({
+    queryKey: ["invoiceHistory"],
     queryFn: async () => {
       if (!actor) return [];
-      return actor.listCustomers();
+      return actor.getInvoiceHistory(null, null, null);
     },
     enabled: !!actor && !actorFetching,
     staleTime: 30_000,
@@ -429,56 +1410,47 @@ export function useListCustomers() {
   });
 }
 
-export function useCreateCustomer() {
-  const { actor } = useActor();
-  const queryClient = useQueryClient();
+export function useGetInvoiceNumberPrefix() {
+  const { actor, isFetching: actorFetching } = useActor();
 
-  return useMutation({
-    mutationFn: async (params: {
-      name: string;
-      email: string;
-      phone: string;
-      address: string;
-    }) => {
-      if (!actor) throw new Error("Actor not available");
-      return actor.createCustomer(
-        params.name,
-        params.email,
-        params.phone,
-        params.address,
-      );
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["customers"] });
+  return useQuery<string>({
+    queryKey: ["invoiceNumberPrefix"],
+    queryFn: async () => {
+      if (!actor) return "";
+      return actor.getInvoiceNumberPrefix();
     },
+    enabled: !!actor && !actorFetching,
+    staleTime: 30_000,
+    gcTime: 5 * 60_000,
+    retry: 1,
   });
 }
 
-export function useDeleteCustomer() {
+export function useSetInvoiceNumberPrefix() {
   const { actor } = useActor();
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (customerId: bigint) => {
+    mutationFn: async (prefix: string) => {
       if (!actor) throw new Error("Actor not available");
-      return actor.deleteCustomer(customerId);
+      return actor.setInvoiceNumberPrefix(prefix);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["customers"] });
+      queryClient.invalidateQueries({ queryKey: ["invoiceNumberPrefix"] });
     },
   });
 }
 
-// ─── Orders ───────────────────────────────────────────────────────────────────
+// ─── Company Settings ─────────────────────────────────────────────────────────
 
-export function useListOrders() {
+export function useGetCompanySettings() {
   const { actor, isFetching: actorFetching } = useActor();
 
-  return useQuery<OrderRecord[]>({
-    queryKey: ["orders"],
+  return useQuery<CompanySettings | null>({
+    queryKey: ["companySettings"],
     queryFn: async () => {
-      if (!actor) return [];
-      return actor.listOrders();
+      if (!actor) return null;
+      return actor.getCompanySettings();
     },
     enabled: !!actor && !actorFetching,
     staleTime: 30_000,
@@ -487,59 +1459,76 @@ export function useListOrders() {
   });
 }
 
-export function useCreateOrder() {
+export function useUpdateCompanySettings() {
   const { actor } = useActor();
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (params: {
-      customerId: bigint;
-      productId: bigint;
-      quantity: bigint;
-      status: string;
-      totalPrice: bigint;
-    }) => {
+    mutationFn: async (settings: CompanySettings) => {
       if (!actor) throw new Error("Actor not available");
-      return actor.createOrder(
-        params.customerId,
-        params.productId,
-        params.quantity,
-        params.status,
-        params.totalPrice,
-      );
+      return actor.updateCompanySettings(settings);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["orders"] });
-      queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["companySettings"] });
     },
   });
 }
 
-export function useDeleteAllOrders() {
+export function useGetCompanyLogo() {
+  const { actor, isFetching: actorFetching } = useActor();
+
+  return useQuery<ExternalBlob | null>({
+    queryKey: ["companyLogo"],
+    queryFn: async () => {
+      if (!actor) return null;
+      return actor.getCompanyLogo();
+    },
+    enabled: !!actor && !actorFetching,
+    staleTime: 30_000,
+    gcTime: 5 * 60_000,
+    retry: 1,
+  });
+}
+
+export function useSetCompanyLogo() {
   const { actor } = useActor();
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async () => {
+    mutationFn: async (logo: ExternalBlob | null) => {
       if (!actor) throw new Error("Actor not available");
-      return actor.deleteAllOrders();
+      return actor.setCompanyLogo(logo);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["orders"] });
+      queryClient.invalidateQueries({ queryKey: ["companyLogo"] });
     },
   });
 }
 
-// ─── Invoices ─────────────────────────────────────────────────────────────────
+// Company settings plus the logo URL to draw on documents, falling back to the
+// bundled logo until one has been uploaded.
+export function useCompanyBranding() {
+  const { data: settings = null, isLoading: settingsLoading } =
+    useGetCompanySettings();
+  const { data: logo = null, isLoading: logoLoading } = useGetCompanyLogo();
 
-export function useListInvoices() {
+  return {
+    settings,
+    logoUrl: logo ? logo.getDirectURL() : DEFAULT_LOGO_URL,
+    isLoading: settingsLoading || logoLoading,
+  };
+}
+
+// ─── Payments ─────────────────────────────────────────────────────────────────
+
+export function useListPayments() {
   const { actor, isFetching: actorFetching } = useActor();
 
-  return useQuery<Invoice[]>({
-    queryKey: ["invoices"],
+  return useQuery<Payment[]>({
+    queryKey: ["payments"],
     queryFn: async () => {
       if (!actor) return [];
-      return actor.listInvoices();
+      return actor.listPayments();
     },
     enabled: !!actor && !actorFetching,
     staleTime: 30_000,
@@ -548,14 +1537,14 @@ export function useListInvoices() {
   });
 }
 
-export function useGetInvoice(invoiceId: bigint | null) {
+export function useListInvoicePayments(invoiceId: bigint | null) {
   const { actor, isFetching: actorFetching } = useActor();
 
-  return useQuery<Invoice | null>({
-    queryKey: ["invoice", invoiceId?.toString()],
+  return useQuery<Payment[]>({
+    queryKey: ["payments", invoiceId?.toString()],
     queryFn: async () => {
-      if (!actor || invoiceId === null) return null;
-      return actor.getInvoice(invoiceId);
+      if (!actor || invoiceId === null) return [];
+      return actor.listInvoicePayments(invoiceId);
     },
     enabled: !!actor && !actorFetching && invoiceId !== null,
     staleTime: 30_000,
@@ -563,104 +1552,154 @@ export function useGetInvoice(invoiceId: bigint | null) {
   });
 }
 
-export function useCreateInvoice() {
+export function useRecordPayment() {
   const { actor } = useActor();
   const queryClient = useQueryClient();
 
   return useMutation({
     mutationFn: async (params: {
-      customerId: bigint;
-      productId: bigint;
-      quantity: bigint;
-      price: bigint;
-      tax: bigint;
-      total: bigint;
-      status: InvoiceStatus;
+      invoiceId: bigint;
+      amount: bigint;
+      paymentDate: bigint;
+      mode: PaymentMode;
+      reference: string;
     }) => {
       if (!actor) throw new Error("Actor not available");
-      return actor.createInvoice(
-        params.customerId,
-        params.productId,
-        params.quantity,
-        params.price,
-        params.tax,
-        params.total,
-        params.status,
+      return actor.recordPayment(
+        params.invoiceId,
+        params.amount,
+        params.paymentDate,
+        params.mode,
+        params.reference,
       );
     },
     onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["payments"] });
       queryClient.invalidateQueries({ queryKey: ["invoices"] });
     },
   });
 }
 
-export function useStockAdjustInvoice() {
+// ─── Credit Notes ─────────────────────────────────────────────────────────────
+
+export function useListCreditNotes() {
+  const { actor, isFetching: actorFetching } = useActor();
+
+  return useQuery<CreditNote[]>({
+    queryKey: ["creditNotes"],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.listCreditNotes();
+    },
+    enabled: !!actor && !actorFetching,
+    staleTime: 30_000,
+    gcTime: 5 * 60_000,
+    retry: 1,
+  });
+}
+
+export function useCreateCreditNote() {
   const { actor } = useActor();
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (invoiceId: bigint) => {
+    mutationFn: async (params: {
+      invoiceId: bigint;
+      lines: CreditNoteLineInput[];
+      reason: string;
+    }) => {
       if (!actor) throw new Error("Actor not available");
-      return actor.stockAdjustInvoice(invoiceId);
+      return actor.createCreditNote(
+        params.invoiceId,
+        params.lines,
+        params.reason,
+      );
     },
     onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["creditNotes"] });
       queryClient.invalidateQueries({ queryKey: ["invoices"] });
       queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["stockMovements"] });
     },
   });
 }
 
-export function useUpdateInvoiceDocumentUrls() {
+// ─── Quotations ───────────────────────────────────────────────────────────────
+
+export function useListQuotations() {
+  const { actor, isFetching: actorFetching } = useActor();
+
+  return useQuery<Quotation[]>({
+    queryKey: ["quotations"],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.listQuotations();
+    },
+    enabled: !!actor && !actorFetching,
+    staleTime: 30_000,
+    gcTime: 5 * 60_000,
+    retry: 1,
+  });
+}
+
+export function useCreateQuotation() {
   const { actor } = useActor();
   const queryClient = useQueryClient();
 
   return useMutation({
     mutationFn: async (params: {
-      invoiceId: bigint;
-      imageUrl: string | null;
-      pdfUrl: string | null;
+      customerId: bigint;
+      lines: InvoiceLineInput[];
+      validUntil: bigint;
+      notes: string;
     }) => {
       if (!actor) throw new Error("Actor not available");
-      return actor.updateInvoiceDocumentUrls(
-        params.invoiceId,
-        params.imageUrl,
-        params.pdfUrl,
+      return actor.createQuotation(
+        params.customerId,
+        params.lines,
+        params.validUntil,
+        params.notes,
       );
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["invoices"] });
+      queryClient.invalidateQueries({ queryKey: ["quotations"] });
     },
   });
 }
 
-export function useClearAllInvoices() {
+export function useUpdateQuotationStatus() {
   const { actor } = useActor();
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async () => {
+    mutationFn: async (params: {
+      quotationId: bigint;
+      status: QuotationStatus;
+    }) => {
       if (!actor) throw new Error("Actor not available");
-      return actor.clearAllInvoices();
+      return actor.updateQuotationStatus(params.quotationId, params.status);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["invoices"] });
+      queryClient.invalidateQueries({ queryKey: ["quotations"] });
     },
   });
 }
 
-export function useGetInvoiceHistory() {
-  const { actor, isFetching: actorFetching } = useActor();
+export function useConvertQuotationToInvoice() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
 
-  return useQuery<Invoice[]>({
-    queryKey: ["invoiceHistory"],
-    queryFn: async () => {
-      if (!actor) return [];
-      return actor.getInvoiceHistory(null, null, null);
+  return useMutation({
+    mutationFn: async (quotationId: bigint) => {
+      if (!actor) throw new Error("Actor not available");
+      return actor.convertQuotationToInvoice(quotationId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["quotations"] });
+      queryClient.invalidateQueries({ queryKey: ["orders"] });
+      queryClient.invalidateQueries({ queryKey: ["invoices"] });
+      queryClient.invalidateQueries({ queryKey: ["products"] });
     },
-    enabled: !!actor && !actorFetching,
-    staleTime: 30_000,
-    gcTime: 5 * 60_000,
-    retry: 1,
   });
 }
 
@@ -751,6 +1790,72 @@ export function useGetProfitLossReport(startDate: bigint, endDate: bigint) {
   });
 }
 
+// ─── Expenses ─────────────────────────────────────────────────────────────────
+
+export function useListExpenses() {
+  const { actor, isFetching: actorFetching } = useActor();
+
+  return useQuery<Expense[]>({
+    queryKey: ["expenses"],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.listExpenses();
+    },
+    enabled: !!actor && !actorFetching,
+    staleTime: 30_000,
+    gcTime: 5 * 60_000,
+    retry: 1,
+  });
+}
+
+export function useCreateExpense() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: ExpenseInput) => {
+      if (!actor) throw new Error("Actor not available");
+      return actor.createExpense(input);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["expenses"] });
+      queryClient.invalidateQueries({ queryKey: ["profitLoss"] });
+    },
+  });
+}
+
+export function useUpdateExpense() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: { expenseId: bigint; input: ExpenseInput }) => {
+      if (!actor) throw new Error("Actor not available");
+      return actor.updateExpense(params.expenseId, params.input);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["expenses"] });
+      queryClient.invalidateQueries({ queryKey: ["profitLoss"] });
+    },
+  });
+}
+
+export function useDeleteExpense() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (expenseId: bigint) => {
+      if (!actor) throw new Error("Actor not available");
+      return actor.deleteExpense(expenseId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["expenses"] });
+      queryClient.invalidateQueries({ queryKey: ["profitLoss"] });
+    },
+  });
+}
+
 // ─── User Management ──────────────────────────────────────────────────────────
 
 export function useAllUserProfiles() {
@@ -11,16 +11,40 @@ const DashboardHome = lazy(() => import("../components/modules/DashboardHome"));
 const InventoryModule = lazy(
   () => import("../components/modules/InventoryModule"),
 );
+const TaxonomyModule = lazy(
+  () => import("../components/modules/TaxonomyModule"),
+);
+const SuppliersModule = lazy(
+  () => import("../components/modules/SuppliersModule"),
+);
+const PurchaseOrdersModule = lazy(
+  () => import("../components/modules/PurchaseOrdersModule"),
+);
+const GoodsReceiptsModule = lazy(
+  () => import("../components/modules/GoodsReceiptsModule"),
+);
 const OrdersModule = lazy(() => import("../components/modules/OrdersModule"));
 const CustomersModule = lazy(
   () => import("../components/modules/CustomersModule"),
 );
+const QuotationsModule = lazy(
+  () => import("../components/modules/QuotationsModule"),
+);
 const InvoiceModule = lazy(() => import("../components/modules/InvoiceModule"));
 const InvoiceHistoryModule = lazy(
   () => import("../components/modules/InvoiceHistoryModule"),
 );
+const CreditNotesModule = lazy(
+  () => import("../components/modules/CreditNotesModule"),
+);
+const CompanySettingsModule = lazy(
+  () => import("../components/modules/CompanySettingsModule"),
+);
 const BarcodeModule = lazy(() => import("../components/modules/BarcodeModule"));
 const ReportsModule = lazy(() => import("../components/modules/ReportsModule"));
+const ExpensesModule = lazy(
+  () => import("../components/modules/ExpensesModule"),
+);
 const ProfitLossModule = lazy(
   () => import("../components/modules/ProfitLossModule"),
 );
@@ -77,14 +101,20 @@ export default function Dashboard({ bootstrapData }: DashboardProps) {
       case "notifications":
         return true;
       case "inventory":
+      case "suppliers":
+      case "purchase-orders":
+      case "goods-receipts":
       case "barcode":
         return userAppRole === AppRole.inventoryManager;
       case "orders":
       case "customers":
+      case "quotations":
       case "invoice":
       case "invoice-history":
+      case "credit-notes":
         return userAppRole === AppRole.sales;
       case "reports":
+      case "expenses":
       case "profit-loss":
       case "analytics":
         return userAppRole === AppRole.accountant;
@@ -119,22 +149,44 @@ export default function Dashboard({ bootstrapData }: DashboardProps) {
         return withProfile((p) => <DashboardHome userProfile={p} />);
       case "inventory":
         return withProfile((p) => <InventoryModule userProfile={p} />);
+      case "taxonomy":
+        return <TaxonomyModule isAdmin={isAdminRole} />;
+      case "suppliers":
+        return withProfile((p) => (
+          <SuppliersModule userProfile={p} isAdmin={isAdminRole} />
+        ));
+      case "purchase-orders":
+        return withProfile((p) => <PurchaseOrdersModule userProfile={p} />);
+      case "goods-receipts":
+        return withProfile((p) => <GoodsReceiptsModule userProfile={p} />);
       case "orders":
         return withProfile((p) => <OrdersModule userProfile={p} />);
       case "customers":
         return withProfile((p) => <CustomersModule userProfile={p} />);
+      case "quotations":
+        return withProfile((p) => (
+          <QuotationsModule userProfile={p} isAdmin={isAdminRole} />
+        ));
       case "invoice":
         return withProfile((p) => <InvoiceModule userProfile={p} />);
       case "invoice-history":
         return withProfile((p) => (
           <InvoiceHistoryModule userProfile={p} isAdmin={isAdminRole} />
         ));
+      case "credit-notes":
+        return withProfile((p) => (
+          <CreditNotesModule userProfile={p} isAdmin={isAdminRole} />
+        ));
       case "barcode":
         return withProfile((p) => <BarcodeModule userProfile={p} />);
       case "reports":
         return withProfile((p) => <ReportsModule userProfile={p} />);
+      case "expenses":
+        return withProfile((p) => <ExpensesModule userProfile={p} />);
       case "profit-loss":
         return withProfile((p) => <ProfitLossModule userProfile={p} />);
+      case "company-settings":
+        return <CompanySettingsModule isAdmin={isAdminRole} />;
       case "notifications":
         return <NotificationsModule />;
       case "secondary-admin":
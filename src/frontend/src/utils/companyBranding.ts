@@ -0,0 +1,58 @@
+// Company branding helpers shared by invoices, barcodes and reports. Values
+// come from the admin-maintained company settings, with the original Sahil
+// Garments defaults used until the settings have loaded.
+
+import type { CompanySettings } from "../backend";
+
+export const DEFAULT_LOGO_URL =
+  "/assets/generated/sahil-garments-logo.dim_900x300.png";
+
+export const DEFAULT_COMPANY_NAME = "Sahil Garments";
+
+export const DEFAULT_BRAND_COLORS = {
+  primary: "#D4AF37",
+  accent: "#F5F5F5",
+};
+
+export function getDocumentColors(settings?: CompanySettings | null) {
+  return {
+    primary: settings?.primaryColor || DEFAULT_BRAND_COLORS.primary,
+    accent: settings?.accentColor || DEFAULT_BRAND_COLORS.accent,
+    black: "#000000",
+    gray: "#666666",
+    white: "#FFFFFF",
+    tableRowBg: "#F9F9F9",
+  };
+}
+
+export function getCompanyName(settings?: CompanySettings | null): string {
+  return settings?.legalName || DEFAULT_COMPANY_NAME;
+}
+
+// Single-line contact strip printed in document footers
+export function getCompanyContactLine(
+  settings?: CompanySettings | null,
+): string {
+  if (!settings) return DEFAULT_COMPANY_NAME;
+  return [settings.legalName, settings.email, settings.phone, settings.website]
+    .filter((part) => part.trim() !== "")
+    .join(" | ");
+}
+
+// "GSTIN: ... | PAN: ..." for document headers; empty when neither is set
+export function getCompanyTaxIdLine(settings?: CompanySettings | null): string {
+  if (!settings) return "";
+  return [
+    settings.gstin && `GSTIN: ${settings.gstin}`,
+    settings.pan && `PAN: ${settings.pan}`,
+  ]
+    .filter(Boolean)
+    .join(" | ");
+}
+
+// "#RRGGBB" to jsPDF's RGB triple
+export function hexToRgb(hex: string): [number, number, number] {
+  const value = Number.parseInt(hex.replace("#", ""), 16);
+  if (Number.isNaN(value)) return [0, 0, 0];
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
@@ -0,0 +1,13 @@
+import { ExpenseCategory } from "../backend";
+
+/** Display names for expense categories, in the order forms list them. */
+export const EXPENSE_CATEGORY_LABELS: Record<ExpenseCategory, string> = {
+  [ExpenseCategory.rent]: "Rent",
+  [ExpenseCategory.salaries]: "Salaries & Wages",
+  [ExpenseCategory.electricity]: "Electricity",
+  [ExpenseCategory.transport]: "Transport & Freight",
+  [ExpenseCategory.packaging]: "Packaging",
+  [ExpenseCategory.maintenance]: "Repairs & Maintenance",
+  [ExpenseCategory.marketing]: "Marketing",
+  [ExpenseCategory.other]: "Other",
+};
@@ -0,0 +1,134 @@
+// GST helpers: state codes, product tax slabs and per-line tax calculation
+// mirroring the backend's invoice rules.
+
+import type { TaxSlabRule } from "../backend";
+
+export const GST_STATES: { code: string; name: string }[] = [
+  { code: "01", name: "Jammu and Kashmir" },
+  { code: "02", name: "Himachal Pradesh" },
+  { code: "03", name: "Punjab" },
+  { code: "04", name: "Chandigarh" },
+  { code: "05", name: "Uttarakhand" },
+  { code: "06", name: "Haryana" },
+  { code: "07", name: "Delhi" },
+  { code: "08", name: "Rajasthan" },
+  { code: "09", name: "Uttar Pradesh" },
+  { code: "10", name: "Bihar" },
+  { code: "11", name: "Sikkim" },
+  { code: "12", name: "Arunachal Pradesh" },
+  { code: "13", name: "Nagaland" },
+  { code: "14", name: "Manipur" },
+  { code: "15", name: "Mizoram" },
+  { code: "16", name: "Tripura" },
+  { code: "17", name: "Meghalaya" },
+  { code: "18", name: "Assam" },
+  { code: "19", name: "West Bengal" },
+  { code: "20", name: "Jharkhand" },
+  { code: "21", name: "Odisha" },
+  { code: "22", name: "Chhattisgarh" },
+  { code: "23", name: "Madhya Pradesh" },
+  { code: "24", name: "Gujarat" },
+  { code: "26", name: "Dadra and Nagar Haveli and Daman and Diu" },
+  { code: "27", name: "Maharashtra" },
+  { code: "29", name: "Karnataka" },
+  { code: "30", name: "Goa" },
+  { code: "31", name: "Lakshadweep" },
+  { code: "32", name: "Kerala" },
+  { code: "33", name: "Tamil Nadu" },
+  { code: "34", name: "Puducherry" },
+  { code: "35", name: "Andaman and Nicobar Islands" },
+  { code: "36", name: "Telangana" },
+  { code: "37", name: "Andhra Pradesh" },
+  { code: "38", name: "Ladakh" },
+];
+
+export function getStateLabel(code: string): string {
+  const state = GST_STATES.find((s) => s.code === code);
+  return state ? `${state.name} (${state.code})` : "Not set";
+}
+
+export const TAX_SLAB_PRESETS: {
+  id: string;
+  label: string;
+  rule: TaxSlabRule;
+}[] = [
+  {
+    id: "apparel",
+    label: "Apparel: 5% up to ₹1000/pc, 12% above",
+    rule: { lowRate: BigInt(5), highRate: BigInt(12), threshold: BigInt(1000) },
+  },
+  {
+    id: "gst5",
+    label: "Flat 5%",
+    rule: { lowRate: BigInt(5), highRate: BigInt(5), threshold: BigInt(0) },
+  },
+  {
+    id: "gst12",
+    label: "Flat 12%",
+    rule: { lowRate: BigInt(12), highRate: BigInt(12), threshold: BigInt(0) },
+  },
+  {
+    id: "gst18",
+    label: "Flat 18%",
+    rule: { lowRate: BigInt(18), highRate: BigInt(18), threshold: BigInt(0) },
+  },
+  {
+    id: "exempt",
+    label: "Exempt (0%)",
+    rule: { lowRate: BigInt(0), highRate: BigInt(0), threshold: BigInt(0) },
+  },
+];
+
+export const DEFAULT_TAX_SLAB_ID = "apparel";
+
+export function findTaxSlabPresetId(rule: TaxSlabRule): string {
+  const preset = TAX_SLAB_PRESETS.find(
+    (p) =>
+      p.rule.lowRate === rule.lowRate &&
+      p.rule.highRate === rule.highRate &&
+      (p.rule.lowRate === p.rule.highRate ||
+        p.rule.threshold === rule.threshold),
+  );
+  return preset?.id ?? DEFAULT_TAX_SLAB_ID;
+}
+
+export function getTaxSlabRule(presetId: string): TaxSlabRule {
+  const preset =
+    TAX_SLAB_PRESETS.find((p) => p.id === presetId) ?? TAX_SLAB_PRESETS[0];
+  return preset.rule;
+}
+
+export function isInterState(companyState: string, customerState: string) {
+  return (
+    companyState !== "" &&
+    customerState !== "" &&
+    companyState !== customerState
+  );
+}
+
+export interface LineTax {
+  taxRate: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  tax: number;
+}
+
+export function calculateLineTax(
+  taxableValue: number,
+  quantity: number,
+  rule: TaxSlabRule,
+  interState: boolean,
+): LineTax {
+  const perPiece = quantity > 0 ? Math.floor(taxableValue / quantity) : 0;
+  const taxRate =
+    perPiece <= Number(rule.threshold)
+      ? Number(rule.lowRate)
+      : Number(rule.highRate);
+  if (interState) {
+    const igst = Math.floor((taxableValue * taxRate + 50) / 100);
+    return { taxRate, cgst: 0, sgst: 0, igst, tax: igst };
+  }
+  const half = Math.floor((taxableValue * taxRate + 100) / 200);
+  return { taxRate, cgst: half, sgst: half, igst: 0, tax: half * 2 };
+}
@@ -1,13 +1,6 @@
-// Invoice document utilities and constants for Sahil Garments template
-
-export const INVOICE_COLORS = {
-  gold: "#D4AF37",
-  black: "#000000",
-  gray: "#666666",
-  lightGray: "#F5F5F5",
-  white: "#FFFFFF",
-  tableRowBg: "#F9F9F9",
-};
+// Invoice document utilities and layout constants shared by invoice and credit note templates
+
+import type { Invoice, T as InvoiceStatus, Product } from "../backend";
 
 export const INVOICE_LAYOUT = {
   canvasWidth: 800,
@@ -22,11 +15,49 @@ export const INVOICE_LAYOUT = {
 export interface InvoiceLineItem {
   srNo: number;
   description: string;
+  hsnCode: string;
   quantity: number;
   unitPrice: number;
+  discount: number;
+  taxRate: number;
   total: number;
 }
 
+export interface HsnSummaryRow {
+  hsnCode: string;
+  taxRate: number;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  totalTax: number;
+}
+
+export const INVOICE_STATUS_LABELS: Record<InvoiceStatus, string> = {
+  paid: "Paid",
+  sent: "Unpaid",
+  partiallyPaid: "Partially Paid",
+  overdue: "Overdue",
+  draft: "Draft",
+};
+
+export const PAYMENT_TERMS_OPTIONS = [0, 7, 15, 30, 45, 60];
+
+export function formatPaymentTerms(days: bigint | number): string {
+  const value = Number(days);
+  return value === 0 ? "Due on receipt" : `Net ${value}`;
+}
+
+// Outstanding amount after payments and credit notes, never below zero
+export function getBalanceDue(invoice: Invoice): number {
+  return Math.max(
+    0,
+    Number(invoice.total) -
+      Number(invoice.amountPaid) -
+      Number(invoice.creditedAmount),
+  );
+}
+
 export function formatCurrency(amount: bigint | number): string {
   const num = typeof amount === "bigint" ? Number(amount) : amount;
   return new Intl.NumberFormat("en-IN", {
@@ -45,52 +76,196 @@ export function formatDate(timestamp: bigint): string {
   });
 }
 
+// Quotations share the invoice line shape, so these helpers accept either
 export function buildLineItems(
-  invoice: any,
-  products: any[],
+  invoice: Pick<Invoice, "lines">,
+  products: Product[],
 ): InvoiceLineItem[] {
-  // If invoice has productIds array, use it for multiple items
-  if (invoice.productIds && invoice.productIds.length > 0) {
-    return invoice.productIds.map((productId: bigint, index: number) => {
-      const product = products.find((p) => p.productId === productId);
-      const quantity = Number(invoice.quantity) || 1;
-      const unitPrice = product ? Number(product.price) : Number(invoice.price);
-      return {
-        srNo: index + 1,
-        description: product?.name || "Unknown Product",
-        quantity,
-        unitPrice,
-        total: quantity * unitPrice,
-      };
-    });
-  }
-
-  // Fallback to single product
-  const product = products.find((p) => p.productId === invoice.productId);
-  const quantity = Number(invoice.quantity);
-  const unitPrice = Number(invoice.price);
-  return [
-    {
-      srNo: 1,
+  return invoice.lines.map((line, index) => {
+    const product = products.find((p) => p.productId === line.productId);
+    const quantity = Number(line.quantity);
+    const unitPrice = Number(line.unitPrice);
+    const discount = Number(line.discount);
+    return {
+      srNo: index + 1,
       description: product?.name || "Unknown Product",
+      hsnCode: line.hsnCode,
       quantity,
       unitPrice,
-      total: quantity * unitPrice,
-    },
-  ];
+      discount,
+      taxRate: Number(line.taxRate),
+      total: quantity * unitPrice - discount,
+    };
+  });
 }
 
-export function calculateTotals(lineItems: InvoiceLineItem[], invoice: any) {
+export function calculateTotals(
+  lineItems: InvoiceLineItem[],
+  invoice: Pick<Invoice, "lines" | "tax">,
+) {
   const subtotal = lineItems.reduce((sum, item) => sum + item.total, 0);
+  const cgst = invoice.lines.reduce((sum, line) => sum + Number(line.cgst), 0);
+  const sgst = invoice.lines.reduce((sum, line) => sum + Number(line.sgst), 0);
+  const igst = invoice.lines.reduce((sum, line) => sum + Number(line.igst), 0);
   const tax = Number(invoice.tax);
   const grandTotal = subtotal + tax;
-  const gstPercentage =
-    subtotal > 0 ? ((tax / subtotal) * 100).toFixed(0) : "0";
 
   return {
     subtotal,
+    cgst,
+    sgst,
+    igst,
     tax,
     grandTotal,
-    gstPercentage,
   };
 }
+
+// Groups invoice lines by HSN code and rate, as required for the tax summary
+// printed on GST invoices.
+export function buildHsnSummary(
+  invoice: Pick<Invoice, "lines">,
+): HsnSummaryRow[] {
+  const rows = new Map<string, HsnSummaryRow>();
+  for (const line of invoice.lines) {
+    const hsnCode = line.hsnCode || "-";
+    const taxRate = Number(line.taxRate);
+    const key = `${hsnCode}|${taxRate}`;
+    const row = rows.get(key) ?? {
+      hsnCode,
+      taxRate,
+      taxableValue: 0,
+      cgst: 0,
+      sgst: 0,
+      igst: 0,
+      totalTax: 0,
+    };
+    row.taxableValue +=
+      Number(line.quantity) * Number(line.unitPrice) - Number(line.discount);
+    row.cgst += Number(line.cgst);
+    row.sgst += Number(line.sgst);
+    row.igst += Number(line.igst);
+    row.totalTax += Number(line.tax);
+    rows.set(key, row);
+  }
+  return Array.from(rows.values());
+}
+
+// Loads a cross-origin image so it can be drawn onto canvases and PDFs
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = "anonymous";
+    image.onload = () => resolve(image);
+    image.onerror = reject;
+    image.src = src;
+  });
+}
+
+const ONES = [
+  "",
+  "One",
+  "Two",
+  "Three",
+  "Four",
+  "Five",
+  "Six",
+  "Seven",
+  "Eight",
+  "Nine",
+  "Ten",
+  "Eleven",
+  "Twelve",
+  "Thirteen",
+  "Fourteen",
+  "Fifteen",
+  "Sixteen",
+  "Seventeen",
+  "Eighteen",
+  "Nineteen",
+];
+
+const TENS = [
+  "",
+  "",
+  "Twenty",
+  "Thirty",
+  "Forty",
+  "Fifty",
+  "Sixty",
+  "Seventy",
+  "Eighty",
+  "Ninety",
+];
+
+function twoDigitWords(n: number): string {
+  if (n < 20) return ONES[n];
+  const unit = n % 10;
+  return unit === 0
+    ? TENS[Math.floor(n / 10)]
+    : `${TENS[Math.floor(n / 10)]} ${ONES[unit]}`;
+}
+
+function threeDigitWords(n: number): string {
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  return [
+    hundreds > 0 ? `${ONES[hundreds]} Hundred` : "",
+    rest > 0 ? twoDigitWords(rest) : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+// Spells a whole number using the Indian grouping (thousand, lakh, crore).
+// Amounts of a hundred crore and above repeat the crore group, e.g.
+// "One Hundred Twenty Crore".
+export function numberToIndianWords(value: number): string {
+  const n = Math.floor(Math.abs(value));
+  if (n === 0) return "Zero";
+
+  const crore = Math.floor(n / 10_000_000);
+  const lakh = Math.floor((n % 10_000_000) / 100_000);
+  const thousand = Math.floor((n % 100_000) / 1000);
+  const rest = n % 1000;
+
+  return [
+    crore > 0 ? `${numberToIndianWords(crore)} Crore` : "",
+    lakh > 0 ? `${twoDigitWords(lakh)} Lakh` : "",
+    thousand > 0 ? `${twoDigitWords(thousand)} Thousand` : "",
+    rest > 0 ? threeDigitWords(rest) : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+// "Rupees Twelve Thousand Four Hundred Only", as printed below invoice totals
+export function amountInWords(amount: bigint | number): string {
+  const value = typeof amount === "bigint" ? Number(amount) : amount;
+  const rupees = Math.floor(value);
+  const paise = Math.round((value - rupees) * 100);
+  const words = `Rupees ${numberToIndianWords(rupees)}`;
+  return paise > 0
+    ? `${words} and ${numberToIndianWords(paise)} Paise Only`
+    : `${words} Only`;
+}
+
+// UPI deep link understood by Indian payment apps when scanned as a QR code
+export function buildUpiPaymentUri(params: {
+  vpa: string;
+  payeeName: string;
+  amount: number;
+  invoiceNumber: string;
+}): string {
+  const query = new URLSearchParams({
+    pa: params.vpa,
+    pn: params.payeeName,
+    am: params.amount.toFixed(2),
+    cu: "INR",
+    tn: `Invoice ${params.invoiceNumber}`,
+  });
+  // UPI apps expect %20 rather than "+" for spaces and a literal "@" in the VPA
+  return `upi://pay?${query
+    .toString()
+    .replace(/\+/g, "%20")
+    .replace(/%40/g, "@")}`;
+}
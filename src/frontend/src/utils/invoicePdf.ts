@@ -0,0 +1,841 @@
+// Text-based, paginated PDF rendering for invoices, credit notes and other
+// sales documents. Uses the bundled jsPDF build so documents can be generated
+// without network access.
+
+import { jsPDF } from "jspdf";
+import type {
+  CompanySettings,
+  CreditNote,
+  Customer,
+  Dispatch,
+  Invoice,
+  OrderRecord,
+  Product,
+  Quotation,
+} from "../backend";
+import {
+  getCompanyContactLine,
+  getCompanyName,
+  getCompanyTaxIdLine,
+  getDocumentColors,
+} from "./companyBranding";
+import { getStateLabel } from "./gst";
+import {
+  INVOICE_STATUS_LABELS,
+  type InvoiceLineItem,
+  amountInWords,
+  buildHsnSummary,
+  buildLineItems,
+  calculateTotals,
+  formatDate,
+  getBalanceDue,
+} from "./invoiceDocument";
+
+const PAGE_MARGIN = 15;
+const HEADER_HEIGHT = 42;
+const FOOTER_HEIGHT = 18;
+const TABLE_HEADER_HEIGHT = 8;
+const CARRY_ROW_HEIGHT = 7;
+const LINE_HEIGHT = 4.5;
+
+interface PdfColumn {
+  header: string;
+  width: number;
+  align?: "left" | "right";
+}
+
+interface PdfRow {
+  cells: string[];
+  amount: number;
+}
+
+export interface PdfBranding {
+  settings: CompanySettings | null;
+  logo: HTMLImageElement | null;
+}
+
+interface PdfDocumentSpec {
+  title: string;
+  meta: string[];
+  partyTitle: string;
+  partyLines: string[];
+  columns: PdfColumn[];
+  rows: PdfRow[];
+  drawSummary: (writer: PdfWriter) => void;
+}
+
+interface PdfWriter {
+  pdf: jsPDF;
+  y: number;
+  colors: ReturnType<typeof getDocumentColors>;
+  pageWidth: number;
+  contentWidth: number;
+  ensureSpace: (height: number) => void;
+}
+
+// The built-in PDF fonts have no rupee glyph, so amounts use "Rs."
+export function formatPdfAmount(amount: bigint | number): string {
+  const value = typeof amount === "bigint" ? Number(amount) : amount;
+  return `Rs. ${value.toLocaleString("en-IN", { maximumFractionDigits: 2 })}`;
+}
+
+function renderPdfDocument(
+  spec: PdfDocumentSpec,
+  branding: PdfBranding,
+): jsPDF {
+  const { settings, logo } = branding;
+  const pdf = new jsPDF({ orientation: "portrait", unit: "mm", format: "a4" });
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - 2 * PAGE_MARGIN;
+  const contentBottom = pageHeight - FOOTER_HEIGHT;
+  const colors = getDocumentColors(settings);
+
+  // Company block, document title and reference numbers; repeated on every page
+  const drawPageHeader = () => {
+    pdf.setFillColor(colors.accent);
+    pdf.rect(0, 0, pageWidth, HEADER_HEIGHT, "F");
+
+    let leftY = 12;
+    if (logo) {
+      const logoHeight = 14;
+      const logoWidth = Math.min(
+        50,
+        (logoHeight * logo.naturalWidth) / Math.max(logo.naturalHeight, 1),
+      );
+      pdf.addImage(logo, "PNG", PAGE_MARGIN, 6, logoWidth, logoHeight);
+      leftY = 25;
+    } else {
+      pdf.setTextColor(colors.primary);
+      pdf.setFont("helvetica", "bold");
+      pdf.setFontSize(16);
+      pdf.text(getCompanyName(settings).toUpperCase(), PAGE_MARGIN, leftY);
+      leftY += 5;
+      if (settings?.tagline) {
+        pdf.setTextColor(colors.gray);
+        pdf.setFont("helvetica", "normal");
+        pdf.setFontSize(9);
+        pdf.text(settings.tagline, PAGE_MARGIN, leftY);
+        leftY += 5;
+      }
+      leftY += 3;
+    }
+
+    pdf.setTextColor(colors.gray);
+    pdf.setFont("helvetica", "normal");
+    pdf.setFontSize(8);
+    const taxIdLine = getCompanyTaxIdLine(settings);
+    if (taxIdLine) {
+      pdf.text(taxIdLine, PAGE_MARGIN, leftY);
+      leftY += 4;
+    }
+    if (settings?.address) {
+      const stateSuffix = settings.stateCode
+        ? `, ${getStateLabel(settings.stateCode)}`
+        : "";
+      const addressLines: string[] = pdf.splitTextToSize(
+        `${settings.address}${stateSuffix}`,
+        contentWidth / 2,
+      );
+      pdf.text(addressLines.slice(0, 2), PAGE_MARGIN, leftY);
+    }
+
+    const rightX = pageWidth - PAGE_MARGIN;
+    pdf.setTextColor(colors.black);
+    pdf.setFont("helvetica", "bold");
+    pdf.setFontSize(18);
+    pdf.text(spec.title, rightX, 14, { align: "right" });
+    pdf.setTextColor(colors.gray);
+    pdf.setFont("helvetica", "normal");
+    pdf.setFontSize(9);
+    spec.meta.forEach((line, index) => {
+      pdf.text(line, rightX, 21 + index * 4.5, { align: "right" });
+    });
+  };
+
+  const drawTableHeader = (y: number) => {
+    pdf.setFillColor(colors.primary);
+    pdf.rect(PAGE_MARGIN, y, contentWidth, TABLE_HEADER_HEIGHT, "F");
+    pdf.setTextColor(colors.white);
+    pdf.setFont("helvetica", "bold");
+    pdf.setFontSize(9);
+    let x = PAGE_MARGIN;
+    for (const column of spec.columns) {
+      const textX = column.align === "right" ? x + column.width - 2 : x + 2;
+      pdf.text(column.header, textX, y + 5.5, {
+        align: column.align ?? "left",
+      });
+      x += column.width;
+    }
+    return y + TABLE_HEADER_HEIGHT;
+  };
+
+  const drawCarryRow = (label: string, amount: number, y: number) => {
+    pdf.setFillColor(colors.accent);
+    pdf.rect(PAGE_MARGIN, y, contentWidth, CARRY_ROW_HEIGHT, "F");
+    pdf.setTextColor(colors.black);
+    pdf.setFont("helvetica", "bold");
+    pdf.setFontSize(9);
+    pdf.text(label, PAGE_MARGIN + 2, y + 4.8);
+    pdf.text(formatPdfAmount(amount), PAGE_MARGIN + contentWidth - 2, y + 4.8, {
+      align: "right",
+    });
+    return y + CARRY_ROW_HEIGHT;
+  };
+
+  const startNewPage = () => {
+    pdf.addPage();
+    drawPageHeader();
+    return HEADER_HEIGHT + 6;
+  };
+
+  // First page: header, party details and table header
+  drawPageHeader();
+  let y = HEADER_HEIGHT + 8;
+  pdf.setTextColor(colors.black);
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(10);
+  pdf.text(spec.partyTitle, PAGE_MARGIN, y);
+  pdf.setTextColor(colors.gray);
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(9);
+  for (const line of spec.partyLines) {
+    y += 4.5;
+    pdf.text(line, PAGE_MARGIN, y);
+  }
+  y = drawTableHeader(y + 6);
+
+  // Line items, carrying the running subtotal across page breaks
+  let runningTotal = 0;
+  spec.rows.forEach((row, rowIndex) => {
+    pdf.setFont("helvetica", "normal");
+    pdf.setFontSize(9);
+    const wrapped = row.cells.map(
+      (cell, index): string[] =>
+        pdf.splitTextToSize(cell, spec.columns[index].width - 4) as string[],
+    );
+    const rowHeight =
+      Math.max(...wrapped.map((lines) => lines.length)) * LINE_HEIGHT + 3;
+
+    if (y + rowHeight > contentBottom - CARRY_ROW_HEIGHT) {
+      drawCarryRow("Carried forward", runningTotal, y);
+      y = drawTableHeader(startNewPage());
+      y = drawCarryRow("Brought forward", runningTotal, y);
+    }
+
+    if (rowIndex % 2 === 0) {
+      pdf.setFillColor(colors.tableRowBg);
+      pdf.rect(PAGE_MARGIN, y, contentWidth, rowHeight, "F");
+    }
+    pdf.setTextColor(colors.black);
+    pdf.setFont("helvetica", "normal");
+    pdf.setFontSize(9);
+    let x = PAGE_MARGIN;
+    wrapped.forEach((lines, index) => {
+      const column = spec.columns[index];
+      const textX = column.align === "right" ? x + column.width - 2 : x + 2;
+      pdf.text(lines, textX, y + 5, { align: column.align ?? "left" });
+      x += column.width;
+    });
+    y += rowHeight;
+    runningTotal += row.amount;
+  });
+
+  const writer: PdfWriter = {
+    pdf,
+    y: y + 6,
+    colors,
+    pageWidth,
+    contentWidth,
+    ensureSpace: (height: number) => {
+      if (writer.y + height > contentBottom) {
+        writer.y = startNewPage();
+      }
+    },
+  };
+  spec.drawSummary(writer);
+
+  // Footers go on last, once the page count is known
+  const pageCount = pdf.getNumberOfPages();
+  const contactLine = getCompanyContactLine(settings);
+  for (let page = 1; page <= pageCount; page++) {
+    pdf.setPage(page);
+    pdf.setDrawColor(colors.gray);
+    pdf.setLineWidth(0.2);
+    pdf.line(0, pageHeight - 14, pageWidth, pageHeight - 14);
+    pdf.setTextColor(colors.gray);
+    pdf.setFont("helvetica", "normal");
+    pdf.setFontSize(8);
+    pdf.text(contactLine, pageWidth / 2, pageHeight - 8, { align: "center" });
+    pdf.text(
+      `Page ${page} of ${pageCount}`,
+      pageWidth - PAGE_MARGIN,
+      pageHeight - 8,
+      { align: "right" },
+    );
+  }
+
+  return pdf;
+}
+
+// Label/amount rows right-aligned under the table, ending in a highlighted total
+function drawTotals(
+  writer: PdfWriter,
+  rows: [string, number][],
+  totalLabel: string,
+  total: number,
+) {
+  const { pdf, colors, pageWidth } = writer;
+  writer.ensureSpace(rows.length * 6 + 12);
+  const labelX = pageWidth - PAGE_MARGIN - 70;
+  const valueX = pageWidth - PAGE_MARGIN - 2;
+
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(9);
+  for (const [label, amount] of rows) {
+    pdf.setTextColor(colors.gray);
+    pdf.text(label, labelX, writer.y);
+    pdf.setTextColor(colors.black);
+    pdf.text(formatPdfAmount(amount), valueX, writer.y, { align: "right" });
+    writer.y += 6;
+  }
+
+  pdf.setFillColor(colors.primary);
+  pdf.rect(labelX - 3, writer.y - 4, 73, 9, "F");
+  pdf.setTextColor(colors.white);
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(11);
+  pdf.text(totalLabel, labelX, writer.y + 2);
+  pdf.text(formatPdfAmount(total), valueX, writer.y + 2, { align: "right" });
+  writer.y += 14;
+}
+
+function drawTextBlock(writer: PdfWriter, title: string, lines: string[]) {
+  if (lines.length === 0) return;
+  const { pdf, colors, contentWidth } = writer;
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(8.5);
+  const wrapped = lines.flatMap(
+    (line): string[] =>
+      pdf.splitTextToSize(line, contentWidth * 0.6) as string[],
+  );
+  writer.ensureSpace(6 + wrapped.length * 4);
+
+  pdf.setTextColor(colors.black);
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(9.5);
+  pdf.text(title, PAGE_MARGIN, writer.y);
+  pdf.setTextColor(colors.gray);
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(8.5);
+  pdf.text(wrapped, PAGE_MARGIN, writer.y + 5);
+  writer.y += 8 + wrapped.length * 4;
+}
+
+const LINE_ITEM_COLUMNS: PdfColumn[] = [
+  { header: "Sr.", width: 10 },
+  { header: "Description", width: 58 },
+  { header: "HSN", width: 18 },
+  { header: "Qty", width: 14, align: "right" },
+  { header: "Rate", width: 22, align: "right" },
+  { header: "Discount", width: 18, align: "right" },
+  { header: "GST", width: 14, align: "right" },
+  { header: "Amount", width: 26, align: "right" },
+];
+
+function lineItemRows(lineItems: InvoiceLineItem[]): PdfRow[] {
+  return lineItems.map((item) => ({
+    cells: [
+      item.srNo.toString(),
+      item.description,
+      item.hsnCode || "-",
+      item.quantity.toString(),
+      formatPdfAmount(item.unitPrice),
+      formatPdfAmount(item.discount),
+      `${item.taxRate}%`,
+      formatPdfAmount(item.total),
+    ],
+    amount: item.total,
+  }));
+}
+
+function gstTotalRows(
+  interState: boolean,
+  totals: ReturnType<typeof calculateTotals>,
+): [string, number][] {
+  return interState
+    ? [["IGST", totals.igst]]
+    : [
+        ["CGST", totals.cgst],
+        ["SGST", totals.sgst],
+      ];
+}
+
+export function buildInvoicePdf(
+  invoice: Invoice,
+  customer: Customer,
+  products: Product[],
+  branding: PdfBranding,
+  signature: HTMLImageElement | null,
+  upiQr: HTMLImageElement | null = null,
+): jsPDF {
+  const { settings } = branding;
+  const lineItems = buildLineItems(invoice, products);
+  const totals = calculateTotals(lineItems, invoice);
+
+  const meta = [
+    `Invoice No: ${invoice.invoiceNumber}`,
+    `Invoice Date: ${formatDate(invoice.created)}`,
+  ];
+  if (invoice.dueDate) {
+    meta.push(`Due Date: ${formatDate(invoice.dueDate)}`);
+  }
+
+  return renderPdfDocument(
+    {
+      title: "TAX INVOICE",
+      meta,
+      partyTitle: "BILL TO:",
+      partyLines: [
+        customer.name,
+        customer.address,
+        customer.phone,
+        `Place of Supply: ${getStateLabel(invoice.placeOfSupply)}`,
+      ].filter((line) => line.trim() !== ""),
+      columns: LINE_ITEM_COLUMNS,
+      rows: lineItemRows(lineItems),
+      drawSummary: (writer) => {
+        drawTotals(
+          writer,
+          [
+            ["Subtotal", totals.subtotal],
+            ...gstTotalRows(invoice.interState, totals),
+          ],
+          "Grand Total",
+          totals.grandTotal,
+        );
+
+        drawTextBlock(writer, "Amount in Words", [
+          amountInWords(totals.grandTotal),
+        ]);
+
+        drawHsnSummary(writer, invoice);
+
+        const bank = settings?.bankDetails;
+        if (bank?.accountNumber) {
+          drawTextBlock(
+            writer,
+            "Bank Details",
+            [
+              [bank.bankName, bank.branch].filter(Boolean).join(", "),
+              bank.accountName && `A/c Name: ${bank.accountName}`,
+              `A/c No: ${bank.accountNumber}`,
+              bank.ifsc && `IFSC: ${bank.ifsc}`,
+            ].filter(Boolean),
+          );
+        }
+
+        if (upiQr && settings?.upiId) {
+          drawUpiQr(writer, upiQr, settings.upiId, getBalanceDue(invoice));
+        }
+
+        drawTextBlock(
+          writer,
+          "Terms & Conditions",
+          (settings?.invoiceFooterTerms ?? "")
+            .split("\n")
+            .filter((line) => line.trim() !== ""),
+        );
+
+        drawSignature(writer, getCompanyName(settings), signature);
+      },
+    },
+    branding,
+  );
+}
+
+export function formatQuotationNumber(quotationId: bigint): string {
+  return `QT-${quotationId.toString().padStart(4, "0")}`;
+}
+
+// Quotations use the invoice layout, with validity in place of the due date
+export function buildQuotationPdf(
+  quotation: Quotation,
+  customer: Customer,
+  products: Product[],
+  branding: PdfBranding,
+): jsPDF {
+  const { settings } = branding;
+  const lineItems = buildLineItems(quotation, products);
+  const totals = calculateTotals(lineItems, quotation);
+
+  return renderPdfDocument(
+    {
+      title: "QUOTATION",
+      meta: [
+        `Quotation No: ${formatQuotationNumber(quotation.quotationId)}`,
+        `Date: ${formatDate(quotation.created)}`,
+        `Valid Until: ${formatDate(quotation.validUntil)}`,
+      ],
+      partyTitle: "QUOTED TO:",
+      partyLines: [
+        customer.name,
+        customer.address,
+        customer.phone,
+        `Place of Supply: ${getStateLabel(quotation.placeOfSupply)}`,
+      ].filter((line) => line.trim() !== ""),
+      columns: LINE_ITEM_COLUMNS,
+      rows: lineItemRows(lineItems),
+      drawSummary: (writer) => {
+        drawTotals(
+          writer,
+          [
+            ["Subtotal", totals.subtotal],
+            ...gstTotalRows(quotation.interState, totals),
+          ],
+          "Quoted Total",
+          totals.grandTotal,
+        );
+
+        drawTextBlock(writer, "Amount in Words", [
+          amountInWords(totals.grandTotal),
+        ]);
+
+        drawHsnSummary(writer, quotation);
+
+        if (quotation.notes) {
+          drawTextBlock(writer, "Notes", quotation.notes.split("\n"));
+        }
+
+        drawTextBlock(
+          writer,
+          "Terms & Conditions",
+          (settings?.invoiceFooterTerms ?? "")
+            .split("\n")
+            .filter((line) => line.trim() !== ""),
+        );
+
+        drawSignature(writer, getCompanyName(settings), null);
+      },
+    },
+    branding,
+  );
+}
+
+function drawHsnSummary(
+  writer: PdfWriter,
+  invoice: Pick<Invoice, "lines" | "interState">,
+) {
+  const { pdf, colors, contentWidth } = writer;
+  const headers = invoice.interState
+    ? ["HSN", "Taxable Value", "Rate", "IGST", "Total Tax"]
+    : ["HSN", "Taxable Value", "Rate", "CGST", "SGST", "Total Tax"];
+  const columnWidth = contentWidth / headers.length;
+  const rows = buildHsnSummary(invoice);
+
+  writer.ensureSpace(7 + 6 * Math.min(rows.length, 3));
+  pdf.setFillColor(colors.accent);
+  pdf.rect(PAGE_MARGIN, writer.y, contentWidth, 7, "F");
+  pdf.setTextColor(colors.black);
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(8.5);
+  headers.forEach((header, index) => {
+    pdf.text(header, PAGE_MARGIN + 2 + index * columnWidth, writer.y + 4.8);
+  });
+  writer.y += 7;
+
+  pdf.setFont("helvetica", "normal");
+  for (const row of rows) {
+    writer.ensureSpace(6);
+    const cells = invoice.interState
+      ? [
+          row.hsnCode,
+          formatPdfAmount(row.taxableValue),
+          `${row.taxRate}%`,
+          formatPdfAmount(row.igst),
+          formatPdfAmount(row.totalTax),
+        ]
+      : [
+          row.hsnCode,
+          formatPdfAmount(row.taxableValue),
+          `${row.taxRate}%`,
+          formatPdfAmount(row.cgst),
+          formatPdfAmount(row.sgst),
+          formatPdfAmount(row.totalTax),
+        ];
+    pdf.setTextColor(colors.black);
+    cells.forEach((cell, index) => {
+      pdf.text(cell, PAGE_MARGIN + 2 + index * columnWidth, writer.y + 4.5);
+    });
+    writer.y += 6;
+  }
+  writer.y += 6;
+}
+
+function drawUpiQr(
+  writer: PdfWriter,
+  qr: HTMLImageElement,
+  upiId: string,
+  balanceDue: number,
+) {
+  const { pdf, colors } = writer;
+  const size = 30;
+  writer.ensureSpace(size + 6);
+
+  pdf.addImage(qr, "PNG", PAGE_MARGIN, writer.y - 3, size, size);
+  const textX = PAGE_MARGIN + size + 4;
+  pdf.setTextColor(colors.black);
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(9.5);
+  pdf.text("Scan to pay via UPI", textX, writer.y + 4);
+  pdf.setTextColor(colors.gray);
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(8.5);
+  pdf.text(`UPI ID: ${upiId}`, textX, writer.y + 9);
+  pdf.text(`Balance Due: ${formatPdfAmount(balanceDue)}`, textX, writer.y + 13);
+  writer.y += size + 4;
+}
+
+function drawSignature(
+  writer: PdfWriter,
+  companyName: string,
+  signature: HTMLImageElement | null,
+) {
+  const { pdf, colors, pageWidth } = writer;
+  writer.ensureSpace(30);
+  const rightX = pageWidth - PAGE_MARGIN;
+
+  pdf.setTextColor(colors.black);
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(9);
+  pdf.text(`For ${companyName}`, rightX, writer.y, { align: "right" });
+  if (signature) {
+    pdf.addImage(signature, "PNG", rightX - 45, writer.y + 2, 40, 10);
+  }
+  pdf.setDrawColor(colors.gray);
+  pdf.setLineWidth(0.2);
+  pdf.line(rightX - 55, writer.y + 15, rightX, writer.y + 15);
+  pdf.setFont("helvetica", "normal");
+  pdf.text("Authorized Signatory", rightX, writer.y + 20, { align: "right" });
+  writer.y += 26;
+}
+
+export function buildCreditNotePdf(
+  creditNote: CreditNote,
+  customer: Customer,
+  products: Product[],
+  branding: PdfBranding,
+): jsPDF {
+  const sumOf = (key: "taxableValue" | "cgst" | "sgst" | "igst") =>
+    creditNote.lines.reduce((sum, line) => sum + Number(line[key]), 0);
+  const taxRows: [string, number][] = creditNote.interState
+    ? [["IGST", sumOf("igst")]]
+    : [
+        ["CGST", sumOf("cgst")],
+        ["SGST", sumOf("sgst")],
+      ];
+
+  return renderPdfDocument(
+    {
+      title: "CREDIT NOTE",
+      meta: [
+        `Credit Note No: ${creditNote.creditNoteNumber}`,
+        `Date: ${formatDate(creditNote.created)}`,
+        `Against Invoice: ${creditNote.invoiceNumber}`,
+      ],
+      partyTitle: "CREDITED TO:",
+      partyLines: [customer.name, customer.address, customer.phone].filter(
+        (line) => line.trim() !== "",
+      ),
+      columns: [
+        { header: "Sr.", width: 10 },
+        { header: "Description", width: 66 },
+        { header: "HSN", width: 20 },
+        { header: "Qty", width: 14, align: "right" },
+        { header: "Rate", width: 24, align: "right" },
+        { header: "Condition", width: 22 },
+        { header: "Amount", width: 24, align: "right" },
+      ],
+      rows: creditNote.lines.map((line, index) => ({
+        cells: [
+          (index + 1).toString(),
+          products.find((p) => p.productId === line.productId)?.name ||
+            "Unknown Product",
+          line.hsnCode || "-",
+          line.quantity.toString(),
+          formatPdfAmount(line.unitPrice),
+          line.damaged ? "Damaged" : "Restocked",
+          formatPdfAmount(line.taxableValue),
+        ],
+        amount: Number(line.taxableValue),
+      })),
+      drawSummary: (writer) => {
+        drawTotals(
+          writer,
+          [["Taxable Value", sumOf("taxableValue")], ...taxRows],
+          "Total Credit",
+          Number(creditNote.total),
+        );
+        if (creditNote.reason) {
+          drawTextBlock(writer, "Reason", [creditNote.reason]);
+        }
+        drawSignature(writer, getCompanyName(branding.settings), null);
+      },
+    },
+    branding,
+  );
+}
+
+// Delivery challan for goods leaving against an order, ahead of the invoice
+export function buildChallanPdf(
+  dispatch: Dispatch,
+  order: OrderRecord,
+  customer: Customer,
+  products: Product[],
+  branding: PdfBranding,
+): jsPDF {
+  const getProduct = (productId: bigint) =>
+    products.find((p) => p.productId === productId);
+  const totalQuantity = order.lines.reduce(
+    (sum, line) => sum + Number(line.quantity),
+    0,
+  );
+  const totalValue = order.lines.reduce(
+    (sum, line) => sum + Number(line.quantity * line.unitPrice),
+    0,
+  );
+
+  return renderPdfDocument(
+    {
+      title: "DELIVERY CHALLAN",
+      meta: [
+        `Challan No: ${dispatch.challanNumber}`,
+        `Date: ${formatDate(dispatch.dispatchDate)}`,
+        `Order No: #${order.id}`,
+      ],
+      partyTitle: "CONSIGNEE:",
+      partyLines: [
+        customer.name,
+        customer.address,
+        customer.phone,
+        customer.state ? `State: ${getStateLabel(customer.state)}` : "",
+      ].filter((line) => line.trim() !== ""),
+      columns: [
+        { header: "Sr.", width: 10 },
+        { header: "Description", width: 78 },
+        { header: "HSN", width: 22 },
+        { header: "Qty", width: 20, align: "right" },
+        { header: "Rate", width: 25, align: "right" },
+        { header: "Value", width: 25, align: "right" },
+      ],
+      rows: order.lines.map((line, index) => {
+        const product = getProduct(line.productId);
+        const value = Number(line.quantity * line.unitPrice);
+        return {
+          cells: [
+            (index + 1).toString(),
+            product?.name || "Unknown Product",
+            product?.hsnCode || "-",
+            line.quantity.toString(),
+            formatPdfAmount(line.unitPrice),
+            formatPdfAmount(value),
+          ],
+          amount: value,
+        };
+      }),
+      drawSummary: (writer) => {
+        drawTotals(writer, [], "Value of Goods", totalValue);
+
+        drawTextBlock(
+          writer,
+          "Dispatch Details",
+          [
+            `Total Quantity: ${totalQuantity} pcs`,
+            `Transporter: ${dispatch.transporterName || "-"}`,
+            `LR / Docket No: ${dispatch.lrNumber || "-"}`,
+            `Vehicle No: ${dispatch.vehicleNumber || "-"}`,
+            `Bales / Cartons: ${dispatch.packageCount}`,
+            dispatch.deliveryDate !== undefined
+              ? `Delivered On: ${formatDate(dispatch.deliveryDate)}`
+              : "",
+          ].filter((line) => line !== ""),
+        );
+
+        drawTextBlock(writer, "Note", [
+          "Goods are sent for delivery only. This challan is not a tax invoice.",
+          "Received the above goods in good condition. Receiver's signature: ____________________",
+        ]);
+
+        drawSignature(writer, getCompanyName(branding.settings), null);
+      },
+    },
+    branding,
+  );
+}
+
+// Register of the invoices currently listed in Invoice History; the filter
+// lines describe how the list was narrowed down.
+export function buildInvoiceRegisterPdf(
+  invoices: Invoice[],
+  customers: Customer[],
+  filterLines: string[],
+  branding: PdfBranding,
+): jsPDF {
+  const sumOf = (value: (invoice: Invoice) => number) =>
+    invoices.reduce((sum, invoice) => sum + value(invoice), 0);
+
+  return renderPdfDocument(
+    {
+      title: "INVOICE REGISTER",
+      meta: [
+        `Generated: ${new Date().toLocaleDateString("en-IN", {
+          day: "2-digit",
+          month: "short",
+          year: "numeric",
+        })}`,
+        `Invoices: ${invoices.length}`,
+      ],
+      partyTitle: "FILTERS:",
+      partyLines: filterLines,
+      columns: [
+        { header: "Invoice No.", width: 28 },
+        { header: "Date", width: 19 },
+        { header: "Customer", width: 33 },
+        { header: "Tax", width: 18, align: "right" },
+        { header: "Total", width: 24, align: "right" },
+        { header: "Paid", width: 22, align: "right" },
+        { header: "Balance", width: 22, align: "right" },
+        { header: "Status", width: 14 },
+      ],
+      rows: invoices.map((invoice) => ({
+        cells: [
+          invoice.invoiceNumber,
+          formatDate(invoice.created),
+          customers.find((c) => c.id === invoice.customerId)?.name ||
+            "Unknown Customer",
+          formatPdfAmount(invoice.tax),
+          formatPdfAmount(invoice.total),
+          formatPdfAmount(invoice.amountPaid),
+          formatPdfAmount(getBalanceDue(invoice)),
+          INVOICE_STATUS_LABELS[invoice.status],
+        ],
+        amount: Number(invoice.total),
+      })),
+      drawSummary: (writer) => {
+        drawTotals(
+          writer,
+          [
+            ["Taxable Value", sumOf((i) => Number(i.total) - Number(i.tax))],
+            ["Tax", sumOf((i) => Number(i.tax))],
+            ["Amount Paid", sumOf((i) => Number(i.amountPaid))],
+            ["Credited", sumOf((i) => Number(i.creditedAmount))],
+            ["Balance Due", sumOf(getBalanceDue)],
+          ],
+          "Total Invoiced",
+          sumOf((i) => Number(i.total)),
+        );
+      },
+    },
+    branding,
+  );
+}
@@ -0,0 +1,280 @@
+// Excel (.xlsx) export of the invoice register, with typed date and currency
+// cells, a totals row per sheet and a second sheet listing every line item.
+
+import ExcelJS from "exceljs";
+import type { CompanySettings, Customer, Invoice, Product } from "../backend";
+import { getDocumentColors } from "./companyBranding";
+import { getStateLabel } from "./gst";
+import { INVOICE_STATUS_LABELS, getBalanceDue } from "./invoiceDocument";
+
+const DATE_FORMAT = "dd-mmm-yyyy";
+const CURRENCY_FORMAT = '"₹"#,##0.00';
+
+interface WorkbookColumn {
+  header: string;
+  key: string;
+  width: number;
+  numFmt?: string;
+  // Columns summed in the totals row
+  total?: boolean;
+}
+
+export interface InvoiceWorkbookInput {
+  invoices: Invoice[];
+  customers: Customer[];
+  products: Product[];
+  settings: CompanySettings | null;
+}
+
+// Excel dates carry no time zone, so the invoice's local calendar date is
+// written as UTC midnight to keep late-evening invoices on the right day.
+function toExcelDate(timestamp: bigint): Date {
+  const local = new Date(Number(timestamp) / 1000000);
+  return new Date(
+    Date.UTC(local.getFullYear(), local.getMonth(), local.getDate()),
+  );
+}
+
+function addRegisterSheet(
+  workbook: ExcelJS.Workbook,
+  name: string,
+  columns: WorkbookColumn[],
+  rows: Record<string, unknown>[],
+  headerColor: string,
+) {
+  const sheet = workbook.addWorksheet(name, {
+    views: [{ state: "frozen", ySplit: 1 }],
+  });
+  sheet.columns = columns.map((column) => ({
+    header: column.header,
+    key: column.key,
+    width: column.width,
+    style: column.numFmt ? { numFmt: column.numFmt } : {},
+  }));
+
+  const header = sheet.getRow(1);
+  header.font = { bold: true, color: { argb: "FFFFFFFF" } };
+  header.fill = {
+    type: "pattern",
+    pattern: "solid",
+    fgColor: { argb: `FF${headerColor.replace("#", "").toUpperCase()}` },
+  };
+
+  sheet.addRows(rows);
+  sheet.autoFilter = {
+    from: { row: 1, column: 1 },
+    to: { row: 1, column: columns.length },
+  };
+
+  // Totals use formulas so they stay correct if rows are edited in Excel
+  const lastDataRow = rows.length + 1;
+  const totals = sheet.addRow({ [columns[0].key]: "Total" });
+  totals.font = { bold: true };
+  columns.forEach((column, index) => {
+    if (!column.total) return;
+    const letter = sheet.getColumn(index + 1).letter;
+    const result = rows.reduce(
+      (sum, row) => sum + Number(row[column.key] ?? 0),
+      0,
+    );
+    totals.getCell(index + 1).value =
+      rows.length > 0
+        ? { formula: `SUM(${letter}2:${letter}${lastDataRow})`, result }
+        : 0;
+  });
+  totals.border = { top: { style: "thin" } };
+}
+
+export async function buildInvoiceWorkbook({
+  invoices,
+  customers,
+  products,
+  settings,
+}: InvoiceWorkbookInput): Promise<Blob> {
+  const customerName = (customerId: bigint) =>
+    customers.find((c) => c.id === customerId)?.name || "Unknown Customer";
+  const productName = (productId: bigint) =>
+    products.find((p) => p.productId === productId)?.name || "Unknown Product";
+
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = settings?.legalName || "Sahil Garments";
+  workbook.created = new Date();
+  const { primary } = getDocumentColors(settings);
+
+  addRegisterSheet(
+    workbook,
+    "Invoices",
+    [
+      { header: "Invoice No.", key: "invoiceNumber", width: 18 },
+      {
+        header: "Invoice Date",
+        key: "invoiceDate",
+        width: 14,
+        numFmt: DATE_FORMAT,
+      },
+      { header: "Due Date", key: "dueDate", width: 14, numFmt: DATE_FORMAT },
+      { header: "Customer", key: "customer", width: 28 },
+      { header: "Place of Supply", key: "placeOfSupply", width: 22 },
+      {
+        header: "Taxable Value",
+        key: "taxableValue",
+        width: 16,
+        numFmt: CURRENCY_FORMAT,
+        total: true,
+      },
+      {
+        header: "CGST",
+        key: "cgst",
+        width: 13,
+        numFmt: CURRENCY_FORMAT,
+        total: true,
+      },
+      {
+        header: "SGST",
+        key: "sgst",
+        width: 13,
+        numFmt: CURRENCY_FORMAT,
+        total: true,
+      },
+      {
+        header: "IGST",
+        key: "igst",
+        width: 13,
+        numFmt: CURRENCY_FORMAT,
+        total: true,
+      },
+      {
+        header: "Invoice Total",
+        key: "total",
+        width: 16,
+        numFmt: CURRENCY_FORMAT,
+        total: true,
+      },
+      {
+        header: "Amount Paid",
+        key: "amountPaid",
+        width: 15,
+        numFmt: CURRENCY_FORMAT,
+        total: true,
+      },
+      {
+        header: "Credited",
+        key: "credited",
+        width: 13,
+        numFmt: CURRENCY_FORMAT,
+        total: true,
+      },
+      {
+        header: "Balance Due",
+        key: "balanceDue",
+        width: 15,
+        numFmt: CURRENCY_FORMAT,
+        total: true,
+      },
+      { header: "Status", key: "status", width: 15 },
+    ],
+    invoices.map((inv) => ({
+      invoiceNumber: inv.invoiceNumber,
+      invoiceDate: toExcelDate(inv.created),
+      dueDate: inv.dueDate ? toExcelDate(inv.dueDate) : null,
+      customer: customerName(inv.customerId),
+      placeOfSupply: getStateLabel(inv.placeOfSupply),
+      taxableValue: Number(inv.total) - Number(inv.tax),
+      cgst: inv.lines.reduce((sum, line) => sum + Number(line.cgst), 0),
+      sgst: inv.lines.reduce((sum, line) => sum + Number(line.sgst), 0),
+      igst: inv.lines.reduce((sum, line) => sum + Number(line.igst), 0),
+      total: Number(inv.total),
+      amountPaid: Number(inv.amountPaid),
+      credited: Number(inv.creditedAmount),
+      balanceDue: getBalanceDue(inv),
+      status: INVOICE_STATUS_LABELS[inv.status],
+    })),
+    primary,
+  );
+
+  addRegisterSheet(
+    workbook,
+    "Line Items",
+    [
+      { header: "Invoice No.", key: "invoiceNumber", width: 18 },
+      {
+        header: "Invoice Date",
+        key: "invoiceDate",
+        width: 14,
+        numFmt: DATE_FORMAT,
+      },
+      { header: "Customer", key: "customer", width: 28 },
+      { header: "Product", key: "product", width: 28 },
+      { header: "HSN", key: "hsnCode", width: 10 },
+      {
+        header: "Quantity",
+        key: "quantity",
+        width: 10,
+        numFmt: "#,##0",
+        total: true,
+      },
+      {
+        header: "Unit Price",
+        key: "unitPrice",
+        width: 13,
+        numFmt: CURRENCY_FORMAT,
+      },
+      {
+        header: "Discount",
+        key: "discount",
+        width: 13,
+        numFmt: CURRENCY_FORMAT,
+        total: true,
+      },
+      {
+        header: "Taxable Value",
+        key: "taxableValue",
+        width: 16,
+        numFmt: CURRENCY_FORMAT,
+        total: true,
+      },
+      { header: "GST %", key: "taxRate", width: 8, numFmt: '0"%"' },
+      {
+        header: "Tax",
+        key: "tax",
+        width: 13,
+        numFmt: CURRENCY_FORMAT,
+        total: true,
+      },
+      {
+        header: "Line Total",
+        key: "lineTotal",
+        width: 15,
+        numFmt: CURRENCY_FORMAT,
+        total: true,
+      },
+    ],
+    invoices.flatMap((inv) =>
+      inv.lines.map((line) => {
+        const taxableValue =
+          Number(line.quantity) * Number(line.unitPrice) -
+          Number(line.discount);
+        return {
+          invoiceNumber: inv.invoiceNumber,
+          invoiceDate: toExcelDate(inv.created),
+          customer: customerName(inv.customerId),
+          product: productName(line.productId),
+          hsnCode: line.hsnCode || "-",
+          quantity: Number(line.quantity),
+          unitPrice: Number(line.unitPrice),
+          discount: Number(line.discount),
+          taxableValue,
+          taxRate: Number(line.taxRate),
+          tax: Number(line.tax),
+          lineTotal: taxableValue + Number(line.tax),
+        };
+      }),
+    ),
+    primary,
+  );
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new Blob([buffer], {
+    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  });
+}
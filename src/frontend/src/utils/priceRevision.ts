@@ -0,0 +1,81 @@
+import type { Product, ProductPriceRevision } from "../backend";
+
+export type PriceField = "price" | "wholesalePrice" | "mrp";
+
+export const PRICE_FIELD_LABELS: Record<PriceField, string> = {
+  price: "Retail Price",
+  wholesalePrice: "Wholesale Price",
+  mrp: "MRP",
+};
+
+export type PriceRounding = "none" | "9" | "99";
+
+export const PRICE_ROUNDING_LABELS: Record<PriceRounding, string> = {
+  none: "Nearest rupee",
+  "9": "End in ₹9",
+  "99": "End in ₹99",
+};
+
+/** A markdown or markup: a percentage or flat rupee amount, may be negative. */
+export interface PriceChange {
+  field: PriceField;
+  mode: "percent" | "flat";
+  amount: number;
+  rounding: PriceRounding;
+}
+
+export interface PriceRevisionPreview {
+  product: Product;
+  before: bigint;
+  after: bigint;
+  revision: ProductPriceRevision;
+  error?: string;
+}
+
+/** Rounds to the nearest price ending in 9 or 99, e.g. 1234 to 1239 or 1199. */
+export function roundPriceEnding(value: number, rounding: PriceRounding) {
+  if (rounding === "none") return Math.round(value);
+  const step = rounding === "9" ? 10 : 100;
+  return Math.max(step - 1, Math.round((value + 1) / step) * step - 1);
+}
+
+export function applyPriceChange(value: number, change: PriceChange): number {
+  const changed =
+    change.mode === "percent"
+      ? value * (1 + change.amount / 100)
+      : value + change.amount;
+  return changed <= 0 ? 0 : roundPriceEnding(changed, change.rounding);
+}
+
+/**
+ * New prices for each product. Wholesale and MRP prices of 0 mean "not set"
+ * and are left alone. Each revision carries only the changed price, so the
+ * backend keeps the product's other prices as currently stored.
+ */
+export function previewPriceRevision(
+  products: Product[],
+  change: PriceChange,
+): PriceRevisionPreview[] {
+  return products.map((product) => {
+    const before = product[change.field];
+    const after =
+      change.field !== "price" && before === BigInt(0)
+        ? before
+        : BigInt(applyPriceChange(Number(before), change));
+    const revision: ProductPriceRevision = {
+      productId: product.productId,
+      [change.field]: after,
+    };
+    const prices = { ...product, [change.field]: after };
+    const exceedsMrp =
+      prices.mrp > 0 &&
+      (prices.price > prices.mrp || prices.wholesalePrice > prices.mrp);
+    return {
+      product,
+      before,
+      after,
+      revision,
+      error: exceedsMrp ? "Selling price would exceed the MRP" : undefined,
+    };
+  });
+}
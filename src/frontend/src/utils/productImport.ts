@@ -0,0 +1,445 @@
+// Spreadsheet import of products: reading CSV and .xlsx files, mapping their
+// columns to product fields, validating rows for the preview and building the
+// downloadable error report.
+
+import ExcelJS from "exceljs";
+import type {
+  Product,
+  ProductCategory,
+  ProductImportRow,
+  TaxonomyTerm,
+} from "../backend";
+import { TaxonomyTermKind } from "../backend";
+import { DEFAULT_TAX_SLAB_ID, TAX_SLAB_PRESETS, getTaxSlabRule } from "./gst";
+import { categoryOptions } from "./taxonomy";
+import { parseGridValues } from "./variants";
+
+export type ImportField =
+  | "barcode"
+  | "name"
+  | "description"
+  | "price"
+  | "wholesalePrice"
+  | "mrp"
+  | "costPrice"
+  | "stockLevel"
+  | "size"
+  | "color"
+  | "warehouse"
+  | "rack"
+  | "shelf"
+  | "hsnCode"
+  | "gstSlab"
+  | "category"
+  | "brand"
+  | "season"
+  | "fabric"
+  | "tags";
+
+/** Target fields in template order, with the headers recognised for each. */
+export const IMPORT_FIELDS: {
+  field: ImportField;
+  label: string;
+  required?: boolean;
+  aliases: string[];
+}[] = [
+  {
+    field: "barcode",
+    label: "Barcode",
+    required: true,
+    aliases: ["barcode", "sku", "skucode"],
+  },
+  {
+    field: "name",
+    label: "Name",
+    required: true,
+    aliases: ["name", "productname", "product", "itemname"],
+  },
+  { field: "description", label: "Description", aliases: ["description"] },
+  {
+    field: "price",
+    label: "Retail Price",
+    required: true,
+    aliases: ["price", "retailprice", "retail", "sellingprice"],
+  },
+  {
+    field: "wholesalePrice",
+    label: "Wholesale Price",
+    aliases: ["wholesaleprice", "wholesale", "traderate"],
+  },
+  { field: "mrp", label: "MRP", aliases: ["mrp"] },
+  { field: "costPrice", label: "Cost Price", aliases: ["costprice", "cost"] },
+  {
+    field: "stockLevel",
+    label: "Stock",
+    aliases: ["stock", "stocklevel", "quantity", "qty", "openingstock"],
+  },
+  { field: "size", label: "Size", required: true, aliases: ["size"] },
+  { field: "color", label: "Colour", aliases: ["color", "colour"] },
+  { field: "warehouse", label: "Warehouse", aliases: ["warehouse"] },
+  { field: "rack", label: "Rack", aliases: ["rack"] },
+  { field: "shelf", label: "Shelf", aliases: ["shelf"] },
+  { field: "hsnCode", label: "HSN Code", aliases: ["hsn", "hsncode"] },
+  {
+    field: "gstSlab",
+    label: "GST Slab",
+    aliases: ["gst", "gstslab", "taxslab"],
+  },
+  { field: "category", label: "Category", aliases: ["category"] },
+  { field: "brand", label: "Brand", aliases: ["brand"] },
+  {
+    field: "season",
+    label: "Season",
+    aliases: ["season", "collection"],
+  },
+  { field: "fabric", label: "Fabric", aliases: ["fabric", "material"] },
+  { field: "tags", label: "Tags", aliases: ["tags"] },
+];
+
+export const IMPORT_CHUNK_SIZE = 50;
+
+/** Outcome of an import; rows of a failed chunk were not saved. */
+export interface ProductImportResult {
+  created: number;
+  updated: number;
+  failedChunks: { rows: ProductImportRow[]; error: string }[];
+}
+
+/** Column index per field; unmapped fields are absent. */
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export interface ImportSheet {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ImportPreviewRow {
+  // 1-based line in the file, counting the header row
+  rowNumber: number;
+  barcode: string;
+  name: string;
+  action: "create" | "update";
+  errors: string[];
+  input?: ProductImportRow;
+}
+
+const normalizeHeader = (header: string) =>
+  header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/** Splits CSV text into rows, honouring quoted fields and doubled quotes. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  const source = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+const toCsvCell = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export function toCsv(rows: string[][]): string {
+  return rows.map((row) => row.map(toCsvCell).join(",")).join("\r\n");
+}
+
+/** Reads the first sheet of a .xlsx file, or a CSV file, as rows of text. */
+export async function readImportFile(file: File): Promise<ImportSheet> {
+  let cells: string[][];
+  if (file.name.toLowerCase().endsWith(".xlsx")) {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(await file.arrayBuffer());
+    const worksheet = workbook.worksheets[0];
+    if (!worksheet) throw new Error("The workbook has no sheets");
+    cells = [];
+    worksheet.eachRow({ includeEmpty: true }, (row) => {
+      const values: string[] = [];
+      for (let col = 1; col <= worksheet.columnCount; col++) {
+        values.push(row.getCell(col).text ?? "");
+      }
+      cells.push(values);
+    });
+  } else {
+    cells = parseCsv(await file.text());
+  }
+
+  const trimmed = cells
+    .map((row) => row.map((cell) => cell.trim()))
+    .filter((row) => row.some((cell) => cell !== ""));
+  if (trimmed.length === 0) throw new Error("The file is empty");
+  const [headers, ...rows] = trimmed;
+  return { headers, rows };
+}
+
+/** Matches file headers to fields by name, e.g. "Colour" or "HSN Code". */
+export function detectColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: ColumnMapping = {};
+  for (const { field, aliases } of IMPORT_FIELDS) {
+    const index = normalized.findIndex((header) => aliases.includes(header));
+    if (index >= 0) mapping[field] = index;
+  }
+  return mapping;
+}
+
+export interface ImportContext {
+  products: Product[];
+  categories: ProductCategory[];
+  terms: TaxonomyTerm[];
+}
+
+// Prices and stock are whole numbers; blank cells are returned as null.
+function parseWholeNumber(
+  value: string,
+  label: string,
+  errors: string[],
+): bigint | null {
+  if (value === "") return null;
+  const cleaned = value.replace(/[₹,\s]/g, "");
+  if (!/^\d+(\.0+)?$/.test(cleaned)) {
+    errors.push(`${label} "${value}" is not a whole non-negative number`);
+    return null;
+  }
+  return BigInt(cleaned.split(".")[0]);
+}
+
+/**
+ * Validates every row against the catalogue and the taxonomy lists. Rows
+ * whose barcode matches a product update it; blank cells then keep the
+ * product's current value.
+ */
+export function buildImportPreview(
+  sheet: ImportSheet,
+  mapping: ColumnMapping,
+  { products, categories, terms }: ImportContext,
+): ImportPreviewRow[] {
+  const cell = (row: string[], field: ImportField) => {
+    const index = mapping[field];
+    return index === undefined ? "" : (row[index] ?? "").trim();
+  };
+
+  const barcodeRows = new Map<string, number[]>();
+  sheet.rows.forEach((row, index) => {
+    const barcode = cell(row, "barcode");
+    if (barcode) {
+      barcodeRows.set(barcode, [...(barcodeRows.get(barcode) ?? []), index]);
+    }
+  });
+
+  const categoryIds = new Map(
+    categoryOptions(categories).map((option) => [
+      option.path.toLowerCase(),
+      option.categoryId,
+    ]),
+  );
+  const termName = (kind: TaxonomyTermKind, value: string) =>
+    terms.find(
+      (term) =>
+        term.kind === kind && term.name.toLowerCase() === value.toLowerCase(),
+    )?.name;
+
+  return sheet.rows.map((row, index) => {
+    const rowNumber = index + 2;
+    const errors: string[] = [];
+    const barcode = cell(row, "barcode");
+    const matches = products.filter((p) => p.barcode === barcode);
+    const existing = matches.length === 1 ? matches[0] : undefined;
+
+    if (!barcode) {
+      errors.push("Barcode is missing");
+    } else {
+      const duplicates = (barcodeRows.get(barcode) ?? []).filter(
+        (other) => other !== index,
+      );
+      if (duplicates.length > 0) {
+        errors.push(
+          `Duplicate barcode, also on row ${duplicates.map((other) => other + 2).join(", ")}`,
+        );
+      }
+      if (matches.length > 1) {
+        errors.push("Barcode matches more than one existing product");
+      }
+      if (existing?.archived) {
+        errors.push("Barcode belongs to an archived product");
+      }
+    }
+
+    const text = (field: ImportField, current: string | undefined) =>
+      cell(row, field) || current || "";
+
+    const name = text("name", existing?.name);
+    if (!name) errors.push("Name is missing");
+    const size = text("size", existing?.size);
+    if (!size) errors.push("Size is missing");
+    const color = text("color", existing?.color);
+    if (
+      existing?.styleId !== undefined &&
+      (size !== existing.size || color !== existing.color)
+    ) {
+      errors.push("Size and colour of a style SKU cannot be changed");
+    }
+
+    const number = (
+      field: ImportField,
+      label: string,
+      current: bigint | undefined,
+    ) => parseWholeNumber(cell(row, field), label, errors) ?? current;
+
+    const price = number("price", "Retail price", existing?.price);
+    if (price === undefined && !cell(row, "price")) {
+      errors.push("Retail price is missing");
+    }
+    const wholesalePrice =
+      number("wholesalePrice", "Wholesale price", existing?.wholesalePrice) ??
+      BigInt(0);
+    const mrp = number("mrp", "MRP", existing?.mrp) ?? BigInt(0);
+    const costPrice =
+      number("costPrice", "Cost price", existing?.costPrice) ?? BigInt(0);
+    const stockLevel =
+      number("stockLevel", "Stock", existing?.stockLevel) ?? BigInt(0);
+
+    if (mrp > 0 && ((price ?? 0) > mrp || wholesalePrice > mrp)) {
+      errors.push("Selling prices cannot exceed the MRP");
+    }
+    if (existing && stockLevel < existing.reservedStock) {
+      errors.push(
+        `Stock cannot be below the ${existing.reservedStock} units reserved by open orders`,
+      );
+    }
+
+    let taxSlab = existing?.taxSlab ?? getTaxSlabRule(DEFAULT_TAX_SLAB_ID);
+    const gstSlab = cell(row, "gstSlab");
+    if (gstSlab) {
+      const preset = TAX_SLAB_PRESETS.find(
+        (p) =>
+          p.id.toLowerCase() === gstSlab.toLowerCase() ||
+          p.label.toLowerCase() === gstSlab.toLowerCase(),
+      );
+      if (preset) {
+        taxSlab = preset.rule;
+      } else {
+        errors.push(`Unknown GST slab "${gstSlab}"`);
+      }
+    }
+
+    let categoryId = existing?.attributes.categoryId;
+    const category = cell(row, "category");
+    if (category) {
+      const path = category
+        .split(">")
+        .map((part) => part.trim())
+        .join(" > ")
+        .toLowerCase();
+      categoryId = categoryIds.get(path);
+      if (categoryId === undefined) {
+        errors.push(`Category "${category}" does not exist`);
+      }
+    }
+
+    const term = (kind: TaxonomyTermKind, field: "brand" | "season") => {
+      const value = cell(row, field);
+      if (!value) return existing?.attributes[field] ?? "";
+      const match = termName(kind, value);
+      if (!match) errors.push(`${value} is not in the ${field} list`);
+      return match ?? "";
+    };
+    const brand = term(TaxonomyTermKind.brand, "brand");
+    const season = term(TaxonomyTermKind.season, "season");
+    const tags = cell(row, "tags");
+
+    const preview: ImportPreviewRow = {
+      rowNumber,
+      barcode,
+      name,
+      action: existing ? "update" : "create",
+      errors,
+    };
+    if (errors.length === 0 && price !== undefined) {
+      preview.input = {
+        barcode,
+        name,
+        description: text("description", existing?.description),
+        price,
+        wholesalePrice,
+        mrp,
+        costPrice,
+        stockLevel,
+        warehouse: text("warehouse", existing?.warehouse),
+        rack: text("rack", existing?.rack),
+        shelf: text("shelf", existing?.shelf),
+        size,
+        color,
+        hsnCode: text("hsnCode", existing?.hsnCode),
+        taxSlab,
+        attributes: {
+          categoryId,
+          brand,
+          season,
+          fabric: text("fabric", existing?.attributes.fabric),
+          tags: tags
+            ? Array.from(new Set(parseGridValues(tags)))
+            : (existing?.attributes.tags ?? []),
+        },
+      };
+    }
+    return preview;
+  });
+}
+
+/** CSV listing every row that was not imported and why. */
+export function buildImportErrorReport(
+  failures: {
+    rowNumber: number;
+    barcode: string;
+    name: string;
+    errors: string[];
+  }[],
+): Blob {
+  const csv = toCsv([
+    ["Row", "Barcode", "Name", "Errors"],
+    ...failures.map((failure) => [
+      failure.rowNumber.toString(),
+      failure.barcode,
+      failure.name,
+      failure.errors.join("; "),
+    ]),
+  ]);
+  return new Blob([`\uFEFF${csv}`], { type: "text/csv;charset=utf-8" });
+}
+
+/** Empty CSV with the recognised headers, as a starting point. */
+export function buildImportTemplate(): Blob {
+  const csv = toCsv([IMPORT_FIELDS.map((f) => f.label)]);
+  return new Blob([`\uFEFF${csv}`], { type: "text/csv;charset=utf-8" });
+}
@@ -0,0 +1,11 @@
+import type { Product } from "../backend";
+
+/**
+ * Pieces that can still be promised: on-hand stock less what open orders
+ * have reserved.
+ */
+export function getAvailableStock(
+  product: Pick<Product, "stockLevel" | "reservedStock">,
+): number {
+  return Math.max(0, Number(product.stockLevel - product.reservedStock));
+}
@@ -47,7 +47,9 @@ export function parseStockError(error: unknown): StockErrorResult {
 
   if (isInsufficientStock) {
     // Extract product and quantity info if available
-    const stockMatch = errorMessage.match(/current stock:\s*(\d+)/i);
+    const stockMatch = errorMessage.match(
+      /(?:current|available) stock:\s*(\d+)/i,
+    );
     const requestedMatch = errorMessage.match(/requested quantity:\s*(\d+)/i);
 
     let userMessage = "Insufficient stock available for this operation.";
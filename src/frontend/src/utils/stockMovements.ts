@@ -0,0 +1,30 @@
+import { StockMovementReason } from "../backend";
+
+/** Display names for stock movement reasons. */
+export const STOCK_MOVEMENT_REASON_LABELS: Record<StockMovementReason, string> =
+  {
+    [StockMovementReason.opening]: "Opening Stock",
+    [StockMovementReason.sale]: "Sale",
+    [StockMovementReason.purchase]: "Purchase",
+    [StockMovementReason.salesReturn]: "Return",
+    [StockMovementReason.damage]: "Damage",
+    [StockMovementReason.theft]: "Theft",
+    [StockMovementReason.correction]: "Correction",
+    [StockMovementReason.transfer]: "Transfer",
+  };
+
+/** Reasons that may be recorded by hand; the rest come from documents. */
+export const MANUAL_STOCK_REASONS: StockMovementReason[] = [
+  StockMovementReason.correction,
+  StockMovementReason.transfer,
+  StockMovementReason.damage,
+  StockMovementReason.theft,
+];
+
+/** Damage and theft can only ever take stock away. */
+export function isLossReason(reason: StockMovementReason): boolean {
+  return (
+    reason === StockMovementReason.damage ||
+    reason === StockMovementReason.theft
+  );
+}
@@ -0,0 +1,121 @@
+import type { Product, ProductAttributes, ProductCategory } from "../backend";
+import { parseGridValues } from "./variants";
+
+/** Attribute fields as edited in forms; "none" means no category. */
+export interface AttributeFormState {
+  categoryId: string;
+  brand: string;
+  season: string;
+  fabric: string;
+  tags: string;
+}
+
+export const emptyAttributeForm = (): AttributeFormState => ({
+  categoryId: "none",
+  brand: "",
+  season: "",
+  fabric: "",
+  tags: "",
+});
+
+export function toAttributeForm(
+  attributes: ProductAttributes,
+): AttributeFormState {
+  return {
+    categoryId:
+      attributes.categoryId === undefined
+        ? "none"
+        : attributes.categoryId.toString(),
+    brand: attributes.brand,
+    season: attributes.season,
+    fabric: attributes.fabric,
+    tags: attributes.tags.join(", "),
+  };
+}
+
+export function fromAttributeForm(form: AttributeFormState): ProductAttributes {
+  return {
+    categoryId:
+      form.categoryId === "none" ? undefined : BigInt(form.categoryId),
+    brand: form.brand,
+    season: form.season,
+    fabric: form.fabric.trim(),
+    tags: Array.from(new Set(parseGridValues(form.tags))),
+  };
+}
+
+/** Full path of a category, e.g. "Men > Shirts > Formal". */
+export function categoryPath(
+  categories: ProductCategory[],
+  categoryId: bigint | undefined,
+): string {
+  const names: string[] = [];
+  let current = categories.find((c) => c.categoryId === categoryId);
+  // The depth guard stops a malformed tree from looping forever
+  while (current && names.length < categories.length) {
+    names.unshift(current.name);
+    const parentId = current.parentId;
+    current =
+      parentId === undefined
+        ? undefined
+        : categories.find((c) => c.categoryId === parentId);
+  }
+  return names.join(" > ");
+}
+
+/** Every category with its path, sorted so each parent precedes its children. */
+export function categoryOptions(
+  categories: ProductCategory[],
+): { categoryId: bigint; path: string }[] {
+  return categories
+    .map((c) => ({
+      categoryId: c.categoryId,
+      path: categoryPath(categories, c.categoryId),
+    }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/** The category and all categories below it. */
+export function categoryWithDescendants(
+  categories: ProductCategory[],
+  categoryId: bigint,
+): Set<bigint> {
+  const ids = new Set<bigint>([categoryId]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const category of categories) {
+      if (
+        category.parentId !== undefined &&
+        ids.has(category.parentId) &&
+        !ids.has(category.categoryId)
+      ) {
+        ids.add(category.categoryId);
+        grew = true;
+      }
+    }
+  }
+  return ids;
+}
+
+export type AttributeGrouping = "category" | "brand" | "season" | "fabric";
+
+export const ATTRIBUTE_GROUPING_LABELS: Record<AttributeGrouping, string> = {
+  category: "Category",
+  brand: "Brand",
+  season: "Season",
+  fabric: "Fabric",
+};
+
+/** The group a product falls in for reports; blank values group as "Unassigned". */
+export function attributeGroup(
+  product: Product,
+  grouping: AttributeGrouping,
+  categories: ProductCategory[],
+): string {
+  const value =
+    grouping === "category"
+      ? categoryPath(categories, product.attributes.categoryId)
+      : product.attributes[grouping];
+  return value || "Unassigned";
+}
@@ -0,0 +1,26 @@
+import type { Product } from "../backend";
+
+/** Splits a comma-separated list of sizes or colours, dropping blanks. */
+export function parseGridValues(text: string): string[] {
+  return text
+    .split(",")
+    .map((value) => value.trim())
+    .filter((value) => value.length > 0);
+}
+
+/** The SKU for one size × colour cell of a style, if it exists. */
+export function findVariant(
+  products: Product[],
+  styleId: bigint,
+  size: string,
+  color: string,
+): Product | undefined {
+  return products.find(
+    (p) => p.styleId === styleId && p.size === size && p.color === color,
+  );
+}
+
+/** Key for per-cell grid state. */
+export function variantKey(size: string, color: string): string {
+  return `${size}\u0000${color}`;
+}